@@ -168,4 +168,22 @@ describe('calculateBandwidthMarkers', () => {
     expect(result.leftFreq).toBeNull();
     expect(result.rightFreq).toBeNull();
   });
+
+  it('depends on the sample rate near Nyquist', () => {
+    const band: EqBand = {
+      enabled: true,
+      type: 'Peaking',
+      freq: 15000,
+      gain: 6,
+      q: 2,
+    };
+
+    const at44 = calculateBandwidthMarkers(band, 44100);
+    const at96 = calculateBandwidthMarkers(band, 96000);
+
+    expect(at44.leftFreq).not.toBeNull();
+    expect(at96.leftFreq).not.toBeNull();
+    expect(Math.abs(at44.leftFreq! - at96.leftFreq!)).toBeGreaterThan(50);
+    expect(calculateBandwidthMarkers(band)).toEqual(calculateBandwidthMarkers(band, 48000));
+  });
 });
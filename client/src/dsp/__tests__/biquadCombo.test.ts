@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { butterworthSectionQs, comboSections, graphicEqFrequencies } from '../biquadCombo';
+import { bandResponseDb, type EqBand } from '../filterResponse';
+
+function combo(type: EqBand['type'], extra: Partial<EqBand> = {}): EqBand {
+  return { enabled: true, type, freq: 1000, gain: 0, q: 1, ...extra };
+}
+
+describe('biquadCombo', () => {
+  it('uses the Butterworth pole Qs', () => {
+    expect(butterworthSectionQs(2)[0]).toBeCloseTo(0.7071, 4);
+    const [q1, q2] = butterworthSectionQs(4);
+    expect(q1).toBeCloseTo(1.3066, 4);
+    expect(q2).toBeCloseTo(0.5412, 4);
+  });
+
+  it('adds a first-order section for odd Butterworth orders', () => {
+    const sections = comboSections(combo('ButterworthLowPass', { order: 3 }));
+    expect(sections.map((s) => s.type)).toEqual(['LowPass', 'LowPassFO']);
+  });
+
+  it('is -3 dB at a Butterworth corner and -6 dB at a Linkwitz-Riley corner', () => {
+    expect(bandResponseDb(1000, combo('ButterworthHighPass', { order: 5 }))).toBeCloseTo(-3.01, 1);
+    expect(bandResponseDb(1000, combo('LinkwitzRileyLowPass', { order: 4 }))).toBeCloseTo(-6.02, 1);
+    expect(bandResponseDb(1000, combo('LinkwitzRileyHighPass', { order: 2 }))).toBeCloseTo(-6.02, 1);
+  });
+
+  it('rolls off at 6 dB/oct per order', () => {
+    // Measured well below Nyquist, where the bilinear transform does not steepen the slope
+    const lr8 = combo('LinkwitzRileyLowPass', { freq: 50, order: 8 });
+    const slope = bandResponseDb(800, lr8) - bandResponseDb(1600, lr8);
+    expect(slope).toBeCloseTo(48, 0);
+  });
+
+  it('tilts by half the gain at each end', () => {
+    const tilt = combo('Tilt', { gain: 6 });
+    expect(bandResponseDb(20, tilt)).toBeCloseTo(-3, 0);
+    expect(bandResponseDb(20000, tilt)).toBeCloseTo(3, 0);
+  });
+
+  it('builds FivePointPeq from its five sections', () => {
+    const peq = combo('FivePointPeq', {
+      comboParameters: {
+        fls: 100, qls: 0.7, gls: 0,
+        fp1: 500, qp1: 2, gp1: 6,
+        fp2: 1000, qp2: 1, gp2: 0,
+        fp3: 3000, qp3: 1, gp3: 0,
+        fhs: 10000, qhs: 0.7, ghs: 0,
+      },
+    });
+    expect(comboSections(peq)).toHaveLength(5);
+    expect(bandResponseDb(500, peq)).toBeCloseTo(6, 1);
+  });
+
+  it('places GraphicEqualizer bands log-spaced and skips flat ones', () => {
+    const freqs = graphicEqFrequencies(10);
+    expect(freqs[0]).toBeCloseTo(20 * Math.pow(1000, 0.05), 3);
+    expect(freqs[9]).toBeCloseTo(20000 / Math.pow(1000, 0.05), 3);
+
+    const geq = combo('GraphicEqualizer', { comboParameters: { gains: [0, 0, 0, 0, 0, 4, 0, 0, 0, 0] } });
+    expect(comboSections(geq)).toHaveLength(1);
+    expect(bandResponseDb(freqs[5], geq)).toBeCloseTo(4, 5);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { compressorOutputDb, gainReductionDb, maxChannelLevelDb, noiseGateOutputDb } from '../dynamicsCurve';
+
+describe('compressorOutputDb', () => {
+  const params = { threshold: -20, factor: 4 };
+
+  it('is unity below threshold and divides the excess above it', () => {
+    expect(compressorOutputDb(-40, params)).toBe(-40);
+    expect(compressorOutputDb(-20, params)).toBe(-20);
+    expect(compressorOutputDb(0, params)).toBe(-15);
+  });
+
+  it('adds makeup gain before clipping', () => {
+    expect(compressorOutputDb(-40, { ...params, makeup_gain: 6 })).toBe(-34);
+    expect(compressorOutputDb(0, { ...params, makeup_gain: 20, clip_limit: -1 })).toBe(-1);
+    expect(compressorOutputDb(-40, { ...params, makeup_gain: 6, clip_limit: -1 })).toBe(-34);
+  });
+
+  it('soft clips towards the limit', () => {
+    const soft = { ...params, clip_limit: -6, soft_clip: true };
+    // Well below the limit the cubic term is negligible
+    expect(compressorOutputDb(-40, soft)).toBeCloseTo(-40, 2);
+    // At the limit: 1 - 4/27 → -1.4 dB
+    expect(compressorOutputDb(-6, { threshold: 0, factor: 1, clip_limit: -6, soft_clip: true })).toBeCloseTo(-7.39, 2);
+    // Saturates at the limit
+    expect(compressorOutputDb(20, { threshold: 0, factor: 1, clip_limit: -6, soft_clip: true })).toBeCloseTo(-6, 6);
+  });
+});
+
+describe('noiseGateOutputDb', () => {
+  it('attenuates below threshold for either sign of attenuation', () => {
+    expect(noiseGateOutputDb(-70, { threshold: -60, attenuation: -30 })).toBe(-100);
+    expect(noiseGateOutputDb(-70, { threshold: -60, attenuation: 30 })).toBe(-100);
+    expect(noiseGateOutputDb(-50, { threshold: -60, attenuation: -30 })).toBe(-50);
+  });
+});
+
+describe('gainReductionDb', () => {
+  it('reports compressor reduction without makeup gain', () => {
+    const params = { threshold: -20, factor: 4, makeup_gain: 6 };
+    expect(gainReductionDb('Compressor', params, -30)).toBe(0);
+    expect(gainReductionDb('Compressor', params, 0)).toBe(15);
+  });
+
+  it('includes clipping and gate attenuation', () => {
+    expect(gainReductionDb('Compressor', { threshold: 0, factor: 1, makeup_gain: 6, clip_limit: 0 }, -3)).toBe(3);
+    expect(gainReductionDb('NoiseGate', { threshold: -60, attenuation: -30 }, -70)).toBe(30);
+    expect(gainReductionDb('NoiseGate', { threshold: -60, attenuation: -30 }, -50)).toBe(0);
+  });
+
+  it('treats null options from the DSP as unset', () => {
+    const params = { threshold: -20, factor: 4, makeup_gain: null, clip_limit: null, soft_clip: null };
+    expect(gainReductionDb('Compressor', params, -30)).toBe(0);
+    expect(gainReductionDb('Compressor', params, 6)).toBe(19.5);
+  });
+});
+
+describe('maxChannelLevelDb', () => {
+  it('takes the loudest selected channel', () => {
+    expect(maxChannelLevelDb([-20, -10, -30])).toBe(-10);
+    expect(maxChannelLevelDb([-20, -10, -30], [0, 2])).toBe(-20);
+  });
+
+  it('returns null without readings', () => {
+    expect(maxChannelLevelDb([])).toBeNull();
+    expect(maxChannelLevelDb([-20], [3])).toBeNull();
+  });
+});
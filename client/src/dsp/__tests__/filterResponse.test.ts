@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bandResponseDb,
+  bandPhaseDeg,
+  bandGroupDelayMs,
+  sumPhaseDeg,
+  sumGroupDelayMs,
+  wrapPhaseDeg,
+  bandHasGain,
+  bandHasQ,
+  isDisplayOnlyBand,
+  type EqBand,
+} from '../filterResponse';
+
+function band(type: EqBand['type'], freq: number, q = 0.707, gain = 0): EqBand {
+  return { enabled: true, type, freq, gain, q };
+}
+
+describe('filterResponse', () => {
+  it('returns the band gain at the center of a peaking filter', () => {
+    expect(bandResponseDb(1000, band('Peaking', 1000, 1, 6))).toBeCloseTo(6, 5);
+  });
+
+  it('computes -90° at the corner of a lowpass and ±180° at the center of an allpass', () => {
+    expect(bandPhaseDeg(1000, band('LowPass', 1000))).toBeCloseTo(-90, 3);
+    expect(Math.abs(bandPhaseDeg(1000, band('AllPass', 1000)))).toBeCloseTo(180, 3);
+  });
+
+  it('matches the analog allpass group delay at its center frequency', () => {
+    // τ(f0) = 2Q / (π f0) for a 2nd-order allpass
+    const expectedMs = ((2 * 0.707) / (Math.PI * 1000)) * 1000;
+    expect(bandGroupDelayMs(1000, band('AllPass', 1000))).toBeCloseTo(expectedMs, 2);
+  });
+
+  it('agrees with the numerical derivative of the phase', () => {
+    const shelf = band('LowShelf', 200, 0.7, 8);
+    const f = 150;
+    const df = 0.01;
+    const dPhaseRad = ((bandPhaseDeg(f + df, shelf) - bandPhaseDeg(f - df, shelf)) * Math.PI) / 180;
+    const numericMs = (-dPhaseRad / (2 * Math.PI * 2 * df)) * 1000;
+
+    expect(bandGroupDelayMs(f, shelf)).toBeCloseTo(numericMs, 4);
+  });
+
+  it('scales with the sample rate', () => {
+    const lp = band('LowPass', 15000);
+    expect(bandPhaseDeg(10000, lp, 44100)).not.toBeCloseTo(bandPhaseDeg(10000, lp, 96000), 1);
+  });
+
+  it('ignores disabled bands in sums', () => {
+    const bands = [band('LowPass', 1000), { ...band('AllPass', 500), enabled: false }];
+
+    expect(sumPhaseDeg(1000, bands)).toBeCloseTo(-90, 3);
+    expect(sumGroupDelayMs(1000, bands)).toBeCloseTo(bandGroupDelayMs(1000, bands[0]), 10);
+  });
+
+  it('wraps phase to -180..180', () => {
+    expect(wrapPhaseDeg(270)).toBe(-90);
+    expect(wrapPhaseDeg(-270)).toBe(90);
+    expect(wrapPhaseDeg(180)).toBe(180);
+    expect(wrapPhaseDeg(-180)).toBe(-180);
+  });
+
+  it('reaches the full shelf gain at the far end of first-order shelves', () => {
+    expect(bandResponseDb(20, band('LowShelfFO', 1000, 0.707, 6))).toBeCloseTo(6, 1);
+    expect(bandResponseDb(20000, band('LowShelfFO', 1000, 0.707, 6))).toBeCloseTo(0, 1);
+    expect(bandResponseDb(20, band('HighShelfFO', 1000, 0.707, -6))).toBeCloseTo(0, 1);
+    expect(bandResponseDb(20000, band('HighShelfFO', 100, 0.707, -6))).toBeCloseTo(-6, 1);
+  });
+
+  it('is -3 dB and -45° at the corner of a first-order lowpass', () => {
+    expect(bandResponseDb(1000, band('LowPassFO', 1000))).toBeCloseTo(-3.01, 2);
+    expect(bandPhaseDeg(1000, band('LowPassFO', 1000))).toBeCloseTo(-45, 3);
+    expect(bandResponseDb(1000, band('HighPassFO', 1000))).toBeCloseTo(-3.01, 2);
+    expect(bandResponseDb(300, band('AllPassFO', 1000))).toBeCloseTo(0, 10);
+  });
+
+  it('places GeneralNotch zeros at freq and normalizes at DC on request', () => {
+    const notch: EqBand = { ...band('GeneralNotch', 1000, 2), freqP: 2000 };
+    expect(bandResponseDb(1000, notch)).toBeLessThan(-60);
+    expect(bandResponseDb(1, notch)).toBeLessThan(-10);
+    expect(bandResponseDb(1, { ...notch, normalizeAtDc: true })).toBeCloseTo(0, 3);
+  });
+
+  it('boosts the bass of a LinkwitzTransform by the squared frequency ratio', () => {
+    const lt: EqBand = { ...band('LinkwitzTransform', 50, 0.8), freqTarget: 25, qTarget: 0.5 };
+    // DC gain (f_act / f_target)² = 4 → +12 dB; unity well above both frequencies
+    expect(bandResponseDb(1, lt)).toBeCloseTo(12.04, 1);
+    expect(bandResponseDb(5000, lt)).toBeCloseTo(0, 1);
+  });
+
+  it('plots Free biquads from their coefficients', () => {
+    const free: EqBand = {
+      ...band('Free', 1000),
+      coefficients: { a1: 0, a2: 0, b0: 0.5, b1: 0, b2: 0 },
+    };
+    expect(bandResponseDb(1000, free)).toBeCloseTo(-6.02, 2);
+    expect(bandResponseDb(1000, { ...free, coefficients: undefined })).toBe(0);
+  });
+
+  it('reports which parameters each type uses', () => {
+    expect(bandHasGain('HighShelfFO')).toBe(true);
+    expect(bandHasGain('LinkwitzTransform')).toBe(false);
+    expect(bandHasQ('LowPassFO')).toBe(false);
+    expect(bandHasQ('GeneralNotch')).toBe(true);
+    expect(isDisplayOnlyBand('Free')).toBe(true);
+    expect(isDisplayOnlyBand('Peaking')).toBe(false);
+  });
+});
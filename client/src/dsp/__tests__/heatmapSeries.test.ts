@@ -117,4 +117,9 @@ describe('getEffectiveAnalyzerTau', () => {
     expect(result.tauShort).toBe(0.8);
     expect(result.tauLong).toBe(8.0);
   });
+
+  it('scales user time constants for high precision', () => {
+    expect(getEffectiveAnalyzerTau(false, { tauShort: 0.4, tauLong: 30 })).toEqual({ tauShort: 0.4, tauLong: 30 });
+    expect(getEffectiveAnalyzerTau(true, { tauShort: 0.4, tauLong: 30 })).toEqual({ tauShort: 1, tauLong: 60 });
+  });
 });
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { decodeRawImpulse, decodeWavImpulse, fft, impulseMagnitudeDb } from '../impulseResponse';
+
+/**
+ * Build a 16-bit PCM WAV with interleaved channels
+ */
+function makeWav(frames: number[][], sampleRate = 44100): ArrayBuffer {
+  const channels = frames[0].length;
+  const dataSize = frames.length * channels * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const ascii = (offset: number, text: string) =>
+    [...text].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, 'data');
+  view.setUint32(40, dataSize, true);
+  frames.flat().forEach((sample, i) => view.setInt16(44 + i * 2, Math.round(sample * 0x8000), true));
+  return buffer;
+}
+
+describe('decodeWavImpulse', () => {
+  it('decodes the requested channel', () => {
+    const wav = makeWav([
+      [0.5, -0.25],
+      [0, 0.125],
+    ]);
+
+    const right = decodeWavImpulse(wav, 1);
+    expect(Array.from(right.samples)).toEqual([-0.25, 0.125]);
+    expect(right.channels).toBe(2);
+    expect(right.sampleRate).toBe(44100);
+    expect(Array.from(decodeWavImpulse(wav).samples)).toEqual([0.5, 0]);
+  });
+
+  it('rejects missing channels and non-WAV data', () => {
+    expect(() => decodeWavImpulse(makeWav([[1]]), 1)).toThrow('WAV file has no channel 1 (1 channels)');
+    expect(() => decodeWavImpulse(new TextEncoder().encode('1\n0\n').buffer)).toThrow('Not a WAV file');
+  });
+});
+
+describe('decodeRawImpulse', () => {
+  it('reads text files line by line', () => {
+    const text = new TextEncoder().encode('# header\n1.0\n0.5\r\n\n0.25\n').buffer;
+    expect(Array.from(decodeRawImpulse(text, 'TEXT', 1))).toEqual([1, 0.5, 0.25]);
+    expect(Array.from(decodeRawImpulse(text, 'TEXT', 1, 2))).toEqual([1, 0.5]);
+    expect(() => decodeRawImpulse(text)).toThrow('Invalid coefficient on line 1: "# header"');
+  });
+
+  it('reads binary formats with byte offsets', () => {
+    const floats = new Float64Array([0, 1, -0.5]).buffer;
+    expect(Array.from(decodeRawImpulse(floats, 'FLOAT64LE', 8))).toEqual([1, -0.5]);
+
+    const packed = new Uint8Array([0x00, 0x00, 0x40, 0x00, 0x00, 0xc0]).buffer;
+    expect(Array.from(decodeRawImpulse(packed, 'S24LE3'))).toEqual([0.5, -0.5]);
+
+    expect(() => decodeRawImpulse(floats, 'MP3')).toThrow('Unsupported Raw format "MP3"');
+  });
+});
+
+describe('fft', () => {
+  it('matches the DFT of a short signal', () => {
+    const re = new Float64Array([1, 2, 3, 4]);
+    const im = new Float64Array(4);
+    fft(re, im);
+
+    [10, -2, -2, -2].forEach((value, i) => expect(re[i]).toBeCloseTo(value, 10));
+    [0, 2, 0, -2].forEach((value, i) => expect(im[i]).toBeCloseTo(value, 10));
+  });
+});
+
+describe('impulseMagnitudeDb', () => {
+  it('is flat for a unit impulse and scales with gain', () => {
+    const freqs = [20, 1000, 20000];
+    impulseMagnitudeDb([1], 48000, freqs).forEach((db) => expect(db).toBeCloseTo(0, 6));
+    impulseMagnitudeDb([0.5], 48000, freqs).forEach((db) => expect(db).toBeCloseTo(-6.02, 2));
+  });
+
+  it('shows the comb of an impulse plus its echo', () => {
+    // h = δ[n] + δ[n-1]: |H| = 2|cos(πf/fs)|, +6 dB at DC and a null at Nyquist
+    const [low, quarter, nyquist] = impulseMagnitudeDb([1, 1], 48000, [1, 12000, 24000]);
+    expect(low).toBeCloseTo(6.02, 2);
+    expect(quarter).toBeCloseTo(3.01, 2);
+    expect(nyquist).toBeLessThan(-100);
+  });
+});
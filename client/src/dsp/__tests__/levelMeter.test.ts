@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { METER_FLOOR_DB, resetClipIndicators, updateChannelMeters } from '../levelMeter';
+
+describe('updateChannelMeters', () => {
+  it('starts with the peak held at the live peak', () => {
+    const meters = updateChannelMeters(null, [-6, -1000], [-12, -1000], 0, 0);
+
+    expect(meters[0]).toMatchObject({ peakDb: -6, rmsDb: -12, peakHoldDb: -6, clipped: false });
+    expect(meters[1].peakDb).toBe(METER_FLOOR_DB);
+  });
+
+  it('holds the peak, then decays towards the live peak', () => {
+    let meters = updateChannelMeters(null, [-6], [-12], 0, 0);
+    meters = updateChannelMeters(meters, [-30], [-36], 1000, 1);
+    expect(meters[0].peakHoldDb).toBe(-6);
+
+    // 20 dB/s after the 1.5 s hold
+    meters = updateChannelMeters(meters, [-30], [-36], 2000, 0.5);
+    expect(meters[0].peakHoldDb).toBe(-16);
+    meters = updateChannelMeters(meters, [-30], [-36], 3000, 1);
+    expect(meters[0].peakHoldDb).toBe(-30);
+  });
+
+  it('latches clips until reset', () => {
+    let meters = updateChannelMeters(null, [0], [-3], 0, 0);
+    expect(meters[0].clipped).toBe(true);
+
+    meters = updateChannelMeters(meters, [-20], [-26], 100, 0.1);
+    expect(meters[0].clipped).toBe(true);
+
+    meters = resetClipIndicators(meters);
+    expect(meters[0].clipped).toBe(false);
+    expect(meters[0].peakHoldDb).toBe(0);
+  });
+
+  it('restarts when the channel count changes', () => {
+    const stereo = updateChannelMeters(null, [0, 0], [-3, -3], 0, 0);
+    const mono = updateChannelMeters(stereo, [-20], [-26], 100, 0.1);
+
+    expect(mono).toHaveLength(1);
+    expect(mono[0]).toMatchObject({ peakHoldDb: -20, clipped: false });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { SpectrumAnalyzer } from '../spectrumAnalyzer';
+
+describe('SpectrumAnalyzer', () => {
+  it('averages STA/LTA as an EMA of dB values by default', () => {
+    const analyzer = new SpectrumAnalyzer();
+    analyzer.update([-20], 0);
+    analyzer.update([-40], 100);
+
+    const alpha = Math.exp(-0.1 / 0.8);
+    const state = analyzer.getState();
+    expect(state.staDb![0]).toBeCloseTo(alpha * -20 + (1 - alpha) * -40, 6);
+    expect(state.averageCount).toBe(2);
+  });
+
+  it('averages linear power in power mode', () => {
+    const analyzer = new SpectrumAnalyzer({ averagingMode: 'power', infiniteAverage: true });
+    analyzer.update([0], 0);
+    analyzer.update([-100], 100);
+
+    // Mean of 1 and 1e-10 in power is half the power: -3 dB (the dB mean would be -50)
+    expect(analyzer.getState().ltaDb![0]).toBeCloseTo(-3.01, 2);
+  });
+
+  it('keeps a running mean of all frames in infinite mode', () => {
+    const analyzer = new SpectrumAnalyzer({ infiniteAverage: true });
+    [-10, -20, -30, -40].forEach((db, i) => analyzer.update([db], i * 100));
+
+    const state = analyzer.getState();
+    expect(state.ltaDb![0]).toBeCloseTo(-25, 6);
+    expect(state.averageCount).toBe(4);
+  });
+
+  it('restarts the averages on reset but keeps the peak', () => {
+    const analyzer = new SpectrumAnalyzer({ infiniteAverage: true });
+    analyzer.update([-10], 0);
+    analyzer.update([-30], 100);
+    analyzer.resetAverages();
+
+    let state = analyzer.getState();
+    expect(state.averageCount).toBe(1);
+    expect(state.ltaDb![0]).toBe(-30);
+    expect(state.peakDb![0]).toBe(-10);
+
+    analyzer.update([-50], 200);
+    state = analyzer.getState();
+    expect(state.ltaDb![0]).toBeCloseTo(-40, 6);
+  });
+
+  it('restarts the averages when the averaging mode changes', () => {
+    const analyzer = new SpectrumAnalyzer();
+    analyzer.update([-10], 0);
+    analyzer.update([-30], 100);
+
+    analyzer.updateConfig({ tauLong: 4 });
+    expect(analyzer.getState().averageCount).toBe(2);
+
+    analyzer.updateConfig({ averagingMode: 'power' });
+    const state = analyzer.getState();
+    expect(state.averageCount).toBe(1);
+    expect(state.staDb![0]).toBe(-30);
+  });
+});
@@ -4,7 +4,7 @@
  */
 
 import type { EqBand } from './filterResponse';
-import { bandResponseDb } from './filterResponse';
+import { bandResponseDb, DEFAULT_SAMPLE_RATE } from './filterResponse';
 
 export interface BandwidthMarkers {
   leftFreq: number | null;  // Hz
@@ -20,8 +20,12 @@ export interface BandwidthMarkers {
  * - Notch (has two -3 dB points around notch)
  * 
  * Returns null for unsupported types (shelves, HP/LP, BP, AllPass)
+ * The search stays below Nyquist for the given sample rate
  */
-export function calculateBandwidthMarkers(band: EqBand): BandwidthMarkers {
+export function calculateBandwidthMarkers(
+  band: EqBand,
+  sampleRate = DEFAULT_SAMPLE_RATE
+): BandwidthMarkers {
   // Only support Peaking and Notch
   if (band.type !== 'Peaking' && band.type !== 'Notch') {
     return { leftFreq: null, rightFreq: null };
@@ -41,13 +45,13 @@ export function calculateBandwidthMarkers(band: EqBand): BandwidthMarkers {
   const searchSpan = approxBandwidth * 3; // 3x for safety
 
   const fMin = Math.max(20, f0 - searchSpan);
-  const fMax = Math.min(20000, f0 + searchSpan);
+  const fMax = Math.min(20000, sampleRate / 2 - 1, f0 + searchSpan);
 
   // Find left crossing (below f0)
-  const leftFreq = findCrossing(band, targetDb, fMin, f0);
+  const leftFreq = findCrossing(band, targetDb, fMin, f0, sampleRate);
 
   // Find right crossing (above f0)
-  const rightFreq = findCrossing(band, targetDb, f0, fMax);
+  const rightFreq = findCrossing(band, targetDb, f0, fMax, sampleRate);
 
   return { leftFreq, rightFreq };
 }
@@ -60,14 +64,15 @@ function findCrossing(
   band: EqBand,
   targetDb: number,
   fStart: number,
-  fEnd: number
+  fEnd: number,
+  sampleRate: number
 ): number | null {
   const MAX_ITERATIONS = 30;
   const TOLERANCE = 0.1; // Hz
 
   // Sample at start and end
-  const responseStart = bandResponseDb(fStart, band);
-  const responseEnd = bandResponseDb(fEnd, band);
+  const responseStart = bandResponseDb(fStart, band, sampleRate);
+  const responseEnd = bandResponseDb(fEnd, band, sampleRate);
 
   // Check if crossing exists in range
   // For peaking: response should straddle target (one above, one below)
@@ -86,7 +91,7 @@ function findCrossing(
 
   for (let i = 0; i < MAX_ITERATIONS; i++) {
     const mid = (left + right) / 2;
-    const responseMid = bandResponseDb(mid, band);
+    const responseMid = bandResponseDb(mid, band, sampleRate);
 
     if (Math.abs(responseMid - targetDb) < 0.01) {
       // Close enough to target
@@ -99,7 +104,7 @@ function findCrossing(
     }
 
     // Decide which half to search
-    const responseLeft = bandResponseDb(left, band);
+    const responseLeft = bandResponseDb(left, band, sampleRate);
     if ((responseLeft > targetDb) === (responseMid > targetDb)) {
       // Same sign, crossing is in right half
       left = mid;
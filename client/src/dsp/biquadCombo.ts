@@ -0,0 +1,121 @@
+/**
+ * BiquadCombo expansion
+ * CamillaDSP builds these filters from cascaded biquads; the same sections are
+ * used here so combo responses come from the regular biquad math
+ */
+
+import type { EqBand } from './filterResponse';
+
+// Tilt is a first-order low shelf and high shelf, each with half the gain
+const TILT_LOW_FREQ = 110;
+const TILT_HIGH_FREQ = 3500;
+
+/**
+ * Q of each second-order section of an order-N Butterworth filter
+ * Odd orders add one first-order section (not listed here)
+ */
+export function butterworthSectionQs(order: number): number[] {
+  const qs: number[] = [];
+  for (let k = 0; k < Math.floor(order / 2); k++) {
+    const theta = ((2 * k + 1) * Math.PI) / (2 * order);
+    qs.push(1 / (2 * Math.sin(theta)));
+  }
+  return qs;
+}
+
+function butterworthSections(highpass: boolean, freq: number, order: number): EqBand[] {
+  const sections: EqBand[] = butterworthSectionQs(order).map((q) => ({
+    enabled: true,
+    type: highpass ? 'HighPass' : 'LowPass',
+    freq,
+    gain: 0,
+    q,
+  }));
+
+  if (order % 2 === 1) {
+    sections.push({ enabled: true, type: highpass ? 'HighPassFO' : 'LowPassFO', freq, gain: 0, q: 0.707 });
+  }
+
+  return sections;
+}
+
+/**
+ * Q of a peaking section spanning `octaves` (RBJ bandwidth relation)
+ */
+function bandwidthToQ(octaves: number): number {
+  return 1 / (2 * Math.sinh((Math.LN2 / 2) * octaves));
+}
+
+/**
+ * Center frequencies of a GraphicEqualizer's bands (log-spaced between freq_min and freq_max)
+ */
+export function graphicEqFrequencies(bandCount: number, freqMin = 20, freqMax = 20000): number[] {
+  const logMin = Math.log2(freqMin);
+  const step = (Math.log2(freqMax) - logMin) / bandCount;
+  return Array.from({ length: bandCount }, (_, i) => Math.pow(2, logMin + (i + 0.5) * step));
+}
+
+/**
+ * Expand a combo band into the biquad sections CamillaDSP would run
+ * Returns an empty list for non-combo bands
+ */
+export function comboSections(band: EqBand): EqBand[] {
+  const order = band.order ?? 2;
+
+  switch (band.type) {
+    case 'ButterworthHighPass':
+    case 'ButterworthLowPass':
+      return butterworthSections(band.type === 'ButterworthHighPass', band.freq, order);
+
+    case 'LinkwitzRileyHighPass':
+    case 'LinkwitzRileyLowPass': {
+      // Two cascaded Butterworth filters of half the order
+      const half = butterworthSections(band.type === 'LinkwitzRileyHighPass', band.freq, order / 2);
+      return [...half, ...half];
+    }
+
+    case 'Tilt':
+      return [
+        { enabled: true, type: 'LowShelfFO', freq: TILT_LOW_FREQ, gain: -band.gain / 2, q: 0.707 },
+        { enabled: true, type: 'HighShelfFO', freq: TILT_HIGH_FREQ, gain: band.gain / 2, q: 0.707 },
+      ];
+
+    case 'FivePointPeq': {
+      const p = band.comboParameters ?? {};
+      const section = (type: EqBand['type'], key: string): EqBand => ({
+        enabled: true,
+        type,
+        freq: Number(p[`f${key}`] ?? 1000),
+        gain: Number(p[`g${key}`] ?? 0),
+        q: Number(p[`q${key}`] ?? 0.707),
+      });
+      return [
+        section('LowShelf', 'ls'),
+        section('Peaking', 'p1'),
+        section('Peaking', 'p2'),
+        section('Peaking', 'p3'),
+        section('HighShelf', 'hs'),
+      ];
+    }
+
+    case 'GraphicEqualizer': {
+      const p = band.comboParameters ?? {};
+      const gains = Array.isArray(p.gains) ? p.gains.map(Number) : [];
+      if (gains.length === 0) {
+        return [];
+      }
+
+      const freqMin = Number(p.freq_min ?? 20);
+      const freqMax = Number(p.freq_max ?? 20000);
+      const q = bandwidthToQ((Math.log2(freqMax) - Math.log2(freqMin)) / gains.length);
+
+      // Bands set to (nearly) 0 dB are left out, as in CamillaDSP
+      return graphicEqFrequencies(gains.length, freqMin, freqMax)
+        .map((freq, i): EqBand => ({ enabled: true, type: 'Peaking', freq, gain: gains[i], q }))
+        .filter((section) => Math.abs(section.gain) > 0.01);
+    }
+
+    default:
+      return [];
+  }
+}
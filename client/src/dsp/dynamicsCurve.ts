@@ -0,0 +1,92 @@
+/**
+ * Static input/output transfer curves of CamillaDSP's dynamics processors
+ * (steady-state levels only; attack/release shape how fast the curve is followed)
+ */
+
+export interface CompressorCurveParams {
+  threshold: number;
+  factor: number;
+  makeup_gain?: number;
+  clip_limit?: number;
+  soft_clip?: boolean;
+}
+
+export interface NoiseGateCurveParams {
+  threshold: number;
+  attenuation: number;
+}
+
+// Soft clipping reaches the clip limit at 1.5× the limit (+3.5 dB)
+const SOFT_CLIP_KNEE = 1.5;
+
+/**
+ * Cubic soft clip of a level relative to the clip limit (x − 4/27·x³, flat above 1.5)
+ */
+function softClipDb(levelDb: number, limitDb: number): number {
+  const x = Math.min(10 ** ((levelDb - limitDb) / 20), SOFT_CLIP_KNEE);
+  return limitDb + 20 * Math.log10(x - (4 / 27) * x ** 3);
+}
+
+/**
+ * Compressor output level (dB) for a steady input level
+ * Above threshold the excess is divided by factor; makeup gain is added, then the
+ * clip limit (when set) is applied, hard or soft
+ */
+export function compressorOutputDb(inputDb: number, params: CompressorCurveParams): number {
+  const factor = Math.max(1, params.factor);
+  const compressed =
+    inputDb > params.threshold ? params.threshold + (inputDb - params.threshold) / factor : inputDb;
+  const output = compressed + (params.makeup_gain ?? 0);
+
+  if (params.clip_limit == null) {
+    return output;
+  }
+  return params.soft_clip ? softClipDb(output, params.clip_limit) : Math.min(output, params.clip_limit);
+}
+
+/**
+ * Noise gate output level (dB) for a steady input level
+ * Below threshold the signal is attenuated by |attenuation| dB
+ */
+export function noiseGateOutputDb(inputDb: number, params: NoiseGateCurveParams): number {
+  return inputDb < params.threshold ? inputDb - Math.abs(params.attenuation) : inputDb;
+}
+
+/**
+ * Gain reduction (dB, ≥ 0) the static curve applies at an input level
+ * For compressors this excludes makeup gain, so it reads like a hardware GR meter
+ */
+export function gainReductionDb(
+  processorType: string,
+  params: Record<string, any>,
+  inputDb: number
+): number {
+  if (processorType === 'NoiseGate') {
+    const output = noiseGateOutputDb(inputDb, {
+      threshold: Number(params.threshold ?? -60),
+      attenuation: Number(params.attenuation ?? -60),
+    });
+    return inputDb - output;
+  }
+
+  const makeup = Number(params.makeup_gain ?? 0);
+  const output = compressorOutputDb(inputDb, {
+    threshold: Number(params.threshold ?? -20),
+    factor: Number(params.factor ?? 2),
+    makeup_gain: makeup,
+    clip_limit: params.clip_limit != null ? Number(params.clip_limit) : undefined,
+    soft_clip: Boolean(params.soft_clip),
+  });
+  return Math.max(0, inputDb + makeup - output);
+}
+
+/**
+ * Loudest level among the selected channels (all channels when the list is missing)
+ * Returns null when none of the channels has a reading
+ */
+export function maxChannelLevelDb(levels: number[], channels?: number[]): number | null {
+  const selected = (channels ?? levels.map((_, i) => i))
+    .map((channel) => levels[channel])
+    .filter((level): level is number => typeof level === 'number' && Number.isFinite(level));
+  return selected.length > 0 ? Math.max(...selected) : null;
+}
@@ -1,68 +1,193 @@
 /**
- * Filter frequency response calculations
- * Based on RBJ Audio EQ Cookbook formulas for biquad filters
+ * Filter frequency response calculations (magnitude, phase, group delay)
+ * Based on RBJ Audio EQ Cookbook formulas for biquad filters, plus the
+ * first-order, GeneralNotch, LinkwitzTransform and Free variants of CamillaDSP.
+ * BiquadCombo bands are evaluated as their cascaded sections (see biquadCombo.ts)
  */
 
+import { comboSections } from './biquadCombo';
+
 export interface EqBand {
   enabled: boolean;
-  type: 'Peaking' | 'LowShelf' | 'HighShelf' | 'LowPass' | 'HighPass' | 'BandPass' | 'Notch' | 'AllPass';
-  freq: number;  // Hz
-  gain: number;  // dB (only applicable for Peaking, LowShelf, HighShelf)
-  q: number;
+  type:
+    | 'Peaking'
+    | 'LowShelf'
+    | 'HighShelf'
+    | 'LowPass'
+    | 'HighPass'
+    | 'BandPass'
+    | 'Notch'
+    | 'AllPass'
+    | 'LowShelfFO'
+    | 'HighShelfFO'
+    | 'LowPassFO'
+    | 'HighPassFO'
+    | 'AllPassFO'
+    | 'GeneralNotch'
+    | 'LinkwitzTransform'
+    | 'Free'
+    | 'ButterworthHighPass'
+    | 'ButterworthLowPass'
+    | 'LinkwitzRileyHighPass'
+    | 'LinkwitzRileyLowPass'
+    | 'Tilt'
+    | 'FivePointPeq'
+    | 'GraphicEqualizer';
+  freq: number;  // Hz (zero frequency for GeneralNotch, actual frequency for LinkwitzTransform)
+  gain: number;  // dB (only applicable for types where bandHasGain is true)
+  q: number;     // Pole Q for GeneralNotch, actual Q for LinkwitzTransform
+  freqP?: number;           // GeneralNotch pole frequency (Hz)
+  normalizeAtDc?: boolean;  // GeneralNotch: unity gain at DC instead of Nyquist
+  freqTarget?: number;      // LinkwitzTransform target frequency (Hz)
+  qTarget?: number;         // LinkwitzTransform target Q
+  coefficients?: FreeCoefficients; // Free biquad (display-only)
+  order?: number;           // Butterworth / Linkwitz-Riley combo order
+  comboParameters?: Record<string, any>; // FivePointPeq / GraphicEqualizer parameters (display-only)
+}
+
+/**
+ * Raw coefficients of a CamillaDSP Free biquad (a0 is normalized to 1)
+ */
+export interface FreeCoefficients {
+  a1: number;
+  a2: number;
+  b0: number;
+  b1: number;
+  b2: number;
 }
 
-const SAMPLE_RATE = 48000;
+const GAIN_TYPES = new Set<EqBand['type']>(['Peaking', 'LowShelf', 'HighShelf', 'LowShelfFO', 'HighShelfFO', 'Tilt']);
+const COMBO_TYPES = new Set<EqBand['type']>([
+  'ButterworthHighPass',
+  'ButterworthLowPass',
+  'LinkwitzRileyHighPass',
+  'LinkwitzRileyLowPass',
+  'Tilt',
+  'FivePointPeq',
+  'GraphicEqualizer',
+]);
+const NO_Q_TYPES = new Set<EqBand['type']>([
+  'LowShelfFO',
+  'HighShelfFO',
+  'LowPassFO',
+  'HighPassFO',
+  'AllPassFO',
+  'Free',
+  ...COMBO_TYPES,
+]);
 
 /**
- * Calculate biquad filter magnitude response
- * Common helper for computing |H(w)| from biquad coefficients
+ * Whether the band type has a gain parameter
  */
-function biquadMagnitudeDb(
-  freqHz: number,
-  b0: number,
-  b1: number,
-  b2: number,
-  a0: number,
-  a1: number,
-  a2: number
-): number {
-  const w = (2 * Math.PI * freqHz) / SAMPLE_RATE;
+export function bandHasGain(type: EqBand['type']): boolean {
+  return GAIN_TYPES.has(type);
+}
+
+/**
+ * Whether the band type has a Q parameter
+ */
+export function bandHasQ(type: EqBand['type']): boolean {
+  return !NO_Q_TYPES.has(type);
+}
+
+/**
+ * Whether the band type has a frequency parameter (Tilt is fixed at 110 Hz / 3.5 kHz)
+ */
+export function bandHasFreq(type: EqBand['type']): boolean {
+  return type !== 'Tilt' && !isDisplayOnlyBand(type);
+}
+
+/**
+ * Whether the band is a BiquadCombo filter (several cascaded biquads)
+ */
+export function isComboBand(type: EqBand['type']): boolean {
+  return COMBO_TYPES.has(type);
+}
+
+/**
+ * Free biquads, FivePointPeq and GraphicEqualizer combos are plotted but cannot be
+ * edited on the EQ plot (no single freq/gain/Q to drive)
+ */
+export function isDisplayOnlyBand(type: EqBand['type']): boolean {
+  return type === 'Free' || type === 'FivePointPeq' || type === 'GraphicEqualizer';
+}
+
+/**
+ * Sample rate used when the config does not specify one (CamillaDSP's usual default)
+ * Curves depend on the rate: the bilinear transform warps the response towards Nyquist
+ */
+export const DEFAULT_SAMPLE_RATE = 48000;
 
+interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a0: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * Evaluate a 2nd-order polynomial p0 + p1*e^(-jw) + p2*e^(-j2w)
+ * Also returns the polynomial's group delay in samples: Re(Σ k·p_k·e^(-jkw) / P)
+ */
+function evaluatePolynomial(
+  p0: number,
+  p1: number,
+  p2: number,
+  w: number
+): { re: number; im: number; delaySamples: number } {
   const cosW = Math.cos(w);
   const sinW = Math.sin(w);
   const cos2W = Math.cos(2 * w);
   const sin2W = Math.sin(2 * w);
 
-  // Numerator: b0 + b1*e^(-jw) + b2*e^(-j2w)
-  const numReal = b0 + b1 * cosW + b2 * cos2W;
-  const numImag = -b1 * sinW - b2 * sin2W;
-
-  // Denominator: a0 + a1*e^(-jw) + a2*e^(-j2w)
-  const denReal = a0 + a1 * cosW + a2 * cos2W;
-  const denImag = -a1 * sinW - a2 * sin2W;
+  const re = p0 + p1 * cosW + p2 * cos2W;
+  const im = -p1 * sinW - p2 * sin2W;
 
-  // Magnitude |H(w)| = |num| / |den|
-  const numMag = Math.sqrt(numReal * numReal + numImag * numImag);
-  const denMag = Math.sqrt(denReal * denReal + denImag * denImag);
+  // Weighted sum Σ k·p_k·e^(-jkw)
+  const wRe = p1 * cosW + 2 * p2 * cos2W;
+  const wIm = -p1 * sinW - 2 * p2 * sin2W;
 
-  const magnitude = numMag / denMag;
+  const magSq = re * re + im * im;
+  const delaySamples = magSq > 1e-18 ? (wRe * re + wIm * im) / magSq : 0;
 
-  // Convert to dB
-  return 20 * Math.log10(magnitude);
+  return { re, im, delaySamples };
 }
 
 /**
- * Calculate filter response at a given frequency
- * Uses RBJ Audio EQ Cookbook formulas for all biquad filter types
+ * Complex response H(e^jw) of a biquad, with its group delay in samples
  */
-export function bandResponseDb(freqHz: number, band: EqBand): number {
-  if (!band.enabled) {
-    return 0;
-  }
+function biquadComplexResponse(
+  freqHz: number,
+  c: BiquadCoefficients,
+  sampleRate: number
+): { re: number; im: number; delaySamples: number } {
+  const w = (2 * Math.PI * freqHz) / sampleRate;
+
+  // Numerator: b0 + b1*e^(-jw) + b2*e^(-j2w)
+  const num = evaluatePolynomial(c.b0, c.b1, c.b2, w);
+  // Denominator: a0 + a1*e^(-jw) + a2*e^(-j2w)
+  const den = evaluatePolynomial(c.a0, c.a1, c.a2, w);
+
+  // H = num / den
+  const denMagSq = den.re * den.re + den.im * den.im;
+  return {
+    re: (num.re * den.re + num.im * den.im) / denMagSq,
+    im: (num.im * den.re - num.re * den.im) / denMagSq,
+    delaySamples: num.delaySamples - den.delaySamples,
+  };
+}
 
+/**
+ * Biquad coefficients for a band
+ * Uses RBJ Audio EQ Cookbook formulas for the second-order types and the
+ * CamillaDSP formulas for the first-order, GeneralNotch and LinkwitzTransform types
+ */
+function biquadCoefficients(band: EqBand, sampleRate: number): BiquadCoefficients | null {
   const f0 = band.freq;
   const Q = band.q;
-  const w0 = (2 * Math.PI * f0) / SAMPLE_RATE;
+  const w0 = (2 * Math.PI * f0) / sampleRate;
   const alpha = Math.sin(w0) / (2 * Q);
 
   let b0: number, b1: number, b2: number;
@@ -161,11 +286,177 @@ export function bandResponseDb(freqHz: number, band: EqBand): number {
       break;
     }
 
+    case 'LowPassFO': {
+      const K = Math.tan(w0 / 2);
+      b0 = K;
+      b1 = K;
+      b2 = 0;
+      a0 = K + 1;
+      a1 = K - 1;
+      a2 = 0;
+      break;
+    }
+
+    case 'HighPassFO': {
+      const K = Math.tan(w0 / 2);
+      b0 = 1;
+      b1 = -1;
+      b2 = 0;
+      a0 = K + 1;
+      a1 = K - 1;
+      a2 = 0;
+      break;
+    }
+
+    case 'AllPassFO': {
+      const K = Math.tan(w0 / 2);
+      b0 = K - 1;
+      b1 = K + 1;
+      b2 = 0;
+      a0 = K + 1;
+      a1 = K - 1;
+      a2 = 0;
+      break;
+    }
+
+    case 'LowShelfFO': {
+      const A = Math.pow(10, band.gain / 40);
+      const K = Math.tan(w0 / 2);
+      b0 = A * A * K + A;
+      b1 = A * A * K - A;
+      b2 = 0;
+      a0 = K + A;
+      a1 = K - A;
+      a2 = 0;
+      break;
+    }
+
+    case 'HighShelfFO': {
+      const A = Math.pow(10, band.gain / 40);
+      const K = Math.tan(w0 / 2);
+      b0 = A * K + A * A;
+      b1 = A * K - A * A;
+      b2 = 0;
+      a0 = A * K + 1;
+      a1 = A * K - 1;
+      a2 = 0;
+      break;
+    }
+
+    case 'GeneralNotch': {
+      // Zeros on the unit circle at freq, poles at freqP with Q
+      const Kz = Math.tan((Math.PI * f0) / sampleRate);
+      const Kp = Math.tan((Math.PI * (band.freqP ?? f0)) / sampleRate);
+      const gain = band.normalizeAtDc ? (Kp * Kp) / (Kz * Kz) : 1;
+      b0 = gain * (1 + Kz * Kz);
+      b1 = -2 * gain * (1 - Kz * Kz);
+      b2 = b0;
+      a0 = 1 + Kp / Q + Kp * Kp;
+      a1 = -2 * (1 - Kp * Kp);
+      a2 = 1 - Kp / Q + Kp * Kp;
+      break;
+    }
+
+    case 'LinkwitzTransform': {
+      // Replaces the actual (freq, q) second-order roll-off with the target one
+      const freqTarget = band.freqTarget ?? f0;
+      const qTarget = band.qTarget ?? Q;
+      const d0 = Math.pow(2 * Math.PI * f0, 2);
+      const d1 = (2 * Math.PI * f0) / Q;
+      const c0 = Math.pow(2 * Math.PI * freqTarget, 2);
+      const c1 = (2 * Math.PI * freqTarget) / qTarget;
+      const fc = (f0 + freqTarget) / 2;
+      const gn = (2 * Math.PI * fc) / Math.tan((Math.PI * fc) / sampleRate);
+      b0 = d0 + gn * d1 + gn * gn;
+      b1 = 2 * (d0 - gn * gn);
+      b2 = d0 - gn * d1 + gn * gn;
+      a0 = c0 + gn * c1 + gn * gn;
+      a1 = 2 * (c0 - gn * gn);
+      a2 = c0 - gn * c1 + gn * gn;
+      break;
+    }
+
+    case 'Free': {
+      if (!band.coefficients) {
+        return null;
+      }
+      return { ...band.coefficients, a0: 1 };
+    }
+
     default:
-      return 0;
+      return null;
+  }
+
+  return { b0, b1, b2, a0, a1, a2 };
+}
+
+/**
+ * Biquad sections making up a band (one for plain biquads, several for combos)
+ */
+function bandSectionCoefficients(band: EqBand, sampleRate: number): BiquadCoefficients[] {
+  const sections = isComboBand(band.type) ? comboSections(band) : [band];
+  const coefficients: BiquadCoefficients[] = [];
+
+  for (const section of sections) {
+    const c = biquadCoefficients(section, sampleRate);
+    if (c) {
+      coefficients.push(c);
+    }
+  }
+
+  return coefficients;
+}
+
+/**
+ * Calculate filter response at a given frequency
+ */
+export function bandResponseDb(freqHz: number, band: EqBand, sampleRate = DEFAULT_SAMPLE_RATE): number {
+  if (!band.enabled) {
+    return 0;
   }
 
-  return biquadMagnitudeDb(freqHz, b0, b1, b2, a0, a1, a2);
+  let magSq = 1;
+  for (const coefficients of bandSectionCoefficients(band, sampleRate)) {
+    const { re, im } = biquadComplexResponse(freqHz, coefficients, sampleRate);
+    magSq *= re * re + im * im;
+  }
+
+  // Convert |H(w)| to dB
+  return 10 * Math.log10(magSq);
+}
+
+/**
+ * Calculate filter phase shift at a given frequency (degrees, -180..180)
+ */
+export function bandPhaseDeg(freqHz: number, band: EqBand, sampleRate = DEFAULT_SAMPLE_RATE): number {
+  if (!band.enabled) {
+    return 0;
+  }
+
+  let phaseDeg = 0;
+  for (const coefficients of bandSectionCoefficients(band, sampleRate)) {
+    const { re, im } = biquadComplexResponse(freqHz, coefficients, sampleRate);
+    phaseDeg += (Math.atan2(im, re) * 180) / Math.PI;
+  }
+
+  return wrapPhaseDeg(phaseDeg);
+}
+
+/**
+ * Calculate filter group delay at a given frequency (ms)
+ * Group delay is -dφ/dω, computed analytically from the coefficients
+ */
+export function bandGroupDelayMs(freqHz: number, band: EqBand, sampleRate = DEFAULT_SAMPLE_RATE): number {
+  if (!band.enabled) {
+    return 0;
+  }
+
+  let delaySamples = 0;
+  for (const coefficients of bandSectionCoefficients(band, sampleRate)) {
+    delaySamples += biquadComplexResponse(freqHz, coefficients, sampleRate).delaySamples;
+  }
+
+  return (delaySamples / sampleRate) * 1000;
 }
 
 /**
@@ -180,18 +471,56 @@ export function peakingResponseDb(freqHz: number, band: EqBand): number {
  * Calculate combined response of all bands at a given frequency
  * Note: This represents the filter bank response only, excluding preamp/output gain
  */
-export function sumResponseDb(freqHz: number, bands: EqBand[]): number {
+export function sumResponseDb(freqHz: number, bands: EqBand[], sampleRate = DEFAULT_SAMPLE_RATE): number {
   let sumDb = 0;
 
   for (const band of bands) {
     if (band.enabled) {
-      sumDb += bandResponseDb(freqHz, band);
+      sumDb += bandResponseDb(freqHz, band, sampleRate);
     }
   }
 
   return sumDb;
 }
 
+/**
+ * Wrap a phase angle to -180..180 degrees
+ */
+export function wrapPhaseDeg(phaseDeg: number): number {
+  const wrapped = ((((phaseDeg + 180) % 360) + 360) % 360) - 180;
+  return wrapped === -180 && phaseDeg > 0 ? 180 : wrapped;
+}
+
+/**
+ * Calculate combined phase of all bands at a given frequency (degrees, wrapped to -180..180)
+ */
+export function sumPhaseDeg(freqHz: number, bands: EqBand[], sampleRate = DEFAULT_SAMPLE_RATE): number {
+  let sumDeg = 0;
+
+  for (const band of bands) {
+    if (band.enabled) {
+      sumDeg += bandPhaseDeg(freqHz, band, sampleRate);
+    }
+  }
+
+  return wrapPhaseDeg(sumDeg);
+}
+
+/**
+ * Calculate combined group delay of all bands at a given frequency (ms)
+ */
+export function sumGroupDelayMs(freqHz: number, bands: EqBand[], sampleRate = DEFAULT_SAMPLE_RATE): number {
+  let sumMs = 0;
+
+  for (const band of bands) {
+    if (band.enabled) {
+      sumMs += bandGroupDelayMs(freqHz, band, sampleRate);
+    }
+  }
+
+  return sumMs;
+}
+
 /**
  * Generate log-spaced frequency array for sampling
  */
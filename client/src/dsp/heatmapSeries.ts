@@ -4,6 +4,7 @@
  */
 
 import type { SmoothingMode } from './fractionalOctaveSmoothing';
+import { DEFAULT_ANALYZER_CONFIG } from './spectrumAnalyzer';
 
 export interface AnalyzerVisibility {
   showSTA: boolean;
@@ -68,21 +69,25 @@ export function getEffectivePollInterval(highPrecision: boolean): number {
 
 /**
  * Get effective analyzer time constants for high precision
- * High precision → longer integration (more stable)
+ * High precision → longer integration (more stable): 2.5× STA, 2× LTA
+ * (the defaults 0.8s / 8s become 2s / 16s)
  */
-export function getEffectiveAnalyzerTau(highPrecision: boolean): {
+export function getEffectiveAnalyzerTau(
+  highPrecision: boolean,
+  base: { tauShort: number; tauLong: number } = DEFAULT_ANALYZER_CONFIG
+): {
   tauShort: number;
   tauLong: number;
 } {
   if (highPrecision) {
     return {
-      tauShort: 2.0,  // 2.0s (vs default 0.8s)
-      tauLong: 16.0,  // 16.0s (vs default 8.0s)
+      tauShort: base.tauShort * 2.5,
+      tauLong: base.tauLong * 2,
     };
   }
   
   return {
-    tauShort: 0.8,
-    tauLong: 8.0,
+    tauShort: base.tauShort,
+    tauLong: base.tauLong,
   };
 }
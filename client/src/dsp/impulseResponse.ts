@@ -0,0 +1,231 @@
+/**
+ * Impulse-response decoding and frequency response (for Conv filters)
+ * Files are decoded the way CamillaDSP reads them, then transformed with a radix-2 FFT
+ */
+
+export interface WavImpulse {
+  samples: Float64Array;
+  channels: number;
+  sampleRate: number;
+}
+
+// Longest IR analysed (longer files are truncated for the plot)
+const MAX_FFT_SIZE = 1 << 20;
+// Minimum FFT size, so short IRs still get a smooth low-frequency curve
+const MIN_FFT_SIZE = 1 << 14;
+const MIN_MAGNITUDE = 1e-12;
+
+const WAV_FORMAT_PCM = 1;
+const WAV_FORMAT_FLOAT = 3;
+const WAV_FORMAT_EXTENSIBLE = 0xfffe;
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    text += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return text;
+}
+
+/**
+ * Read one sample of the given layout as a float in [-1, 1)
+ */
+function readSample(view: DataView, offset: number, bits: number, float: boolean): number {
+  if (float) {
+    return bits === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  }
+  switch (bits) {
+    case 16:
+      return view.getInt16(offset, true) / 0x8000;
+    case 24: {
+      // Low three bytes (packed, or in a 4-byte container for S24LE)
+      const low = view.getUint8(offset) | (view.getUint8(offset + 1) << 8);
+      return ((view.getInt8(offset + 2) << 16) | low) / 0x800000;
+    }
+    default:
+      return view.getInt32(offset, true) / 0x80000000;
+  }
+}
+
+/**
+ * Decode one channel of a WAV impulse response
+ * @throws Error if the file is not a PCM/float WAV or the channel does not exist
+ */
+export function decodeWavImpulse(data: ArrayBuffer, channel = 0): WavImpulse {
+  const view = new DataView(data);
+  if (data.byteLength < 12 || readAscii(view, 0, 4) !== 'RIFF' || readAscii(view, 8, 4) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format: { channels: number; sampleRate: number; bits: number; float: boolean } | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= data.byteLength) {
+    const chunkId = readAscii(view, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ' && body + 16 <= data.byteLength) {
+      let formatTag = view.getUint16(body, true);
+      if (formatTag === WAV_FORMAT_EXTENSIBLE && chunkSize >= 40) {
+        formatTag = view.getUint16(body + 24, true);
+      }
+      if (formatTag !== WAV_FORMAT_PCM && formatTag !== WAV_FORMAT_FLOAT) {
+        throw new Error(`Unsupported WAV sample format ${formatTag}`);
+      }
+      format = {
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bits: view.getUint16(body + 14, true),
+        float: formatTag === WAV_FORMAT_FLOAT,
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new Error('WAV data chunk before fmt chunk');
+      }
+      if (channel < 0 || channel >= format.channels) {
+        throw new Error(`WAV file has no channel ${channel} (${format.channels} channels)`);
+      }
+
+      const bytesPerSample = format.bits / 8;
+      const frameSize = format.channels * bytesPerSample;
+      const dataEnd = Math.min(body + chunkSize, data.byteLength);
+      const frames = Math.floor((dataEnd - body) / frameSize);
+      const samples = new Float64Array(frames);
+      for (let i = 0; i < frames; i++) {
+        samples[i] = readSample(view, body + i * frameSize + channel * bytesPerSample, format.bits, format.float);
+      }
+      return { samples, channels: format.channels, sampleRate: format.sampleRate };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+// Sample layout of each binary Raw format: [bytes per sample, bits, float]
+const RAW_LAYOUTS: Record<string, [number, number, boolean]> = {
+  FLOAT32LE: [4, 32, true],
+  FLOAT64LE: [8, 64, true],
+  S16LE: [2, 16, false],
+  S24LE: [4, 24, false],
+  S24LE3: [3, 24, false],
+  S32LE: [4, 32, false],
+};
+
+/**
+ * Decode a Raw coefficient file
+ * TEXT files hold one value per line and skip/read count lines; binary formats count bytes
+ * (read 0 = to the end of the file)
+ * @throws Error for unknown formats or unparseable text lines
+ */
+export function decodeRawImpulse(data: ArrayBuffer, format = 'TEXT', skip = 0, read = 0): Float64Array {
+  if (format === 'TEXT') {
+    const lines = new TextDecoder().decode(data).split(/\r?\n/).slice(skip);
+    const selected = read > 0 ? lines.slice(0, read) : lines;
+    const values: number[] = [];
+    selected.forEach((line, i) => {
+      const trimmed = line.trim();
+      if (!trimmed) return;
+      const value = Number(trimmed);
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid coefficient on line ${skip + i + 1}: "${trimmed}"`);
+      }
+      values.push(value);
+    });
+    return Float64Array.from(values);
+  }
+
+  const layout = RAW_LAYOUTS[format];
+  if (!layout) {
+    throw new Error(`Unsupported Raw format "${format}"`);
+  }
+  const [bytesPerSample, bits, float] = layout;
+  const view = new DataView(data);
+  const end = read > 0 ? Math.min(skip + read, data.byteLength) : data.byteLength;
+  const count = Math.max(0, Math.floor((end - skip) / bytesPerSample));
+  const samples = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    samples[i] = readSample(view, skip + i * bytesPerSample, bits, float);
+  }
+  return samples;
+}
+
+/**
+ * In-place iterative radix-2 FFT (length must be a power of two)
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Magnitude response (dB) of an impulse response at the given frequencies
+ * The IR is zero-padded to a power of two; bins are interpolated linearly
+ * Frequencies above Nyquist are clamped to it
+ */
+export function impulseMagnitudeDb(samples: ArrayLike<number>, sampleRate: number, freqs: number[]): number[] {
+  const length = Math.min(samples.length, MAX_FFT_SIZE);
+  let size = MIN_FFT_SIZE;
+  while (size < length) {
+    size <<= 1;
+  }
+
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < length; i++) {
+    re[i] = samples[i];
+  }
+  fft(re, im);
+
+  const half = size / 2;
+  const magnitudes = new Float64Array(half + 1);
+  for (let i = 0; i <= half; i++) {
+    magnitudes[i] = Math.hypot(re[i], im[i]);
+  }
+
+  return freqs.map((freq) => {
+    const bin = Math.min(Math.max(0, (freq / sampleRate) * size), half);
+    const lower = Math.floor(bin);
+    const upper = Math.min(lower + 1, half);
+    const fraction = bin - lower;
+    const magnitude = magnitudes[lower] * (1 - fraction) + magnitudes[upper] * fraction;
+    return 20 * Math.log10(Math.max(magnitude, MIN_MAGNITUDE));
+  });
+}
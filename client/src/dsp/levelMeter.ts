@@ -0,0 +1,71 @@
+/**
+ * Channel level meters - peak hold and clip detection for CamillaDSP signal levels
+ * Levels are dBFS per channel, as returned by the Get*SignalPeak/Rms commands
+ */
+
+export interface ChannelMeter {
+  peakDb: number;
+  rmsDb: number;
+  peakHoldDb: number;
+  peakHoldHitMs: number;
+  clipped: boolean; // Latched until reset
+}
+
+export interface LevelMeterConfig {
+  holdTimeMs: number; // Peak hold time (milliseconds), default 1500
+  decayRateDbPerSec: number; // Peak hold decay after the hold time (dB/s), default 20
+  clipThresholdDb: number; // Peak level counted as a clip (dBFS), default -0.1
+}
+
+export const DEFAULT_LEVEL_METER_CONFIG: LevelMeterConfig = {
+  holdTimeMs: 1500,
+  decayRateDbPerSec: 20,
+  clipThresholdDb: -0.1,
+};
+
+// Meters never read below this (CamillaDSP reports silence as a very large negative value)
+export const METER_FLOOR_DB = -100;
+
+function clampLevel(db: number | undefined): number {
+  return typeof db === 'number' && Number.isFinite(db) ? Math.max(METER_FLOOR_DB, db) : METER_FLOOR_DB;
+}
+
+/**
+ * Advance per-channel meters with a new reading
+ * A channel count change (e.g. after a config change) restarts the meters
+ */
+export function updateChannelMeters(
+  previous: ChannelMeter[] | null,
+  peaks: number[],
+  rms: number[],
+  nowMs: number,
+  dtSec: number,
+  config: LevelMeterConfig = DEFAULT_LEVEL_METER_CONFIG
+): ChannelMeter[] {
+  const reuse = previous !== null && previous.length === peaks.length;
+
+  return peaks.map((rawPeak, i) => {
+    const peakDb = clampLevel(rawPeak);
+    const rmsDb = clampLevel(rms[i]);
+    const clippedNow = peakDb >= config.clipThresholdDb;
+    const prev = reuse ? previous![i] : null;
+
+    if (!prev || peakDb >= prev.peakHoldDb) {
+      return { peakDb, rmsDb, peakHoldDb: peakDb, peakHoldHitMs: nowMs, clipped: clippedNow || Boolean(prev?.clipped) };
+    }
+
+    // Hold, then decay towards the live peak
+    let peakHoldDb = prev.peakHoldDb;
+    if (nowMs - prev.peakHoldHitMs > config.holdTimeMs) {
+      peakHoldDb = Math.max(peakDb, peakHoldDb - config.decayRateDbPerSec * dtSec);
+    }
+    return { peakDb, rmsDb, peakHoldDb, peakHoldHitMs: prev.peakHoldHitMs, clipped: clippedNow || prev.clipped };
+  });
+}
+
+/**
+ * Clear latched clip indicators (peak hold is kept)
+ */
+export function resetClipIndicators(meters: ChannelMeter[]): ChannelMeter[] {
+  return meters.map((meter) => ({ ...meter, clipped: false }));
+}
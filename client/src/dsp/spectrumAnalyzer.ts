@@ -1,9 +1,12 @@
 /**
  * Spectrum Analyzer - MVP-16
- * Implements STA/LTA averaging and Peak Hold in dB domain
+ * Implements STA/LTA averaging (dB or linear power domain) and Peak Hold
  * All operations are O(N) per frame
  */
 
+// 'db' averages the dB values (EMA of dB); 'power' averages linear power and converts back
+export type AveragingMode = 'db' | 'power';
+
 export interface AnalyzerState {
   liveDb: number[];
   staDb: number[] | null;
@@ -11,6 +14,7 @@ export interface AnalyzerState {
   peakDb: number[] | null;
   peakLastHitMs: number[] | null;
   lastUpdateMs: number;
+  averageCount: number; // Frames averaged since the last reset
   initialized: boolean;
 }
 
@@ -19,21 +23,39 @@ export interface AnalyzerConfig {
   tauLong: number;   // LTA time constant (seconds), default 8.0
   holdTimeMs: number; // Peak hold time (milliseconds), default 2000
   decayRateDbPerSec: number; // Peak decay rate (dB/s), default 12
+  averagingMode: AveragingMode; // Domain of the STA/LTA averages, default 'db'
+  infiniteAverage: boolean; // LTA = mean of all frames since the last reset, default false
 }
 
-const DEFAULT_CONFIG: AnalyzerConfig = {
+export const DEFAULT_ANALYZER_CONFIG: AnalyzerConfig = {
   tauShort: 0.8,
   tauLong: 8.0,
   holdTimeMs: 2000,
   decayRateDbPerSec: 12,
+  averagingMode: 'db',
+  infiniteAverage: false,
 };
 
+// Floor for power → dB (keeps log10 finite for silent bins)
+const MIN_POWER = 1e-20;
+
+function dbToPower(db: number): number {
+  return Math.pow(10, db / 10);
+}
+
+function powerToDb(power: number): number {
+  return 10 * Math.log10(Math.max(MIN_POWER, power));
+}
+
 export class SpectrumAnalyzer {
   private state: AnalyzerState;
   private config: AnalyzerConfig;
+  // STA/LTA accumulators in the averaging domain (dB or linear power)
+  private staAcc: number[] = [];
+  private ltaAcc: number[] = [];
 
   constructor(config: Partial<AnalyzerConfig> = {}) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config = { ...DEFAULT_ANALYZER_CONFIG, ...config };
     this.state = {
       liveDb: [],
       staDb: null,
@@ -41,6 +63,7 @@ export class SpectrumAnalyzer {
       peakDb: null,
       peakLastHitMs: null,
       lastUpdateMs: 0,
+      averageCount: 0,
       initialized: false,
     };
   }
@@ -62,6 +85,7 @@ export class SpectrumAnalyzer {
       this.state.peakLastHitMs = Array(numBins).fill(nowMs);
       this.state.lastUpdateMs = nowMs;
       this.state.initialized = true;
+      this.restartAverages();
       return;
     }
 
@@ -73,16 +97,22 @@ export class SpectrumAnalyzer {
     // Update live
     this.state.liveDb = [...liveDbFrame];
 
-    // Update STA (short-term average) - EMA in dB domain
+    const power = this.config.averagingMode === 'power';
+    this.state.averageCount++;
+
+    // Update STA (short-term average) - EMA
     const alphaShort = Math.exp(-dtSec / this.config.tauShort);
-    for (let i = 0; i < numBins; i++) {
-      this.state.staDb![i] = alphaShort * this.state.staDb![i] + (1 - alphaShort) * liveDbFrame[i];
-    }
+    // Update LTA (long-term average) - EMA, or running mean in infinite mode
+    const alphaLong = this.config.infiniteAverage
+      ? 1 - 1 / this.state.averageCount
+      : Math.exp(-dtSec / this.config.tauLong);
 
-    // Update LTA (long-term average) - EMA in dB domain
-    const alphaLong = Math.exp(-dtSec / this.config.tauLong);
     for (let i = 0; i < numBins; i++) {
-      this.state.ltaDb![i] = alphaLong * this.state.ltaDb![i] + (1 - alphaLong) * liveDbFrame[i];
+      const value = power ? dbToPower(liveDbFrame[i]) : liveDbFrame[i];
+      this.staAcc[i] = alphaShort * this.staAcc[i] + (1 - alphaShort) * value;
+      this.ltaAcc[i] = alphaLong * this.ltaAcc[i] + (1 - alphaLong) * value;
+      this.state.staDb![i] = power ? powerToDb(this.staAcc[i]) : this.staAcc[i];
+      this.state.ltaDb![i] = power ? powerToDb(this.ltaAcc[i]) : this.ltaAcc[i];
     }
 
     // Update Peak Hold - per-bin max with hold and decay
@@ -114,16 +144,27 @@ export class SpectrumAnalyzer {
   }
 
   /**
-   * Reset averages to current live frame
+   * Reset averages to current live frame (restarts the infinite average)
    */
   resetAverages(): void {
     if (this.state.initialized) {
-      this.state.staDb = [...this.state.liveDb];
-      this.state.ltaDb = [...this.state.liveDb];
+      this.restartAverages();
       // Note: Peak hold is NOT reset (per spec)
     }
   }
 
+  /**
+   * Seed STA/LTA and their accumulators with the live frame
+   */
+  private restartAverages(): void {
+    const live = this.state.liveDb;
+    this.state.staDb = [...live];
+    this.state.ltaDb = [...live];
+    this.staAcc = this.config.averagingMode === 'power' ? live.map(dbToPower) : [...live];
+    this.ltaAcc = [...this.staAcc];
+    this.state.averageCount = 1;
+  }
+
   /**
    * Get current analyzer state (read-only)
    */
@@ -133,9 +174,19 @@ export class SpectrumAnalyzer {
 
   /**
    * Update analyzer configuration
+   * Changing the averaging mode or toggling infinite averaging restarts the averages
    */
   updateConfig(config: Partial<AnalyzerConfig>): void {
+    const previous = this.config;
     this.config = { ...this.config, ...config };
+
+    if (
+      this.state.initialized &&
+      (previous.averagingMode !== this.config.averagingMode ||
+        previous.infiniteAverage !== this.config.infiniteAverage)
+    ) {
+      this.restartAverages();
+    }
   }
 
   /**
@@ -10,6 +10,31 @@ import {
   listConfigs,
   getConfig,
   putConfig,
+  deleteConfig,
+  renameConfig,
+  duplicateConfig,
+  listConfigRevisions,
+  getConfigRevision,
+  restoreConfigRevision,
+  importEqPreset,
+  exportConfigYaml,
+  importConfigYaml,
+  listCoefficientFiles,
+  getCoefficientFile,
+  uploadCoefficientFile,
+  deleteCoefficientFile,
+  listSpectrumSnapshots,
+  createSpectrumSnapshot,
+  updateSpectrumSnapshot,
+  deleteSpectrumSnapshot,
+  listTargetCurves,
+  getTargetCurve,
+  uploadTargetCurve,
+  deleteTargetCurve,
+  listMeasurements,
+  getMeasurement,
+  uploadMeasurement,
+  deleteMeasurement,
   ApiError,
 } from '../api';
 
@@ -154,6 +179,395 @@ describe('API module', () => {
     });
   });
 
+  describe('deleteConfig', () => {
+    it('should DELETE config by ID', async () => {
+      fetchSpy.mockResolvedValueOnce({ ok: true });
+
+      await deleteConfig('test-id');
+
+      expect(fetchSpy).toHaveBeenCalledWith('/api/configs/test-id', { method: 'DELETE' });
+    });
+
+    it('should throw ApiError when preset is read-only', async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        statusText: 'Forbidden',
+      });
+
+      await expect(deleteConfig('locked')).rejects.toThrow("Failed to delete config 'locked'");
+    });
+  });
+
+  describe('renameConfig', () => {
+    it('should POST new name and return new ID', async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, id: 'new-name' }),
+      });
+
+      const newId = await renameConfig('old-name', 'New Name');
+
+      expect(newId).toBe('new-name');
+      expect(fetchSpy).toHaveBeenCalledWith('/api/configs/old-name/rename', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ newName: 'New Name' }),
+      });
+    });
+
+    it('should throw ApiError on name conflict', async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        statusText: 'Conflict',
+      });
+
+      await expect(renameConfig('a', 'B')).rejects.toMatchObject({ status: 409 });
+    });
+  });
+
+  describe('duplicateConfig', () => {
+    it('should POST new name and return ID of the copy', async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, id: 'copy' }),
+      });
+
+      const newId = await duplicateConfig('original', 'Copy');
+
+      expect(newId).toBe('copy');
+      expect(fetchSpy).toHaveBeenCalledWith('/api/configs/original/duplicate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ newName: 'Copy' }),
+      });
+    });
+  });
+
+  describe('importEqPreset', () => {
+    const preset = {
+      presetType: 'eq' as const,
+      schemaVersion: 1 as const,
+      name: 'Imported',
+      device: { category: 'unknown' as const, manufacturer: '', model: 'Imported' },
+      preampDb: -3,
+      bands: [{ type: 'Peaking' as const, freqHz: 100, gainDb: 2, q: 1, enabled: true }],
+      source: 'user' as const,
+      readOnly: false,
+    };
+
+    it('should POST the preset and return the new ID', async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, id: 'imported' }),
+      });
+
+      const id = await importEqPreset(preset);
+
+      expect(id).toBe('imported');
+      expect(fetchSpy).toHaveBeenCalledWith('/api/configs/import/eq', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(preset),
+      });
+    });
+
+    it('should throw ApiError on name conflict', async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        statusText: 'Conflict',
+      });
+
+      await expect(importEqPreset(preset)).rejects.toMatchObject({ status: 409 });
+    });
+  });
+
+  describe('YAML export/import', () => {
+    it('should POST the config and return YAML text', async () => {
+      const config = { devices: {}, filters: {}, mixers: {}, pipeline: [] };
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        text: async () => '---\ndevices: {}\n',
+      });
+
+      const yaml = await exportConfigYaml(config as any);
+
+      expect(yaml).toBe('---\ndevices: {}\n');
+      expect(fetchSpy).toHaveBeenCalledWith('/api/config/yaml', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config),
+      });
+    });
+
+    it('should POST name and YAML and return the new ID', async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, id: 'desk' }),
+      });
+
+      const id = await importConfigYaml('Desk', 'devices: {}');
+
+      expect(id).toBe('desk');
+      expect(fetchSpy).toHaveBeenCalledWith('/api/configs/import/yaml', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Desk', yaml: 'devices: {}' }),
+      });
+    });
+
+    it('should surface server validation errors as ApiError details', async () => {
+      const errors = [{ path: 'pipeline[0].names[0]', message: 'Undefined filter "x"' }];
+      fetchSpy.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: async () => ({ error: { message: 'Config has 1 validation error(s)', details: { errors } } }),
+      });
+
+      await expect(importConfigYaml('Desk', 'x')).rejects.toMatchObject({
+        status: 400,
+        message: 'Config has 1 validation error(s)',
+        details: { errors },
+      });
+    });
+  });
+
+  describe('config revisions', () => {
+    it('should list revisions of a preset', async () => {
+      const mockRevisions = [{ revisionId: '2', timestamp: 1, replacedAt: 2, summary: 'preamp 0 → -3 dB' }];
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockRevisions,
+      });
+
+      const result = await listConfigRevisions('my-eq');
+
+      expect(result).toEqual(mockRevisions);
+      expect(fetchSpy).toHaveBeenCalledWith('/api/configs/my-eq/revisions');
+    });
+
+    it('should fetch a single revision', async () => {
+      const mockDetail = {
+        revision: { revisionId: '2', timestamp: 1, replacedAt: 2, summary: 'No changes' },
+        config: { configName: 'My EQ', filterArray: [] },
+      };
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockDetail,
+      });
+
+      const result = await getConfigRevision('my-eq', '2');
+
+      expect(result).toEqual(mockDetail);
+      expect(fetchSpy).toHaveBeenCalledWith('/api/configs/my-eq/revisions/2');
+    });
+
+    it('should POST restore request', async () => {
+      fetchSpy.mockResolvedValueOnce({ ok: true });
+
+      await restoreConfigRevision('my-eq', '2');
+
+      expect(fetchSpy).toHaveBeenCalledWith('/api/configs/my-eq/revisions/2/restore', { method: 'POST' });
+    });
+
+    it('should throw ApiError when revision is missing', async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+      });
+
+      await expect(getConfigRevision('my-eq', '999')).rejects.toThrow("Failed to fetch revision '999'");
+    });
+  });
+
+  describe('coefficient files', () => {
+    it('should list coefficient files', async () => {
+      const mockFiles = [{ name: 'room.wav', path: '/cfg/coefficients/room.wav', size: 44, mtimeMs: 1, kind: 'wav' }];
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockFiles,
+      });
+
+      expect(await listCoefficientFiles()).toEqual(mockFiles);
+      expect(fetchSpy).toHaveBeenCalledWith('/api/coefficients');
+    });
+
+    it('should download file bytes', async () => {
+      const bytes = new Uint8Array([1, 2, 3]).buffer;
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        arrayBuffer: async () => bytes,
+      });
+
+      expect(await getCoefficientFile('my ir.wav')).toBe(bytes);
+      expect(fetchSpy).toHaveBeenCalledWith('/api/coefficients/my%20ir.wav');
+    });
+
+    it('should PUT raw bytes on upload', async () => {
+      const bytes = new Uint8Array([1, 2, 3]).buffer;
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ name: 'sub.raw', kind: 'raw' }),
+      });
+
+      await uploadCoefficientFile('sub.raw', bytes);
+
+      expect(fetchSpy).toHaveBeenCalledWith('/api/coefficients/sub.raw', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: bytes,
+      });
+    });
+
+    it('should surface the server message when an upload is rejected', async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: async () => ({ error: { message: 'Invalid WAV file: no data chunk' } }),
+      });
+
+      await expect(uploadCoefficientFile('ir.wav', new ArrayBuffer(4))).rejects.toThrow('Invalid WAV file: no data chunk');
+    });
+
+    it('should DELETE a file', async () => {
+      fetchSpy.mockResolvedValueOnce({ ok: true });
+
+      await deleteCoefficientFile('ir.wav');
+
+      expect(fetchSpy).toHaveBeenCalledWith('/api/coefficients/ir.wav', { method: 'DELETE' });
+    });
+  });
+
+  describe('spectrum snapshots', () => {
+    const snapshot = {
+      id: 'abc',
+      name: 'Before EQ',
+      source: 'lta' as const,
+      color: '#ff8800',
+      createdAt: 1,
+      binsDb: [-40, -30],
+    };
+
+    it('should list snapshots', async () => {
+      fetchSpy.mockResolvedValueOnce({ ok: true, json: async () => [snapshot] });
+
+      expect(await listSpectrumSnapshots()).toEqual([snapshot]);
+      expect(fetchSpy).toHaveBeenCalledWith('/api/state/snapshots');
+    });
+
+    it('should POST a new snapshot and surface the limit message', async () => {
+      const { id, createdAt, ...input } = snapshot;
+      fetchSpy.mockResolvedValueOnce({ ok: true, json: async () => snapshot });
+
+      expect(await createSpectrumSnapshot(input)).toEqual(snapshot);
+      expect(fetchSpy).toHaveBeenCalledWith('/api/state/snapshots', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+
+      fetchSpy.mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        statusText: 'Conflict',
+        json: async () => ({ error: { message: 'Snapshot limit reached (50); delete a snapshot first' } }),
+      });
+      await expect(createSpectrumSnapshot(input)).rejects.toThrow('Snapshot limit reached');
+    });
+
+    it('should PUT updates and DELETE snapshots', async () => {
+      fetchSpy.mockResolvedValueOnce({ ok: true, json: async () => ({ ...snapshot, name: 'Room' }) });
+      expect((await updateSpectrumSnapshot('abc', { name: 'Room' })).name).toBe('Room');
+      expect(fetchSpy).toHaveBeenCalledWith('/api/state/snapshots/abc', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Room' }),
+      });
+
+      fetchSpy.mockResolvedValueOnce({ ok: true });
+      await deleteSpectrumSnapshot('abc');
+      expect(fetchSpy).toHaveBeenCalledWith('/api/state/snapshots/abc', { method: 'DELETE' });
+    });
+  });
+
+  describe('target curves', () => {
+    it('should list targets and fetch parsed points', async () => {
+      const mockTargets = [{ name: 'Harman.csv', size: 30, mtimeMs: 1 }];
+      fetchSpy.mockResolvedValueOnce({ ok: true, json: async () => mockTargets });
+
+      expect(await listTargetCurves()).toEqual(mockTargets);
+      expect(fetchSpy).toHaveBeenCalledWith('/api/targets');
+
+      const target = { name: 'my target.csv', points: [{ freq: 20, gainDb: 6 }, { freq: 20000, gainDb: -6 }] };
+      fetchSpy.mockResolvedValueOnce({ ok: true, json: async () => target });
+
+      expect(await getTargetCurve('my target.csv')).toEqual(target);
+      expect(fetchSpy).toHaveBeenCalledWith('/api/targets/my%20target.csv');
+    });
+
+    it('should PUT the CSV text and surface parse errors', async () => {
+      fetchSpy.mockResolvedValueOnce({ ok: true, json: async () => ({ name: 'flat.csv', points: [] }) });
+
+      await uploadTargetCurve('flat.csv', 'frequency,raw\n20,0\n');
+      expect(fetchSpy).toHaveBeenCalledWith('/api/targets/flat.csv', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'text/csv' },
+        body: 'frequency,raw\n20,0\n',
+      });
+
+      fetchSpy.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: async () => ({ error: { message: 'Line 3 is not numeric: abc' } }),
+      });
+      await expect(uploadTargetCurve('bad.csv', 'x')).rejects.toThrow('Line 3 is not numeric');
+    });
+
+    it('should DELETE a target', async () => {
+      fetchSpy.mockResolvedValueOnce({ ok: true });
+
+      await deleteTargetCurve('flat.csv');
+
+      expect(fetchSpy).toHaveBeenCalledWith('/api/targets/flat.csv', { method: 'DELETE' });
+    });
+  });
+
+  describe('measurements', () => {
+    it('should list measurements and fetch parsed points', async () => {
+      const mockMeasurements = [{ name: 'Sennheiser HD 600.csv', device: 'Sennheiser HD 600', size: 30, mtimeMs: 1 }];
+      fetchSpy.mockResolvedValueOnce({ ok: true, json: async () => mockMeasurements });
+
+      expect(await listMeasurements()).toEqual(mockMeasurements);
+      expect(fetchSpy).toHaveBeenCalledWith('/api/measurements');
+
+      const measurement = { name: 'Tin HiFi T2+.csv', device: 'Tin HiFi T2+', points: [{ freq: 20, gainDb: 1 }] };
+      fetchSpy.mockResolvedValueOnce({ ok: true, json: async () => measurement });
+
+      expect(await getMeasurement('Tin HiFi T2+.csv')).toEqual(measurement);
+      expect(fetchSpy).toHaveBeenCalledWith('/api/measurements/Tin%20HiFi%20T2%2B.csv');
+    });
+
+    it('should PUT the CSV text and DELETE measurements', async () => {
+      fetchSpy.mockResolvedValueOnce({ ok: true, json: async () => ({ name: 'a.csv', device: 'a', points: [] }) });
+      await uploadMeasurement('a.csv', 'frequency,raw\n20,0\n');
+      expect(fetchSpy).toHaveBeenCalledWith('/api/measurements/a.csv', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'text/csv' },
+        body: 'frequency,raw\n20,0\n',
+      });
+
+      fetchSpy.mockResolvedValueOnce({ ok: true });
+      await deleteMeasurement('a.csv');
+      expect(fetchSpy).toHaveBeenCalledWith('/api/measurements/a.csv', { method: 'DELETE' });
+    });
+  });
+
   describe('ApiError', () => {
     it('should include status and message', () => {
       const error = new ApiError(404, 'Not found');
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  autoEqFitIndices,
+  fitAutoEq,
+  headroomPreampDb,
+  interpolateTargetPoints,
+  spectrumBinFrequencies,
+  targetCurveDb,
+} from '../autoEq';
+import { bandResponseDb, type EqBand } from '../../dsp/filterResponse';
+
+const peaking = (freq: number, gain = 0, q = 1): EqBand => ({ enabled: true, type: 'Peaking', freq, gain, q });
+
+describe('target curves', () => {
+  const freqs = spectrumBinFrequencies(64);
+
+  it('spaces bins logarithmically across the plot', () => {
+    expect(freqs[0]).toBeCloseTo(20, 6);
+    expect(freqs[63]).toBeCloseTo(20000, 3);
+  });
+
+  it('tilts the Harman-style target down towards treble with a bass shelf', () => {
+    const target = targetCurveDb('harman', [20, 1000, 16000]);
+    expect(target[0]).toBeGreaterThan(target[1] + 5);
+    expect(target[2]).toBeLessThan(target[1] - 1.5);
+  });
+
+  it('interpolates custom points on a log-frequency axis', () => {
+    const points = [{ freq: 1000, gainDb: 0 }, { freq: 100, gainDb: 6 }];
+    expect(interpolateTargetPoints(points, 20)).toBe(6);
+    expect(interpolateTargetPoints(points, Math.sqrt(100 * 1000))).toBeCloseTo(3, 6);
+    expect(interpolateTargetPoints(points, 5000)).toBe(0);
+    expect(targetCurveDb('custom', [50], [])).toEqual([0]);
+  });
+});
+
+describe('fitAutoEq', () => {
+  const freqs = spectrumBinFrequencies(256);
+  const flat = freqs.map(() => 0);
+  const limits = { minFreq: 20, maxFreq: 20000, minGainDb: -12, maxGainDb: 6, minQ: 0.5, maxQ: 5 };
+
+  it('cancels a resonance with a matching cut', () => {
+    const room = peaking(120, 8, 4);
+    const measured = freqs.map((f) => -40 + bandResponseDb(f, room));
+
+    const result = fitAutoEq({
+      measuredDb: measured,
+      freqs,
+      targetDb: flat,
+      bands: [peaking(1000), peaking(3000)],
+      fitIndices: [0, 1],
+      measuredIncludesEq: false,
+      limits,
+    });
+
+    const cut = result.bands.find((band) => band.gain < -4)!;
+    expect(cut.freq).toBeGreaterThan(100);
+    expect(cut.freq).toBeLessThan(145);
+    expect(result.initialRmsDb).toBeGreaterThan(1);
+    expect(result.residualRmsDb).toBeLessThan(result.initialRmsDb / 4);
+  });
+
+  it('respects the gain, Q and frequency limits', () => {
+    const dip = peaking(2000, -15, 2);
+    const measured = freqs.map((f) => -40 + bandResponseDb(f, dip));
+    const tight = { ...limits, maxGainDb: 3, maxQ: 1.5, maxFreq: 10000 };
+
+    const result = fitAutoEq({
+      measuredDb: measured,
+      freqs,
+      targetDb: flat,
+      bands: [peaking(100)],
+      fitIndices: [0],
+      measuredIncludesEq: false,
+      limits: tight,
+    });
+
+    expect(result.bands[0].gain).toBeLessThanOrEqual(3);
+    expect(result.bands[0].q).toBeLessThanOrEqual(1.5);
+    expect(result.bands[0].freq).toBeLessThanOrEqual(10000);
+  });
+
+  it('removes the current EQ from post-EQ traces and leaves other bands alone', () => {
+    const highPass: EqBand = { enabled: true, type: 'HighPass', freq: 30, gain: 0, q: 0.7 };
+    const current = peaking(500, 4, 2);
+    // Flat device measured through the current EQ
+    const measured = freqs.map((f) => -40 + bandResponseDb(f, current) + bandResponseDb(f, highPass));
+
+    const result = fitAutoEq({
+      measuredDb: measured,
+      freqs,
+      targetDb: flat,
+      bands: [highPass, current],
+      fitIndices: autoEqFitIndices([highPass, current]),
+      measuredIncludesEq: true,
+      limits: { ...limits, minFreq: 60 },
+    });
+
+    expect(result.bands[0]).toBe(highPass);
+    expect(Math.abs(result.bands[1].gain)).toBeLessThan(0.5);
+    expect(result.residualRmsDb).toBeLessThan(0.3);
+  });
+
+  it('fits shelves to broad level differences', () => {
+    const measured = freqs.map((f) => (f < 80 ? -46 : -40));
+
+    const result = fitAutoEq({
+      measuredDb: measured,
+      freqs,
+      targetDb: flat,
+      bands: [{ enabled: true, type: 'LowShelf', freq: 200, gain: 0, q: 0.7 }],
+      fitIndices: [0],
+      measuredIncludesEq: false,
+      limits,
+    });
+
+    expect(result.bands[0].type).toBe('LowShelf');
+    expect(result.bands[0].gain).toBeGreaterThan(3);
+  });
+});
+
+describe('autoEqFitIndices', () => {
+  it('selects enabled Peaking and shelf bands only', () => {
+    const bands: EqBand[] = [
+      peaking(100),
+      { ...peaking(200), enabled: false },
+      { enabled: true, type: 'HighShelf', freq: 8000, gain: 0, q: 0.7 },
+      { enabled: true, type: 'HighPass', freq: 30, gain: 0, q: 0.7 },
+    ];
+    expect(autoEqFitIndices(bands)).toEqual([0, 2]);
+  });
+});
+
+describe('headroomPreampDb', () => {
+  it('offsets the largest boost', () => {
+    expect(headroomPreampDb([peaking(1000, 4.05, 1)])).toBeCloseTo(-4.1, 6);
+    expect(headroomPreampDb([peaking(1000, -6, 1)])).toBe(0);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for full CamillaDSP config validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateCamillaConfig, groupErrorsByStep } from '../camillaConfigValidation';
+
+function makeConfig(): any {
+  return {
+    devices: {
+      samplerate: 48000,
+      chunksize: 1024,
+      capture: { type: 'Alsa', channels: 2, device: 'hw:0', format: 'S32LE' },
+      playback: { type: 'Alsa', channels: 2, device: 'hw:1', format: 'S32LE' },
+    },
+    filters: {
+      peq: { type: 'Biquad', parameters: { type: 'Peaking', freq: 1000, gain: -3, q: 1.41 } },
+      shelf: { type: 'Biquad', parameters: { type: 'Lowshelf', freq: 105, gain: '6', slope: 12 } },
+      xo: { type: 'BiquadCombo', parameters: { type: 'LinkwitzRileyHighpass', freq: 80, order: 4 } },
+      vol: { type: 'Volume', parameters: { fader: 'Aux1', ramp_time: 200, limit: null } },
+      delay: { type: 'Delay', parameters: { delay: 1.5, unit: 'ms', subsample: false } },
+      limit: { type: 'Limiter', parameters: { clip_limit: -1, soft_clip: true } },
+    },
+    mixers: {
+      passthrough: {
+        channels: { in: 2, out: 2 },
+        mapping: [
+          { dest: 0, sources: [{ channel: 0, gain: 0, inverted: false }] },
+          { dest: 1, sources: [{ channel: 1, gain: 0, inverted: false }] },
+        ],
+      },
+    },
+    processors: {
+      comp: {
+        type: 'Compressor',
+        parameters: { channels: 2, attack: 0.025, release: 1, threshold: -25, factor: 5, makeup_gain: null },
+      },
+    },
+    pipeline: [
+      { type: 'Mixer', name: 'passthrough' },
+      { type: 'Filter', channels: [0, 1], names: ['peq', 'shelf', 'xo'] },
+      { type: 'Filter', channels: null, names: ['vol', 'delay', 'limit'] },
+      { type: 'Processor', name: 'comp' },
+    ],
+  };
+}
+
+describe('camillaConfigValidation', () => {
+  describe('validateCamillaConfig', () => {
+    it('accepts a valid config with nulls for unset options', () => {
+      expect(validateCamillaConfig(makeConfig())).toEqual([]);
+    });
+
+    it('reports biquad parameter problems by path', () => {
+      const config = makeConfig();
+      config.filters.peq.parameters = { type: 'Peaking', freq: 0, gain: 200 };
+      config.filters.hp = { type: 'Biquad', parameters: { type: 'Highpass', freq: 'abc', q: 0.7 } };
+      config.filters.notch = { type: 'Biquad', parameters: { type: 'GeneralNotch', freq_p: 50, freq_z: 60 } };
+
+      expect(validateCamillaConfig(config)).toEqual([
+        { path: 'filters.peq.parameters.freq', message: 'Must be greater than 0' },
+        { path: 'filters.peq.parameters.gain', message: 'Must be at most 150' },
+        { path: 'filters.peq.parameters.q', message: 'Exactly one of q, bandwidth must be set' },
+        { path: 'filters.hp.parameters.freq', message: 'Must be a number' },
+        { path: 'filters.notch.parameters.q_p', message: 'q_p is required' },
+      ]);
+    });
+
+    it('checks frequencies against the Nyquist frequency of the samplerate', () => {
+      const config = makeConfig();
+      config.devices.samplerate = 44100;
+      config.filters.peq.parameters.freq = 22050;
+
+      expect(validateCamillaConfig(config)).toEqual([
+        { path: 'filters.peq.parameters.freq', message: 'Must be below 22050 Hz (half the sample rate)' },
+      ]);
+    });
+
+    it('rejects unknown filter types and subtypes', () => {
+      const config = makeConfig();
+      config.filters.peq.type = 'Magic';
+      config.filters.xo.parameters.type = 'BesselHighpass';
+
+      expect(validateCamillaConfig(config)).toEqual([
+        { path: 'filters.peq.type', message: 'Unknown filter type "Magic"' },
+        { path: 'filters.xo.parameters.type', message: 'Unknown BiquadCombo type "BesselHighpass"' },
+      ]);
+    });
+
+    it('validates non-biquad filters and processors', () => {
+      const config = makeConfig();
+      config.filters.vol.parameters.fader = 'Main';
+      config.filters.limit.parameters = { soft_clip: 'yes' };
+      config.filters.dither = { type: 'Dither', parameters: { type: 'Flat', bits: 1, amplitude: 2 } };
+      config.processors.comp.parameters.factor = 0.5;
+
+      expect(validateCamillaConfig(config)).toEqual([
+        { path: 'filters.vol.parameters.fader', message: 'Must be one of: Aux1, Aux2, Aux3, Aux4' },
+        { path: 'filters.limit.parameters.clip_limit', message: 'clip_limit is required' },
+        { path: 'filters.limit.parameters.soft_clip', message: 'Must be true or false' },
+        { path: 'filters.dither.parameters.bits', message: 'Must be at least 2' },
+        { path: 'processors.comp.parameters.factor', message: 'Must be at least 1' },
+      ]);
+    });
+
+    it('follows the channel count through mixers and processors', () => {
+      const config = makeConfig();
+      config.mixers.mono = {
+        channels: { in: 2, out: 1 },
+        mapping: [{ dest: 0, sources: [{ channel: 0 }, { channel: 1 }] }],
+      };
+      config.pipeline.splice(1, 0, { type: 'Mixer', name: 'mono' });
+
+      expect(validateCamillaConfig(config)).toEqual([
+        { path: 'pipeline[2].channels[1]', message: 'Channel 1 does not exist (1 channels at this point)' },
+        { path: 'pipeline[4].name', message: 'Processor "comp" is set for 2 channels but receives 1' },
+        { path: 'devices.playback.channels', message: 'Pipeline outputs 1 channels but playback expects 2' },
+      ]);
+    });
+
+    it('ignores bypassed steps when following the channel count', () => {
+      const config = makeConfig();
+      config.mixers.mono = {
+        channels: { in: 2, out: 1 },
+        mapping: [{ dest: 0, sources: [{ channel: 0 }] }],
+      };
+      config.pipeline.splice(1, 0, { type: 'Mixer', name: 'mono', bypassed: true });
+
+      expect(validateCamillaConfig(config)).toEqual([]);
+    });
+
+    it('checks mixer channel indices against the mixer size', () => {
+      const config = makeConfig();
+      config.mixers.passthrough.mapping[1].dest = 2;
+      config.mixers.passthrough.mapping[1].sources[0].channel = 3;
+
+      expect(validateCamillaConfig(config)).toEqual([
+        { path: 'mixers.passthrough.mapping[1].dest', message: 'Output channel 2 does not exist (mixer has 2 outputs)' },
+        {
+          path: 'mixers.passthrough.mapping[1].sources[0].channel',
+          message: 'Input channel 3 does not exist (mixer has 2 inputs)',
+        },
+      ]);
+    });
+  });
+
+  describe('groupErrorsByStep', () => {
+    it('maps errors to the pipeline steps that use the offending definition', () => {
+      const config = makeConfig();
+      config.filters.peq.parameters.freq = -1;
+      config.filters.unused = { type: 'Gain', parameters: {} };
+      config.processors.comp.parameters.attack = 0;
+      config.pipeline[1].names.push('missing');
+
+      const groups = groupErrorsByStep(validateCamillaConfig(config), config);
+
+      expect(groups.get(1)?.map((e) => e.path)).toEqual(['filters.peq.parameters.freq', 'pipeline[1].names[3]']);
+      expect(groups.get(3)?.map((e) => e.path)).toEqual(['processors.comp.parameters.attack']);
+      expect(groups.get(-1)?.map((e) => e.path)).toEqual(['filters.unused.parameters.gain']);
+      expect(groups.has(0)).toBe(false);
+    });
+
+    it('keeps dotted definition names whole', () => {
+      const config = makeConfig();
+      config.filters['eq.low'] = { type: 'Biquad', parameters: { type: 'Peaking', freq: -1, gain: 0, q: 1 } };
+      config.filters.eq = { type: 'Gain', parameters: { gain: 0 } };
+      config.pipeline[2].names.push('eq.low');
+      config.pipeline[1].names.push('eq');
+
+      const errors = validateCamillaConfig(config);
+      const groups = groupErrorsByStep(errors, config);
+
+      expect(errors.map((e) => e.path)).toEqual(['filters["eq.low"].parameters.freq']);
+      expect(groups.get(2)).toEqual(errors);
+      expect(groups.has(1)).toBe(false);
+    });
+  });
+});
@@ -77,6 +77,14 @@ describe('CamillaDSP Integration Tests', () => {
     processors: {},
   };
 
+  // Per-channel levels returned by the control socket's signal level commands
+  const signalLevels: Record<string, number[]> = {
+    GetCaptureSignalPeak: [-6, -8],
+    GetCaptureSignalRms: [-12, -14],
+    GetPlaybackSignalPeak: [-9, -11],
+    GetPlaybackSignalRms: [-15, -17],
+  };
+
   beforeAll(async () => {
     // Start control server
     controlServer = new WebSocketServer({ port: CONTROL_PORT });
@@ -197,6 +205,17 @@ describe('CamillaDSP Integration Tests', () => {
             );
             break;
 
+          case 'GetCaptureSignalPeak':
+          case 'GetCaptureSignalRms':
+          case 'GetPlaybackSignalPeak':
+          case 'GetPlaybackSignalRms':
+            ws.send(
+              JSON.stringify({
+                [command]: { result: 'Ok', value: signalLevels[command] },
+              })
+            );
+            break;
+
           default:
             ws.send(
               JSON.stringify({
@@ -398,6 +417,33 @@ describe('CamillaDSP Integration Tests', () => {
     });
   });
 
+  describe('Signal Levels', () => {
+    beforeEach(async () => {
+      await dsp.connect('localhost', CONTROL_PORT, SPECTRUM_PORT);
+    });
+
+    afterEach(() => {
+      dsp.disconnect();
+    });
+
+    it('should get capture and playback levels from the control socket', async () => {
+      const levels = await dsp.getSignalLevels();
+
+      expect(levels).toEqual({
+        capturePeak: [-6, -8],
+        captureRms: [-12, -14],
+        playbackPeak: [-9, -11],
+        playbackRms: [-15, -17],
+      });
+    });
+
+    it('should return null when not connected', async () => {
+      dsp.disconnect();
+
+      expect(await dsp.getSignalLevels()).toBeNull();
+    });
+  });
+
   describe('Disconnect', () => {
     it('should disconnect properly', async () => {
       await dsp.connect('localhost', CONTROL_PORT, SPECTRUM_PORT);
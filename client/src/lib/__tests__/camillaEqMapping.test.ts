@@ -242,6 +242,55 @@ describe('camillaEqMapping', () => {
       expect(result.preampGain).toBe(24);
     });
 
+    it('should extract first-order, GeneralNotch, LinkwitzTransform and Free biquads', () => {
+      const config: CamillaDSPConfig = {
+        ...mockConfig,
+        filters: {
+          Shelf: { type: 'Biquad', parameters: { type: 'LowshelfFO', freq: 200, gain: 4 } },
+          Notch: {
+            type: 'Biquad',
+            parameters: { type: 'GeneralNotch', freq_p: 300, freq_z: 200, q_p: 1.5, normalize_at_dc: true },
+          },
+          Lt: {
+            type: 'Biquad',
+            parameters: { type: 'LinkwitzTransform', freq_act: 50, q_act: 0.8, freq_target: 25, q_target: 0.5 },
+          },
+          Free: { type: 'Biquad', parameters: { type: 'Free', a1: 0, a2: 0, b0: 0.5, b1: 0, b2: 0 } },
+        },
+        pipeline: [{ type: 'Filter', channels: [0], names: ['Shelf', 'Notch', 'Lt', 'Free'] }],
+      };
+
+      const { bands } = extractEqBandsFromConfig(config);
+
+      expect(bands.map((b) => b.type)).toEqual(['LowShelfFO', 'GeneralNotch', 'LinkwitzTransform', 'Free']);
+      expect(bands[0]).toMatchObject({ freq: 200, gain: 4 });
+      expect(bands[1]).toMatchObject({ freq: 200, freqP: 300, q: 1.5, normalizeAtDc: true });
+      expect(bands[2]).toMatchObject({ freq: 50, q: 0.8, freqTarget: 25, qTarget: 0.5 });
+      // Free token sits on its (flat) response
+      expect(bands[3].gain).toBeCloseTo(-6.02, 2);
+      expect(bands[3].coefficients).toEqual({ a1: 0, a2: 0, b0: 0.5, b1: 0, b2: 0 });
+    });
+
+    it('should extract BiquadCombo filters as bands', () => {
+      const config: CamillaDSPConfig = {
+        ...mockConfig,
+        filters: {
+          Xover: { type: 'BiquadCombo', parameters: { type: 'LinkwitzRileyHighpass', freq: 80, order: 4 } },
+          Tilt: { type: 'BiquadCombo', parameters: { type: 'Tilt', gain: -4 } },
+          Geq: { type: 'BiquadCombo', parameters: { type: 'GraphicEqualizer', gains: [0, 3, 0] } },
+        },
+        pipeline: [{ type: 'Filter', channels: [0], names: ['Xover', 'Tilt', 'Geq'] }],
+      };
+
+      const { bands } = extractEqBandsFromConfig(config);
+
+      expect(bands.map((b) => b.type)).toEqual(['LinkwitzRileyHighPass', 'Tilt', 'GraphicEqualizer']);
+      expect(bands[0]).toMatchObject({ freq: 80, order: 4 });
+      expect(bands[1].gain).toBe(-4);
+      expect(bands[2].gain).toBeCloseTo(3, 1);
+      expect(bands[2].comboParameters).toEqual({ type: 'GraphicEqualizer', gains: [0, 3, 0] });
+    });
+
     it('should extract bands and preamp together', () => {
       const result = extractEqBandsFromConfig(mockConfig);
       
@@ -339,6 +388,94 @@ describe('camillaEqMapping', () => {
       expect(updated.filters.Filter01.parameters.gain).toBe(5.0);
     });
 
+    it('should write the keys of each biquad subtype and drop stale ones on a type change', () => {
+      const config: CamillaDSPConfig = {
+        ...mockConfig,
+        filters: {
+          Filter01: {
+            type: 'Biquad',
+            parameters: { type: 'GeneralNotch', freq_p: 300, freq_z: 200, q_p: 1.5, normalize_at_dc: true },
+          },
+          Filter02: {
+            type: 'Biquad',
+            parameters: { type: 'Peaking', freq: 1000, q: 1, gain: 3 },
+          },
+        },
+      };
+
+      const extracted = extractEqBandsFromConfig(config);
+      extracted.bands[0].freq = 250;
+      extracted.bands[1] = { ...extracted.bands[1], type: 'HighShelfFO', gain: -2 };
+
+      const updated = applyEqBandsToConfig(config, extracted);
+
+      expect(updated.filters.Filter01.parameters).toEqual({
+        type: 'GeneralNotch',
+        freq_p: 300,
+        freq_z: 250,
+        q_p: 1.5,
+        normalize_at_dc: true,
+      });
+      expect(updated.filters.Filter02.parameters).toEqual({ type: 'HighshelfFO', freq: 1000, gain: -2 });
+    });
+
+    it('should leave Free biquad coefficients untouched', () => {
+      const free = { type: 'Free', a1: -1.8, a2: 0.81, b0: 1, b1: -1.9, b2: 0.9 };
+      const config: CamillaDSPConfig = {
+        ...mockConfig,
+        filters: { Filter01: { type: 'Biquad', parameters: { ...free } } },
+        pipeline: [{ type: 'Filter', channels: [0], names: ['Filter01'] }],
+      };
+
+      const extracted = extractEqBandsFromConfig(config);
+      extracted.bands[0].freq = 5000;
+
+      const updated = applyEqBandsToConfig(config, extracted);
+      expect(updated.filters.Filter01.parameters).toEqual(free);
+    });
+
+    it('should write crossover frequency and Tilt gain back to BiquadCombo filters', () => {
+      const config: CamillaDSPConfig = {
+        ...mockConfig,
+        filters: {
+          Xover: { type: 'BiquadCombo', parameters: { type: 'ButterworthLowpass', freq: 2000, order: 3 } },
+          Tilt: { type: 'BiquadCombo', parameters: { type: 'Tilt', gain: 2 } },
+        },
+        pipeline: [{ type: 'Filter', channels: [0], names: ['Xover', 'Tilt'] }],
+      };
+
+      const extracted = extractEqBandsFromConfig(config);
+      extracted.bands[0].freq = 2500;
+      extracted.bands[1].gain = -3;
+
+      const updated = applyEqBandsToConfig(config, extracted);
+
+      expect(updated.filters.Xover.parameters).toEqual({ type: 'ButterworthLowpass', freq: 2500, order: 3 });
+      expect(updated.filters.Tilt.parameters).toEqual({ type: 'Tilt', gain: -3 });
+    });
+
+    it('should write graphic EQ gains back to the GraphicEqualizer', () => {
+      const config: CamillaDSPConfig = {
+        ...mockConfig,
+        filters: {
+          Geq: { type: 'BiquadCombo', parameters: { type: 'GraphicEqualizer', freq_min: 20, freq_max: 20000, gains: [0, 0, 0] } },
+        },
+        pipeline: [{ type: 'Filter', channels: [0], names: ['Geq'] }],
+      };
+
+      const extracted = extractEqBandsFromConfig(config);
+      extracted.bands[0].comboParameters = { ...extracted.bands[0].comboParameters, gains: [2, 0, -3] };
+
+      const updated = applyEqBandsToConfig(config, extracted);
+
+      expect(updated.filters.Geq.parameters).toEqual({
+        type: 'GraphicEqualizer',
+        freq_min: 20,
+        freq_max: 20000,
+        gains: [2, 0, -3],
+      });
+    });
+
     it('should create preamp mixer when gain is non-zero', () => {
       const extracted = extractEqBandsFromConfig(mockConfig);
       extracted.preampGain = 12.0;
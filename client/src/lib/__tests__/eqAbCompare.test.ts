@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  otherSlotId,
+  captureEqSlot,
+  isSlotCompatible,
+  eqSlotLevelDb,
+  levelMatchedPreamp,
+} from '../eqAbCompare';
+import type { EqBand } from '../../dsp/filterResponse';
+
+const flatBand: EqBand = { enabled: true, type: 'Peaking', freq: 1000, gain: 0, q: 1 };
+const boostBand: EqBand = { enabled: true, type: 'Peaking', freq: 1000, gain: 6, q: 0.7 };
+
+describe('eqAbCompare', () => {
+  it('otherSlotId flips between A and B', () => {
+    expect(otherSlotId('A')).toBe('B');
+    expect(otherSlotId('B')).toBe('A');
+  });
+
+  it('captureEqSlot deep-copies bands and filter names', () => {
+    const bands = [{ ...flatBand }];
+    const names = ['Filter01'];
+    const slot = captureEqSlot(bands, -3, names);
+
+    bands[0].gain = 10;
+    names.push('Filter02');
+
+    expect(slot.bands[0].gain).toBe(0);
+    expect(slot.filterNames).toEqual(['Filter01']);
+    expect(slot.preampGain).toBe(-3);
+  });
+
+  describe('isSlotCompatible', () => {
+    const slot = captureEqSlot([flatBand, flatBand], 0, ['Filter01', 'Filter02']);
+
+    it('accepts the same filter names', () => {
+      expect(isSlotCompatible(slot, ['Filter01', 'Filter02'])).toBe(true);
+    });
+
+    it('rejects a different band count', () => {
+      expect(isSlotCompatible(slot, ['Filter01'])).toBe(false);
+    });
+
+    it('rejects renamed or reordered filters', () => {
+      expect(isSlotCompatible(slot, ['Filter02', 'Filter01'])).toBe(false);
+    });
+  });
+
+  describe('eqSlotLevelDb', () => {
+    it('is the preamp gain for a flat response', () => {
+      expect(eqSlotLevelDb(captureEqSlot([flatBand], -4, ['F']))).toBeCloseTo(-4, 6);
+    });
+
+    it('increases with a boost', () => {
+      const flat = eqSlotLevelDb(captureEqSlot([flatBand], 0, ['F']));
+      const boosted = eqSlotLevelDb(captureEqSlot([boostBand], 0, ['F']));
+      expect(boosted).toBeGreaterThan(flat);
+    });
+
+    it('ignores disabled bands', () => {
+      const slot = captureEqSlot([{ ...boostBand, enabled: false }], 0, ['F']);
+      expect(eqSlotLevelDb(slot)).toBeCloseTo(0, 6);
+    });
+  });
+
+  describe('levelMatchedPreamp', () => {
+    it('lowers the preamp of a louder target', () => {
+      const reference = captureEqSlot([flatBand], 0, ['F']);
+      const target = captureEqSlot([boostBand], 0, ['F']);
+      const preamp = levelMatchedPreamp(reference, target);
+
+      expect(preamp).toBeLessThan(0);
+      expect(eqSlotLevelDb({ ...target, preampGain: preamp })).toBeCloseTo(eqSlotLevelDb(reference), 0);
+    });
+
+    it('keeps the preamp when levels already match', () => {
+      const slot = captureEqSlot([boostBand], -2, ['F']);
+      expect(levelMatchedPreamp(slot, slot)).toBe(-2);
+    });
+
+    it('clamps to the preamp range', () => {
+      const reference = captureEqSlot([flatBand], 24, ['F']);
+      const target = captureEqSlot([flatBand], 20, ['F']);
+      target.bands[0] = { ...boostBand, gain: -24 };
+      expect(levelMatchedPreamp(reference, target)).toBe(24);
+    });
+
+    it('uses the given sample rate', () => {
+      // Bilinear warping shrinks a high shelf near Nyquist at 44.1 kHz
+      const reference = captureEqSlot([flatBand], 0, ['F']);
+      const target = captureEqSlot([{ enabled: true, type: 'HighShelf', freq: 12000, gain: 12, q: 0.7 }], 0, ['F']);
+
+      const at44k = levelMatchedPreamp(reference, target, 44100);
+      expect(at44k).not.toBeCloseTo(levelMatchedPreamp(reference, target, 96000), 2);
+      expect(eqSlotLevelDb({ ...target, preampGain: at44k }, 44100)).toBeCloseTo(eqSlotLevelDb(reference, 44100), 1);
+    });
+  });
+});
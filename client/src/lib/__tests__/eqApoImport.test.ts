@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { parseEqualizerApoConfig, qFromBandwidthOctaves, EqApoParseError } from '../eqApoImport';
+
+describe('eqApoImport', () => {
+  describe('parseEqualizerApoConfig', () => {
+    it('parses preamp and peaking/shelf filters', () => {
+      const content = [
+        'Preamp: -6.5 dB',
+        'Filter 1: ON PK Fc 100 Hz Gain 3.0 dB Q 1.0',
+        'Filter 2: ON LSC Fc 105 Hz Gain 5.8 dB Q 0.7',
+        'Filter 3: ON HSC Fc 8000 Hz Gain -2.0 dB Q 0.7',
+      ].join('\n');
+
+      const { preset, warnings, notices } = parseEqualizerApoConfig(content, 'My APO');
+
+      expect(preset).toMatchObject({
+        presetType: 'eq',
+        schemaVersion: 1,
+        name: 'My APO',
+        preampDb: -6.5,
+        source: 'user',
+        readOnly: false,
+      });
+      expect(preset.bands).toEqual([
+        { type: 'Peaking', freqHz: 100, gainDb: 3, q: 1, enabled: true },
+        { type: 'LowShelf', freqHz: 105, gainDb: 5.8, q: 0.7, enabled: true },
+        { type: 'HighShelf', freqHz: 8000, gainDb: -2, q: 0.7, enabled: true },
+      ]);
+      expect(warnings).toEqual([]);
+      expect(notices).toEqual([]);
+    });
+
+    it('parses pass, notch and all-pass filters without gain', () => {
+      const content = [
+        'Filter 1: ON HP Fc 30 Hz',
+        'Filter 2: ON LPQ Fc 16000 Hz Q 0.5',
+        'Filter 3: ON NO Fc 50 Hz Q 8',
+        'Filter 4: ON BP Fc 1000 Hz Q 2',
+        'Filter 5: ON AP Fc 500 Hz Q 0.7',
+      ].join('\n');
+
+      const { preset } = parseEqualizerApoConfig(content, 'Filters');
+
+      expect(preset.bands.map((b) => b.type)).toEqual(['HighPass', 'LowPass', 'Notch', 'BandPass', 'AllPass']);
+      expect(preset.bands[0]).toMatchObject({ freqHz: 30, gainDb: 0, q: 0.7 });
+      expect(preset.bands[2]).toMatchObject({ freqHz: 50, q: 8 });
+    });
+
+    it('accepts unnumbered filters, BW in octaves and CRLF line endings', () => {
+      const content = 'Filter: ON PK Fc 1000 Hz Gain -4 dB BW Oct 1\r\nPreamp: -1 dB\r\n';
+
+      const { preset } = parseEqualizerApoConfig(content, 'Bw');
+
+      expect(preset.bands[0].q).toBe(1.4);
+      expect(preset.preampDb).toBe(-1);
+    });
+
+    it('accepts Peace-style filter numbers without a space', () => {
+      const content = 'Filter1: ON PK Fc 100 Hz Gain -3 dB Q 1\nFilter2: ON HSC Fc 8000 Hz Gain 2 dB Q 0.7\n';
+
+      const { preset, notices } = parseEqualizerApoConfig(content, 'Peace');
+
+      expect(preset.bands).toEqual([
+        { type: 'Peaking', freqHz: 100, gainDb: -3, q: 1, enabled: true },
+        { type: 'HighShelf', freqHz: 8000, gainDb: 2, q: 0.7, enabled: true },
+      ]);
+      expect(notices).toEqual([]);
+    });
+
+    it('adds up multiple Preamp lines', () => {
+      const content = 'Preamp: -3 dB\nPreamp: -1.5 dB\nFilter 1: ON PK Fc 100 Hz Gain 1 dB Q 1';
+      expect(parseEqualizerApoConfig(content, 'P').preset.preampDb).toBe(-4.5);
+    });
+
+    it('reports normalization warnings from validateAndNormalizeBand', () => {
+      const content = 'Filter 7: ON PK Fc 25000 Hz Gain 2 dB Q 20';
+
+      const { preset, warnings } = parseEqualizerApoConfig(content, 'Clamped');
+
+      expect(preset.bands[0]).toMatchObject({ freqHz: 20000, q: 10 });
+      expect(warnings.map((w) => w.field)).toEqual(['Filter 7 freq', 'Filter 7 Q']);
+    });
+
+    it('skips OFF filters and comments with notices where relevant', () => {
+      const content = [
+        '# Generated by Peace',
+        'Filter 1: OFF PK Fc 100 Hz Gain 3 dB Q 1',
+        'Filter 2: ON PK Fc 200 Hz Gain 3 dB Q 1',
+      ].join('\n');
+
+      const { preset, notices } = parseEqualizerApoConfig(content, 'Off');
+
+      expect(preset.bands).toHaveLength(1);
+      expect(notices).toEqual([{ line: 2, message: 'Filter 1 is OFF and was skipped' }]);
+    });
+
+    it('ignores Include and unsupported commands with a notice', () => {
+      const content = [
+        'Include: headphones.txt',
+        'Device: Speakers',
+        'Filter 1: ON PK Fc 100 Hz Gain 1 dB Q 1',
+      ].join('\n');
+
+      const { notices } = parseEqualizerApoConfig(content, 'Inc');
+
+      expect(notices).toEqual([
+        { line: 1, message: 'Include ignored: "headphones.txt" was not imported' },
+        { line: 2, message: 'Unsupported command "Device" ignored' },
+      ]);
+    });
+
+    it('imports the first named channel of Channel sections', () => {
+      const content = [
+        'Preamp: -2 dB',
+        'Channel: L',
+        'Filter 1: ON PK Fc 100 Hz Gain 1 dB Q 1',
+        'Channel: R',
+        'Preamp: -1 dB',
+        'Filter 2: ON PK Fc 200 Hz Gain 2 dB Q 1',
+        'Channel: all',
+        'Filter 3: ON PK Fc 300 Hz Gain 3 dB Q 1',
+      ].join('\n');
+
+      const { preset, notices } = parseEqualizerApoConfig(content, 'Stereo');
+
+      expect(preset.bands.map((b) => b.freqHz)).toEqual([100, 300]);
+      expect(preset.preampDb).toBe(-2);
+      expect(notices).toEqual([
+        { line: 0, message: 'Imported channel L only; 2 line(s) for other channels were skipped' },
+      ]);
+    });
+
+    it('throws EqApoParseError with the line number on malformed lines', () => {
+      expect(() => parseEqualizerApoConfig('Preamp: loud', 'X')).toThrow(EqApoParseError);
+
+      try {
+        parseEqualizerApoConfig('Filter 1: ON PK Fc 100 Hz Gain 1 dB Q 1\nFilter 2: ON XYZ Fc 100 Hz', 'X');
+      } catch (error) {
+        expect(error).toBeInstanceOf(EqApoParseError);
+        expect((error as EqApoParseError).line).toBe(2);
+      }
+    });
+
+    it('throws when a gain filter has no Gain', () => {
+      expect(() => parseEqualizerApoConfig('Filter 1: ON PK Fc 100 Hz Q 1', 'X')).toThrow(/missing Gain/);
+    });
+
+    it('throws when no filters are found', () => {
+      expect(() => parseEqualizerApoConfig('Preamp: -3 dB', 'X')).toThrow(/No parametric filters/);
+    });
+  });
+
+  describe('qFromBandwidthOctaves', () => {
+    it('matches the usual 1-octave and 2-octave values', () => {
+      expect(qFromBandwidthOctaves(1)).toBeCloseTo(1.414, 3);
+      expect(qFromBandwidthOctaves(2)).toBeCloseTo(0.667, 3);
+    });
+  });
+});
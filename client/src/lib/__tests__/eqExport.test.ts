@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  eqExportDataFromPreset,
+  formatEqualizerApo,
+  formatGraphicEq,
+  formatRewFilterSettings,
+  skippedExportBands,
+  GRAPHIC_EQ_POINTS,
+  type EqExportData,
+} from '../eqExport';
+import { parseEqualizerApoConfig } from '../eqApoImport';
+import type { EqPresetV1 } from '../../../../shared/eqPresetSchema';
+
+const data: EqExportData = {
+  name: 'My EQ',
+  preampDb: -4.5,
+  bands: [
+    { enabled: true, type: 'LowShelf', freq: 105, gain: 5.8, q: 0.7 },
+    { enabled: true, type: 'Peaking', freq: 1000, gain: -2.5, q: 1.414 },
+    { enabled: false, type: 'HighPass', freq: 30, gain: 0, q: 0.707 },
+  ],
+};
+
+describe('eqExport', () => {
+  describe('eqExportDataFromPreset', () => {
+    it('maps EqPresetV1 bands', () => {
+      const preset: EqPresetV1 = {
+        presetType: 'eq',
+        schemaVersion: 1,
+        name: 'Headphone',
+        device: { category: 'headphones', manufacturer: 'Acme', model: 'H1' },
+        preampDb: -3,
+        bands: [{ type: 'Peaking', freqHz: 200, gainDb: 2, q: 1, enabled: true }],
+        source: 'autoeq',
+        readOnly: true,
+      };
+
+      expect(eqExportDataFromPreset(preset)).toEqual({
+        name: 'Headphone',
+        preampDb: -3,
+        bands: [{ enabled: true, type: 'Peaking', freq: 200, gain: 2, q: 1 }],
+      });
+    });
+
+    it('extracts bands and preamp from a PipelineConfig', () => {
+      const result = eqExportDataFromPreset({
+        configName: 'Pipeline',
+        filterArray: [],
+        filters: {
+          Filter01: { type: 'Biquad', parameters: { type: 'Peaking', freq: 500, gain: -3, q: 2 } },
+        },
+        mixers: {
+          preamp: {
+            channels: { in: 2, out: 2 },
+            mapping: [
+              { dest: 0, sources: [{ channel: 0, gain: -6, inverted: false }] },
+              { dest: 1, sources: [{ channel: 1, gain: -6, inverted: false }] },
+            ],
+          },
+        },
+        pipeline: [
+          { type: 'Mixer', name: 'preamp' },
+          { type: 'Filter', channel: 0, names: ['Filter01'] },
+        ],
+      });
+
+      expect(result.name).toBe('Pipeline');
+      expect(result.preampDb).toBe(-6);
+      expect(result.bands).toEqual([{ enabled: true, type: 'Peaking', freq: 500, gain: -3, q: 2 }]);
+    });
+  });
+
+  describe('formatEqualizerApo', () => {
+    it('writes Preamp and Filter lines', () => {
+      expect(formatEqualizerApo(data)).toBe(
+        [
+          'Preamp: -4.5 dB',
+          'Filter 1: ON LSC Fc 105 Hz Gain 5.8 dB Q 0.7',
+          'Filter 2: ON PK Fc 1000 Hz Gain -2.5 dB Q 1.414',
+          'Filter 3: OFF HPQ Fc 30 Hz Q 0.707',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('writes 6 dB/oct shelves without Q and skips types APO has no code for', () => {
+      const text = formatEqualizerApo({
+        name: 'Biquads',
+        preampDb: 0,
+        bands: [
+          { enabled: true, type: 'HighShelfFO', freq: 8000, gain: -3, q: 1.41 },
+          { enabled: true, type: 'LinkwitzTransform', freq: 50, gain: 0, q: 0.8, freqTarget: 25, qTarget: 0.5 },
+        ],
+      });
+
+      expect(text).toBe(['Preamp: 0.0 dB', 'Filter 1: ON HS 6dB Fc 8000 Hz Gain -3.0 dB', ''].join('\n'));
+    });
+
+    it('round-trips through the Equalizer APO importer', () => {
+      const { preset } = parseEqualizerApoConfig(formatEqualizerApo(data), 'Round trip');
+
+      expect(preset.preampDb).toBe(-4.5);
+      expect(preset.bands).toEqual([
+        { type: 'LowShelf', freqHz: 105, gainDb: 5.8, q: 0.7, enabled: true },
+        { type: 'Peaking', freqHz: 1000, gainDb: -2.5, q: 1.4, enabled: true },
+      ]);
+    });
+  });
+
+  describe('formatGraphicEq', () => {
+    it('writes 127 points from 20 Hz to 20 kHz', () => {
+      const text = formatGraphicEq(data);
+      const points = text.replace('GraphicEQ: ', '').trim().split('; ');
+
+      expect(text.startsWith('GraphicEQ: 20 ')).toBe(true);
+      expect(points).toHaveLength(GRAPHIC_EQ_POINTS);
+      expect(points[points.length - 1].startsWith('20000 ')).toBe(true);
+    });
+
+    it('includes preamp and skips disabled bands', () => {
+      const flat = formatGraphicEq({ name: 'Flat', preampDb: -2, bands: [data.bands[2]] });
+
+      expect(flat.startsWith('GraphicEQ: 20 -2; ')).toBe(true);
+    });
+
+    it('follows the summed band response', () => {
+      const text = formatGraphicEq({ name: 'Peak', preampDb: 0, bands: [data.bands[1]] });
+      const gains = new Map(
+        text.replace('GraphicEQ: ', '').trim().split('; ').map((p) => p.split(' ').map(Number) as [number, number])
+      );
+
+      expect(gains.get(20)).toBeCloseTo(0, 1);
+      const nearest = [...gains.keys()].reduce((a, b) => (Math.abs(b - 1000) < Math.abs(a - 1000) ? b : a));
+      expect(gains.get(nearest)!).toBeLessThan(-2);
+    });
+
+    it('uses the sample rate of the data', () => {
+      const band = { enabled: true, type: 'Peaking' as const, freq: 16000, gain: 6, q: 2 };
+      const lastGain = (sampleRate: number) =>
+        Number(formatGraphicEq({ name: 'Air', preampDb: 0, bands: [band], sampleRate }).trim().split(' ').pop());
+
+      // Bilinear warping pulls the response to 0 dB at Nyquist (22.05 kHz at 44.1 kHz)
+      expect(lastGain(44100)).toBeLessThan(lastGain(96000));
+    });
+  });
+
+  describe('formatRewFilterSettings', () => {
+    it('writes a Generic equaliser filter list with preamp in the notes', () => {
+      const lines = formatRewFilterSettings(data).split('\n');
+
+      expect(lines[0]).toBe('Filter Settings file');
+      expect(lines).toContain('Notes: My EQ, preamp -4.5 dB');
+      expect(lines).toContain('Equaliser: Generic');
+      expect(lines).toContain('Filter  1: ON  LSC      Fc    105.0 Hz  Gain    5.8 dB  Q   0.700');
+      expect(lines).toContain('Filter  3: OFF HPQ      Fc     30.0 Hz  Gain    0.0 dB  Q   0.707');
+    });
+  });
+
+  describe('skippedExportBands', () => {
+    const mixed: EqExportData = {
+      name: 'Mixed',
+      preampDb: 0,
+      bands: [
+        { enabled: true, type: 'Peaking', freq: 1000, gain: 2, q: 1 },
+        { enabled: true, type: 'LinkwitzTransform', freq: 50, gain: 0, q: 0.8, freqTarget: 25, qTarget: 0.5 },
+      ],
+    };
+
+    it('lists bands Equalizer APO and REW have no filter code for', () => {
+      expect(skippedExportBands(mixed, 'equalizer-apo')).toEqual([{ index: 1, type: 'LinkwitzTransform' }]);
+      expect(skippedExportBands(mixed, 'rew')).toEqual([{ index: 1, type: 'LinkwitzTransform' }]);
+      expect(skippedExportBands(data, 'equalizer-apo')).toEqual([]);
+    });
+
+    it('never skips bands for GraphicEQ', () => {
+      expect(skippedExportBands(mixed, 'graphic-eq')).toEqual([]);
+    });
+  });
+});
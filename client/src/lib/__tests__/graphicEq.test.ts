@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addGraphicEqFilter,
+  createGraphicEqParameters,
+  formatGraphicEqBandLabel,
+  graphicEqBandFrequencies,
+  isoGraphicEqRange,
+  matchIsoBandCount,
+  readGraphicEqParameters,
+  resizeGraphicEq,
+  setGraphicEqGain,
+} from '../graphicEq';
+import type { CamillaDSPConfig } from '../camillaDSP';
+
+const config: CamillaDSPConfig = {
+  devices: {} as any,
+  filters: {
+    EQ1: { type: 'Biquad', parameters: { type: 'Peaking', freq: 1000, q: 1, gain: 0 } },
+  },
+  mixers: {},
+  processors: {},
+  pipeline: [
+    { type: 'Filter', channels: [0], names: ['EQ1'] },
+    { type: 'Filter', channels: [1], names: ['EQ1'] },
+    { type: 'Filter', channels: [0, 1], names: [], bypassed: true },
+  ],
+};
+
+describe('isoGraphicEqRange', () => {
+  it('puts CamillaDSP band centers on the ISO frequencies', () => {
+    const expected: Record<number, string[]> = {
+      10: ['31.5', '63', '125', '250', '500', '1k', '2k', '4k', '8k', '16k'],
+      15: ['25', '40', '63', '100', '160', '250', '400', '630', '1k', '1.6k', '2.5k', '4k', '6.3k', '10k', '16k'],
+    };
+
+    for (const count of [10, 15] as const) {
+      const labels = graphicEqBandFrequencies(createGraphicEqParameters(count)).map(formatGraphicEqBandLabel);
+      expect(labels).toEqual(expected[count]);
+    }
+
+    const thirdOctave = graphicEqBandFrequencies(createGraphicEqParameters(31));
+    expect(formatGraphicEqBandLabel(thirdOctave[0])).toBe('20');
+    expect(formatGraphicEqBandLabel(thirdOctave[17])).toBe('1k');
+    expect(formatGraphicEqBandLabel(thirdOctave[30])).toBe('20k');
+  });
+
+  it('spans the audible range', () => {
+    expect(isoGraphicEqRange(10)).toEqual({ freqMin: 22.1, freqMax: 22627.42 });
+    expect(isoGraphicEqRange(31).freqMax).toBeLessThan(24000);
+  });
+});
+
+describe('formatGraphicEqBandLabel', () => {
+  it('falls back to the rounded center off the ISO series', () => {
+    expect(formatGraphicEqBandLabel(1100)).toBe('1.1k');
+    expect(formatGraphicEqBandLabel(72)).toBe('72');
+  });
+});
+
+describe('readGraphicEqParameters', () => {
+  it('fills in the CamillaDSP defaults', () => {
+    expect(readGraphicEqParameters({ gains: [1, '2'] })).toEqual({
+      type: 'GraphicEqualizer',
+      freq_min: 20,
+      freq_max: 20000,
+      gains: [1, 2],
+    });
+    expect(matchIsoBandCount(readGraphicEqParameters({ gains: [0, 0] }))).toBeNull();
+    expect(matchIsoBandCount(createGraphicEqParameters(15))).toBe(15);
+  });
+});
+
+describe('setGraphicEqGain', () => {
+  it('clamps and rounds without mutating the input', () => {
+    const params = createGraphicEqParameters(10);
+    const updated = setGraphicEqGain(params, 3, 30);
+
+    expect(updated.gains[3]).toBe(24);
+    expect(setGraphicEqGain(params, 0, -2.345).gains[0]).toBe(-2.3);
+    expect(params.gains[3]).toBe(0);
+  });
+
+  it('throws for a missing band', () => {
+    expect(() => setGraphicEqGain(createGraphicEqParameters(10), 10, 1)).toThrow('Graphic EQ has no band 10');
+  });
+});
+
+describe('resizeGraphicEq', () => {
+  it('keeps the curve when switching layouts', () => {
+    const tenBand = { ...createGraphicEqParameters(10), gains: [6, 6, 0, 0, 0, 0, 0, 0, -4, -4] };
+    const resized = resizeGraphicEq(tenBand, 31);
+
+    expect(resized.gains).toHaveLength(31);
+    expect(resized.freq_min).toBe(isoGraphicEqRange(31).freqMin);
+    // 20 Hz and 63 Hz follow the low boost, 1 kHz is flat, 16 kHz keeps the cut
+    expect(resized.gains[0]).toBe(6);
+    expect(resized.gains[5]).toBe(6);
+    expect(resized.gains[17]).toBe(0);
+    expect(resized.gains[29]).toBe(-4);
+    // 100 Hz lies between the 63 Hz (+6 dB) and 125 Hz (0 dB) faders
+    expect(resized.gains[7]).toBe(2);
+  });
+});
+
+describe('addGraphicEqFilter', () => {
+  it('adds the filter to every active Filter step', () => {
+    const { config: updated, filterName } = addGraphicEqFilter(config, 15);
+
+    expect(filterName).toBe('GraphicEQ');
+    expect(updated.filters!.GraphicEQ).toEqual({
+      type: 'BiquadCombo',
+      parameters: createGraphicEqParameters(15),
+    });
+    expect((updated.pipeline![0] as any).names).toEqual(['EQ1', 'GraphicEQ']);
+    expect((updated.pipeline![1] as any).names).toEqual(['EQ1', 'GraphicEQ']);
+    expect((updated.pipeline![2] as any).names).toEqual([]);
+    expect((config.pipeline![0] as any).names).toEqual(['EQ1']);
+  });
+
+  it('picks a free filter name', () => {
+    const first = addGraphicEqFilter(config, 10).config;
+    expect(addGraphicEqFilter(first, 10).filterName).toBe('GraphicEQ2');
+  });
+
+  it('throws without an active Filter step', () => {
+    expect(() => addGraphicEqFilter({ ...config, pipeline: [] }, 10)).toThrow('No Filter steps in pipeline');
+  });
+});
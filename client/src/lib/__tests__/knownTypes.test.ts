@@ -3,6 +3,9 @@ import {
   isKnownProcessorType,
   isKnownEditableFilter,
   getFilterNotEditableReason,
+  getFilterUiKind,
+  getFilterSummary,
+  isEditableFilterKind,
 } from '../knownTypes';
 
 describe('knownTypes', () => {
@@ -138,4 +141,50 @@ describe('knownTypes', () => {
       expect(reason).toBe('Filter definition missing');
     });
   });
+
+  describe('BiquadCombo', () => {
+    it('should be an editable filter kind', () => {
+      const kind = getFilterUiKind({ type: 'BiquadCombo', parameters: { type: 'Tilt', gain: 3 } });
+      expect(kind).toBe('biquadcombo');
+      expect(isEditableFilterKind(kind)).toBe(true);
+    });
+
+    it('should summarize crossovers, Tilt and GraphicEqualizer', () => {
+      expect(
+        getFilterSummary({ type: 'BiquadCombo', parameters: { type: 'LinkwitzRileyHighpass', freq: 80, order: 4 } })
+      ).toEqual(['LinkwitzRileyHighpass', '80 Hz', 'Order 4']);
+      expect(getFilterSummary({ type: 'BiquadCombo', parameters: { type: 'Tilt', gain: 3 } })).toEqual([
+        'Tilt',
+        '+3 dB',
+      ]);
+      expect(
+        getFilterSummary({ type: 'BiquadCombo', parameters: { type: 'GraphicEqualizer', gains: [0, 1, 2] } })
+      ).toEqual(['GraphicEqualizer', '3 bands']);
+    });
+  });
+
+  describe('Conv', () => {
+    it('should be an editable filter kind', () => {
+      const kind = getFilterUiKind({ type: 'Conv', parameters: { type: 'Values', values: [1] } });
+      expect(kind).toBe('conv');
+      expect(isEditableFilterKind(kind)).toBe(true);
+    });
+
+    it('should summarize file-based filters by file name', () => {
+      expect(
+        getFilterSummary({ type: 'Conv', parameters: { type: 'Wav', filename: '/cfg/coefficients/room.wav', channel: 1 } })
+      ).toEqual(['Wav: room.wav', 'Ch 1']);
+      expect(
+        getFilterSummary({ type: 'Conv', parameters: { type: 'Raw', filename: 'sub.txt', format: 'TEXT' } })
+      ).toEqual(['Raw: sub.txt', 'TEXT']);
+    });
+  });
+
+  describe('Limiter, Dither and DiffEq', () => {
+    it('should be editable filter kinds', () => {
+      for (const type of ['Limiter', 'Dither', 'DiffEq']) {
+        expect(isEditableFilterKind(getFilterUiKind({ type, parameters: {} }))).toBe(true);
+      }
+    });
+  });
 });
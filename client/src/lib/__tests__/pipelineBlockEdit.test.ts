@@ -10,6 +10,7 @@ import {
   createNewMixerBlock,
   createNewProcessorBlock,
   cleanupOrphanDefinitions,
+  getAvailableChannels,
 } from '../pipelineBlockEdit';
 import type { CamillaDSPConfig } from '../camillaDSP';
 
@@ -219,4 +220,27 @@ describe('pipelineBlockEdit', () => {
       expect(Object.keys(result.processors!)).toEqual(['proc1']);
     });
   });
+
+  describe('getAvailableChannels', () => {
+    const downmixConfig: CamillaDSPConfig = {
+      ...baseConfig,
+      devices: { capture: { channels: 4 }, playback: { channels: 2 } },
+      mixers: { down: { channels: { in: 4, out: 2 }, mapping: [] } },
+      pipeline: [
+        { type: 'Filter', channels: [0], names: [] },
+        { type: 'Mixer', name: 'down' },
+        { type: 'Filter', channels: [0], names: [] },
+      ],
+    };
+
+    it('uses the playback channel count without a step index', () => {
+      expect(getAvailableChannels(downmixConfig)).toEqual([0, 1]);
+    });
+
+    it('uses the channel count flowing into the step', () => {
+      expect(getAvailableChannels(downmixConfig, 0)).toEqual([0, 1, 2, 3]);
+      expect(getAvailableChannels(downmixConfig, 2)).toEqual([0, 1]);
+      expect(getAvailableChannels(downmixConfig, 3)).toEqual([0, 1]);
+    });
+  });
 });
@@ -0,0 +1,110 @@
+/**
+ * Tests for pipeline channel-count propagation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeChannelFlow, formatChannelFlow } from '../pipelineChannelFlow';
+import type { CamillaDSPConfig } from '../camillaDSP';
+
+function makeConfig(): CamillaDSPConfig {
+  return {
+    devices: {
+      samplerate: 48000,
+      chunksize: 1024,
+      capture: { type: 'Alsa', channels: 2 },
+      playback: { type: 'Alsa', channels: 4 },
+    },
+    filters: {},
+    mixers: {
+      upmix: {
+        channels: { in: 2, out: 4 },
+        mapping: [],
+      },
+      mono: {
+        channels: { in: 4, out: 1 },
+        mapping: [],
+      },
+    },
+    processors: {
+      comp: { type: 'Compressor', parameters: { channels: 4 } },
+    },
+    pipeline: [
+      { type: 'Filter', channels: [0, 1], names: [] },
+      { type: 'Mixer', name: 'upmix' },
+      { type: 'Filter', channels: [2, 3], names: [] },
+      { type: 'Processor', name: 'comp' },
+    ],
+  } as CamillaDSPConfig;
+}
+
+describe('pipelineChannelFlow', () => {
+  it('tracks channel counts through mixers', () => {
+    const flow = computeChannelFlow(makeConfig());
+
+    expect(flow.captureChannels).toBe(2);
+    expect(flow.playbackChannels).toBe(4);
+    expect(flow.outputChannels).toBe(4);
+    expect(flow.steps.map((s) => [s.channelsIn, s.channelsOut])).toEqual([
+      [2, 2],
+      [2, 4],
+      [4, 4],
+      [4, 4],
+    ]);
+    expect(flow.issues).toEqual([]);
+    expect(flow.playbackMismatch).toBeNull();
+  });
+
+  it('flags filter channels that do not exist after a mixer', () => {
+    const config = makeConfig();
+    config.pipeline.push({ type: 'Mixer', name: 'mono' }, { type: 'Filter', channels: [0, 3], names: [] });
+
+    const flow = computeChannelFlow(config);
+
+    expect(flow.steps[5].issues).toEqual([
+      { path: 'pipeline[5].channels[1]', message: 'Channel 3 does not exist (1 channels at this point)' },
+    ]);
+    expect(flow.playbackMismatch).toEqual({
+      path: 'devices.playback.channels',
+      message: 'Pipeline outputs 1 channels but playback expects 4',
+    });
+    expect(flow.issues).toHaveLength(2);
+  });
+
+  it('flags mixer and processor input mismatches', () => {
+    const config = makeConfig();
+    config.pipeline.splice(1, 1);
+
+    const flow = computeChannelFlow(config);
+
+    expect(flow.issues.map((i) => i.path)).toEqual([
+      'pipeline[1].channels[0]',
+      'pipeline[1].channels[1]',
+      'pipeline[2].name',
+      'devices.playback.channels',
+    ]);
+    expect(flow.steps[2].issues[0].message).toBe('Processor "comp" is set for 4 channels but receives 2');
+  });
+
+  it('passes channels through bypassed steps', () => {
+    const config = makeConfig();
+    config.pipeline[1].bypassed = true;
+
+    const flow = computeChannelFlow(config);
+
+    expect(flow.steps[1]).toMatchObject({ channelsIn: 2, channelsOut: 2, bypassed: true, issues: [] });
+    expect(flow.steps[2].issues).toHaveLength(2);
+    expect(flow.outputChannels).toBe(2);
+  });
+
+  it('leaves counts unknown downstream of an undefined mixer', () => {
+    const config = makeConfig();
+    config.pipeline[1] = { type: 'Mixer', name: 'missing' };
+
+    const flow = computeChannelFlow(config);
+
+    expect(flow.steps[2].channelsIn).toBeNull();
+    expect(flow.issues).toEqual([]);
+    expect(formatChannelFlow(flow.steps[1])).toBe('2 → ? ch');
+    expect(formatChannelFlow(flow.steps[0])).toBe('2 → 2 ch');
+  });
+});
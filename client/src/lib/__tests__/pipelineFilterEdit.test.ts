@@ -9,6 +9,7 @@ import {
   setBiquadGain,
   removeFilterFromStep,
   removeFilterDefinitionIfOrphaned,
+  addNewConvFilterToStep,
 } from '../pipelineFilterEdit';
 import type { CamillaDSPConfig } from '../camillaDSP';
 
@@ -201,4 +202,21 @@ describe('pipelineFilterEdit', () => {
       expect(updated.filters['EQ1']).toBeDefined();
     });
   });
+
+  describe('addNewConvFilterToStep', () => {
+    it('should add a pass-through Conv filter to the step', () => {
+      const config = createTestConfig();
+      const { config: updated, filterName } = addNewConvFilterToStep(config, 0);
+
+      expect(filterName).toBe('Conv1');
+      expect(updated.filters['Conv1']).toEqual({ type: 'Conv', parameters: { type: 'Values', values: [1] } });
+      expect((updated.pipeline[0] as any).names).toEqual(['EQ1', 'EQ2', 'Conv1']);
+      expect(addNewConvFilterToStep(updated, 0).filterName).toBe('Conv2');
+      expect(config.filters['Conv1']).toBeUndefined();
+    });
+
+    it('should throw for an invalid step', () => {
+      expect(() => addNewConvFilterToStep(createTestConfig(), 3)).toThrow('Invalid step index: 3');
+    });
+  });
 });
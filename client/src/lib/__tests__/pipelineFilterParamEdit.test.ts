@@ -0,0 +1,392 @@
+/**
+ * Tests for Delay/Gain/Volume/Loudness/BiquadCombo filter editing utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convertDelay,
+  setDelayParam,
+  setGainFilterParam,
+  setVolumeParam,
+  setLoudnessParam,
+  setBiquadComboParam,
+  setConvParam,
+  setLimiterParam,
+  setDitherParam,
+  setDiffEqParam,
+  parseCoefficientList,
+  isDiffEqStable,
+  setFilterParam,
+} from '../pipelineFilterParamEdit';
+import type { CamillaDSPConfig } from '../camillaDSP';
+
+// Helper to create a minimal valid config
+function createTestConfig(): CamillaDSPConfig {
+  return {
+    devices: {
+      samplerate: 48000,
+      capture: { channels: 2 },
+      playback: { channels: 2 },
+    },
+    filters: {
+      delay: {
+        type: 'Delay',
+        parameters: { delay: 2, unit: 'ms' },
+      },
+      gain: {
+        type: 'Gain',
+        parameters: { gain: -3 },
+      },
+      volume: {
+        type: 'Volume',
+        parameters: { fader: 'Aux1', ramp_time: 200 },
+      },
+      loudness: {
+        type: 'Loudness',
+        parameters: { reference_level: -25, high_boost: 7, low_boost: 7 },
+      },
+      EQ1: {
+        type: 'Biquad',
+        parameters: { type: 'Peaking', freq: 1000, q: 1.0, gain: 3.0 },
+      },
+      xover: {
+        type: 'BiquadCombo',
+        parameters: { type: 'LinkwitzRileyHighpass', freq: 80, order: 4 },
+      },
+      geq: {
+        type: 'BiquadCombo',
+        parameters: { type: 'GraphicEqualizer', gains: [1, 2, 3] },
+      },
+      limiter: {
+        type: 'Limiter',
+        parameters: { clip_limit: -3 },
+      },
+      dither: {
+        type: 'Dither',
+        parameters: { type: 'Shibata48', bits: 16 },
+      },
+      diffeq: {
+        type: 'DiffEq',
+        parameters: { a: [1, -0.5], b: [0.5] },
+      },
+      room: {
+        type: 'Conv',
+        parameters: { type: 'Wav', filename: '/cfg/coefficients/room.wav', channel: 1 },
+      },
+    },
+    mixers: {},
+    pipeline: [
+      {
+        type: 'Filter',
+        channels: [0, 1],
+        names: ['delay', 'gain', 'volume', 'loudness', 'EQ1'],
+      },
+    ],
+  } as CamillaDSPConfig;
+}
+
+describe('pipelineFilterParamEdit', () => {
+  describe('convertDelay', () => {
+    it('should convert between ms, samples and mm', () => {
+      expect(convertDelay(1, 'ms', 'samples', 48000)).toBeCloseTo(48);
+      expect(convertDelay(96, 'samples', 'ms', 48000)).toBeCloseTo(2);
+      expect(convertDelay(1, 'ms', 'mm', 48000)).toBeCloseTo(343);
+      expect(convertDelay(343, 'mm', 'ms', 44100)).toBeCloseTo(1);
+    });
+  });
+
+  describe('setDelayParam', () => {
+    it('should update delay without mutating the original', () => {
+      const config = createTestConfig();
+      const updated = setDelayParam(config, 'delay', 'delay', 5.25);
+
+      expect(updated.filters['delay'].parameters.delay).toBe(5.25);
+      expect(config.filters['delay'].parameters.delay).toBe(2);
+    });
+
+    it('should clamp negative delays to zero', () => {
+      const updated = setDelayParam(createTestConfig(), 'delay', 'delay', -4);
+      expect(updated.filters['delay'].parameters.delay).toBe(0);
+    });
+
+    it('should convert the value when the unit changes', () => {
+      const updated = setDelayParam(createTestConfig(), 'delay', 'unit', 'samples');
+
+      expect(updated.filters['delay'].parameters).toMatchObject({ delay: 96, unit: 'samples' });
+    });
+
+    it('should use the config sample rate for conversion', () => {
+      const config = createTestConfig();
+      config.devices.samplerate = 96000;
+      const updated = setDelayParam(config, 'delay', 'unit', 'samples');
+
+      expect(updated.filters['delay'].parameters.delay).toBe(192);
+    });
+
+    it('should round samples to whole numbers unless subsample is enabled', () => {
+      let config = setDelayParam(createTestConfig(), 'delay', 'unit', 'samples');
+      config = setDelayParam(config, 'delay', 'delay', 10.4);
+      expect(config.filters['delay'].parameters.delay).toBe(10);
+
+      config = setDelayParam(config, 'delay', 'subsample', true);
+      config = setDelayParam(config, 'delay', 'delay', 10.4);
+      expect(config.filters['delay'].parameters).toMatchObject({ delay: 10.4, subsample: true });
+    });
+
+    it('should throw on invalid unit', () => {
+      expect(() => setDelayParam(createTestConfig(), 'delay', 'unit', 'feet' as any)).toThrow(
+        'Invalid delay unit "feet"'
+      );
+    });
+  });
+
+  describe('setGainFilterParam', () => {
+    it('should update gain with clamping', () => {
+      const config = createTestConfig();
+
+      expect(setGainFilterParam(config, 'gain', 'gain', 6.456).filters['gain'].parameters.gain).toBe(6.46);
+      expect(setGainFilterParam(config, 'gain', 'gain', 500).filters['gain'].parameters.gain).toBe(150);
+      expect(config.filters['gain'].parameters.gain).toBe(-3);
+    });
+
+    it('should use the linear range for linear scale', () => {
+      const config = createTestConfig();
+      config.filters['gain'].parameters.scale = 'linear';
+
+      expect(setGainFilterParam(config, 'gain', 'gain', 20).filters['gain'].parameters.gain).toBe(10);
+    });
+
+    it('should toggle inverted and mute', () => {
+      let config = setGainFilterParam(createTestConfig(), 'gain', 'inverted', true);
+      config = setGainFilterParam(config, 'gain', 'mute', true);
+
+      expect(config.filters['gain'].parameters).toMatchObject({ gain: -3, inverted: true, mute: true });
+    });
+  });
+
+  describe('setVolumeParam', () => {
+    it('should update fader and ramp time', () => {
+      let config = setVolumeParam(createTestConfig(), 'volume', 'fader', 'Aux3');
+      config = setVolumeParam(config, 'volume', 'ramp_time', 250.6);
+
+      expect(config.filters['volume'].parameters).toMatchObject({ fader: 'Aux3', ramp_time: 251 });
+    });
+
+    it('should reject the Main fader', () => {
+      expect(() => setVolumeParam(createTestConfig(), 'volume', 'fader', 'Main' as any)).toThrow(
+        'Invalid volume fader "Main"'
+      );
+    });
+  });
+
+  describe('setLoudnessParam', () => {
+    it('should update levels with clamping', () => {
+      let config = setLoudnessParam(createTestConfig(), 'loudness', 'reference_level', -150);
+      config = setLoudnessParam(config, 'loudness', 'low_boost', 12.34);
+      config = setLoudnessParam(config, 'loudness', 'high_boost', 40);
+
+      expect(config.filters['loudness'].parameters).toMatchObject({
+        reference_level: -100,
+        low_boost: 12.3,
+        high_boost: 20,
+      });
+    });
+
+    it('should update attenuate_mid and fader', () => {
+      let config = setLoudnessParam(createTestConfig(), 'loudness', 'attenuate_mid', true);
+      config = setLoudnessParam(config, 'loudness', 'fader', 'Aux2');
+
+      expect(config.filters['loudness'].parameters).toMatchObject({ attenuate_mid: true, fader: 'Aux2' });
+    });
+  });
+
+  describe('setBiquadComboParam', () => {
+    it('should clamp crossover frequency and keep Linkwitz-Riley orders even', () => {
+      let config = setBiquadComboParam(createTestConfig(), 'xover', 'freq', 5.4);
+      config = setBiquadComboParam(config, 'xover', 'order', 5);
+
+      expect(config.filters['xover'].parameters).toEqual({ type: 'LinkwitzRileyHighpass', freq: 20, order: 6 });
+    });
+
+    it('should reset parameters when switching subtype, keeping crossover settings', () => {
+      const butterworth = setBiquadComboParam(createTestConfig(), 'xover', 'type', 'ButterworthLowpass');
+      expect(butterworth.filters['xover'].parameters).toEqual({ type: 'ButterworthLowpass', freq: 80, order: 4 });
+
+      const tilt = setBiquadComboParam(butterworth, 'xover', 'type', 'Tilt');
+      expect(tilt.filters['xover'].parameters).toEqual({ type: 'Tilt', gain: 0 });
+
+      const peq = setBiquadComboParam(tilt, 'xover', 'type', 'FivePointPeq');
+      expect(setBiquadComboParam(peq, 'xover', 'gp2', 30).filters['xover'].parameters.gp2).toBe(24);
+    });
+
+    it('should edit GraphicEqualizer bands and resize the band list', () => {
+      let config = setBiquadComboParam(createTestConfig(), 'geq', 'gains.1', -4.56);
+      config = setBiquadComboParam(config, 'geq', 'bands', 5);
+
+      expect(config.filters['geq'].parameters.gains).toEqual([1, -4.6, 3, 0, 0]);
+      expect(() => setBiquadComboParam(config, 'geq', 'gains.9', 1)).toThrow('has no band 9');
+      expect(() => setBiquadComboParam(config, 'geq', 'freq_min', 30000)).toThrow('freq_min must be below freq_max');
+    });
+
+    it('should reject parameters of other subtypes', () => {
+      expect(() => setBiquadComboParam(createTestConfig(), 'xover', 'gain', 3)).toThrow(
+        'Invalid parameter "gain" for BiquadCombo type LinkwitzRileyHighpass'
+      );
+      expect(() => setBiquadComboParam(createTestConfig(), 'xover', 'type', 'Bessel')).toThrow(
+        'Invalid BiquadCombo type "Bessel"'
+      );
+    });
+  });
+
+  describe('setConvParam', () => {
+    it('should pick Wav or Raw from the file extension', () => {
+      const config = createTestConfig();
+
+      const text = setConvParam(config, 'room', 'filename', '/cfg/coefficients/sub.txt');
+      expect(text.filters['room'].parameters).toEqual({
+        type: 'Raw',
+        filename: '/cfg/coefficients/sub.txt',
+        format: 'TEXT',
+      });
+
+      const binary = setConvParam(text, 'room', 'filename', '/cfg/coefficients/sub.f32');
+      expect(binary.filters['room'].parameters.format).toBe('FLOAT32LE');
+
+      const wav = setConvParam(config, 'room', 'filename', '/cfg/coefficients/other.wav');
+      expect(wav.filters['room'].parameters).toEqual({
+        type: 'Wav',
+        filename: '/cfg/coefficients/other.wav',
+        channel: 1,
+      });
+      expect(config.filters['room'].parameters.filename).toBe('/cfg/coefficients/room.wav');
+    });
+
+    it('should switch type, keeping the file name', () => {
+      const raw = setConvParam(createTestConfig(), 'room', 'type', 'Raw');
+      expect(raw.filters['room'].parameters).toEqual({
+        type: 'Raw',
+        filename: '/cfg/coefficients/room.wav',
+        format: 'FLOAT64LE',
+      });
+      expect(setConvParam(raw, 'room', 'type', 'Values').filters['room'].parameters).toEqual({
+        type: 'Values',
+        values: [1],
+      });
+      expect(() => setConvParam(raw, 'room', 'type', 'Fir')).toThrow('Invalid Conv type "Fir"');
+    });
+
+    it('should validate subtype parameters', () => {
+      const config = createTestConfig();
+      expect(setConvParam(config, 'room', 'channel', 2.6).filters['room'].parameters.channel).toBe(3);
+      expect(() => setConvParam(config, 'room', 'format', 'TEXT')).toThrow(
+        'Invalid parameter "format" for Conv type Wav'
+      );
+
+      const raw = setConvParam(config, 'room', 'type', 'Raw');
+      expect(() => setConvParam(raw, 'room', 'format', 'MP3')).toThrow('Invalid Raw format "MP3"');
+      const skipped = setConvParam(raw, 'room', 'skip_bytes_lines', 44);
+      expect(skipped.filters['room'].parameters.skip_bytes_lines).toBe(44);
+      expect(setConvParam(skipped, 'room', 'skip_bytes_lines', 0).filters['room'].parameters).not.toHaveProperty(
+        'skip_bytes_lines'
+      );
+      expect(() => setConvParam(config, 'room', 'filename', ' ')).toThrow('Conv filter needs a coefficient file');
+    });
+  });
+
+  describe('setLimiterParam', () => {
+    it('should clamp and round the clip limit', () => {
+      const config = createTestConfig();
+      expect(setLimiterParam(config, 'limiter', 'clip_limit', -1.26).filters['limiter'].parameters.clip_limit).toBe(-1.3);
+      expect(setLimiterParam(config, 'limiter', 'clip_limit', 80).filters['limiter'].parameters.clip_limit).toBe(50);
+      expect(config.filters['limiter'].parameters.clip_limit).toBe(-3);
+    });
+
+    it('should toggle soft clipping', () => {
+      const updated = setLimiterParam(createTestConfig(), 'limiter', 'soft_clip', true);
+      expect(updated.filters['limiter'].parameters.soft_clip).toBe(true);
+    });
+  });
+
+  describe('setDitherParam', () => {
+    it('should add and drop the amplitude with the Flat type', () => {
+      const flat = setDitherParam(createTestConfig(), 'dither', 'type', 'Flat');
+      expect(flat.filters['dither'].parameters).toEqual({ type: 'Flat', bits: 16, amplitude: 2 });
+
+      const amplitude = setDitherParam(flat, 'dither', 'amplitude', 1.234);
+      expect(amplitude.filters['dither'].parameters.amplitude).toBe(1.23);
+
+      const shaped = setDitherParam(amplitude, 'dither', 'type', 'Gesemann48');
+      expect(shaped.filters['dither'].parameters).toEqual({ type: 'Gesemann48', bits: 16 });
+    });
+
+    it('should clamp bits and reject invalid values', () => {
+      const config = createTestConfig();
+      expect(setDitherParam(config, 'dither', 'bits', 40).filters['dither'].parameters.bits).toBe(32);
+      expect(setDitherParam(config, 'dither', 'bits', 23.6).filters['dither'].parameters.bits).toBe(24);
+      expect(() => setDitherParam(config, 'dither', 'type', 'Triangular')).toThrow('Invalid dither type "Triangular"');
+      expect(() => setDitherParam(config, 'dither', 'amplitude', 1)).toThrow('Dither type Shibata48 has no amplitude');
+    });
+  });
+
+  describe('DiffEq coefficients', () => {
+    it('should parse comma or space separated lists', () => {
+      expect(parseCoefficientList('1, -0.5  0.25;0')).toEqual([1, -0.5, 0.25, 0]);
+      expect(parseCoefficientList(' ')).toEqual([]);
+      expect(() => parseCoefficientList('1, x')).toThrow('Invalid coefficient "x"');
+    });
+
+    it('should detect poles outside the unit circle', () => {
+      expect(isDiffEqStable([1, -0.5])).toBe(true);
+      expect(isDiffEqStable([1, -1.5])).toBe(false);
+      // Resonator with poles at radius 0.99
+      expect(isDiffEqStable([1, -1.98 * Math.cos(0.1), 0.99 * 0.99])).toBe(true);
+      // Same angle, radius 1.01
+      expect(isDiffEqStable([1, -2.02 * Math.cos(0.1), 1.01 * 1.01])).toBe(false);
+      // Scaling a does not move the poles
+      expect(isDiffEqStable([2, -1])).toBe(true);
+      expect(isDiffEqStable([0, 1])).toBe(false);
+    });
+
+    it('should set coefficients and reject unstable feedback', () => {
+      const config = createTestConfig();
+      const updated = setDiffEqParam(config, 'diffeq', 'a', '1, -0.9');
+      expect(updated.filters['diffeq'].parameters.a).toEqual([1, -0.9]);
+      expect(setDiffEqParam(config, 'diffeq', 'b', [1, 1]).filters['diffeq'].parameters.b).toEqual([1, 1]);
+      expect(setDiffEqParam(config, 'diffeq', 'b', '').filters['diffeq'].parameters).not.toHaveProperty('b');
+
+      expect(() => setDiffEqParam(config, 'diffeq', 'a', '1, -1.1')).toThrow('DiffEq filter is unstable');
+      expect(() => setDiffEqParam(config, 'diffeq', 'a', '0, 1')).toThrow('DiffEq a[0] must not be zero');
+      // Unstable b is fine (FIR part)
+      expect(setDiffEqParam(config, 'diffeq', 'b', '1, -3').filters['diffeq'].parameters.b).toEqual([1, -3]);
+    });
+  });
+
+  describe('setFilterParam', () => {
+    it('should dispatch on filter type', () => {
+      const config = createTestConfig();
+
+      expect(setFilterParam(config, 'gain', 'gain', 1).filters['gain'].parameters.gain).toBe(1);
+      expect(setFilterParam(config, 'volume', 'fader', 'Aux2').filters['volume'].parameters.fader).toBe('Aux2');
+      expect(setFilterParam(config, 'xover', 'order', 2).filters['xover'].parameters.order).toBe(2);
+      expect(setFilterParam(config, 'room', 'channel', 0).filters['room'].parameters.channel).toBe(0);
+      expect(setFilterParam(config, 'limiter', 'soft_clip', true).filters['limiter'].parameters.soft_clip).toBe(true);
+      expect(setFilterParam(config, 'dither', 'bits', 24).filters['dither'].parameters.bits).toBe(24);
+      expect(setFilterParam(config, 'diffeq', 'b', '0.5 0.5').filters['diffeq'].parameters.b).toEqual([0.5, 0.5]);
+    });
+
+    it('should throw for filters without parameter editors', () => {
+      expect(() => setFilterParam(createTestConfig(), 'EQ1', 'gain', 1)).toThrow(
+        'Filter "EQ1" has no editable parameters'
+      );
+      expect(() => setFilterParam(createTestConfig(), 'missing', 'gain', 1)).toThrow(
+        'Filter "missing" has no editable parameters'
+      );
+    });
+
+    it('should throw when the type does not match', () => {
+      expect(() => setDelayParam(createTestConfig(), 'gain', 'delay', 1)).toThrow(
+        'Filter "gain" not found or not a Delay'
+      );
+    });
+  });
+});
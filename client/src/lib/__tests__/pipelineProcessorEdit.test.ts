@@ -7,6 +7,8 @@ import {
   setProcessorStepBypassed,
   setCompressorParam,
   setNoiseGateParam,
+  setDynamicsChannels,
+  setProcessorParam,
 } from '../pipelineProcessorEdit';
 import type { CamillaDSPConfig } from '../camillaDSP';
 
@@ -296,6 +298,81 @@ describe('pipelineProcessorEdit', () => {
     });
   });
 
+  describe('compressor clipping', () => {
+    it('sets clip limit and soft clip', () => {
+      const config = createTestConfig();
+      const limited = setCompressorParam(config, 'comp1', 'clip_limit', -1.234);
+      const soft = setCompressorParam(limited, 'comp1', 'soft_clip', true);
+
+      expect(soft.processors!.comp1.parameters.clip_limit).toBe(-1.23);
+      expect(soft.processors!.comp1.parameters.soft_clip).toBe(true);
+    });
+
+    it('removes optional parameters when set to null', () => {
+      const config = createTestConfig();
+      const limited = setCompressorParam(config, 'comp1', 'clip_limit', -1);
+      const cleared = setCompressorParam(limited, 'comp1', 'clip_limit', null);
+
+      expect(cleared.processors!.comp1.parameters).not.toHaveProperty('clip_limit');
+      expect(() => setCompressorParam(config, 'comp1', 'threshold', null)).toThrow(
+        'Compressor parameter "threshold" is required'
+      );
+    });
+  });
+
+  describe('setDynamicsChannels', () => {
+    it('sets sorted, unique channel lists', () => {
+      const config = createTestConfig();
+      const updated = setDynamicsChannels(config, 'comp1', 'monitor_channels', [1, 0, 1]);
+
+      expect(updated.processors!.comp1.parameters.monitor_channels).toEqual([0, 1]);
+      expect(config.processors!.comp1.parameters.monitor_channels).toBeUndefined();
+    });
+
+    it('removes the list for null or empty (all channels)', () => {
+      const config = createTestConfig();
+      const withList = setDynamicsChannels(config, 'gate1', 'process_channels', [0]);
+
+      expect(setDynamicsChannels(withList, 'gate1', 'process_channels', []).processors!.gate1.parameters)
+        .not.toHaveProperty('process_channels');
+      expect(setDynamicsChannels(withList, 'gate1', 'process_channels', null).processors!.gate1.parameters)
+        .not.toHaveProperty('process_channels');
+    });
+
+    it('rejects channels beyond the processor channel count', () => {
+      expect(() => setDynamicsChannels(createTestConfig(), 'comp1', 'process_channels', [0, 2])).toThrow(
+        'Channel 2 is out of range (processor has 2 channels)'
+      );
+    });
+
+    it('prunes channel lists when the channel count shrinks', () => {
+      let config = setDynamicsChannels(createTestConfig(), 'comp1', 'monitor_channels', [0, 1]);
+      config = setDynamicsChannels(config, 'comp1', 'process_channels', [1]);
+      const updated = setCompressorParam(config, 'comp1', 'channels', 1);
+
+      expect(updated.processors!.comp1.parameters.monitor_channels).toEqual([0]);
+      expect(updated.processors!.comp1.parameters).not.toHaveProperty('process_channels');
+    });
+  });
+
+  describe('setProcessorParam', () => {
+    it('dispatches on processor type and channel-list params', () => {
+      const config = createTestConfig();
+
+      expect(setProcessorParam(config, 'comp1', 'factor', 3).processors!.comp1.parameters.factor).toBe(3);
+      expect(setProcessorParam(config, 'gate1', 'attenuation', -40).processors!.gate1.parameters.attenuation).toBe(-40);
+      expect(
+        setProcessorParam(config, 'gate1', 'monitor_channels', [1]).processors!.gate1.parameters.monitor_channels
+      ).toEqual([1]);
+    });
+
+    it('throws for missing processors', () => {
+      expect(() => setProcessorParam(createTestConfig(), 'missing', 'factor', 3)).toThrow(
+        'Processor "missing" not found'
+      );
+    });
+  });
+
   describe('immutability', () => {
     it('does not mutate original config', () => {
       const config = createTestConfig();
@@ -22,6 +22,12 @@ describe('vizOptionsPersistence', () => {
       showSTA: true,
       showLTA: false,
       showPeak: false,
+      analyzerTauShort: 0.8,
+      analyzerTauLong: 8.0,
+      analyzerPeakHoldTime: 2.0,
+      analyzerPeakDecayRate: 12,
+      analyzerAveragingMode: 'db',
+      analyzerInfiniteAverage: false,
       showPerBandCurves: false,
       showBandwidthMarkers: true,
       bandFillOpacity: 0.4,
@@ -33,6 +39,7 @@ describe('vizOptionsPersistence', () => {
       heatmapGateThreshold: 0.05,
       heatmapMaxAlpha: 0.95,
       soloWhileEditing: false,
+      responseOverlay: 'off',
     });
   });
 
@@ -44,6 +51,12 @@ describe('vizOptionsPersistence', () => {
       showSTA: false,
       showLTA: true,
       showPeak: true,
+      analyzerTauShort: 1.5,
+      analyzerTauLong: 20,
+      analyzerPeakHoldTime: 0.5,
+      analyzerPeakDecayRate: 30,
+      analyzerAveragingMode: 'power',
+      analyzerInfiniteAverage: true,
       showPerBandCurves: true,
       showBandwidthMarkers: false,
       bandFillOpacity: 0.7,
@@ -55,6 +68,7 @@ describe('vizOptionsPersistence', () => {
       heatmapGateThreshold: 0.1,
       heatmapMaxAlpha: 0.8,
       soloWhileEditing: true,
+      responseOverlay: 'groupDelay',
     };
 
     saveVizOptions(customState);
@@ -71,6 +85,12 @@ describe('vizOptionsPersistence', () => {
       showSTA: true,
       showLTA: false,
       showPeak: false,
+      analyzerTauShort: 0.8,
+      analyzerTauLong: 8.0,
+      analyzerPeakHoldTime: 2.0,
+      analyzerPeakDecayRate: 12,
+      analyzerAveragingMode: 'db',
+      analyzerInfiniteAverage: false,
       showPerBandCurves: false,
       showBandwidthMarkers: true,
       bandFillOpacity: 2.5, // Out of range [0..1]
@@ -82,6 +102,7 @@ describe('vizOptionsPersistence', () => {
       heatmapGateThreshold: 0.05,
       heatmapMaxAlpha: 0.95,
       soloWhileEditing: false,
+      responseOverlay: 'off',
     };
 
     saveVizOptions(invalidState);
@@ -98,6 +119,12 @@ describe('vizOptionsPersistence', () => {
       showSTA: true,
       showLTA: false,
       showPeak: false,
+      analyzerTauShort: 0.8,
+      analyzerTauLong: 8.0,
+      analyzerPeakHoldTime: 2.0,
+      analyzerPeakDecayRate: 12,
+      analyzerAveragingMode: 'db',
+      analyzerInfiniteAverage: false,
       showPerBandCurves: false,
       showBandwidthMarkers: true,
       bandFillOpacity: 0.4,
@@ -109,6 +136,7 @@ describe('vizOptionsPersistence', () => {
       heatmapGateThreshold: 0.5, // Out of range [0.0..0.2]
       heatmapMaxAlpha: 1.5, // Out of range [0.2..1.0]
       soloWhileEditing: false,
+      responseOverlay: 'off',
     };
 
     saveVizOptions(invalidState);
@@ -120,6 +148,29 @@ describe('vizOptionsPersistence', () => {
     expect(loaded.heatmapMaxAlpha).toBe(1.0); // Clamped to max
   });
 
+  test('should clamp and validate analyzer parameters', () => {
+    localStorage.setItem(
+      'camillaEQ.vizOptions',
+      JSON.stringify({
+        version: 1,
+        analyzerTauShort: 0.01, // Out of range [0.1..10]
+        analyzerTauLong: 500, // Out of range [1..60]
+        analyzerPeakHoldTime: -1, // Out of range [0..10]
+        analyzerPeakDecayRate: 0, // Out of range [1..60]
+        analyzerAveragingMode: 'rms',
+        analyzerInfiniteAverage: 'yes',
+      })
+    );
+    const loaded = loadVizOptions();
+
+    expect(loaded.analyzerTauShort).toBe(0.1);
+    expect(loaded.analyzerTauLong).toBe(60);
+    expect(loaded.analyzerPeakHoldTime).toBe(0);
+    expect(loaded.analyzerPeakDecayRate).toBe(1);
+    expect(loaded.analyzerAveragingMode).toBe('db');
+    expect(loaded.analyzerInfiniteAverage).toBe(false);
+  });
+
   test('should reset to defaults on version mismatch', () => {
     const futureVersionState = {
       version: 999,
@@ -166,6 +217,12 @@ describe('vizOptionsPersistence', () => {
       showSTA: false,
       showLTA: true,
       showPeak: true,
+      analyzerTauShort: 0.8,
+      analyzerTauLong: 8.0,
+      analyzerPeakHoldTime: 2.0,
+      analyzerPeakDecayRate: 12,
+      analyzerAveragingMode: 'db',
+      analyzerInfiniteAverage: false,
       showPerBandCurves: true,
       showBandwidthMarkers: false,
       bandFillOpacity: 0.7,
@@ -177,6 +234,7 @@ describe('vizOptionsPersistence', () => {
       heatmapGateThreshold: 0.1,
       heatmapMaxAlpha: 0.8,
       soloWhileEditing: false,
+      responseOverlay: 'off',
     };
 
     saveVizOptions(customState);
@@ -271,6 +329,20 @@ describe('vizOptionsPersistence', () => {
     expect(loaded.heatmapMaskMode).toBe('full');
   });
 
+  test('should validate response overlay values', () => {
+    localStorage.setItem(
+      'camillaEQ.vizOptions',
+      JSON.stringify({ version: 1, responseOverlay: 'impulse' })
+    );
+    expect(loadVizOptions().responseOverlay).toBe('off');
+
+    localStorage.setItem(
+      'camillaEQ.vizOptions',
+      JSON.stringify({ version: 1, responseOverlay: 'groupDelay' })
+    );
+    expect(loadVizOptions().responseOverlay).toBe('groupDelay');
+  });
+
   test('should preserve valid boolean values', () => {
     const customState: VizOptionsState = {
       version: 1,
@@ -279,6 +351,12 @@ describe('vizOptionsPersistence', () => {
       showSTA: false,
       showLTA: true,
       showPeak: true,
+      analyzerTauShort: 0.8,
+      analyzerTauLong: 8.0,
+      analyzerPeakHoldTime: 2.0,
+      analyzerPeakDecayRate: 12,
+      analyzerAveragingMode: 'db',
+      analyzerInfiniteAverage: false,
       showPerBandCurves: true,
       showBandwidthMarkers: false,
       bandFillOpacity: 0.7,
@@ -290,6 +368,7 @@ describe('vizOptionsPersistence', () => {
       heatmapGateThreshold: 0.1,
       heatmapMaxAlpha: 0.8,
       soloWhileEditing: true,
+      responseOverlay: 'phase',
     };
 
     saveVizOptions(customState);
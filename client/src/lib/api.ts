@@ -4,14 +4,17 @@
  */
 
 import type { CamillaDSPConfig } from './camillaDSP';
+import type { EqPresetV1 } from '../../../shared/eqPresetSchema';
 
 /**
  * API error with status code and message
+ * details carries the server's structured error details when the caller reads them
  */
 export class ApiError extends Error {
   constructor(
     public status: number,
-    message: string
+    message: string,
+    public details?: unknown
   ) {
     super(message);
     this.name = 'ApiError';
@@ -63,6 +66,92 @@ export interface ConfigMetadata {
   variant?: string;
 }
 
+/**
+ * Saved revision of a preset (previous content archived on overwrite)
+ */
+export interface ConfigRevision {
+  revisionId: string;
+  timestamp: number;  // when the revision content was originally saved
+  replacedAt: number; // when a later save replaced it
+  summary: string;    // what the replacing save changed
+}
+
+/**
+ * Revision metadata plus its content (pipeline-config format)
+ */
+export interface ConfigRevisionDetail {
+  revision: ConfigRevision;
+  config: PresetConfig;
+}
+
+/**
+ * Stored convolution coefficient file (impulse response)
+ * path is absolute on the server and is used as the Conv filter's filename
+ */
+export interface CoefficientFileInfo {
+  name: string;
+  path: string;
+  size: number;
+  mtimeMs: number;
+  kind: 'wav' | 'text' | 'raw';
+  wav?: {
+    channels: number;
+    sampleRate: number;
+    bitsPerSample: number;
+    sampleFormat: 'int' | 'float';
+    frames: number;
+  };
+}
+
+/**
+ * Frozen analyzer trace (one dB value per display bin)
+ */
+export interface SpectrumSnapshot {
+  id: string;
+  name: string;
+  source: 'lta' | 'peak';
+  color: string; // #rrggbb
+  createdAt: number;
+  binsDb: number[];
+}
+
+/**
+ * Stored target curve file (frequency/dB text)
+ */
+export interface TargetCurveInfo {
+  name: string;
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * Parsed target curve, points sorted by frequency
+ */
+export interface TargetCurve {
+  name: string;
+  points: Array<{ freq: number; gainDb: number }>;
+}
+
+/**
+ * Stored frequency-response measurement
+ * device is the file name without extension; presets link to it by device name
+ */
+export interface MeasurementInfo {
+  name: string;
+  device: string;
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * Parsed measurement, points sorted by frequency
+ */
+export interface Measurement {
+  name: string;
+  device: string;
+  points: Array<{ freq: number; gainDb: number }>;
+}
+
 /**
  * Server version response
  */
@@ -193,3 +282,478 @@ export async function putConfig(id: string, config: PresetConfig): Promise<void>
     );
   }
 }
+
+/**
+ * Delete a preset config by ID (read-only presets are refused by the server)
+ */
+export async function deleteConfig(id: string): Promise<void> {
+  const response = await fetch(`/api/configs/${id}`, {
+    method: 'DELETE',
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to delete config '${id}': ${response.status} ${response.statusText}`
+    );
+  }
+}
+
+/**
+ * Rename a preset config
+ * @returns The new config ID (derived from the new name)
+ */
+export async function renameConfig(id: string, newName: string): Promise<string> {
+  const response = await fetch(`/api/configs/${id}/rename`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ newName }),
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to rename config '${id}': ${response.status} ${response.statusText}`
+    );
+  }
+  
+  const result: { id: string } = await response.json();
+  return result.id;
+}
+
+/**
+ * Duplicate a preset config under a new name
+ * @returns The ID of the copy
+ */
+export async function duplicateConfig(id: string, newName: string): Promise<string> {
+  const response = await fetch(`/api/configs/${id}/duplicate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ newName }),
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to duplicate config '${id}': ${response.status} ${response.statusText}`
+    );
+  }
+  
+  const result: { id: string } = await response.json();
+  return result.id;
+}
+
+/**
+ * Import an EQ preset (e.g. converted from Equalizer APO) as a new user preset
+ * @returns The ID of the new preset (derived from its name)
+ */
+export async function importEqPreset(preset: EqPresetV1): Promise<string> {
+  const response = await fetch('/api/configs/import/eq', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(preset),
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to import preset '${preset.name}': ${response.status} ${response.statusText}`
+    );
+  }
+  
+  const result: { id: string } = await response.json();
+  return result.id;
+}
+
+/**
+ * Path-addressed config validation error reported by the server
+ */
+export interface ConfigPathError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Convert a CamillaDSP config to camilladsp YAML text
+ */
+export async function exportConfigYaml(config: CamillaDSPConfig): Promise<string> {
+  const response = await fetch('/api/config/yaml', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(config),
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to export config as YAML: ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.text();
+}
+
+/**
+ * Import a camilladsp YAML file as a new pipeline preset
+ * On 400 the ApiError carries the server message and details
+ * ({ line } for YAML syntax errors, { errors: ConfigPathError[] } for schema errors)
+ * @returns The ID of the new preset
+ */
+export async function importConfigYaml(name: string, yaml: string): Promise<string> {
+  const response = await fetch('/api/configs/import/yaml', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, yaml }),
+  });
+  
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(
+      response.status,
+      body?.error?.message ?? `Failed to import YAML config '${name}': ${response.status} ${response.statusText}`,
+      body?.error?.details
+    );
+  }
+  
+  const result: { id: string } = await response.json();
+  return result.id;
+}
+
+/**
+ * List saved revisions of a preset (newest first)
+ */
+export async function listConfigRevisions(id: string): Promise<ConfigRevision[]> {
+  const response = await fetch(`/api/configs/${id}/revisions`);
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to list revisions of '${id}': ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Get a specific revision of a preset
+ */
+export async function getConfigRevision(id: string, revisionId: string): Promise<ConfigRevisionDetail> {
+  const response = await fetch(`/api/configs/${id}/revisions/${revisionId}`);
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to fetch revision '${revisionId}' of '${id}': ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Restore a revision of a preset (the current content is kept in history)
+ */
+export async function restoreConfigRevision(id: string, revisionId: string): Promise<void> {
+  const response = await fetch(`/api/configs/${id}/revisions/${revisionId}/restore`, {
+    method: 'POST',
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to restore revision '${revisionId}' of '${id}': ${response.status} ${response.statusText}`
+    );
+  }
+}
+
+/**
+ * List impulse-response files in the server's coefficients directory
+ */
+export async function listCoefficientFiles(): Promise<CoefficientFileInfo[]> {
+  const response = await fetch('/api/coefficients');
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to list coefficient files: ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Download a coefficient file (raw bytes)
+ */
+export async function getCoefficientFile(name: string): Promise<ArrayBuffer> {
+  const response = await fetch(`/api/coefficients/${encodeURIComponent(name)}`);
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to fetch coefficient file '${name}': ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.arrayBuffer();
+}
+
+/**
+ * Upload (or replace) a coefficient file
+ * On 400/413 the ApiError carries the server message (e.g. an unreadable WAV header)
+ */
+export async function uploadCoefficientFile(name: string, data: Blob | ArrayBuffer): Promise<CoefficientFileInfo> {
+  const response = await fetch(`/api/coefficients/${encodeURIComponent(name)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: data,
+  });
+  
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(
+      response.status,
+      body?.error?.message ?? `Failed to upload coefficient file '${name}': ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Delete a coefficient file
+ */
+export async function deleteCoefficientFile(name: string): Promise<void> {
+  const response = await fetch(`/api/coefficients/${encodeURIComponent(name)}`, {
+    method: 'DELETE',
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to delete coefficient file '${name}': ${response.status} ${response.statusText}`
+    );
+  }
+}
+
+/**
+ * List saved spectrum snapshots
+ */
+export async function listSpectrumSnapshots(): Promise<SpectrumSnapshot[]> {
+  const response = await fetch('/api/state/snapshots');
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to list spectrum snapshots: ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Save an analyzer trace as a named snapshot
+ * On 400/409 the ApiError carries the server message (e.g. the snapshot limit)
+ */
+export async function createSpectrumSnapshot(
+  snapshot: Omit<SpectrumSnapshot, 'id' | 'createdAt'>
+): Promise<SpectrumSnapshot> {
+  const response = await fetch('/api/state/snapshots', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(snapshot),
+  });
+  
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(
+      response.status,
+      body?.error?.message ?? `Failed to save spectrum snapshot: ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Rename or recolor a spectrum snapshot
+ */
+export async function updateSpectrumSnapshot(
+  id: string,
+  update: Partial<Pick<SpectrumSnapshot, 'name' | 'color'>>
+): Promise<SpectrumSnapshot> {
+  const response = await fetch(`/api/state/snapshots/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to update spectrum snapshot '${id}': ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Delete a spectrum snapshot
+ */
+export async function deleteSpectrumSnapshot(id: string): Promise<void> {
+  const response = await fetch(`/api/state/snapshots/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to delete spectrum snapshot '${id}': ${response.status} ${response.statusText}`
+    );
+  }
+}
+
+/**
+ * List target curve files in the server's targets directory
+ */
+export async function listTargetCurves(): Promise<TargetCurveInfo[]> {
+  const response = await fetch('/api/targets');
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to list target curves: ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Fetch a target curve (parsed by the server)
+ */
+export async function getTargetCurve(name: string): Promise<TargetCurve> {
+  const response = await fetch(`/api/targets/${encodeURIComponent(name)}`);
+  
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(
+      response.status,
+      body?.error?.message ?? `Failed to fetch target curve '${name}': ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Upload (or replace) a target curve (AutoEQ CSV or squig.link text)
+ * On 400/413 the ApiError carries the server message (e.g. a non-numeric line)
+ */
+export async function uploadTargetCurve(name: string, text: string): Promise<TargetCurve> {
+  const response = await fetch(`/api/targets/${encodeURIComponent(name)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'text/csv' },
+    body: text,
+  });
+  
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(
+      response.status,
+      body?.error?.message ?? `Failed to upload target curve '${name}': ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Delete a target curve
+ */
+export async function deleteTargetCurve(name: string): Promise<void> {
+  const response = await fetch(`/api/targets/${encodeURIComponent(name)}`, {
+    method: 'DELETE',
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to delete target curve '${name}': ${response.status} ${response.statusText}`
+    );
+  }
+}
+
+/**
+ * List frequency-response measurements in the server's measurements directory
+ */
+export async function listMeasurements(): Promise<MeasurementInfo[]> {
+  const response = await fetch('/api/measurements');
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to list measurements: ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Fetch a measurement (parsed by the server)
+ */
+export async function getMeasurement(name: string): Promise<Measurement> {
+  const response = await fetch(`/api/measurements/${encodeURIComponent(name)}`);
+  
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(
+      response.status,
+      body?.error?.message ?? `Failed to fetch measurement '${name}': ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Upload (or replace) a measurement (AutoEQ CSV or squig.link/REW text)
+ * On 400/413 the ApiError carries the server message (e.g. a non-numeric line)
+ */
+export async function uploadMeasurement(name: string, text: string): Promise<Measurement> {
+  const response = await fetch(`/api/measurements/${encodeURIComponent(name)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'text/csv' },
+    body: text,
+  });
+  
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(
+      response.status,
+      body?.error?.message ?? `Failed to upload measurement '${name}': ${response.status} ${response.statusText}`
+    );
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Delete a measurement
+ */
+export async function deleteMeasurement(name: string): Promise<void> {
+  const response = await fetch(`/api/measurements/${encodeURIComponent(name)}`, {
+    method: 'DELETE',
+  });
+  
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      `Failed to delete measurement '${name}': ${response.status} ${response.statusText}`
+    );
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Auto-EQ: fit Peaking/shelf bands so a measured spectrum follows a target curve
+ * Greedy placement at the largest remaining deviation, then coordinate-descent
+ * refinement of every band within the configured limits
+ */
+
+import { bandResponseDb, generateLogFrequencies, DEFAULT_SAMPLE_RATE, type EqBand } from '../dsp/filterResponse';
+import { clampFreqHz, clampGainDb, clampQ } from './eqParamClamp';
+
+export type TargetCurveKind = 'flat' | 'harman' | 'custom';
+
+export interface TargetPoint {
+  freq: number; // Hz
+  gainDb: number;
+}
+
+export interface AutoEqLimits {
+  minFreq: number; // Fit range and band frequency range (Hz)
+  maxFreq: number;
+  minGainDb: number; // Deepest cut
+  maxGainDb: number; // Largest boost
+  minQ: number;
+  maxQ: number;
+}
+
+export const DEFAULT_AUTO_EQ_LIMITS: AutoEqLimits = {
+  minFreq: 20,
+  maxFreq: 10000,
+  minGainDb: -12,
+  maxGainDb: 6,
+  minQ: 0.5,
+  maxQ: 5,
+};
+
+// Band types the fitter may adjust
+export const AUTO_EQ_BAND_TYPES: EqBand['type'][] = ['Peaking', 'LowShelf', 'HighShelf'];
+
+// Harman-style in-room target: bass shelf plus a gentle downward tilt
+const HARMAN_BASS_SHELF_HZ = 105;
+const HARMAN_BASS_SHELF_DB = 6;
+const HARMAN_TILT_DB_PER_OCTAVE = -0.5;
+
+const INITIAL_SHELF_Q = 0.7;
+const INITIAL_LOW_SHELF_HZ = 105;
+const INITIAL_HIGH_SHELF_HZ = 8000;
+const MAX_REFINE_PASSES = 60;
+
+/**
+ * Frequencies of the analyzer bins (log-spaced across the 20 Hz–20 kHz plot)
+ */
+export function spectrumBinFrequencies(count: number): number[] {
+  return generateLogFrequencies(20, 20000, count);
+}
+
+/**
+ * Interpolate user target points (log-frequency, linear dB; flat beyond the ends)
+ */
+export function interpolateTargetPoints(points: TargetPoint[], freq: number): number {
+  if (points.length === 0) return 0;
+
+  const sorted = [...points].sort((a, b) => a.freq - b.freq);
+  if (freq <= sorted[0].freq) return sorted[0].gainDb;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const right = sorted[i];
+    if (freq <= right.freq) {
+      const left = sorted[i - 1];
+      const t = Math.log(freq / left.freq) / Math.log(right.freq / left.freq);
+      return left.gainDb + t * (right.gainDb - left.gainDb);
+    }
+  }
+
+  return sorted[sorted.length - 1].gainDb;
+}
+
+/**
+ * Target curve (dB) at each frequency
+ * Only the shape matters: the fit ignores the overall level
+ */
+export function targetCurveDb(kind: TargetCurveKind, freqs: number[], customPoints: TargetPoint[] = []): number[] {
+  switch (kind) {
+    case 'flat':
+      return freqs.map(() => 0);
+    case 'harman': {
+      const shelf: EqBand = {
+        enabled: true,
+        type: 'LowShelf',
+        freq: HARMAN_BASS_SHELF_HZ,
+        gain: HARMAN_BASS_SHELF_DB,
+        q: INITIAL_SHELF_Q,
+      };
+      return freqs.map(
+        (f) => bandResponseDb(f, shelf) + HARMAN_TILT_DB_PER_OCTAVE * Math.log2(f / 1000)
+      );
+    }
+    case 'custom':
+      return freqs.map((f) => interpolateTargetPoints(customPoints, f));
+  }
+}
+
+/**
+ * Indices of the bands the fitter adjusts (enabled Peaking/shelf bands)
+ */
+export function autoEqFitIndices(bands: EqBand[]): number[] {
+  return bands.flatMap((band, index) =>
+    band.enabled && AUTO_EQ_BAND_TYPES.includes(band.type) ? [index] : []
+  );
+}
+
+export interface AutoEqFitInput {
+  measuredDb: number[]; // Frozen LTA trace
+  freqs: number[]; // Frequency of each measured bin
+  targetDb: number[]; // Target curve at the same frequencies
+  bands: EqBand[]; // Current EQ bands
+  fitIndices: number[]; // Bands to fit (others stay as they are)
+  measuredIncludesEq: boolean; // Trace was taken post-EQ
+  limits?: AutoEqLimits;
+  sampleRate?: number;
+}
+
+export interface AutoEqFitResult {
+  bands: EqBand[]; // All bands, fitted ones replaced
+  initialRmsDb: number; // Deviation from the target with the current EQ
+  residualRmsDb: number; // Deviation with the fitted EQ
+}
+
+interface FitParams {
+  type: EqBand['type'];
+  freq: number;
+  gain: number;
+  q: number;
+}
+
+/**
+ * Fit the selected bands so measured + EQ follows the target
+ * Deviations are compared with their mean removed (level is the preamp's job)
+ */
+export function fitAutoEq(input: AutoEqFitInput): AutoEqFitResult {
+  const limits = input.limits ?? DEFAULT_AUTO_EQ_LIMITS;
+  const sampleRate = input.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  const fitSet = new Set(input.fitIndices);
+
+  // Bins inside the fit range
+  const binIndices = input.freqs.flatMap((f, i) =>
+    f >= limits.minFreq && f <= limits.maxFreq && i < input.measuredDb.length ? [i] : []
+  );
+  const freqs = binIndices.map((i) => input.freqs[i]);
+  if (freqs.length < 2 || fitSet.size === 0) {
+    return { bands: input.bands, initialRmsDb: 0, residualRmsDb: 0 };
+  }
+
+  const responseOf = (band: EqBand) => freqs.map((f) => bandResponseDb(f, band, sampleRate));
+  const sumOf = (list: EqBand[]) =>
+    list.reduce((sum, band) => {
+      const response = responseOf(band);
+      return sum.map((value, i) => value + response[i]);
+    }, freqs.map(() => 0));
+
+  const fixedDb = sumOf(input.bands.filter((band, i) => band.enabled && !fitSet.has(i)));
+  const currentFitDb = sumOf(input.bands.filter((band, i) => band.enabled && fitSet.has(i)));
+
+  // What the fitted bands have to add: target − (response without the fitted bands)
+  const desired = removeMean(
+    binIndices.map((bin, i) => {
+      const withoutFitted = input.measuredIncludesEq
+        ? input.measuredDb[bin] - currentFitDb[i]
+        : input.measuredDb[bin] + fixedDb[i];
+      return input.targetDb[bin] - withoutFitted;
+    })
+  );
+
+  // Greedy initial placement, shelves first
+  const order = [...input.fitIndices].sort(
+    (a, b) => Number(input.bands[a].type === 'Peaking') - Number(input.bands[b].type === 'Peaking')
+  );
+  const params = new Map<number, FitParams>();
+  const residual = [...desired];
+  for (const index of order) {
+    const initial = initialParams(input.bands[index].type, residual, freqs, limits);
+    params.set(index, initial);
+    const response = responseOf(toBand(input.bands[index], initial));
+    response.forEach((value, i) => (residual[i] -= value));
+  }
+
+  refine(params, input.bands, desired, responseOf, limits);
+
+  const bands = input.bands.map((band, index) => {
+    const fitted = params.get(index);
+    if (!fitted) return band;
+    return toBand(band, {
+      ...fitted,
+      freq: clampFreqHz(clamp(fitted.freq, limits.minFreq, limits.maxFreq)),
+      gain: clampGainDb(clamp(fitted.gain, limits.minGainDb, limits.maxGainDb)),
+      q: clampQ(clamp(fitted.q, limits.minQ, limits.maxQ)),
+    });
+  });
+  const fittedDb = sumOf(bands.filter((band, i) => band.enabled && fitSet.has(i)));
+
+  return {
+    bands,
+    initialRmsDb: rmsDb(desired.map((value, i) => value - currentFitDb[i])),
+    residualRmsDb: rmsDb(desired.map((value, i) => value - fittedDb[i])),
+  };
+}
+
+/**
+ * Suggested preamp (≤ 0 dB) that keeps the EQ's largest boost from clipping
+ */
+export function headroomPreampDb(bands: EqBand[], sampleRate = DEFAULT_SAMPLE_RATE): number {
+  const freqs = generateLogFrequencies(20, 20000, 256);
+  let maxBoost = 0;
+  for (const f of freqs) {
+    let sum = 0;
+    for (const band of bands) {
+      if (band.enabled) sum += bandResponseDb(f, band, sampleRate);
+    }
+    maxBoost = Math.max(maxBoost, sum);
+  }
+  return maxBoost > 0 ? -Math.ceil(maxBoost * 10) / 10 : 0;
+}
+
+function initialParams(
+  type: EqBand['type'],
+  residual: number[],
+  freqs: number[],
+  limits: AutoEqLimits
+): FitParams {
+  const clampGain = (gain: number) => clamp(gain, limits.minGainDb, limits.maxGainDb);
+  const shelfQ = clamp(INITIAL_SHELF_Q, limits.minQ, limits.maxQ);
+
+  if (type === 'LowShelf' || type === 'HighShelf') {
+    const low = type === 'LowShelf';
+    const freq = clamp(low ? INITIAL_LOW_SHELF_HZ : INITIAL_HIGH_SHELF_HZ, limits.minFreq, limits.maxFreq);
+    const region = residual.filter((_, i) => (low ? freqs[i] <= freq : freqs[i] >= freq));
+    return { type, freq, gain: clampGain(mean(region)), q: shelfQ };
+  }
+
+  // Peaking: centre on the largest deviation the gain limits can correct
+  let peak = 0;
+  for (let i = 1; i < residual.length; i++) {
+    if (Math.abs(clampGain(residual[i])) > Math.abs(clampGain(residual[peak]))) peak = i;
+  }
+  const gain = clampGain(residual[peak]);
+
+  // Q from the half-gain width of the deviation
+  let left = peak;
+  let right = peak;
+  while (left > 0 && residual[left - 1] * Math.sign(gain) > Math.abs(gain) / 2) left--;
+  while (right < residual.length - 1 && residual[right + 1] * Math.sign(gain) > Math.abs(gain) / 2) right++;
+  const bandwidthOctaves = Math.max(Math.log2(freqs[right] / freqs[left]), 0.1);
+  const ratio = 2 ** bandwidthOctaves;
+  const q = clamp(Math.sqrt(ratio) / (ratio - 1), limits.minQ, limits.maxQ);
+
+  return { type, freq: freqs[peak], gain, q };
+}
+
+/**
+ * Coordinate descent over (freq, gain, Q) of every fitted band
+ * Steps shrink whenever a full pass brings no improvement
+ */
+function refine(
+  params: Map<number, FitParams>,
+  bands: EqBand[],
+  desired: number[],
+  responseOf: (band: EqBand) => number[],
+  limits: AutoEqLimits
+): void {
+  const responses = new Map<number, number[]>();
+  const total = desired.map(() => 0);
+  for (const [index, p] of params) {
+    const response = responseOf(toBand(bands[index], p));
+    responses.set(index, response);
+    response.forEach((value, i) => (total[i] += value));
+  }
+
+  const costWith = (without: number[], response: number[]) => {
+    let sum = 0;
+    let sumSq = 0;
+    for (let i = 0; i < desired.length; i++) {
+      const error = desired[i] - without[i] - response[i];
+      sum += error;
+      sumSq += error * error;
+    }
+    const m = sum / desired.length;
+    return sumSq / desired.length - m * m;
+  };
+
+  let freqStep = 2 ** (1 / 6);
+  let gainStep = 1;
+  let qStep = 1.25;
+
+  for (let pass = 0; pass < MAX_REFINE_PASSES && gainStep >= 0.05; pass++) {
+    let improved = false;
+
+    for (const [index, p] of params) {
+      const current = responses.get(index)!;
+      const without = total.map((value, i) => value - current[i]);
+      let best = { params: p, response: current, cost: costWith(without, current) };
+
+      const candidates: FitParams[] = [
+        { ...p, freq: clamp(p.freq * freqStep, limits.minFreq, limits.maxFreq) },
+        { ...p, freq: clamp(p.freq / freqStep, limits.minFreq, limits.maxFreq) },
+        { ...p, gain: clamp(p.gain + gainStep, limits.minGainDb, limits.maxGainDb) },
+        { ...p, gain: clamp(p.gain - gainStep, limits.minGainDb, limits.maxGainDb) },
+        { ...p, q: clamp(p.q * qStep, limits.minQ, limits.maxQ) },
+        { ...p, q: clamp(p.q / qStep, limits.minQ, limits.maxQ) },
+      ];
+
+      for (const candidate of candidates) {
+        const response = responseOf(toBand(bands[index], candidate));
+        const cost = costWith(without, response);
+        if (cost < best.cost - 1e-9) {
+          best = { params: candidate, response, cost };
+        }
+      }
+
+      if (best.params !== p) {
+        improved = true;
+        params.set(index, best.params);
+        responses.set(index, best.response);
+        best.response.forEach((value, i) => (total[i] = without[i] + value));
+      }
+    }
+
+    if (!improved) {
+      freqStep = Math.sqrt(freqStep);
+      gainStep /= 2;
+      qStep = Math.sqrt(qStep);
+    }
+  }
+}
+
+function toBand(band: EqBand, params: FitParams): EqBand {
+  return { ...band, type: params.type, freq: params.freq, gain: params.gain, q: params.q };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function removeMean(values: number[]): number[] {
+  const m = mean(values);
+  return values.map((value) => value - m);
+}
+
+function rmsDb(values: number[]): number {
+  const centered = removeMean(values);
+  return Math.sqrt(mean(centered.map((value) => value * value)));
+}
@@ -0,0 +1,686 @@
+/**
+ * Full CamillaDSP config validation with path-addressed errors
+ *
+ * Rules are derived from camillaSchema.ts and the ranges CamillaDSP itself
+ * enforces: filter/processor parameter types and ranges, pipeline references
+ * to undefined filters/mixers/processors, and channel indices against the
+ * channel count flowing through the pipeline (capture → mixers → playback).
+ *
+ * Mirrored by server/src/services/camillaConfigValidation.ts (keep rule tables in sync).
+ *
+ * Optional fields may be null: CamillaDSP serializes unset options that way.
+ */
+
+import type { CamillaDSPConfig } from './camillaDSP';
+import { computeChannelFlow } from './pipelineChannelFlow';
+
+/**
+ * A validation problem at a config path, e.g. "pipeline[2].names[0]"
+ */
+export interface ConfigPathError {
+  path: string;
+  message: string;
+}
+
+interface ParamRule {
+  kind: 'number' | 'integer' | 'boolean' | 'string' | 'enum' | 'numberList' | 'indexList';
+  required?: boolean;
+  min?: number;
+  max?: number;
+  gt?: number; // Exclusive minimum
+  belowNyquist?: boolean; // Frequency must be below samplerate / 2
+  values?: readonly string[];
+  nonEmpty?: boolean;
+}
+
+interface ParamSpec {
+  params: Record<string, ParamRule>;
+  oneOf?: string[]; // Exactly one of these parameters must be set
+}
+
+type TypeSpec = ParamSpec | { subtypes: Record<string, ParamSpec> };
+
+// ============================================================================
+// Rule tables (camillaSchema.ts)
+// ============================================================================
+
+const FREQ: ParamRule = { kind: 'number', required: true, gt: 0, belowNyquist: true };
+const Q: ParamRule = { kind: 'number', gt: 0 };
+const BANDWIDTH: ParamRule = { kind: 'number', gt: 0 };
+const GAIN: ParamRule = { kind: 'number', required: true, min: -150, max: 150 };
+const SLOPE: ParamRule = { kind: 'number', gt: 0, max: 12 };
+const COEFF: ParamRule = { kind: 'number', required: true };
+const BITS: ParamRule = { kind: 'integer', required: true, min: 2, max: 32 };
+const TIME_CONSTANT: ParamRule = { kind: 'number', required: true, gt: 0 };
+const FADERS = ['Main', 'Aux1', 'Aux2', 'Aux3', 'Aux4'] as const;
+const SCALES = ['dB', 'linear'] as const;
+
+const BIQUAD_SPECS: Record<string, ParamSpec> = {
+  Free: { params: { a1: COEFF, a2: COEFF, b0: COEFF, b1: COEFF, b2: COEFF } },
+  Highpass: { params: { freq: FREQ, q: { ...Q, required: true } } },
+  Lowpass: { params: { freq: FREQ, q: { ...Q, required: true } } },
+  Peaking: { params: { freq: FREQ, gain: GAIN, q: Q, bandwidth: BANDWIDTH }, oneOf: ['q', 'bandwidth'] },
+  Highshelf: { params: { freq: FREQ, gain: GAIN, q: Q, slope: SLOPE }, oneOf: ['q', 'slope'] },
+  Lowshelf: { params: { freq: FREQ, gain: GAIN, q: Q, slope: SLOPE }, oneOf: ['q', 'slope'] },
+  HighshelfFO: { params: { freq: FREQ, gain: GAIN } },
+  LowshelfFO: { params: { freq: FREQ, gain: GAIN } },
+  HighpassFO: { params: { freq: FREQ } },
+  LowpassFO: { params: { freq: FREQ } },
+  AllpassFO: { params: { freq: FREQ } },
+  Allpass: { params: { freq: FREQ, q: Q, bandwidth: BANDWIDTH }, oneOf: ['q', 'bandwidth'] },
+  Bandpass: { params: { freq: FREQ, q: Q, bandwidth: BANDWIDTH }, oneOf: ['q', 'bandwidth'] },
+  Notch: { params: { freq: FREQ, q: Q, bandwidth: BANDWIDTH }, oneOf: ['q', 'bandwidth'] },
+  GeneralNotch: {
+    params: {
+      freq_p: FREQ,
+      freq_z: FREQ,
+      q_p: { ...Q, required: true },
+      normalize_at_dc: { kind: 'boolean' },
+    },
+  },
+  LinkwitzTransform: {
+    params: {
+      freq_act: FREQ,
+      q_act: { ...Q, required: true },
+      freq_target: FREQ,
+      q_target: { ...Q, required: true },
+    },
+  },
+};
+
+const CROSSOVER_ORDER: ParamRule = { kind: 'integer', required: true, min: 1, max: 16 };
+
+const BIQUAD_COMBO_SPECS: Record<string, ParamSpec> = {
+  LinkwitzRileyHighpass: { params: { freq: FREQ, order: CROSSOVER_ORDER } },
+  LinkwitzRileyLowpass: { params: { freq: FREQ, order: CROSSOVER_ORDER } },
+  ButterworthHighpass: { params: { freq: FREQ, order: CROSSOVER_ORDER } },
+  ButterworthLowpass: { params: { freq: FREQ, order: CROSSOVER_ORDER } },
+  Tilt: { params: { gain: { kind: 'number', required: true, min: -100, max: 100 } } },
+  FivePointPeq: {
+    params: Object.fromEntries(
+      ['ls', 'p1', 'p2', 'p3', 'hs'].flatMap((band) => [
+        [`f${band}`, FREQ],
+        [`q${band}`, { ...Q, required: true }],
+        [`g${band}`, GAIN],
+      ])
+    ),
+  },
+  GraphicEqualizer: {
+    params: {
+      gains: { kind: 'numberList', required: true, nonEmpty: true },
+      freq_min: { kind: 'number', gt: 0, belowNyquist: true },
+      freq_max: { kind: 'number', gt: 0, belowNyquist: true },
+    },
+  },
+};
+
+const CONV_SPECS: Record<string, ParamSpec> = {
+  Raw: {
+    params: {
+      filename: { kind: 'string', required: true },
+      format: { kind: 'string' },
+      skip_bytes_lines: { kind: 'integer', min: 0 },
+      read_bytes_lines: { kind: 'integer', min: 0 },
+    },
+  },
+  Wav: { params: { filename: { kind: 'string', required: true }, channel: { kind: 'integer', min: 0 } } },
+  Values: { params: { values: { kind: 'numberList', required: true, nonEmpty: true } } },
+  Dummy: { params: { length: { kind: 'integer', required: true, min: 1 } } },
+};
+
+export const DITHER_TYPES = [
+  'None', 'Highpass', 'Fweighted441', 'FweightedLong441', 'FweightedShort441', 'Gesemann441', 'Gesemann48',
+  'Lipshitz441', 'LipshitzLong441', 'Shibata441', 'ShibataHigh441', 'ShibataLow441', 'Shibata48',
+  'ShibataHigh48', 'ShibataLow48', 'Shibata882', 'ShibataLow882', 'Shibata96', 'ShibataLow96',
+  'Shibata192', 'ShibataLow192',
+];
+
+const DITHER_SPECS: Record<string, ParamSpec> = {
+  ...Object.fromEntries(DITHER_TYPES.map((type) => [type, { params: { bits: BITS } }])),
+  Flat: { params: { bits: BITS, amplitude: { kind: 'number', required: true, min: 0, max: 100 } } },
+};
+
+const FILTER_SPECS: Record<string, TypeSpec> = {
+  Biquad: { subtypes: BIQUAD_SPECS },
+  BiquadCombo: { subtypes: BIQUAD_COMBO_SPECS },
+  Conv: { subtypes: CONV_SPECS },
+  Dither: { subtypes: DITHER_SPECS },
+  Gain: {
+    params: {
+      gain: GAIN,
+      inverted: { kind: 'boolean' },
+      mute: { kind: 'boolean' },
+      scale: { kind: 'enum', values: SCALES },
+    },
+  },
+  Delay: {
+    params: {
+      delay: { kind: 'number', required: true, min: 0 },
+      unit: { kind: 'enum', values: ['ms', 'mm', 'samples'] },
+      subsample: { kind: 'boolean' },
+    },
+  },
+  Volume: {
+    params: {
+      ramp_time: { kind: 'number', min: 0 },
+      fader: { kind: 'enum', required: true, values: FADERS.slice(1) },
+      limit: { kind: 'number', min: -150, max: 50 },
+    },
+  },
+  Loudness: {
+    params: {
+      reference_level: { kind: 'number', required: true, min: -100, max: 20 },
+      high_boost: { kind: 'number', min: 0, max: 20 },
+      low_boost: { kind: 'number', min: 0, max: 20 },
+      attenuate_mid: { kind: 'boolean' },
+      fader: { kind: 'enum', values: FADERS },
+    },
+  },
+  Limiter: {
+    params: {
+      clip_limit: { kind: 'number', required: true, min: -150, max: 50 },
+      soft_clip: { kind: 'boolean' },
+    },
+  },
+  DiffEq: {
+    params: {
+      a: { kind: 'numberList' },
+      b: { kind: 'numberList' },
+    },
+  },
+};
+
+const DYNAMICS_COMMON: Record<string, ParamRule> = {
+  channels: { kind: 'integer', required: true, min: 1 },
+  monitor_channels: { kind: 'indexList' },
+  process_channels: { kind: 'indexList' },
+  attack: TIME_CONSTANT,
+  release: TIME_CONSTANT,
+  threshold: { kind: 'number', required: true, min: -150, max: 50 },
+};
+
+const PROCESSOR_SPECS: Record<string, TypeSpec> = {
+  Compressor: {
+    params: {
+      ...DYNAMICS_COMMON,
+      factor: { kind: 'number', required: true, min: 1 },
+      makeup_gain: { kind: 'number', min: -150, max: 150 },
+      soft_clip: { kind: 'boolean' },
+      clip_limit: { kind: 'number', min: -150, max: 50 },
+    },
+  },
+  NoiseGate: {
+    params: {
+      ...DYNAMICS_COMMON,
+      attenuation: { kind: 'number', required: true },
+    },
+  },
+};
+
+const PIPELINE_STEP_TYPES = ['Filter', 'Mixer', 'Processor'];
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a CamillaDSP config (JSON form)
+ * @returns Every problem found (empty when valid)
+ */
+export function validateCamillaConfig(config: unknown): ConfigPathError[] {
+  const errors: ConfigPathError[] = [];
+
+  if (!isObject(config)) {
+    return [{ path: '', message: 'Config must be a mapping' }];
+  }
+
+  const samplerate = validateDevices(config.devices, errors);
+
+  const filters = validateSection(config, 'filters', errors);
+  const mixers = validateSection(config, 'mixers', errors);
+  const processors = validateSection(config, 'processors', errors);
+
+  for (const [name, filter] of Object.entries(filters)) {
+    validateTypedEntry(filter, definitionPath('filters', name), FILTER_SPECS, 'filter', samplerate, errors);
+  }
+  for (const [name, mixer] of Object.entries(mixers)) {
+    validateMixer(mixer, definitionPath('mixers', name), errors);
+  }
+  for (const [name, processor] of Object.entries(processors)) {
+    const path = definitionPath('processors', name);
+    if (validateTypedEntry(processor, path, PROCESSOR_SPECS, 'processor', samplerate, errors)) {
+      validateDynamicsChannels((processor as Record<string, any>).parameters, `${path}.parameters`, errors);
+    }
+  }
+
+  if (validatePipeline(config.pipeline, { filters, mixers, processors }, errors)) {
+    validateChannelFlow(config, errors);
+  }
+
+  return errors;
+}
+
+/**
+ * Path of a named definition: "filters.peq", or 'filters["eq.low"]' when the
+ * name holds path characters (groupErrorsByStep reads the name back)
+ */
+function definitionPath(section: string, name: string): string {
+  return /^[^.[\]"]+$/.test(name) ? `${section}.${name}` : `${section}[${JSON.stringify(name)}]`;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isAbsent(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function hasOwn(section: Record<string, unknown>, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(section, name);
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * PrcFmt: numbers may also be given as numeric strings ("0.707")
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Devices are optional field by field (presets and GUI defaults omit some);
+ * fields that are present must be valid
+ * @returns The samplerate when valid (used for Nyquist checks)
+ */
+function validateDevices(devices: unknown, errors: ConfigPathError[]): number | null {
+  if (!isObject(devices)) {
+    errors.push({ path: 'devices', message: 'devices must be a mapping' });
+    return null;
+  }
+
+  for (const field of ['samplerate', 'chunksize']) {
+    const value = devices[field];
+    if (!isAbsent(value) && (!isNonNegativeInteger(value) || value === 0)) {
+      errors.push({ path: `devices.${field}`, message: `${field} must be a positive integer` });
+    }
+  }
+  for (const field of ['capture', 'playback']) {
+    const device = devices[field];
+    if (!isObject(device)) {
+      errors.push({ path: `devices.${field}`, message: `${field} must be a mapping` });
+    } else if (!isAbsent(device.channels) && (!isNonNegativeInteger(device.channels) || device.channels === 0)) {
+      errors.push({ path: `devices.${field}.channels`, message: 'channels must be a positive integer' });
+    }
+  }
+
+  return isNonNegativeInteger(devices.samplerate) && devices.samplerate > 0 ? devices.samplerate : null;
+}
+
+/**
+ * Optional name → definition section (null/missing is treated as empty)
+ */
+function validateSection(
+  config: Record<string, any>,
+  section: string,
+  errors: ConfigPathError[]
+): Record<string, unknown> {
+  const value = config[section];
+  if (isAbsent(value)) {
+    return {};
+  }
+  if (!isObject(value)) {
+    errors.push({ path: section, message: `${section} must be a mapping` });
+    return {};
+  }
+  return value;
+}
+
+/**
+ * Validate a filter/processor definition against its type's parameter spec
+ * @returns true when the shape was valid enough to check parameters
+ */
+function validateTypedEntry(
+  entry: unknown,
+  path: string,
+  specs: Record<string, TypeSpec>,
+  label: string,
+  samplerate: number | null,
+  errors: ConfigPathError[]
+): boolean {
+  if (!isObject(entry)) {
+    errors.push({ path, message: 'Definition must be a mapping' });
+    return false;
+  }
+  const errorCount = errors.length;
+  if (typeof entry.type !== 'string' || entry.type === '') {
+    errors.push({ path: `${path}.type`, message: 'type is required' });
+  } else if (!hasOwn(specs, entry.type)) {
+    errors.push({ path: `${path}.type`, message: `Unknown ${label} type "${entry.type}"` });
+  }
+  if (!isObject(entry.parameters)) {
+    errors.push({ path: `${path}.parameters`, message: 'parameters must be a mapping' });
+  }
+  if (errors.length > errorCount) {
+    return false;
+  }
+
+  const typeSpec = specs[entry.type];
+  const paramsPath = `${path}.parameters`;
+  let spec: ParamSpec;
+
+  if ('subtypes' in typeSpec) {
+    const subtype = entry.parameters.type;
+    if (typeof subtype !== 'string' || !hasOwn(typeSpec.subtypes, subtype)) {
+      errors.push({
+        path: `${paramsPath}.type`,
+        message: `Unknown ${entry.type} type "${String(subtype)}"`,
+      });
+      return false;
+    }
+    spec = typeSpec.subtypes[subtype];
+  } else {
+    spec = typeSpec;
+  }
+
+  validateParams(entry.parameters, paramsPath, spec, samplerate, errors);
+  return true;
+}
+
+function validateParams(
+  params: Record<string, any>,
+  path: string,
+  spec: ParamSpec,
+  samplerate: number | null,
+  errors: ConfigPathError[]
+): void {
+  for (const [name, rule] of Object.entries(spec.params)) {
+    const value = params[name];
+    if (isAbsent(value)) {
+      if (rule.required) {
+        errors.push({ path: `${path}.${name}`, message: `${name} is required` });
+      }
+      continue;
+    }
+    const message = checkParam(value, rule, samplerate);
+    if (message) {
+      errors.push({ path: `${path}.${name}`, message });
+    }
+  }
+
+  if (spec.oneOf) {
+    const present = spec.oneOf.filter((name) => !isAbsent(params[name]));
+    if (present.length !== 1) {
+      errors.push({
+        path: `${path}.${present[1] ?? spec.oneOf[0]}`,
+        message: `Exactly one of ${spec.oneOf.join(', ')} must be set`,
+      });
+    }
+  }
+}
+
+/**
+ * @returns An error message, or null when the value satisfies the rule
+ */
+function checkParam(value: unknown, rule: ParamRule, samplerate: number | null): string | null {
+  switch (rule.kind) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'Must be true or false';
+    case 'string':
+      return typeof value === 'string' && value !== '' ? null : 'Must be a non-empty string';
+    case 'enum':
+      return typeof value === 'string' && rule.values!.includes(value)
+        ? null
+        : `Must be one of: ${rule.values!.join(', ')}`;
+    case 'numberList':
+    case 'indexList': {
+      if (!Array.isArray(value)) return 'Must be a list';
+      if (rule.nonEmpty && value.length === 0) return 'Must not be empty';
+      const valid = rule.kind === 'indexList' ? value.every(isNonNegativeInteger) : value.every((v) => toNumber(v) !== null);
+      return valid ? null : rule.kind === 'indexList' ? 'Must be a list of channel indices' : 'Must be a list of numbers';
+    }
+    case 'integer':
+    case 'number': {
+      const num = rule.kind === 'integer' ? (Number.isInteger(value) ? (value as number) : null) : toNumber(value);
+      if (num === null) return rule.kind === 'integer' ? 'Must be an integer' : 'Must be a number';
+      if (rule.gt !== undefined && !(num > rule.gt)) return `Must be greater than ${rule.gt}`;
+      if (rule.min !== undefined && num < rule.min) return `Must be at least ${rule.min}`;
+      if (rule.max !== undefined && num > rule.max) return `Must be at most ${rule.max}`;
+      if (rule.belowNyquist && samplerate !== null && num >= samplerate / 2) {
+        return `Must be below ${samplerate / 2} Hz (half the sample rate)`;
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Compressor/NoiseGate monitor and process channels must exist in the processor's channel count
+ */
+function validateDynamicsChannels(params: Record<string, any>, path: string, errors: ConfigPathError[]): void {
+  if (!isNonNegativeInteger(params.channels)) return;
+
+  for (const field of ['monitor_channels', 'process_channels']) {
+    const list = params[field];
+    if (!Array.isArray(list)) continue;
+    list.forEach((channel: unknown, index: number) => {
+      if (isNonNegativeInteger(channel) && channel >= params.channels) {
+        errors.push({
+          path: `${path}.${field}[${index}]`,
+          message: `Channel ${channel} does not exist (processor has ${params.channels} channels)`,
+        });
+      }
+    });
+  }
+}
+
+function validateMixer(mixer: unknown, path: string, errors: ConfigPathError[]): void {
+  if (!isObject(mixer)) {
+    errors.push({ path, message: 'Mixer must be a mapping' });
+    return;
+  }
+
+  let channelsIn: number | null = null;
+  let channelsOut: number | null = null;
+
+  if (!isObject(mixer.channels)) {
+    errors.push({ path: `${path}.channels`, message: 'channels must be a mapping with in/out counts' });
+  } else {
+    for (const dir of ['in', 'out'] as const) {
+      const count = mixer.channels[dir];
+      if (!isNonNegativeInteger(count) || count === 0) {
+        errors.push({ path: `${path}.channels.${dir}`, message: 'Channel count must be a positive integer' });
+      } else if (dir === 'in') {
+        channelsIn = count;
+      } else {
+        channelsOut = count;
+      }
+    }
+  }
+
+  if (!Array.isArray(mixer.mapping)) {
+    errors.push({ path: `${path}.mapping`, message: 'mapping must be a list' });
+    return;
+  }
+
+  mixer.mapping.forEach((entry: unknown, index: number) => {
+    const entryPath = `${path}.mapping[${index}]`;
+    if (!isObject(entry)) {
+      errors.push({ path: entryPath, message: 'Mapping entry must be a mapping' });
+      return;
+    }
+    if (!isNonNegativeInteger(entry.dest)) {
+      errors.push({ path: `${entryPath}.dest`, message: 'dest must be a channel index' });
+    } else if (channelsOut !== null && entry.dest >= channelsOut) {
+      errors.push({
+        path: `${entryPath}.dest`,
+        message: `Output channel ${entry.dest} does not exist (mixer has ${channelsOut} outputs)`,
+      });
+    }
+    if (!Array.isArray(entry.sources)) {
+      errors.push({ path: `${entryPath}.sources`, message: 'sources must be a list' });
+      return;
+    }
+    entry.sources.forEach((source: unknown, sourceIndex: number) => {
+      const sourcePath = `${entryPath}.sources[${sourceIndex}]`;
+      if (!isObject(source)) {
+        errors.push({ path: sourcePath, message: 'Source must be a mapping' });
+        return;
+      }
+      if (!isNonNegativeInteger(source.channel)) {
+        errors.push({ path: `${sourcePath}.channel`, message: 'channel must be a channel index' });
+      } else if (channelsIn !== null && source.channel >= channelsIn) {
+        errors.push({
+          path: `${sourcePath}.channel`,
+          message: `Input channel ${source.channel} does not exist (mixer has ${channelsIn} inputs)`,
+        });
+      }
+      if (!isAbsent(source.gain)) {
+        const message = checkParam(source.gain, { kind: 'number', min: -150, max: 150 }, null);
+        if (message) errors.push({ path: `${sourcePath}.gain`, message });
+      }
+      if (!isAbsent(source.scale)) {
+        const message = checkParam(source.scale, { kind: 'enum', values: SCALES }, null);
+        if (message) errors.push({ path: `${sourcePath}.scale`, message });
+      }
+    });
+  });
+}
+
+/**
+ * @returns true when every step has a valid shape (channel flow can be checked)
+ */
+function validatePipeline(
+  pipeline: unknown,
+  defined: { filters: Record<string, unknown>; mixers: Record<string, unknown>; processors: Record<string, unknown> },
+  errors: ConfigPathError[]
+): boolean {
+  if (isAbsent(pipeline)) {
+    return true;
+  }
+  if (!Array.isArray(pipeline)) {
+    errors.push({ path: 'pipeline', message: 'pipeline must be a list' });
+    return false;
+  }
+
+  const errorCount = errors.length;
+
+  pipeline.forEach((step: unknown, index: number) => {
+    const path = `pipeline[${index}]`;
+    if (!isObject(step)) {
+      errors.push({ path, message: 'Pipeline step must be a mapping' });
+      return;
+    }
+    if (!PIPELINE_STEP_TYPES.includes(step.type)) {
+      errors.push({ path: `${path}.type`, message: `type must be one of: ${PIPELINE_STEP_TYPES.join(', ')}` });
+      return;
+    }
+    if (!isAbsent(step.bypassed) && typeof step.bypassed !== 'boolean') {
+      errors.push({ path: `${path}.bypassed`, message: 'Must be true or false' });
+    }
+
+    if (step.type === 'Filter') {
+      // v3 uses "channels" (null = all channels); v2 used a single "channel"
+      if (!isAbsent(step.channels)) {
+        if (!Array.isArray(step.channels) || !step.channels.every(isNonNegativeInteger)) {
+          errors.push({ path: `${path}.channels`, message: 'channels must be a list of channel indices' });
+        }
+      } else if (!isAbsent(step.channel) && !isNonNegativeInteger(step.channel)) {
+        errors.push({ path: `${path}.channel`, message: 'channel must be a channel index' });
+      }
+      if (!Array.isArray(step.names)) {
+        errors.push({ path: `${path}.names`, message: 'names must be a list' });
+        return;
+      }
+      step.names.forEach((name: unknown, nameIndex: number) => {
+        if (typeof name !== 'string' || !hasOwn(defined.filters, name)) {
+          errors.push({ path: `${path}.names[${nameIndex}]`, message: `Undefined filter "${String(name)}"` });
+        }
+      });
+      return;
+    }
+
+    const section = step.type === 'Mixer' ? defined.mixers : defined.processors;
+    if (typeof step.name !== 'string' || !hasOwn(section, step.name)) {
+      errors.push({
+        path: `${path}.name`,
+        message: `Undefined ${step.type.toLowerCase()} "${String(step.name)}"`,
+      });
+    }
+  });
+
+  return errors.length === errorCount;
+}
+
+/**
+ * Follow the channel count from capture through mixers to playback
+ * (see pipelineChannelFlow.ts; bypassed steps are skipped, as in CamillaDSP)
+ */
+function validateChannelFlow(config: Record<string, any>, errors: ConfigPathError[]): void {
+  errors.push(...computeChannelFlow(config as CamillaDSPConfig).issues);
+}
+
+// ============================================================================
+// Error → pipeline step mapping (for highlighting blocks)
+// ============================================================================
+
+/**
+ * Group errors by the pipeline step they belong to
+ *
+ * - pipeline[i]... → step i
+ * - filters.<name>... / filters["<name>"]... → every Filter step listing that filter
+ * - mixers.<name>... / processors.<name>... → every step using that mixer/processor
+ *
+ * Errors that belong to no step (devices, unused definitions) are returned under -1.
+ */
+export function groupErrorsByStep(errors: ConfigPathError[], config: unknown): Map<number, ConfigPathError[]> {
+  const groups = new Map<number, ConfigPathError[]>();
+  const pipeline: any[] = isObject(config) && Array.isArray(config.pipeline) ? config.pipeline : [];
+
+  const add = (stepIndex: number, error: ConfigPathError) => {
+    const list = groups.get(stepIndex) ?? [];
+    list.push(error);
+    groups.set(stepIndex, list);
+  };
+
+  for (const error of errors) {
+    const stepMatch = error.path.match(/^pipeline\[(\d+)\]/);
+    if (stepMatch) {
+      add(Number(stepMatch[1]), error);
+      continue;
+    }
+
+    const defMatch = error.path.match(/^(filters|mixers|processors)(?:\.([^.[]+)|\[("(?:[^"\\]|\\.)*")\])/);
+    const steps: number[] = [];
+    if (defMatch) {
+      const [, section, plainName, quotedName] = defMatch;
+      const name = plainName ?? JSON.parse(quotedName);
+      pipeline.forEach((step, index) => {
+        if (!isObject(step)) return;
+        const uses =
+          section === 'filters'
+            ? step.type === 'Filter' && Array.isArray(step.names) && step.names.includes(name)
+            : step.type === (section === 'mixers' ? 'Mixer' : 'Processor') && step.name === name;
+        if (uses) steps.push(index);
+      });
+    }
+
+    if (steps.length === 0) {
+      add(-1, error);
+    } else {
+      steps.forEach((index) => add(index, error));
+    }
+  }
+
+  return groups;
+}
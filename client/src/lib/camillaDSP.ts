@@ -6,6 +6,7 @@
 
 import { SocketRequestQueue } from './requestQueue';
 import type { PipelineStep } from './camillaSchema';
+import { validateCamillaConfig, type ConfigPathError } from './camillaConfigValidation';
 
 // Re-export canonical schema types
 export type {
@@ -65,6 +66,14 @@ export interface SocketLifecycleEvent {
 
 export type DeviceEntry = [string, string | null];
 
+// Per-channel signal levels in dBFS (capture = pipeline input, playback = pipeline output)
+export interface SignalLevels {
+  capturePeak: number[];
+  captureRms: number[];
+  playbackPeak: number[];
+  playbackRms: number[];
+}
+
 /**
  * CamillaDSP client class
  */
@@ -78,6 +87,7 @@ export class CamillaDSP {
   public connected: boolean = false;
   public spectrumConnected: boolean = false;
   public config: GuiReadyCamillaDSPConfig | null = null;
+  public validationErrors: ConfigPathError[] = [];
 
   /**
    * Check if control socket is open and ready
@@ -622,6 +632,18 @@ export class CamillaDSP {
     }
   }
 
+  /**
+   * Get the capture sample rate measured by CamillaDSP (Hz)
+   */
+  async getCaptureRate(): Promise<number | null> {
+    try {
+      return await this.sendDSPMessage('GetCaptureRate');
+    } catch (error) {
+      console.error('Error getting capture rate:', error);
+      return null;
+    }
+  }
+
   /**
    * Set volume
    */
@@ -636,49 +658,38 @@ export class CamillaDSP {
   }
 
   /**
-   * Validate config structure
+   * Get capture/playback peak and RMS levels of the last chunk
+   * The four commands go through the control queue one after another
+   */
+  async getSignalLevels(): Promise<SignalLevels | null> {
+    try {
+      const capturePeak = await this.sendDSPMessage('GetCaptureSignalPeak');
+      const captureRms = await this.sendDSPMessage('GetCaptureSignalRms');
+      const playbackPeak = await this.sendDSPMessage('GetPlaybackSignalPeak');
+      const playbackRms = await this.sendDSPMessage('GetPlaybackSignalRms');
+      return { capturePeak, captureRms, playbackPeak, playbackRms };
+    } catch (error) {
+      console.error('Error getting signal levels:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Validate config against the full CamillaDSP schema
+   * Errors are kept in validationErrors (path-addressed, e.g. "pipeline[2].names[0]")
    */
   validateConfig(): boolean {
     if (!this.config) {
+      this.validationErrors = [{ path: '', message: 'No config loaded' }];
       return false;
     }
 
-    // Check if mixers in pipeline are defined
-    const mixers = this.config.pipeline.filter((e) => e.type === 'Mixer');
-    for (const mixer of mixers) {
-      if (!this.config.mixers[(mixer as any).name]) {
-        console.error(`Mixer "${(mixer as any).name}" not found in config.mixers`);
-        return false;
-      }
-    }
-
-    // Check if filters in pipeline exist in filters
-    const filters = this.config.pipeline.filter((e) => e.type === 'Filter');
-    for (const filter of filters) {
-      const names = (filter as any).names || [];
-      for (const filterName of names) {
-        if (!this.config.filters[filterName]) {
-          console.error(`Filter "${filterName}" not found in config.filters`);
-          return false;
-        }
-      }
-    }
-
-    // Check if processor steps reference existing processors
-    const processors = this.config.pipeline.filter((e) => e.type !== 'Filter' && e.type !== 'Mixer');
-    for (const processor of processors) {
-      const procStep = processor as any;
-      if (!procStep.name) {
-        console.error(`Processor step of type "${procStep.type}" has no name`);
-        return false;
-      }
-      if (!this.config.processors || !this.config.processors[procStep.name]) {
-        console.error(`Processor "${procStep.name}" not found in config.processors`);
-        return false;
-      }
+    this.validationErrors = validateCamillaConfig(this.config);
+    for (const error of this.validationErrors) {
+      console.error(`Invalid config at ${error.path || 'config'}: ${error.message}`);
     }
 
-    return true;
+    return this.validationErrors.length === 0;
   }
 
   /**
@@ -3,9 +3,18 @@
  * Handles bidirectional conversion and validation
  */
 
-import type { EqBand } from '../dsp/filterResponse';
+import {
+  bandHasGain,
+  bandHasQ,
+  isComboBand,
+  isDisplayOnlyBand,
+  bandResponseDb,
+  generateLogFrequencies,
+  DEFAULT_SAMPLE_RATE,
+  type EqBand,
+} from '../dsp/filterResponse';
 import type { CamillaDSPConfig, Filter } from './camillaDSP';
-import { normalizePipelineStep, isGainCapable, type PipelineStepNormalized } from './camillaTypes';
+import { normalizePipelineStep, type PipelineStepNormalized } from './camillaTypes';
 import { isFilterDisabled, getStepKey, getDisabledFiltersForStep } from './disabledFiltersOverlay';
 
 export interface ExtractedEqData {
@@ -37,13 +46,51 @@ function mapCamillaBiquadType(camillaType: string): EqBand['type'] | null {
       return 'Notch';
     case 'Allpass':
       return 'AllPass';
+    case 'LowshelfFO':
+      return 'LowShelfFO';
+    case 'HighshelfFO':
+      return 'HighShelfFO';
+    case 'LowpassFO':
+      return 'LowPassFO';
+    case 'HighpassFO':
+      return 'HighPassFO';
+    case 'AllpassFO':
+      return 'AllPassFO';
+    case 'GeneralNotch':
+      return 'GeneralNotch';
+    case 'LinkwitzTransform':
+      return 'LinkwitzTransform';
+    case 'Free':
+      return 'Free';
     default:
       return null;
   }
 }
 
 /**
- * Map EqBand type to CamillaDSP biquad subtype
+ * Map CamillaDSP BiquadCombo subtype to EqBand type
+ */
+function mapCamillaComboType(camillaType: string): EqBand['type'] | null {
+  switch (camillaType) {
+    case 'ButterworthHighpass':
+      return 'ButterworthHighPass';
+    case 'ButterworthLowpass':
+      return 'ButterworthLowPass';
+    case 'LinkwitzRileyHighpass':
+      return 'LinkwitzRileyHighPass';
+    case 'LinkwitzRileyLowpass':
+      return 'LinkwitzRileyLowPass';
+    case 'Tilt':
+    case 'FivePointPeq':
+    case 'GraphicEqualizer':
+      return camillaType;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Map EqBand type to CamillaDSP biquad (or BiquadCombo) subtype
  */
 function mapEqBandTypeToCamilla(type: EqBand['type']): string {
   switch (type) {
@@ -63,6 +110,226 @@ function mapEqBandTypeToCamilla(type: EqBand['type']): string {
       return 'Notch';
     case 'AllPass':
       return 'Allpass';
+    case 'LowShelfFO':
+      return 'LowshelfFO';
+    case 'HighShelfFO':
+      return 'HighshelfFO';
+    case 'LowPassFO':
+      return 'LowpassFO';
+    case 'HighPassFO':
+      return 'HighpassFO';
+    case 'AllPassFO':
+      return 'AllpassFO';
+    case 'GeneralNotch':
+      return 'GeneralNotch';
+    case 'LinkwitzTransform':
+      return 'LinkwitzTransform';
+    case 'Free':
+      return 'Free';
+    case 'ButterworthHighPass':
+      return 'ButterworthHighpass';
+    case 'ButterworthLowPass':
+      return 'ButterworthLowpass';
+    case 'LinkwitzRileyHighPass':
+      return 'LinkwitzRileyHighpass';
+    case 'LinkwitzRileyLowPass':
+      return 'LinkwitzRileyLowpass';
+    case 'Tilt':
+    case 'FivePointPeq':
+    case 'GraphicEqualizer':
+      return type;
+  }
+}
+
+// Geometric center of the Tilt shelves (110 Hz, 3.5 kHz)
+const TILT_TOKEN_FREQ = 620;
+
+function clampFreq(freq: number): number {
+  return Math.max(20, Math.min(20000, freq));
+}
+
+function clampGain(gain: number): number {
+  return Math.max(-24, Math.min(24, gain));
+}
+
+function clampQ(q: number): number {
+  return Math.max(0.1, Math.min(10, q));
+}
+
+/**
+ * Move a display-only band's token to the point of its largest deviation from 0 dB
+ */
+export function placeAtLargestDeviation(band: EqBand, sampleRate: number): EqBand {
+  const placed = { ...band, freq: 1000, gain: 0 };
+  const probe = { ...band, enabled: true };
+
+  for (const freq of generateLogFrequencies(20, Math.min(20000, sampleRate / 2 - 1), 128)) {
+    const gain = bandResponseDb(freq, probe, sampleRate);
+    if (Number.isFinite(gain) && Math.abs(gain) > Math.abs(placed.gain)) {
+      placed.freq = freq;
+      placed.gain = clampGain(gain);
+    }
+  }
+
+  return placed;
+}
+
+/**
+ * Build an EqBand from biquad parameters
+ * GeneralNotch and LinkwitzTransform keep their second frequency/Q in the extra fields
+ */
+function bandFromBiquadParameters(
+  type: EqBand['type'],
+  params: any,
+  enabled: boolean,
+  sampleRate: number
+): EqBand {
+  switch (type) {
+    case 'GeneralNotch':
+      return {
+        enabled,
+        type,
+        freq: clampFreq(Number(params.freq_z ?? 1000)),
+        gain: 0,
+        q: clampQ(Number(params.q_p ?? 0.707)),
+        freqP: clampFreq(Number(params.freq_p ?? 1000)),
+        normalizeAtDc: Boolean(params.normalize_at_dc),
+      };
+
+    case 'LinkwitzTransform':
+      return {
+        enabled,
+        type,
+        freq: clampFreq(Number(params.freq_act ?? 50)),
+        gain: 0,
+        q: clampQ(Number(params.q_act ?? 0.707)),
+        freqTarget: clampFreq(Number(params.freq_target ?? 25)),
+        qTarget: clampQ(Number(params.q_target ?? 0.707)),
+      };
+
+    case 'Free':
+      // No freq/gain to read: place the token where the response deviates most from 0 dB
+      return placeAtLargestDeviation(
+        {
+          enabled,
+          type,
+          freq: 1000,
+          gain: 0,
+          q: 1,
+          coefficients: {
+            a1: Number(params.a1 ?? 0),
+            a2: Number(params.a2 ?? 0),
+            b0: Number(params.b0 ?? 1),
+            b1: Number(params.b1 ?? 0),
+            b2: Number(params.b2 ?? 0),
+          },
+        },
+        sampleRate
+      );
+
+    default: {
+      // Extract parameters with fallbacks
+      const freq = Number(params.freq || params.Frequency || 1000);
+      const q = Number(params.q || params.Q || 1.41);
+      const gain = Number(params.gain || params.Gain || 0);
+
+      return {
+        enabled,
+        type,
+        freq: clampFreq(freq),
+        gain: clampGain(gain),
+        q: clampQ(q),
+      };
+    }
+  }
+}
+
+/**
+ * Build an EqBand from BiquadCombo parameters
+ * Crossovers keep freq/order, Tilt its gain; the rest is display-only
+ */
+function bandFromComboParameters(
+  type: EqBand['type'],
+  params: any,
+  enabled: boolean,
+  sampleRate: number
+): EqBand {
+  switch (type) {
+    case 'Tilt':
+      // Token sits between the two shelves; dragging it changes the tilt
+      return { enabled, type, freq: TILT_TOKEN_FREQ, gain: clampGain(Number(params.gain ?? 0)), q: 1 };
+
+    case 'FivePointPeq':
+    case 'GraphicEqualizer':
+      return placeAtLargestDeviation(
+        { enabled, type, freq: 1000, gain: 0, q: 1, comboParameters: { ...params } },
+        sampleRate
+      );
+
+    default:
+      return {
+        enabled,
+        type,
+        freq: clampFreq(Number(params.freq ?? 1000)),
+        gain: 0,
+        q: 1,
+        order: Number(params.order ?? 2),
+      };
+  }
+}
+
+/**
+ * Write an EqBand's values into biquad parameters (mutates params)
+ */
+function writeBandToBiquadParameters(band: EqBand, params: any): void {
+  switch (band.type) {
+    case 'GeneralNotch':
+      params.freq_z = band.freq;
+      params.freq_p = band.freqP ?? band.freq;
+      params.q_p = band.q;
+      params.normalize_at_dc = band.normalizeAtDc ?? false;
+      return;
+
+    case 'LinkwitzTransform':
+      params.freq_act = band.freq;
+      params.q_act = band.q;
+      params.freq_target = band.freqTarget ?? band.freq;
+      params.q_target = band.qTarget ?? band.q;
+      return;
+
+    default:
+      // Update frequency (use 'freq' as primary key)
+      params.freq = band.freq;
+
+      // Update Q (first-order types have none)
+      if (bandHasQ(band.type)) {
+        params.q = band.q;
+      } else {
+        delete params.q;
+      }
+
+      // Update gain (for filter types that use it)
+      if (bandHasGain(band.type)) {
+        params.gain = band.gain;
+      } else {
+        // For filters that don't use gain, remove it to avoid validation errors
+        delete params.gain;
+      }
+  }
+}
+
+/**
+ * Write a combo band's editable values into BiquadCombo parameters (mutates params)
+ */
+function writeBandToComboParameters(band: EqBand, params: any): void {
+  if (band.type === 'Tilt') {
+    params.gain = band.gain;
+    return;
+  }
+
+  params.freq = band.freq;
+  if (band.order !== undefined) {
+    params.order = band.order;
   }
 }
 
@@ -78,6 +345,7 @@ export function extractEqBandsFromConfig(config: CamillaDSPConfig): ExtractedEqD
   const filterNames: string[] = [];
   const channels: number[] = [];
   const orderNumbers: number[] = [];
+  const sampleRate = config.devices?.samplerate || DEFAULT_SAMPLE_RATE;
 
   // Extract preamp gain from mixers (if present)
   let preampGain = 0;
@@ -157,17 +425,18 @@ export function extractEqBandsFromConfig(config: CamillaDSPConfig): ExtractedEqD
       continue;
     }
 
-    // Only support Biquad filters with the 7 supported subtypes
-    if (filterDef.type !== 'Biquad') {
+    // Only Biquad and BiquadCombo filters are shown as bands
+    if (filterDef.type !== 'Biquad' && filterDef.type !== 'BiquadCombo') {
       continue;
     }
 
+    const isCombo = filterDef.type === 'BiquadCombo';
     const params = filterDef.parameters as any;
     const camillaType = params.type;
-    const bandType = mapCamillaBiquadType(camillaType);
+    const bandType = isCombo ? mapCamillaComboType(camillaType) : mapCamillaBiquadType(camillaType);
 
     if (!bandType) {
-      // Skip unsupported biquad subtypes (e.g., LinkwitzTransform, Free)
+      // Skip unknown biquad/combo subtypes
       continue;
     }
 
@@ -188,18 +457,11 @@ export function extractEqBandsFromConfig(config: CamillaDSPConfig): ExtractedEqD
     
     const enabled = presentInAnyNonBypassed;
 
-    // Extract parameters with fallbacks
-    const freq = Number(params.freq || params.Frequency || 1000);
-    const q = Number(params.q || params.Q || 1.41);
-    const gain = Number(params.gain || params.Gain || 0);
-
-    bands.push({
-      enabled,
-      type: bandType,
-      freq: Math.max(20, Math.min(20000, freq)),
-      gain: Math.max(-24, Math.min(24, gain)),
-      q: Math.max(0.1, Math.min(10, q)),
-    });
+    bands.push(
+      isCombo
+        ? bandFromComboParameters(bandType, params, enabled, sampleRate)
+        : bandFromBiquadParameters(bandType, params, enabled, sampleRate)
+    );
 
     filterNames.push(filterName);
     orderNumbers.push(refIndex + 1); // 1-based pipeline position
@@ -279,35 +541,40 @@ export function applyEqBandsToConfig(
 
     const filterDef = updatedConfig.filters![filterName];
 
+    // Graphic EQ mode edits the GraphicEqualizer's gains (the band carries the full parameter set)
+    if (band.type === 'GraphicEqualizer' && filterDef.type === 'BiquadCombo' && band.comboParameters) {
+      filterDef.parameters = { ...band.comboParameters } as any;
+      continue;
+    }
+
+    // Other display-only bands (Free, FivePointPeq) are left untouched
+    if (isDisplayOnlyBand(band.type)) {
+      continue;
+    }
+
+    // Combos only take their own subtypes (the type picker never converts them)
+    if (filterDef.type === 'BiquadCombo' && isComboBand(band.type)) {
+      writeBandToComboParameters(band, filterDef.parameters as any);
+      continue;
+    }
+
     // Ensure it's still a Biquad
-    if (filterDef.type !== 'Biquad') {
-      console.warn(`Filter "${filterName}" is not a Biquad, skipping`);
+    if (filterDef.type !== 'Biquad' || isComboBand(band.type)) {
+      console.warn(`Filter "${filterName}" does not match band type ${band.type}, skipping`);
       continue;
     }
 
-    // Update parameters
-    const params = filterDef.parameters as any;
-    
     // Map type back to CamillaDSP format
-    params.type = mapEqBandTypeToCamilla(band.type);
-    
-    // Update frequency (use 'freq' as primary key)
-    params.freq = band.freq;
-    
-    // Update Q
-    params.q = band.q;
-    
-    // Update gain (for filter types that use it)
     const camillaType = mapEqBandTypeToCamilla(band.type);
-    const biquadType = camillaType.charAt(0).toUpperCase() + camillaType.slice(1);
-    
-    if (isGainCapable(biquadType as any)) {
-      params.gain = band.gain;
-    } else {
-      // For filters that don't use gain, remove it to avoid validation errors
-      delete params.gain;
+
+    // A type change starts from fresh parameters so no keys of the old subtype linger
+    if ((filterDef.parameters as any).type !== camillaType) {
+      filterDef.parameters = { type: camillaType } as any;
     }
 
+    // Update parameters
+    writeBandToBiquadParameters(band, filterDef.parameters as any);
+
     // Note: enabled/disabled state is now managed by the overlay system
     // and reflected in pipeline step names[] (presence/absence of filter name)
     // We don't set params.bypassed here anymore since CamillaDSP doesn't support it
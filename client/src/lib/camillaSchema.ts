@@ -105,6 +105,7 @@ export interface MixerSource {
 // 3. Filter Block
 export type Filter =
   | { type: "Biquad"; parameters: BiquadParameters; description?: string }
+  | { type: "BiquadCombo"; parameters: BiquadComboParameters; description?: string }
   | { type: "Gain"; parameters: GainParameters; description?: string }
   | { type: "Delay"; parameters: DelayParameters; description?: string }
   | { type: "Conv"; parameters: ConvParameters; description?: string }
@@ -283,8 +284,8 @@ export interface NoiseGateParameters {
 
 // 15. DiffEq Parameters
 export interface DiffEqParameters {
-  a?: PrcFmt[]; // Feedforward
-  b?: PrcFmt[]; // Feedback
+  a?: PrcFmt[]; // Feedback (denominator), default [1.0]
+  b?: PrcFmt[]; // Feedforward (numerator), default [1.0]
 }
 
 // 16. Loudness Parameters
@@ -298,12 +299,8 @@ export interface LoudnessParameters {
 
 // 17. Limiter Parameters
 export interface LimiterParameters {
-  threshold: PrcFmt;
-  makeup_gain?: PrcFmt;
-  attack: PrcFmt;
-  release: PrcFmt;
-  lookahead?: PrcFmt;
-  ceiling?: PrcFmt;
+  clip_limit: PrcFmt;   // dB
+  soft_clip?: boolean;  // Default: false
 }
 
 // CamillaDSP accepts strings or numbers for PrcFmt, e.g., "0.707" or 0.707
@@ -0,0 +1,67 @@
+/**
+ * A/B comparison slot helpers (pure)
+ * A slot is a full band set plus preamp, tied to the filter names it was captured from
+ */
+
+import { sumResponseDb, generateLogFrequencies, DEFAULT_SAMPLE_RATE, type EqBand } from '../dsp/filterResponse';
+import { clampGainDb } from './eqParamClamp';
+
+export type EqSlotId = 'A' | 'B';
+
+export interface EqSlot {
+  bands: EqBand[];
+  preampGain: number;
+  filterNames: string[]; // Filter names the bands map to (slot is only valid for the same names)
+}
+
+// Frequency grid used for level estimation
+const LEVEL_FREQS = generateLogFrequencies(20, 20000, 128);
+
+/**
+ * The other slot
+ */
+export function otherSlotId(id: EqSlotId): EqSlotId {
+  return id === 'A' ? 'B' : 'A';
+}
+
+/**
+ * Snapshot bands and preamp into a slot (deep copy)
+ */
+export function captureEqSlot(bands: EqBand[], preampGain: number, filterNames: string[]): EqSlot {
+  return {
+    bands: bands.map((band) => ({ ...band })),
+    preampGain,
+    filterNames: [...filterNames],
+  };
+}
+
+/**
+ * Whether a slot can be applied to the currently loaded filters
+ * (bands were not added, removed or renamed since the slot was captured)
+ */
+export function isSlotCompatible(slot: EqSlot, filterNames: string[]): boolean {
+  return (
+    slot.filterNames.length === filterNames.length &&
+    slot.filterNames.every((name, i) => name === filterNames[i])
+  );
+}
+
+/**
+ * Overall level of a slot in dB: power average of the summed response over
+ * 20 Hz - 20 kHz (log-spaced, so each octave weighs the same) plus preamp
+ */
+export function eqSlotLevelDb(slot: EqSlot, sampleRate = DEFAULT_SAMPLE_RATE): number {
+  let powerSum = 0;
+  for (const freq of LEVEL_FREQS) {
+    powerSum += Math.pow(10, sumResponseDb(freq, slot.bands, sampleRate) / 10);
+  }
+  return 10 * Math.log10(powerSum / LEVEL_FREQS.length) + slot.preampGain;
+}
+
+/**
+ * Preamp for `target` so that its level matches `reference` (clamped to ±24 dB)
+ */
+export function levelMatchedPreamp(reference: EqSlot, target: EqSlot, sampleRate = DEFAULT_SAMPLE_RATE): number {
+  const offset = eqSlotLevelDb(reference, sampleRate) - eqSlotLevelDb(target, sampleRate);
+  return clampGainDb(target.preampGain + offset);
+}
@@ -0,0 +1,278 @@
+/**
+ * Equalizer APO / Peace config.txt import
+ *
+ * Converts the parametric part of an Equalizer APO configuration into an
+ * EqPresetV1 user preset.  Supported:
+ * - Preamp: <gain> dB (multiple lines add up, as in Equalizer APO)
+ * - Filter [N]: ON|OFF <type> Fc <f> Hz [Gain <g> dB] [Q <q> | BW Oct <bw>]
+ *   with types PK, LSC/LS, HSC/HS, LP/LPQ, HP/HPQ, NO, BP, AP
+ * - Channel: sections (filters for the first named channel are imported)
+ * - Include: and other commands are ignored with a notice
+ */
+
+import {
+  validateAndNormalizeBand,
+  normalizeGainDb,
+  type EqPresetBandType,
+  type EqPresetV1,
+  type ValidationWarning,
+} from '../../../shared/eqPresetSchema';
+
+/**
+ * Non-fatal note about a line that was not (fully) imported
+ */
+export interface EqApoImportNotice {
+  line: number;
+  message: string;
+}
+
+export interface EqApoImportResult {
+  preset: EqPresetV1;
+  warnings: ValidationWarning[]; // From validateAndNormalizeBand (clamped values)
+  notices: EqApoImportNotice[];  // Ignored lines/commands
+}
+
+export class EqApoParseError extends Error {
+  constructor(
+    message: string,
+    public line: number,
+    public lineContent: string
+  ) {
+    super(line > 0 ? `${message} (line ${line}: "${lineContent}")` : message);
+    this.name = 'EqApoParseError';
+  }
+}
+
+// Equalizer APO filter type codes
+const FILTER_TYPES: Record<string, EqPresetBandType> = {
+  PK: 'Peaking',
+  PEQ: 'Peaking',
+  LSC: 'LowShelf',
+  LS: 'LowShelf',
+  HSC: 'HighShelf',
+  HS: 'HighShelf',
+  LP: 'LowPass',
+  LPQ: 'LowPass',
+  HP: 'HighPass',
+  HPQ: 'HighPass',
+  NO: 'Notch',
+  BP: 'BandPass',
+  AP: 'AllPass',
+};
+
+const GAIN_TYPES = new Set<EqPresetBandType>(['Peaking', 'LowShelf', 'HighShelf']);
+
+// Q used when a filter line has neither Q nor BW (Butterworth 1/√2 at preset precision)
+const DEFAULT_Q = 0.7;
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+/**
+ * Q of a peaking filter with the given bandwidth in octaves
+ */
+export function qFromBandwidthOctaves(bw: number): number {
+  const factor = Math.pow(2, bw);
+  return Math.sqrt(factor) / (factor - 1);
+}
+
+/**
+ * Parse Equalizer APO config.txt content into an EqPresetV1 user preset
+ * @throws EqApoParseError on malformed Preamp/Filter lines or when no filters are found
+ */
+export function parseEqualizerApoConfig(content: string, name: string): EqApoImportResult {
+  const lines = content.split(/\r?\n/);
+
+  let preampDb = 0;
+  const bands: EqPresetV1['bands'] = [];
+  const warnings: ValidationWarning[] = [];
+  const notices: EqApoImportNotice[] = [];
+
+  // Channel selection: null = all channels
+  let currentChannels: string[] | null = null;
+  let importedChannel: string | null = null;
+  let skippedForChannel = 0;
+
+  const appliesToImportedChannel = () =>
+    currentChannels === null || (importedChannel !== null && currentChannels.includes(importedChannel));
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const lineNum = i + 1;
+
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const command = line.match(/^([A-Za-z]+)\s*(\d*)\s*:\s*(.*)$/);
+    if (!command) {
+      notices.push({ line: lineNum, message: `Unrecognized line ignored: "${line}"` });
+      continue;
+    }
+
+    const keyword = command[1].toLowerCase();
+    const argument = command[3].trim();
+
+    if (keyword === 'channel') {
+      const channels = argument.split(/\s+/).filter(Boolean).map((c) => c.toUpperCase());
+      if (channels.length === 0 || channels.includes('ALL')) {
+        currentChannels = null;
+      } else {
+        currentChannels = channels;
+        importedChannel ??= channels[0];
+      }
+      continue;
+    }
+
+    if (keyword === 'include') {
+      notices.push({ line: lineNum, message: `Include ignored: "${argument}" was not imported` });
+      continue;
+    }
+
+    if (keyword === 'preamp') {
+      const match = argument.match(/^([-+]?(?:\d+\.?\d*|\.\d+))\s*dB$/i);
+      if (!match) {
+        throw new EqApoParseError('Malformed Preamp line', lineNum, line);
+      }
+      if (appliesToImportedChannel()) {
+        preampDb += parseFloat(match[1]);
+      } else {
+        skippedForChannel++;
+      }
+      continue;
+    }
+
+    if (keyword === 'filter') {
+      const filterMatch = argument.match(/^(ON|OFF)\s+(\S+)(.*)$/i);
+      if (!filterMatch) {
+        throw new EqApoParseError('Malformed Filter line', lineNum, line);
+      }
+
+      const enabled = filterMatch[1].toUpperCase() === 'ON';
+      const typeCode = filterMatch[2].toUpperCase();
+      const filterIndex = command[2] ? parseInt(command[2], 10) : bands.length + 1;
+
+      if (typeCode === 'NONE') {
+        continue;
+      }
+      if (!enabled) {
+        notices.push({ line: lineNum, message: `Filter ${filterIndex} is OFF and was skipped` });
+        continue;
+      }
+      if (!appliesToImportedChannel()) {
+        skippedForChannel++;
+        continue;
+      }
+
+      const type = FILTER_TYPES[typeCode];
+      if (!type) {
+        throw new EqApoParseError(`Unsupported filter type: ${filterMatch[2]}`, lineNum, line);
+      }
+
+      const params = parseFilterParams(filterMatch[3], type, lineNum, line, notices);
+      const { normalized, warnings: bandWarnings } = validateAndNormalizeBand(
+        { type, ...params },
+        filterIndex
+      );
+
+      bands.push(normalized);
+      warnings.push(...bandWarnings);
+      continue;
+    }
+
+    notices.push({ line: lineNum, message: `Unsupported command "${command[1]}" ignored` });
+  }
+
+  if (bands.length === 0) {
+    throw new EqApoParseError('No parametric filters found', 0, '');
+  }
+
+  if (skippedForChannel > 0) {
+    notices.push({
+      line: 0,
+      message: `Imported channel ${importedChannel} only; ${skippedForChannel} line(s) for other channels were skipped`,
+    });
+  }
+
+  const preset: EqPresetV1 = {
+    presetType: 'eq',
+    schemaVersion: 1,
+    name,
+    device: {
+      category: 'unknown',
+      manufacturer: '',
+      model: name,
+    },
+    preampDb: normalizeGainDb(preampDb),
+    bands,
+    source: 'user',
+    readOnly: false,
+  };
+
+  return { preset, warnings, notices };
+}
+
+/**
+ * Parse "Fc <f> Hz Gain <g> dB Q <q>" style parameters (any order)
+ * LSC/HSC may carry a slope ("12dB") right after the type, which is ignored
+ */
+function parseFilterParams(
+  params: string,
+  type: EqPresetBandType,
+  lineNum: number,
+  line: string,
+  notices: EqApoImportNotice[]
+): { freqHz: number; gainDb: number; q: number } {
+  const tokens = params.trim().split(/\s+/).filter(Boolean);
+
+  const readNumber = (token: string | undefined): number => {
+    if (token === undefined || !NUMBER_PATTERN.test(token)) {
+      throw new EqApoParseError('Invalid numeric value in filter parameters', lineNum, line);
+    }
+    return parseFloat(token);
+  };
+
+  let freqHz: number | null = null;
+  let gainDb: number | null = null;
+  let q: number | null = null;
+  let i = 0;
+
+  if (tokens[0] && /^\d+(\.\d+)?dB$/i.test(tokens[0])) {
+    notices.push({ line: lineNum, message: `Shelf slope ${tokens[0]} ignored (Q is used instead)` });
+    i++;
+  }
+
+  while (i < tokens.length) {
+    const key = tokens[i].toLowerCase();
+
+    if (key === 'fc') {
+      freqHz = readNumber(tokens[i + 1]);
+      i += 2;
+      if (tokens[i]?.toLowerCase() === 'hz') i++;
+    } else if (key === 'gain') {
+      gainDb = readNumber(tokens[i + 1]);
+      i += 2;
+      if (tokens[i]?.toLowerCase() === 'db') i++;
+    } else if (key === 'q') {
+      q = readNumber(tokens[i + 1]);
+      i += 2;
+    } else if (key === 'bw' && tokens[i + 1]?.toLowerCase() === 'oct') {
+      q = qFromBandwidthOctaves(readNumber(tokens[i + 2]));
+      i += 3;
+    } else {
+      throw new EqApoParseError(`Unsupported filter parameter: ${tokens[i]}`, lineNum, line);
+    }
+  }
+
+  if (freqHz === null) {
+    throw new EqApoParseError('Filter is missing Fc', lineNum, line);
+  }
+  if (gainDb === null && GAIN_TYPES.has(type)) {
+    throw new EqApoParseError('Filter is missing Gain', lineNum, line);
+  }
+
+  return {
+    freqHz,
+    gainDb: GAIN_TYPES.has(type) ? gainDb! : 0,
+    q: q ?? DEFAULT_Q,
+  };
+}
@@ -0,0 +1,184 @@
+/**
+ * EQ preset export to third-party text formats
+ *
+ * - Equalizer APO / Peace config.txt (Preamp + Filter lines)
+ * - AutoEQ GraphicEQ (127-point string for Equalizer APO GraphicEQ / Wavelet)
+ * - REW filter settings (Generic equaliser)
+ *
+ * Accepts both EqPresetV1 and pipeline-style PipelineConfig presets.
+ */
+
+import { isEqPreset, type EqPresetV1 } from '../../../shared/eqPresetSchema';
+import {
+  sumResponseDb,
+  generateLogFrequencies,
+  bandHasGain,
+  bandHasQ,
+  type EqBand,
+} from '../dsp/filterResponse';
+import { extractEqBandsFromConfig } from './camillaEqMapping';
+import { pipelineConfigToCamillaDSP, type PipelineConfig } from './pipelineConfigMapping';
+
+export type EqExportFormat = 'equalizer-apo' | 'graphic-eq' | 'rew';
+
+/**
+ * Format-independent EQ data used by all exporters
+ */
+export interface EqExportData {
+  name: string;
+  bands: EqBand[];
+  preampDb: number;
+  sampleRate?: number; // Used for the GraphicEQ response (defaults to 48 kHz)
+}
+
+/**
+ * A band an exporter left out because the format has no matching filter type
+ */
+export interface SkippedExportBand {
+  index: number; // 0-based position in EqExportData.bands
+  type: EqBand['type'];
+}
+
+export interface EqExportFormatInfo {
+  label: string;
+  fileSuffix: string; // Appended to the preset name for the download file name
+  format: (data: EqExportData) => string;
+}
+
+// Number of points in an AutoEQ GraphicEQ string
+export const GRAPHIC_EQ_POINTS = 127;
+
+// Equalizer APO and REW share these filter codes (the Q variants, plus the 6 dB/oct shelves)
+// Types without a code (other first-order, GeneralNotch, LinkwitzTransform, Free) are left out
+const FILTER_CODES: Partial<Record<EqBand['type'], string>> = {
+  Peaking: 'PK',
+  LowShelf: 'LSC',
+  HighShelf: 'HSC',
+  LowPass: 'LPQ',
+  HighPass: 'HPQ',
+  BandPass: 'BP',
+  Notch: 'NO',
+  AllPass: 'AP',
+  LowShelfFO: 'LS 6dB',
+  HighShelfFO: 'HS 6dB',
+};
+
+/**
+ * Extract exportable EQ data from an EqPresetV1 or PipelineConfig preset
+ * Presets don't store devices, so the sample rate comes from the running config
+ */
+export function eqExportDataFromPreset(preset: EqPresetV1 | PipelineConfig, sampleRate?: number): EqExportData {
+  if (isEqPreset(preset)) {
+    return {
+      name: preset.name,
+      bands: preset.bands.map((band) => ({
+        enabled: band.enabled,
+        type: band.type,
+        freq: band.freqHz,
+        gain: band.gainDb,
+        q: band.q,
+      })),
+      preampDb: preset.preampDb,
+      sampleRate,
+    };
+  }
+
+  const { bands, preampGain } = extractEqBandsFromConfig(pipelineConfigToCamillaDSP(preset));
+  return { name: preset.configName, bands, preampDb: preampGain, sampleRate };
+}
+
+/**
+ * Bands the given format leaves out (Equalizer APO and REW have no code for some types)
+ * GraphicEQ samples the summed response, so it never skips a band
+ */
+export function skippedExportBands(data: EqExportData, format: EqExportFormat): SkippedExportBand[] {
+  if (format === 'graphic-eq') return [];
+
+  return data.bands
+    .map((band, index) => ({ index, type: band.type }))
+    .filter((band) => !FILTER_CODES[band.type]);
+}
+
+/**
+ * Equalizer APO / Peace config.txt
+ * Disabled bands are written as OFF so they survive a round trip
+ * Bands without a filter code are left out (see skippedExportBands)
+ */
+export function formatEqualizerApo(data: EqExportData): string {
+  const lines = [`Preamp: ${data.preampDb.toFixed(1)} dB`];
+
+  data.bands.forEach((band, index) => {
+    const code = FILTER_CODES[band.type];
+    if (!code) return;
+
+    const state = band.enabled ? 'ON' : 'OFF';
+    let line = `Filter ${index + 1}: ${state} ${code} Fc ${formatNumber(band.freq, 1)} Hz`;
+    if (bandHasGain(band.type)) {
+      line += ` Gain ${band.gain.toFixed(1)} dB`;
+    }
+    if (bandHasQ(band.type)) {
+      line += ` Q ${formatNumber(band.q, 3)}`;
+    }
+    lines.push(line);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * AutoEQ GraphicEQ string: 127 log-spaced points from 20 Hz to 20 kHz
+ * Gains are the summed band response plus preamp (enabled bands only)
+ */
+export function formatGraphicEq(data: EqExportData): string {
+  const points = generateLogFrequencies(20, 20000, GRAPHIC_EQ_POINTS).map((freq) => {
+    const freqHz = Math.round(freq);
+    const gainDb = sumResponseDb(freqHz, data.bands, data.sampleRate) + data.preampDb;
+    return `${freqHz} ${formatNumber(gainDb, 1)}`;
+  });
+
+  return `GraphicEQ: ${points.join('; ')}\n`;
+}
+
+/**
+ * REW filter settings text (Generic equaliser)
+ * REW has no preamp field, so the preamp is recorded in the notes
+ * Bands without a filter code are left out (see skippedExportBands)
+ */
+export function formatRewFilterSettings(data: EqExportData): string {
+  const lines = [
+    'Filter Settings file',
+    '',
+    `Notes: ${data.name}, preamp ${data.preampDb.toFixed(1)} dB`,
+    '',
+    'Equaliser: Generic',
+    data.name,
+  ];
+
+  data.bands.forEach((band, index) => {
+    const filterCode = FILTER_CODES[band.type];
+    if (!filterCode) return;
+
+    const number = String(index + 1).padStart(2, ' ');
+    const state = band.enabled ? 'ON ' : 'OFF';
+    const code = filterCode.padEnd(8, ' ');
+    const fc = band.freq.toFixed(1).padStart(8, ' ');
+    const gain = (bandHasGain(band.type) ? band.gain : 0).toFixed(1).padStart(6, ' ');
+    const line = `Filter ${number}: ${state} ${code} Fc ${fc} Hz  Gain ${gain} dB`;
+    lines.push(bandHasQ(band.type) ? `${line}  Q ${band.q.toFixed(3).padStart(7, ' ')}` : line);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+export const EQ_EXPORT_FORMATS: Record<EqExportFormat, EqExportFormatInfo> = {
+  'equalizer-apo': { label: 'Equalizer APO', fileSuffix: ' ParametricEQ.txt', format: formatEqualizerApo },
+  'graphic-eq': { label: 'GraphicEQ (Wavelet)', fileSuffix: ' GraphicEQ.txt', format: formatGraphicEq },
+  rew: { label: 'REW filter settings', fileSuffix: ' REW.txt', format: formatRewFilterSettings },
+};
+
+/**
+ * Trim trailing zeros: 105.0 → "105", 1.4142 → "1.414"
+ */
+function formatNumber(value: number, maxDecimals: number): string {
+  return String(Number(value.toFixed(maxDecimals)));
+}
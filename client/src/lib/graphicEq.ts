@@ -0,0 +1,170 @@
+/**
+ * Graphic EQ mode on the EQ page
+ * ISO fader layouts for the GraphicEqualizer BiquadCombo and pure helpers to
+ * create and edit it. All config functions return new objects (immutable pattern)
+ */
+
+import type { CamillaDSPConfig } from './camillaDSP';
+import { graphicEqFrequencies } from '../dsp/biquadCombo';
+import { normalizePipelineStep } from './camillaTypes';
+import { clampGainDb } from './eqParamClamp';
+
+export const GRAPHIC_EQ_BAND_COUNTS = [10, 15, 31] as const;
+export type GraphicEqBandCount = (typeof GRAPHIC_EQ_BAND_COUNTS)[number];
+
+export interface GraphicEqParameters {
+  type: 'GraphicEqualizer';
+  freq_min: number;
+  freq_max: number;
+  gains: number[];
+}
+
+// Band spacing (octaves) and position of the lowest band relative to 1 kHz (in bands)
+const ISO_LAYOUTS: Record<GraphicEqBandCount, { octaves: number; firstBand: number }> = {
+  10: { octaves: 1, firstBand: -5 }, // 31.5 Hz – 16 kHz
+  15: { octaves: 2 / 3, firstBand: -8 }, // 25 Hz – 16 kHz
+  31: { octaves: 1 / 3, firstBand: -17 }, // 20 Hz – 20 kHz
+};
+
+// ISO 266 nominal 1/3-octave frequencies (fader labels)
+const ISO_NOMINAL_FREQS = [
+  20, 25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800, 1000, 1250, 1600,
+  2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000, 12500, 16000, 20000,
+];
+
+const DEFAULT_FILTER_NAME = 'GraphicEQ';
+
+/**
+ * freq_min/freq_max that put CamillaDSP's log-spaced bands on the ISO centers
+ */
+export function isoGraphicEqRange(count: GraphicEqBandCount): { freqMin: number; freqMax: number } {
+  const { octaves, firstBand } = ISO_LAYOUTS[count];
+  const round = (freq: number) => Math.round(freq * 100) / 100;
+  return {
+    freqMin: round(1000 * Math.pow(2, (firstBand - 0.5) * octaves)),
+    freqMax: round(1000 * Math.pow(2, (firstBand + count - 0.5) * octaves)),
+  };
+}
+
+/**
+ * Fresh GraphicEqualizer parameters for an ISO layout (all bands at 0 dB)
+ */
+export function createGraphicEqParameters(count: GraphicEqBandCount): GraphicEqParameters {
+  const { freqMin, freqMax } = isoGraphicEqRange(count);
+  return { type: 'GraphicEqualizer', freq_min: freqMin, freq_max: freqMax, gains: new Array(count).fill(0) };
+}
+
+/**
+ * Read GraphicEqualizer parameters, filling in CamillaDSP's defaults
+ */
+export function readGraphicEqParameters(params: Record<string, any> | undefined): GraphicEqParameters {
+  return {
+    type: 'GraphicEqualizer',
+    freq_min: Number(params?.freq_min ?? 20),
+    freq_max: Number(params?.freq_max ?? 20000),
+    gains: Array.isArray(params?.gains) ? params!.gains.map(Number) : [],
+  };
+}
+
+/**
+ * Center frequency of each fader
+ */
+export function graphicEqBandFrequencies(params: GraphicEqParameters): number[] {
+  return graphicEqFrequencies(params.gains.length, params.freq_min, params.freq_max);
+}
+
+/**
+ * Fader label: the nearest ISO nominal frequency when within 1/12 octave, else the rounded center
+ * "31.5", "250", "1k", "12.5k"
+ */
+export function formatGraphicEqBandLabel(freq: number): string {
+  const nearest = ISO_NOMINAL_FREQS.reduce((best, nominal) =>
+    Math.abs(Math.log2(nominal / freq)) < Math.abs(Math.log2(best / freq)) ? nominal : best
+  );
+  const label = Math.abs(Math.log2(nearest / freq)) <= 1 / 12 ? nearest : Math.round(freq);
+
+  return label >= 1000 ? `${Number((label / 1000).toPrecision(3))}k` : `${Number(label.toPrecision(3))}`;
+}
+
+/**
+ * The ISO layout matching a GraphicEqualizer's band count, or null for custom layouts
+ */
+export function matchIsoBandCount(params: GraphicEqParameters): GraphicEqBandCount | null {
+  return GRAPHIC_EQ_BAND_COUNTS.find((count) => count === params.gains.length) ?? null;
+}
+
+/**
+ * Set one fader's gain (clamped to ±24 dB, 0.1 dB steps)
+ */
+export function setGraphicEqGain(params: GraphicEqParameters, index: number, gain: number): GraphicEqParameters {
+  if (index < 0 || index >= params.gains.length) {
+    throw new Error(`Graphic EQ has no band ${index}`);
+  }
+
+  const gains = [...params.gains];
+  gains[index] = clampGainDb(gain);
+  return { ...params, gains };
+}
+
+/**
+ * Switch to another ISO layout, carrying the current curve over
+ * New fader gains are interpolated (log frequency) from the old faders
+ */
+export function resizeGraphicEq(params: GraphicEqParameters, count: GraphicEqBandCount): GraphicEqParameters {
+  const resized = createGraphicEqParameters(count);
+  const oldFreqs = graphicEqBandFrequencies(params).map(Math.log2);
+  const oldGains = params.gains;
+
+  if (oldGains.length === 0) {
+    return resized;
+  }
+
+  resized.gains = graphicEqBandFrequencies(resized).map((freq) => {
+    const x = Math.log2(freq);
+    if (x <= oldFreqs[0]) return oldGains[0];
+    if (x >= oldFreqs[oldFreqs.length - 1]) return oldGains[oldGains.length - 1];
+
+    const upper = oldFreqs.findIndex((f) => f >= x);
+    const t = (x - oldFreqs[upper - 1]) / (oldFreqs[upper] - oldFreqs[upper - 1]);
+    return clampGainDb(oldGains[upper - 1] + t * (oldGains[upper] - oldGains[upper - 1]));
+  });
+
+  return resized;
+}
+
+/**
+ * Add a GraphicEqualizer filter at the end of every active Filter step
+ * (the EQ page applies to all channels, like its parametric bands)
+ * @returns Updated config and the name of the created filter
+ */
+export function addGraphicEqFilter(
+  config: CamillaDSPConfig,
+  count: GraphicEqBandCount
+): { config: CamillaDSPConfig; filterName: string } {
+  const updated = JSON.parse(JSON.stringify(config)) as CamillaDSPConfig;
+  const filterSteps = (updated.pipeline || []).filter((step) => {
+    const normalized = normalizePipelineStep(step);
+    return normalized?.type === 'Filter' && !normalized.bypassed;
+  });
+
+  if (filterSteps.length === 0) {
+    throw new Error('No Filter steps in pipeline');
+  }
+
+  if (!updated.filters) {
+    updated.filters = {};
+  }
+
+  let filterName = DEFAULT_FILTER_NAME;
+  for (let n = 2; updated.filters[filterName]; n++) {
+    filterName = `${DEFAULT_FILTER_NAME}${n}`;
+  }
+
+  updated.filters[filterName] = { type: 'BiquadCombo', parameters: createGraphicEqParameters(count) } as any;
+
+  for (const step of filterSteps) {
+    (step as any).names = [...((step as any).names || []), filterName];
+  }
+
+  return { config: updated, filterName };
+}
@@ -62,6 +62,7 @@ function isKnownBiquadSubtype(subtype: unknown): boolean {
  */
 export type FilterUiKind =
   | 'biquad'
+  | 'biquadcombo'
   | 'gain'
   | 'delay'
   | 'conv'
@@ -85,6 +86,8 @@ export function getFilterUiKind(filterDef: any): FilterUiKind {
   switch (type) {
     case 'biquad':
       return 'biquad';
+    case 'biquadcombo':
+      return 'biquadcombo';
     case 'gain':
       return 'gain';
     case 'delay':
@@ -108,20 +111,20 @@ export function getFilterUiKind(filterDef: any): FilterUiKind {
 
 /**
  * Determine if a filter kind supports editing in the UI
- * Some complex types (Conv, DiffEq, Dither) are read-only for now
  */
 export function isEditableFilterKind(kind: FilterUiKind): boolean {
   switch (kind) {
     case 'biquad':
+    case 'biquadcombo':
     case 'gain':
     case 'delay':
     case 'volume':
     case 'loudness':
-    case 'limiter':
-      return true;
     case 'conv':
+    case 'limiter':
     case 'dither':
     case 'diffeq':
+      return true;
     case 'unknown':
       return false;
     default:
@@ -152,6 +155,20 @@ export function getFilterSummary(filterDef: any): string[] {
       return summary;
     }
     
+    case 'biquadcombo': {
+      const comboType = params.type || '?';
+      if (params.freq !== undefined) {
+        return [comboType, `${formatNumber(params.freq)} Hz`, `Order ${params.order ?? '?'}`];
+      }
+      if (comboType === 'Tilt') {
+        return [comboType, `${formatNumber(params.gain, true)} dB`];
+      }
+      if (comboType === 'GraphicEqualizer') {
+        return [comboType, `${params.gains?.length || 0} bands`];
+      }
+      return [comboType];
+    }
+
     case 'gain': {
       const gain = formatNumber(params.gain, true);
       const scale = params.scale || 'dB';
@@ -166,10 +183,12 @@ export function getFilterSummary(filterDef: any): string[] {
     
     case 'conv': {
       const convType = params.type || '?';
+      // Files from the coefficients dir are referenced by absolute path; show the file name
+      const fileName = params.filename ? String(params.filename).split(/[\\/]/).pop() : '?';
       if (convType === 'Wav') {
-        return [`Wav: ${params.filename || '?'}`, `Ch ${params.channel ?? 0}`];
+        return [`Wav: ${fileName}`, `Ch ${params.channel ?? 0}`];
       } else if (convType === 'Raw') {
-        return [`Raw: ${params.filename || '?'}`];
+        return [`Raw: ${fileName}`, ...(params.format ? [params.format] : [])];
       } else if (convType === 'Values') {
         return [`Values: ${params.values?.length || 0} samples`];
       } else if (convType === 'Dummy') {
@@ -189,8 +208,8 @@ export function getFilterSummary(filterDef: any): string[] {
     }
     
     case 'limiter': {
-      const threshold = formatNumber(params.threshold, true);
-      return [`Threshold: ${threshold} dB`];
+      const clipLimit = formatNumber(params.clip_limit, true);
+      return [`Limit: ${clipLimit} dB`, ...(params.soft_clip ? ['Soft clip'] : [])];
     }
     
     case 'dither': {
@@ -246,12 +265,6 @@ export function getFilterNotEditableReason(filterDef: any): string {
   const kind = getFilterUiKind(filterDef);
   
   switch (kind) {
-    case 'conv':
-      return `Unsupported filter type: ${filterType} - Convolution filters are complex and read-only`;
-    case 'dither':
-      return `Unsupported filter type: ${filterType} - Dither filters are read-only (too many subtypes)`;
-    case 'diffeq':
-      return `Unsupported filter type: ${filterType} - Differential equation filters are read-only`;
     case 'unknown':
       return `Unknown filter type: ${filterType}`;
     default:
@@ -5,6 +5,7 @@
 
 import type { CamillaDSPConfig, PipelineStep} from './camillaDSP';
 import { normalizePipelineStep } from './camillaTypes';
+import { computeChannelFlow } from './pipelineChannelFlow';
 
 /**
  * Insert a pipeline step at the specified index
@@ -349,8 +350,18 @@ export function cleanupOrphanDefinitions(config: CamillaDSPConfig): CamillaDSPCo
 /**
  * Get available channels from config
  * Returns array of channel numbers [0, 1, ...n-1]
+ * @param stepIndex When given, use the channel count flowing into that pipeline
+ *   position (after upstream mixers); pipeline.length means the pipeline output
  */
-export function getAvailableChannels(config: CamillaDSPConfig): number[] {
+export function getAvailableChannels(config: CamillaDSPConfig, stepIndex?: number): number[] {
+  if (stepIndex !== undefined) {
+    const flow = computeChannelFlow(config);
+    const count = stepIndex >= flow.steps.length ? flow.outputChannels : flow.steps[stepIndex].channelsIn;
+    if (count !== null) {
+      return Array.from({ length: count }, (_, i) => i);
+    }
+  }
+
   // Try playback channels first, then capture, default to 2
   const numChannels = 
     (config.devices?.playback as any)?.channels ?? 
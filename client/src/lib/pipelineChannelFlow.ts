@@ -0,0 +1,128 @@
+/**
+ * Pipeline channel-count propagation
+ * Walks config.pipeline from devices.capture.channels, tracking the channel
+ * count through each Mixer step, and flags steps that do not fit it
+ * (filter channels out of range, mixer/processor input mismatches) as well
+ * as a pipeline output that does not match devices.playback.channels.
+ */
+
+import type { CamillaDSPConfig } from './camillaDSP';
+import type { ConfigPathError } from './camillaConfigValidation';
+
+/**
+ * Channel counts around one pipeline step
+ * null counts are unknown (no capture channel count, or an undefined mixer upstream)
+ */
+export interface StepChannelFlow {
+  channelsIn: number | null;
+  channelsOut: number | null;
+  bypassed: boolean; // Bypassed steps pass channels through unchanged
+  issues: ConfigPathError[];
+}
+
+export interface ChannelFlowResult {
+  captureChannels: number | null;
+  playbackChannels: number | null;
+  outputChannels: number | null; // Channel count leaving the last step
+  steps: StepChannelFlow[]; // Indexed like config.pipeline
+  playbackMismatch: ConfigPathError | null;
+  issues: ConfigPathError[]; // All step issues plus the playback mismatch, in pipeline order
+}
+
+function channelCount(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null;
+}
+
+function isChannelIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Compute channel counts in and out of every pipeline step
+ */
+export function computeChannelFlow(config: CamillaDSPConfig): ChannelFlowResult {
+  const captureChannels = channelCount(config.devices?.capture?.channels);
+  const playbackChannels = channelCount(config.devices?.playback?.channels);
+  const pipeline: any[] = Array.isArray(config.pipeline) ? config.pipeline : [];
+
+  const steps: StepChannelFlow[] = [];
+  let channels = captureChannels;
+
+  pipeline.forEach((step, index) => {
+    const path = `pipeline[${index}]`;
+    const flow: StepChannelFlow = {
+      channelsIn: channels,
+      channelsOut: channels,
+      bypassed: step?.bypassed === true,
+      issues: [],
+    };
+    steps.push(flow);
+
+    if (flow.bypassed || !step) return;
+
+    if (step.type === 'Mixer') {
+      const mixer = config.mixers?.[step.name];
+      const mixerIn = channelCount(mixer?.channels?.in);
+      const mixerOut = channelCount(mixer?.channels?.out);
+      if (channels !== null && mixerIn !== null && mixerIn !== channels) {
+        flow.issues.push({
+          path: `${path}.name`,
+          message: `Mixer "${step.name}" expects ${mixerIn} input channels but receives ${channels}`,
+        });
+      }
+      // An undefined mixer leaves the count unknown downstream
+      channels = mixerOut;
+      flow.channelsOut = channels;
+    } else if (step.type === 'Processor') {
+      const processorChannels = channelCount(config.processors?.[step.name]?.parameters?.channels);
+      if (channels !== null && processorChannels !== null && processorChannels !== channels) {
+        flow.issues.push({
+          path: `${path}.name`,
+          message: `Processor "${step.name}" is set for ${processorChannels} channels but receives ${channels}`,
+        });
+      }
+    } else if (step.type === 'Filter' && channels !== null) {
+      // v3 uses "channels" (null = all channels); v2 used a single "channel"
+      const listed = Array.isArray(step.channels);
+      const indices: unknown[] = listed ? step.channels : step.channel == null ? [] : [step.channel];
+      indices.forEach((channel, channelIndex) => {
+        if (isChannelIndex(channel) && channel >= channels!) {
+          flow.issues.push({
+            path: listed ? `${path}.channels[${channelIndex}]` : `${path}.channel`,
+            message: `Channel ${channel} does not exist (${channels} channels at this point)`,
+          });
+        }
+      });
+    }
+  });
+
+  const playbackMismatch =
+    channels !== null && playbackChannels !== null && playbackChannels !== channels
+      ? {
+          path: 'devices.playback.channels',
+          message: `Pipeline outputs ${channels} channels but playback expects ${playbackChannels}`,
+        }
+      : null;
+
+  const issues = steps.flatMap((step) => step.issues);
+  if (playbackMismatch) {
+    issues.push(playbackMismatch);
+  }
+
+  return {
+    captureChannels,
+    playbackChannels,
+    outputChannels: channels,
+    steps,
+    playbackMismatch,
+    issues,
+  };
+}
+
+/**
+ * Short "in → out" label for a block badge, e.g. "2 → 1 ch"
+ */
+export function formatChannelFlow(flow: StepChannelFlow): string {
+  const format = (count: number | null) => (count === null ? '?' : String(count));
+  return `${format(flow.channelsIn)} → ${format(flow.channelsOut)} ch`;
+}
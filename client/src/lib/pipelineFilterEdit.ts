@@ -240,14 +240,14 @@ export function removeFilterDefinitionIfOrphaned(
 /**
  * Generate a unique filter name that doesn't collide with existing filters
  */
-function generateUniqueFilterName(config: CamillaDSPConfig): string {
+function generateUniqueFilterName(config: CamillaDSPConfig, prefix: string = 'EQ'): string {
   const existingNames = Object.keys(config.filters || {});
   let counter = 1;
-  let name = `EQ${counter}`;
+  let name = `${prefix}${counter}`;
   
   while (existingNames.includes(name)) {
     counter++;
-    name = `EQ${counter}`;
+    name = `${prefix}${counter}`;
   }
   
   return name;
@@ -312,3 +312,40 @@ export function addNewBiquadFilterToStep(
   
   return { config: updated, filterName };
 }
+
+/**
+ * Add a new convolution filter to a Filter step
+ * Starts as a unit impulse (pass-through) until a coefficient file is chosen
+ * @returns Updated config and the name of the created filter
+ */
+export function addNewConvFilterToStep(
+  config: CamillaDSPConfig,
+  stepIndex: number
+): { config: CamillaDSPConfig; filterName: string } {
+  const updated = JSON.parse(JSON.stringify(config)) as CamillaDSPConfig;
+  
+  if (!updated.pipeline || stepIndex < 0 || stepIndex >= updated.pipeline.length) {
+    throw new Error(`Invalid step index: ${stepIndex}`);
+  }
+  
+  const step = updated.pipeline[stepIndex];
+  if (step.type !== 'Filter') {
+    throw new Error('Step is not a Filter step');
+  }
+  
+  const filterName = generateUniqueFilterName(updated, 'Conv');
+  
+  if (!updated.filters) {
+    updated.filters = {};
+  }
+  updated.filters[filterName] = {
+    type: 'Conv',
+    parameters: { type: 'Values', values: [1] },
+  };
+  
+  const names = (step as any).names || [];
+  names.push(filterName);
+  (step as any).names = names;
+  
+  return { config: updated, filterName };
+}
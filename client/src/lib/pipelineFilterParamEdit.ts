@@ -0,0 +1,599 @@
+/**
+ * Pure utility functions for editing non-Biquad filter parameters in pipeline
+ * (Delay, Gain, Volume, Loudness, BiquadCombo, Conv, Limiter, Dither, DiffEq)
+ * All functions return new config objects (immutable pattern)
+ */
+
+import type { CamillaDSPConfig } from './camillaDSP';
+import type { BiquadComboParameters, ConvParameters, DelayParameters, VolumeParameters } from './camillaSchema';
+import { clampFreqHz, clampGainDb, clampQ } from './eqParamClamp';
+import { DITHER_TYPES } from './camillaConfigValidation';
+
+export type DelayUnit = NonNullable<DelayParameters['unit']>;
+export type VolumeFader = VolumeParameters['fader'];
+export type LoudnessFader = 'Main' | VolumeFader;
+
+export const DELAY_UNITS: DelayUnit[] = ['ms', 'samples', 'mm'];
+export const VOLUME_FADERS: VolumeFader[] = ['Aux1', 'Aux2', 'Aux3', 'Aux4'];
+export const LOUDNESS_FADERS: LoudnessFader[] = ['Main', ...VOLUME_FADERS];
+
+export type BiquadComboType = BiquadComboParameters['type'];
+export const BIQUAD_COMBO_TYPES: BiquadComboType[] = [
+  'ButterworthHighpass',
+  'ButterworthLowpass',
+  'LinkwitzRileyHighpass',
+  'LinkwitzRileyLowpass',
+  'Tilt',
+  'FivePointPeq',
+  'GraphicEqualizer',
+];
+
+export type ConvType = ConvParameters['type'];
+export const CONV_TYPES: ConvType[] = ['Wav', 'Raw', 'Values', 'Dummy'];
+// Sample formats CamillaDSP reads from Raw coefficient files
+export const CONV_RAW_FORMATS = ['TEXT', 'FLOAT32LE', 'FLOAT64LE', 'S16LE', 'S24LE', 'S24LE3', 'S32LE'] as const;
+
+// Noise-shaped dither types take only the bit depth; Flat adds an amplitude (LSB)
+export const DITHER_FILTER_TYPES: string[] = [...DITHER_TYPES, 'Flat'];
+
+// FivePointPeq sections, in order: low shelf, three peaks, high shelf
+export const FIVE_POINT_PEQ_SECTIONS = ['ls', 'p1', 'p2', 'p3', 'hs'] as const;
+
+const MAX_CROSSOVER_ORDER = 16;
+const MAX_GRAPHIC_EQ_BANDS = 64;
+
+// Speed of sound used by CamillaDSP for "mm" delays (m/s)
+const SPEED_OF_SOUND = 343;
+const DEFAULT_SAMPLE_RATE = 48000;
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Clone config and return the named filter's parameters (type-checked)
+ */
+function cloneWithFilterParams(
+  config: CamillaDSPConfig,
+  filterName: string,
+  filterType: string
+): { updated: CamillaDSPConfig; params: Record<string, any> } {
+  const updated = JSON.parse(JSON.stringify(config)) as CamillaDSPConfig;
+
+  if (!updated.filters) {
+    throw new Error('No filters in config');
+  }
+
+  const filterDef = updated.filters[filterName];
+  if (!filterDef || filterDef.type !== filterType) {
+    throw new Error(`Filter "${filterName}" not found or not a ${filterType}`);
+  }
+
+  if (!filterDef.parameters) {
+    (filterDef as any).parameters = {};
+  }
+
+  return { updated, params: filterDef.parameters as Record<string, any> };
+}
+
+/**
+ * Convert a delay between units (mm uses the speed of sound)
+ */
+export function convertDelay(value: number, from: DelayUnit, to: DelayUnit, sampleRate: number): number {
+  if (from === to) return value;
+
+  const seconds =
+    from === 'ms' ? value / 1000 : from === 'samples' ? value / sampleRate : value / 1000 / SPEED_OF_SOUND;
+
+  if (to === 'ms') return seconds * 1000;
+  if (to === 'samples') return seconds * sampleRate;
+  return seconds * SPEED_OF_SOUND * 1000;
+}
+
+/**
+ * Round a delay to the unit's display precision (whole samples unless subsample)
+ */
+function roundDelay(value: number, unit: DelayUnit, subsample: boolean): number {
+  const nonNegative = Math.max(0, value);
+  if (unit === 'samples') {
+    return subsample ? round(nonNegative, 2) : Math.round(nonNegative);
+  }
+  return round(nonNegative, unit === 'mm' ? 1 : 3);
+}
+
+/**
+ * Set delay filter parameter
+ * Changing the unit converts the delay so the physical delay is unchanged
+ */
+export function setDelayParam(
+  config: CamillaDSPConfig,
+  filterName: string,
+  param: 'delay' | 'unit' | 'subsample',
+  value: number | DelayUnit | boolean
+): CamillaDSPConfig {
+  const { updated, params } = cloneWithFilterParams(config, filterName, 'Delay');
+  const unit: DelayUnit = params.unit ?? 'ms';
+  const subsample = params.subsample === true;
+
+  switch (param) {
+    case 'delay':
+      params.delay = roundDelay(value as number, unit, subsample);
+      break;
+    case 'unit': {
+      const newUnit = value as DelayUnit;
+      if (!DELAY_UNITS.includes(newUnit)) {
+        throw new Error(`Invalid delay unit "${newUnit}"`);
+      }
+      const sampleRate = updated.devices?.samplerate ?? DEFAULT_SAMPLE_RATE;
+      params.delay = roundDelay(convertDelay(Number(params.delay ?? 0), unit, newUnit, sampleRate), newUnit, subsample);
+      params.unit = newUnit;
+      break;
+    }
+    case 'subsample':
+      params.subsample = value as boolean;
+      params.delay = roundDelay(Number(params.delay ?? 0), unit, value as boolean);
+      break;
+  }
+
+  return updated;
+}
+
+/**
+ * Set gain filter parameter
+ * Gain is clamped to ±150 dB (CamillaDSP's range), or ±10 in linear scale
+ */
+export function setGainFilterParam(
+  config: CamillaDSPConfig,
+  filterName: string,
+  param: 'gain' | 'inverted' | 'mute',
+  value: number | boolean
+): CamillaDSPConfig {
+  const { updated, params } = cloneWithFilterParams(config, filterName, 'Gain');
+
+  if (param === 'gain') {
+    const limit = params.scale === 'linear' ? 10 : 150;
+    params.gain = round(clamp(value as number, -limit, limit), 2);
+  } else {
+    params[param] = value as boolean;
+  }
+
+  return updated;
+}
+
+/**
+ * Set volume filter parameter
+ */
+export function setVolumeParam(
+  config: CamillaDSPConfig,
+  filterName: string,
+  param: 'fader' | 'ramp_time' | 'limit',
+  value: VolumeFader | number
+): CamillaDSPConfig {
+  const { updated, params } = cloneWithFilterParams(config, filterName, 'Volume');
+
+  switch (param) {
+    case 'fader':
+      if (!VOLUME_FADERS.includes(value as VolumeFader)) {
+        throw new Error(`Invalid volume fader "${value}"`);
+      }
+      params.fader = value;
+      break;
+    case 'ramp_time':
+      // Milliseconds, whole numbers
+      params.ramp_time = Math.round(Math.max(0, value as number));
+      break;
+    case 'limit':
+      params.limit = round(clamp(value as number, -150, 50), 1);
+      break;
+  }
+
+  return updated;
+}
+
+/**
+ * Set loudness filter parameter
+ */
+export function setLoudnessParam(
+  config: CamillaDSPConfig,
+  filterName: string,
+  param: 'reference_level' | 'high_boost' | 'low_boost' | 'attenuate_mid' | 'fader',
+  value: number | boolean | LoudnessFader
+): CamillaDSPConfig {
+  const { updated, params } = cloneWithFilterParams(config, filterName, 'Loudness');
+
+  switch (param) {
+    case 'reference_level':
+      params.reference_level = round(clamp(value as number, -100, 20), 1);
+      break;
+    case 'high_boost':
+    case 'low_boost':
+      params[param] = round(clamp(value as number, 0, 20), 1);
+      break;
+    case 'attenuate_mid':
+      params.attenuate_mid = value as boolean;
+      break;
+    case 'fader':
+      if (!LOUDNESS_FADERS.includes(value as LoudnessFader)) {
+        throw new Error(`Invalid loudness fader "${value}"`);
+      }
+      params.fader = value;
+      break;
+  }
+
+  return updated;
+}
+
+/**
+ * Whether a combo subtype is a Butterworth / Linkwitz-Riley crossover (freq + order)
+ */
+export function isCrossoverComboType(type: string): boolean {
+  return type.startsWith('Butterworth') || type.startsWith('LinkwitzRiley');
+}
+
+/**
+ * Valid crossover order: 1..16 for Butterworth, even 2..16 for Linkwitz-Riley
+ */
+export function clampCrossoverOrder(type: string, order: number): number {
+  if (type.startsWith('LinkwitzRiley')) {
+    return clamp(Math.round(order / 2) * 2, 2, MAX_CROSSOVER_ORDER);
+  }
+  return clamp(Math.round(order), 1, MAX_CROSSOVER_ORDER);
+}
+
+/**
+ * Default parameters for a combo subtype
+ * Crossovers keep the previous frequency and order where they are valid
+ */
+function defaultComboParameters(type: BiquadComboType, previous: Record<string, any>): Record<string, any> {
+  if (isCrossoverComboType(type)) {
+    const defaultOrder = type.startsWith('LinkwitzRiley') ? 4 : 2;
+    return {
+      type,
+      freq: clampFreqHz(Number(previous.freq ?? 1000)),
+      order: clampCrossoverOrder(type, Number(previous.order ?? defaultOrder)),
+    };
+  }
+
+  switch (type) {
+    case 'Tilt':
+      return { type, gain: 0 };
+    case 'FivePointPeq':
+      return {
+        type,
+        fls: 100, qls: 0.7, gls: 0,
+        fp1: 300, qp1: 1, gp1: 0,
+        fp2: 1000, qp2: 1, gp2: 0,
+        fp3: 3000, qp3: 1, gp3: 0,
+        fhs: 10000, qhs: 0.7, ghs: 0,
+      };
+    default:
+      return { type, gains: new Array(10).fill(0) };
+  }
+}
+
+/**
+ * Set BiquadCombo filter parameter
+ * - type: switches subtype, resetting the parameters to that subtype's defaults
+ * - freq / order: crossovers; gain: Tilt (±100 dB)
+ * - f<section> / q<section> / g<section>: FivePointPeq (e.g. "fp1", "gls")
+ * - gains.<index> / bands / freq_min / freq_max: GraphicEqualizer
+ */
+export function setBiquadComboParam(
+  config: CamillaDSPConfig,
+  filterName: string,
+  param: string,
+  value: FilterParamValue
+): CamillaDSPConfig {
+  const { updated, params } = cloneWithFilterParams(config, filterName, 'BiquadCombo');
+  const type: string = params.type ?? '';
+
+  if (param === 'type') {
+    const newType = value as BiquadComboType;
+    if (!BIQUAD_COMBO_TYPES.includes(newType)) {
+      throw new Error(`Invalid BiquadCombo type "${value}"`);
+    }
+    const defaults = defaultComboParameters(newType, params);
+    Object.keys(params).forEach((key) => delete params[key]);
+    Object.assign(params, defaults);
+    return updated;
+  }
+
+  if (isCrossoverComboType(type) && param === 'freq') {
+    params.freq = clampFreqHz(value as number);
+  } else if (isCrossoverComboType(type) && param === 'order') {
+    params.order = clampCrossoverOrder(type, value as number);
+  } else if (type === 'Tilt' && param === 'gain') {
+    params.gain = round(clamp(value as number, -100, 100), 1);
+  } else if (type === 'FivePointPeq' && /^[fqg](ls|p1|p2|p3|hs)$/.test(param)) {
+    const clampFn = param[0] === 'f' ? clampFreqHz : param[0] === 'q' ? clampQ : clampGainDb;
+    params[param] = clampFn(value as number);
+  } else if (type === 'GraphicEqualizer' && /^gains\.\d+$/.test(param)) {
+    const index = Number(param.split('.')[1]);
+    const gains: number[] = Array.isArray(params.gains) ? [...params.gains] : [];
+    if (index >= gains.length) {
+      throw new Error(`GraphicEqualizer "${filterName}" has no band ${index}`);
+    }
+    gains[index] = clampGainDb(value as number);
+    params.gains = gains;
+  } else if (type === 'GraphicEqualizer' && param === 'bands') {
+    // Resizing keeps existing gains and adds flat bands
+    const count = clamp(Math.round(value as number), 1, MAX_GRAPHIC_EQ_BANDS);
+    const gains: number[] = Array.isArray(params.gains) ? params.gains : [];
+    params.gains = Array.from({ length: count }, (_, i) => gains[i] ?? 0);
+  } else if (type === 'GraphicEqualizer' && (param === 'freq_min' || param === 'freq_max')) {
+    params[param] = clampFreqHz(value as number);
+    if (Number(params.freq_min ?? 20) >= Number(params.freq_max ?? 20000)) {
+      throw new Error('GraphicEqualizer freq_min must be below freq_max');
+    }
+  } else {
+    throw new Error(`Invalid parameter "${param}" for BiquadCombo type ${type || 'undefined'}`);
+  }
+
+  return updated;
+}
+
+/**
+ * Raw format matching a coefficient file's extension (.txt/.csv are text, others binary)
+ */
+function rawFormatForFile(filename: string, previous: string | undefined): string {
+  if (/\.(txt|csv)$/i.test(filename)) return 'TEXT';
+  if (previous && previous !== 'TEXT') return previous;
+  return /\.f32$/i.test(filename) ? 'FLOAT32LE' : 'FLOAT64LE';
+}
+
+/**
+ * Set Conv filter parameter
+ * - type: switches subtype; Wav/Raw keep the file name, Values starts as a unit impulse
+ * - filename: also picks Wav or Raw from the file extension
+ * - channel (Wav), format / skip_bytes_lines / read_bytes_lines (Raw), length (Dummy)
+ */
+export function setConvParam(
+  config: CamillaDSPConfig,
+  filterName: string,
+  param: string,
+  value: FilterParamValue
+): CamillaDSPConfig {
+  const { updated, params } = cloneWithFilterParams(config, filterName, 'Conv');
+  const type: string = params.type ?? '';
+  const filename: string = typeof params.filename === 'string' ? params.filename : '';
+
+  const replace = (next: Record<string, any>) => {
+    Object.keys(params).forEach((key) => delete params[key]);
+    Object.assign(params, next);
+  };
+
+  if (param === 'type') {
+    switch (value) {
+      case 'Wav':
+        replace({ type: 'Wav', filename, channel: 0 });
+        break;
+      case 'Raw':
+        replace({ type: 'Raw', filename, format: rawFormatForFile(filename, undefined) });
+        break;
+      case 'Values':
+        replace({ type: 'Values', values: [1] });
+        break;
+      case 'Dummy':
+        replace({ type: 'Dummy', length: 1024 });
+        break;
+      default:
+        throw new Error(`Invalid Conv type "${value}"`);
+    }
+    return updated;
+  }
+
+  if (param === 'filename') {
+    const newFilename = String(value).trim();
+    if (!newFilename) {
+      throw new Error('Conv filter needs a coefficient file');
+    }
+    if (/\.wav$/i.test(newFilename)) {
+      replace({ type: 'Wav', filename: newFilename, channel: type === 'Wav' ? params.channel ?? 0 : 0 });
+    } else {
+      replace({
+        type: 'Raw',
+        filename: newFilename,
+        format: rawFormatForFile(newFilename, type === 'Raw' ? params.format : undefined),
+      });
+    }
+  } else if (type === 'Wav' && param === 'channel') {
+    params.channel = Math.max(0, Math.round(value as number));
+  } else if (type === 'Raw' && param === 'format') {
+    if (!(CONV_RAW_FORMATS as readonly string[]).includes(value as string)) {
+      throw new Error(`Invalid Raw format "${value}"`);
+    }
+    params.format = value;
+  } else if (type === 'Raw' && (param === 'skip_bytes_lines' || param === 'read_bytes_lines')) {
+    const count = Math.max(0, Math.round(value as number));
+    // read_bytes_lines 0 means "read the whole file"
+    if (count === 0) delete params[param];
+    else params[param] = count;
+  } else if (type === 'Dummy' && param === 'length') {
+    params.length = Math.max(1, Math.round(value as number));
+  } else {
+    throw new Error(`Invalid parameter "${param}" for Conv type ${type || 'undefined'}`);
+  }
+
+  return updated;
+}
+
+/**
+ * Set limiter filter parameter
+ * clip_limit is clamped to CamillaDSP's -150..50 dB range
+ */
+export function setLimiterParam(
+  config: CamillaDSPConfig,
+  filterName: string,
+  param: 'clip_limit' | 'soft_clip',
+  value: number | boolean
+): CamillaDSPConfig {
+  const { updated, params } = cloneWithFilterParams(config, filterName, 'Limiter');
+
+  if (param === 'clip_limit') {
+    params.clip_limit = round(clamp(value as number, -150, 50), 1);
+  } else {
+    params.soft_clip = value as boolean;
+  }
+
+  return updated;
+}
+
+/**
+ * Set dither filter parameter
+ * - type: switching to Flat adds a 2 LSB amplitude, switching away drops it
+ * - bits: target bit depth (2..32); amplitude: Flat only (0..100 LSB)
+ */
+export function setDitherParam(
+  config: CamillaDSPConfig,
+  filterName: string,
+  param: 'type' | 'bits' | 'amplitude',
+  value: string | number
+): CamillaDSPConfig {
+  const { updated, params } = cloneWithFilterParams(config, filterName, 'Dither');
+
+  switch (param) {
+    case 'type':
+      if (!DITHER_FILTER_TYPES.includes(value as string)) {
+        throw new Error(`Invalid dither type "${value}"`);
+      }
+      params.type = value;
+      if (value === 'Flat') {
+        params.amplitude = params.amplitude ?? 2;
+      } else {
+        delete params.amplitude;
+      }
+      break;
+    case 'bits':
+      params.bits = clamp(Math.round(value as number), 2, 32);
+      break;
+    case 'amplitude':
+      if (params.type !== 'Flat') {
+        throw new Error(`Dither type ${params.type ?? 'undefined'} has no amplitude`);
+      }
+      params.amplitude = round(clamp(value as number, 0, 100), 2);
+      break;
+  }
+
+  return updated;
+}
+
+/**
+ * Parse a coefficient list typed as text ("1, -0.5 0.25")
+ * @throws Error naming the first entry that is not a number
+ */
+export function parseCoefficientList(text: string): number[] {
+  return text
+    .split(/[\s,;]+/)
+    .filter((entry) => entry !== '')
+    .map((entry) => {
+      const value = Number(entry);
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid coefficient "${entry}"`);
+      }
+      return value;
+    });
+}
+
+/**
+ * Whether a DiffEq denominator (a coefficients) has all poles inside the unit circle
+ * Uses the Schur-Cohn step-down recursion: stable iff every reflection coefficient |k| < 1
+ */
+export function isDiffEqStable(a: number[]): boolean {
+  let poly = [...a];
+  while (poly.length > 1 && poly[poly.length - 1] === 0) {
+    poly.pop();
+  }
+  if (poly.length === 0 || poly[0] === 0) {
+    return false;
+  }
+  poly = poly.map((coeff) => coeff / poly[0]);
+
+  for (let order = poly.length - 1; order > 0; order--) {
+    const k = poly[order];
+    if (Math.abs(k) >= 1) {
+      return false;
+    }
+    const lower: number[] = [];
+    for (let i = 0; i < order; i++) {
+      lower.push((poly[i] - k * poly[order - i]) / (1 - k * k));
+    }
+    poly = lower;
+  }
+
+  return true;
+}
+
+/**
+ * Set DiffEq filter coefficients from a list (or text, see parseCoefficientList)
+ * a is the feedback (denominator) side: a[0] must be non-zero and the filter stable
+ * An empty list removes the entry (CamillaDSP then uses [1.0])
+ */
+export function setDiffEqParam(
+  config: CamillaDSPConfig,
+  filterName: string,
+  param: 'a' | 'b',
+  value: number[] | string
+): CamillaDSPConfig {
+  const { updated, params } = cloneWithFilterParams(config, filterName, 'DiffEq');
+  const coefficients = typeof value === 'string' ? parseCoefficientList(value) : value;
+
+  if (param === 'a' && coefficients.length > 0) {
+    if (coefficients[0] === 0) {
+      throw new Error('DiffEq a[0] must not be zero');
+    }
+    if (!isDiffEqStable(coefficients)) {
+      throw new Error('DiffEq filter is unstable (poles on or outside the unit circle)');
+    }
+  }
+
+  if (coefficients.length === 0) {
+    delete params[param];
+  } else {
+    params[param] = coefficients;
+  }
+
+  return updated;
+}
+
+export type FilterParamValue = number | string | boolean;
+
+/**
+ * Set a parameter on any editable non-Biquad filter, dispatching on the filter's type
+ * (used by the pipeline editor, whose filter editors emit generic param events)
+ */
+export function setFilterParam(
+  config: CamillaDSPConfig,
+  filterName: string,
+  param: string,
+  value: FilterParamValue
+): CamillaDSPConfig {
+  const filterType = config.filters?.[filterName]?.type;
+
+  switch (filterType) {
+    case 'Delay':
+      return setDelayParam(config, filterName, param as any, value as any);
+    case 'Gain':
+      return setGainFilterParam(config, filterName, param as any, value as any);
+    case 'Volume':
+      return setVolumeParam(config, filterName, param as any, value as any);
+    case 'Loudness':
+      return setLoudnessParam(config, filterName, param as any, value as any);
+    case 'BiquadCombo':
+      return setBiquadComboParam(config, filterName, param, value);
+    case 'Conv':
+      return setConvParam(config, filterName, param, value);
+    case 'Limiter':
+      return setLimiterParam(config, filterName, param as any, value as any);
+    case 'Dither':
+      return setDitherParam(config, filterName, param as any, value as any);
+    case 'DiffEq':
+      return setDiffEqParam(config, filterName, param as any, value as string);
+    default:
+      throw new Error(`Filter "${filterName}" has no editable parameters`);
+  }
+}
@@ -29,14 +29,34 @@ export function setProcessorStepBypassed(
   return updated;
 }
 
+export type DynamicsChannelListParam = 'monitor_channels' | 'process_channels';
+
+/**
+ * Drop monitor/process channel indices that no longer exist after a channel count change
+ * (an emptied list is removed, which means "all channels" again)
+ */
+function pruneChannelLists(params: Record<string, any>): void {
+  const channels = Number(params.channels);
+  for (const key of ['monitor_channels', 'process_channels'] as const) {
+    if (!Array.isArray(params[key])) continue;
+    const kept = params[key].filter((channel: number) => channel < channels);
+    if (kept.length > 0) {
+      params[key] = kept;
+    } else {
+      delete params[key];
+    }
+  }
+}
+
 /**
  * Set compressor parameter
+ * makeup_gain / clip_limit accept null to remove them (no makeup gain, no clipping)
  */
 export function setCompressorParam(
   config: CamillaDSPConfig,
   processorName: string,
-  param: 'threshold' | 'attack' | 'release' | 'factor' | 'makeup_gain' | 'channels',
-  value: number
+  param: 'threshold' | 'attack' | 'release' | 'factor' | 'makeup_gain' | 'clip_limit' | 'soft_clip' | 'channels',
+  value: number | boolean | null
 ): CamillaDSPConfig {
   const updated = JSON.parse(JSON.stringify(config)) as CamillaDSPConfig;
   
@@ -49,31 +69,47 @@ export function setCompressorParam(
     throw new Error(`Processor "${processorName}" is not a Compressor`);
   }
   
+  if (param === 'soft_clip') {
+    processor.parameters.soft_clip = value as boolean;
+    return updated;
+  }
+  if (value === null) {
+    if (param !== 'makeup_gain' && param !== 'clip_limit') {
+      throw new Error(`Compressor parameter "${param}" is required`);
+    }
+    delete (processor.parameters as any)[param];
+    return updated;
+  }
+  
   // Apply minimal safety clamping and round to 2 decimals consistently
-  let clampedValue = value;
+  let clampedValue = value as number;
   
   switch (param) {
     case 'attack':
     case 'release':
       // Time values must be >= 0, rounded to 2 decimals
-      clampedValue = Math.round(Math.max(0, value) * 100) / 100;
+      clampedValue = Math.round(Math.max(0, clampedValue) * 100) / 100;
       break;
     case 'factor':
       // Factor must be >= 1, rounded to 2 decimals
-      clampedValue = Math.round(Math.max(1, value) * 100) / 100;
+      clampedValue = Math.round(Math.max(1, clampedValue) * 100) / 100;
       break;
     case 'channels':
       // Integer >= 1
-      clampedValue = Math.max(1, Math.floor(value));
+      clampedValue = Math.max(1, Math.floor(clampedValue));
       break;
     case 'threshold':
     case 'makeup_gain':
+    case 'clip_limit':
       // Allow any value (power users may need extreme values), rounded to 2 decimals
-      clampedValue = Math.round(value * 100) / 100;
+      clampedValue = Math.round(clampedValue * 100) / 100;
       break;
   }
   
-  processor.parameters[param] = clampedValue;
+  (processor.parameters as any)[param] = clampedValue;
+  if (param === 'channels') {
+    pruneChannelLists(processor.parameters);
+  }
   
   return updated;
 }
@@ -119,6 +155,75 @@ export function setNoiseGateParam(
   }
   
   processor.parameters[param] = clampedValue;
+  if (param === 'channels') {
+    pruneChannelLists(processor.parameters);
+  }
   
   return updated;
 }
+
+/**
+ * Set the channels a compressor / noise gate monitors (level detection) or processes
+ * Indices must be below the processor's channel count; null or [] removes the list (all channels)
+ */
+export function setDynamicsChannels(
+  config: CamillaDSPConfig,
+  processorName: string,
+  param: DynamicsChannelListParam,
+  channels: number[] | null
+): CamillaDSPConfig {
+  const updated = JSON.parse(JSON.stringify(config)) as CamillaDSPConfig;
+  
+  const processor = updated.processors?.[processorName];
+  if (!processor) {
+    throw new Error(`Processor "${processorName}" not found`);
+  }
+  
+  const params = processor.parameters as Record<string, any>;
+  if (!channels || channels.length === 0) {
+    delete params[param];
+    return updated;
+  }
+  
+  const count = Number(params.channels);
+  for (const channel of channels) {
+    if (!Number.isInteger(channel) || channel < 0 || channel >= count) {
+      throw new Error(`Channel ${channel} is out of range (processor has ${count} channels)`);
+    }
+  }
+  
+  params[param] = Array.from(new Set(channels)).sort((a, b) => a - b);
+  
+  return updated;
+}
+
+export type ProcessorParamValue = number | boolean | number[] | null;
+
+/**
+ * Set a parameter on a Compressor/NoiseGate, dispatching on the processor's type
+ * (used by the pipeline editor, whose processor editor emits generic param events)
+ */
+export function setProcessorParam(
+  config: CamillaDSPConfig,
+  processorName: string,
+  param: string,
+  value: ProcessorParamValue
+): CamillaDSPConfig {
+  const processor = config.processors?.[processorName];
+  if (!processor) {
+    throw new Error(`Processor "${processorName}" not found`);
+  }
+  
+  if (param === 'monitor_channels' || param === 'process_channels') {
+    return setDynamicsChannels(config, processorName, param, value as number[] | null);
+  }
+  
+  switch (processor.type) {
+    case 'Compressor':
+      return setCompressorParam(config, processorName, param as any, value as number | boolean | null);
+    case 'NoiseGate':
+      return setNoiseGateParam(config, processorName, param as any, value as number);
+    default:
+      throw new Error(`Unsupported processor type: ${(processor as any).type}`);
+  }
+}
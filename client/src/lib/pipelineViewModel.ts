@@ -262,6 +262,11 @@ function buildFilterInfo(
       const type = biquadType?.toLowerCase() || '';
       supportsGain = type === 'peaking' || type === 'highshelf' || type === 'lowshelf' || type === 'notch';
     }
+
+    if (filterDef.type === 'BiquadCombo') {
+      // Combo subtype for icon (crossovers share the high/low pass icons)
+      iconType = (filterDef.parameters as any)?.type || null;
+    }
   }
   
   return {
@@ -5,7 +5,9 @@
  */
 
 import type { SmoothingMode } from '../dsp/fractionalOctaveSmoothing';
+import type { AveragingMode } from '../dsp/spectrumAnalyzer';
 import type { HeatmapMaskMode } from '../ui/rendering/canvasLayers/SpectrumHeatmapLayer';
+import type { ResponseOverlayMode } from '../ui/rendering/eqPhaseOverlay';
 
 const STORAGE_KEY = 'camillaEQ.vizOptions';
 const STORAGE_VERSION = 1;
@@ -20,11 +22,20 @@ export interface VizOptionsState {
   showLTA: boolean;
   showPeak: boolean;
   
+  // Analyzer averaging / peak hold
+  analyzerTauShort: number; // STA time constant (s)
+  analyzerTauLong: number; // LTA time constant (s)
+  analyzerPeakHoldTime: number; // Peak hold (s)
+  analyzerPeakDecayRate: number; // Peak decay after the hold (dB/s)
+  analyzerAveragingMode: AveragingMode;
+  analyzerInfiniteAverage: boolean;
+  
   // EQ view options
   showPerBandCurves: boolean;
   showBandwidthMarkers: boolean;
   bandFillOpacity: number;
   soloWhileEditing: boolean;
+  responseOverlay: ResponseOverlayMode;
   
   // Heatmap settings
   heatmapEnabled: boolean;
@@ -49,11 +60,20 @@ const DEFAULT_VIZ_OPTIONS: VizOptionsState = {
   showLTA: false,
   showPeak: false,
   
+  // Analyzer defaults (match SpectrumAnalyzer)
+  analyzerTauShort: 0.8,
+  analyzerTauLong: 8.0,
+  analyzerPeakHoldTime: 2.0,
+  analyzerPeakDecayRate: 12,
+  analyzerAveragingMode: 'db',
+  analyzerInfiniteAverage: false,
+  
   // EQ view defaults
   showPerBandCurves: false,
   showBandwidthMarkers: true,
   bandFillOpacity: 0.4,
   soloWhileEditing: false,
+  responseOverlay: 'off',
   
   // Heatmap defaults
   heatmapEnabled: false,
@@ -98,7 +118,19 @@ function validateVizOptions(state: Partial<VizOptionsState>): VizOptionsState {
   if (typeof state.soloWhileEditing === 'boolean') validated.soloWhileEditing = state.soloWhileEditing;
   if (typeof state.heatmapEnabled === 'boolean') validated.heatmapEnabled = state.heatmapEnabled;
   if (typeof state.heatmapHighPrecision === 'boolean') validated.heatmapHighPrecision = state.heatmapHighPrecision;
+  if (typeof state.analyzerInfiniteAverage === 'boolean') validated.analyzerInfiniteAverage = state.analyzerInfiniteAverage;
   
+  // Analyzer averaging domain
+  if (state.analyzerAveragingMode === 'db' || state.analyzerAveragingMode === 'power') {
+    validated.analyzerAveragingMode = state.analyzerAveragingMode;
+  }
+  
+  // Phase / group-delay overlay
+  const validOverlayModes: ResponseOverlayMode[] = ['off', 'phase', 'groupDelay'];
+  if (state.responseOverlay && validOverlayModes.includes(state.responseOverlay)) {
+    validated.responseOverlay = state.responseOverlay;
+  }
+
   // Heatmap mask mode
   const validMaskModes: HeatmapMaskMode[] = ['full', 'top', 'bottom'];
   if (state.heatmapMaskMode && validMaskModes.includes(state.heatmapMaskMode)) {
@@ -121,6 +153,18 @@ function validateVizOptions(state: Partial<VizOptionsState>): VizOptionsState {
   if (typeof state.heatmapMaxAlpha === 'number') {
     validated.heatmapMaxAlpha = clampValue(state.heatmapMaxAlpha, 0.2, 1.0);
   }
+  if (typeof state.analyzerTauShort === 'number') {
+    validated.analyzerTauShort = clampValue(state.analyzerTauShort, 0.1, 10);
+  }
+  if (typeof state.analyzerTauLong === 'number') {
+    validated.analyzerTauLong = clampValue(state.analyzerTauLong, 1, 60);
+  }
+  if (typeof state.analyzerPeakHoldTime === 'number') {
+    validated.analyzerPeakHoldTime = clampValue(state.analyzerPeakHoldTime, 0, 10);
+  }
+  if (typeof state.analyzerPeakDecayRate === 'number') {
+    validated.analyzerPeakDecayRate = clampValue(state.analyzerPeakDecayRate, 1, 60);
+  }
   
   return validated;
 }
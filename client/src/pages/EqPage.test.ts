@@ -275,7 +275,7 @@ describe('Informative Tokens (MVP-12)', () => {
     
     // Verify imports from tokenUtils
     expect(source).toContain('formatTokenFrequency');
-    expect(source).toContain('formatTokenQ');
+    expect(source).toContain('formatTokenDetail');
     expect(source).toContain('qToSweepDeg');
     expect(source).toContain('describeEllipseArcPath');
     expect(source).toContain('labelShiftFactor');
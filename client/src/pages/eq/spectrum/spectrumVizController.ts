@@ -2,15 +2,16 @@
  * spectrumVizController.ts
  * Factory for creating a spectrum visualization controller that manages:
  * - Spectrum analysis (STA/LTA/Peak tracking)
- * - Canvas rendering (analyzer lines + heatmap)
+ * - Canvas rendering (analyzer lines + heatmap + frozen snapshots)
  * - Polling lifecycle (start/stop based on readiness)
  */
 
 import { SpectrumCanvasRenderer } from '../../../ui/rendering/SpectrumCanvasRenderer';
 import { SpectrumAnalyzerLayer } from '../../../ui/rendering/canvasLayers/SpectrumAnalyzerLayer';
 import { SpectrumHeatmapLayer, type HeatmapMaskMode } from '../../../ui/rendering/canvasLayers/SpectrumHeatmapLayer';
+import { SpectrumSnapshotLayer } from '../../../ui/rendering/canvasLayers/SpectrumSnapshotLayer';
 import { parseSpectrumData, dbArrayToNormalized } from '../../../dsp/spectrumParser';
-import { SpectrumAnalyzer } from '../../../dsp/spectrumAnalyzer';
+import { SpectrumAnalyzer, type AveragingMode } from '../../../dsp/spectrumAnalyzer';
 import { smoothDbBins } from '../../../dsp/fractionalOctaveSmoothing';
 import {
   selectPrimarySeries,
@@ -34,6 +35,9 @@ export interface SpectrumVizControllerConfig {
   heatmapMinDb?: number;
   heatmapMaxDb?: number;
   staleThresholdMs?: number;
+
+  // Called with the number of frames in the averages after each frame and reset
+  onAverageCount?: (count: number) => void;
 }
 
 export interface AnalyzerVisibility {
@@ -42,6 +46,20 @@ export interface AnalyzerVisibility {
   showPeak: boolean;
 }
 
+export interface AnalyzerAveragingConfig {
+  tauShortSec: number;
+  tauLongSec: number;
+  averagingMode: AveragingMode;
+  infiniteAverage: boolean;
+}
+
+export interface SnapshotTrace {
+  id: string;
+  color: string;
+  source: 'lta' | 'peak';
+  binsDb: number[];
+}
+
 export interface HeatmapConfig {
   enabled: boolean;
   maskMode: HeatmapMaskMode;
@@ -81,7 +99,9 @@ export function createSpectrumVizController(config: SpectrumVizControllerConfig)
     showPeak: false,
   });
   
-  const renderer = new SpectrumCanvasRenderer(config.canvas, [heatmapLayer, analyzerLayer]);
+  const snapshotLayer = new SpectrumSnapshotLayer();
+  
+  const renderer = new SpectrumCanvasRenderer(config.canvas, [heatmapLayer, snapshotLayer, analyzerLayer]);
   const { width, height } = config.getPlotSize();
   renderer.resize(width, height);
   
@@ -104,6 +124,15 @@ export function createSpectrumVizController(config: SpectrumVizControllerConfig)
     showLTA: false,
     showPeak: false,
   };
+  // User time constants (high precision scales them)
+  let currentTau = { tauShort: analyzer.getConfig().tauShort, tauLong: analyzer.getConfig().tauLong };
+  
+  /**
+   * Apply the user time constants, scaled for high precision
+   */
+  function applyAnalyzerTau(): void {
+    analyzer.updateConfig(getEffectiveAnalyzerTau(currentHeatmapConfig.highPrecision, currentTau));
+  }
   
   /**
    * Poll spectrum data and render
@@ -134,6 +163,7 @@ export function createSpectrumVizController(config: SpectrumVizControllerConfig)
         
         // Get analyzer state
         const state = analyzer.getState();
+        config.onAverageCount?.(state.averageCount);
         
         // Prepare series for rendering
         const staNorm = state.staDb ? dbArrayToNormalized(state.staDb) : null;
@@ -214,10 +244,19 @@ export function createSpectrumVizController(config: SpectrumVizControllerConfig)
       clearInterval(pollingInterval);
       pollingInterval = null;
       renderer.clear();
+      renderSnapshotsOnly();
       console.log('Spectrum polling stopped');
     }
   }
   
+  /**
+   * Draw saved snapshots while there are no live frames
+   */
+  function renderSnapshotsOnly(): void {
+    if (pollingInterval !== null) return; // Drawn with the next frame
+    renderer.renderStatic([snapshotLayer], { mode: currentSpectrumMode });
+  }
+  
   // Public API
   return {
     /**
@@ -268,6 +307,19 @@ export function createSpectrumVizController(config: SpectrumVizControllerConfig)
       });
     },
     
+    /**
+     * Set analyzer averaging config (time constants, domain, infinite LTA)
+     */
+    setAnalyzerAveragingConfig(cfg: AnalyzerAveragingConfig): void {
+      currentTau = { tauShort: cfg.tauShortSec, tauLong: cfg.tauLongSec };
+      analyzer.updateConfig({
+        averagingMode: cfg.averagingMode,
+        infiniteAverage: cfg.infiniteAverage,
+      });
+      applyAnalyzerTau();
+      config.onAverageCount?.(analyzer.getState().averageCount);
+    },
+    
     /**
      * Set heatmap configuration
      */
@@ -275,12 +327,7 @@ export function createSpectrumVizController(config: SpectrumVizControllerConfig)
       currentHeatmapConfig = { ...cfg };
       
       // Update analyzer tau if high precision changed
-      const tau = getEffectiveAnalyzerTau(cfg.highPrecision);
-      analyzer.updateConfig({
-        ...analyzer.getConfig(),
-        tauShort: tau.tauShort,
-        tauLong: tau.tauLong,
-      });
+      applyAnalyzerTau();
       
       // Update heatmap layer
       heatmapLayer.setConfig({
@@ -312,6 +359,31 @@ export function createSpectrumVizController(config: SpectrumVizControllerConfig)
      */
     resize(width: number, height: number): void {
       renderer.resize(width, height);
+      renderSnapshotsOnly();
+    },
+    
+    /**
+     * Current averaged trace in dB (null until the analyzer has data)
+     */
+    getTrace(source: 'lta' | 'peak'): number[] | null {
+      const state = analyzer.getState();
+      const trace = source === 'lta' ? state.ltaDb : state.peakDb;
+      return trace ? [...trace] : null;
+    },
+    
+    /**
+     * Set the frozen snapshots drawn under the live analyzer lines
+     */
+    setSnapshotOverlays(snapshots: SnapshotTrace[]): void {
+      snapshotLayer.setOverlays(
+        snapshots.map((snapshot) => ({
+          id: snapshot.id,
+          color: snapshot.color,
+          source: snapshot.source,
+          binsNorm: dbArrayToNormalized(snapshot.binsDb),
+        }))
+      );
+      renderSnapshotsOnly();
     },
     
     /**
@@ -319,6 +391,7 @@ export function createSpectrumVizController(config: SpectrumVizControllerConfig)
      */
     resetAverages(): void {
       analyzer.resetAverages();
+      config.onAverageCount?.(analyzer.getState().averageCount);
     },
     
     /**
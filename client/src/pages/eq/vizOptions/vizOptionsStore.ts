@@ -1,6 +1,8 @@
 import { writable, derived } from 'svelte/store';
 import type { SmoothingMode } from '../../../dsp/fractionalOctaveSmoothing';
+import type { AveragingMode } from '../../../dsp/spectrumAnalyzer';
 import type { HeatmapMaskMode } from '../../../ui/rendering/canvasLayers/SpectrumHeatmapLayer';
+import type { ResponseOverlayMode } from '../../../ui/rendering/eqPhaseOverlay';
 import { loadVizOptions, saveVizOptions } from '../../../lib/vizOptionsPersistence';
 import { debounce } from '../../../lib/debounce';
 
@@ -18,6 +20,25 @@ export const showSTA = writable<boolean>(true);
 export const showLTA = writable<boolean>(false);
 export const showPeak = writable<boolean>(false);
 
+// Analyzer averaging / peak hold
+export const analyzerTauShort = writable<number>(0.8);
+export const analyzerTauLong = writable<number>(8.0);
+export const analyzerPeakHoldTime = writable<number>(2.0);
+export const analyzerPeakDecayRate = writable<number>(12);
+export const analyzerAveragingMode = writable<AveragingMode>('db');
+export const analyzerInfiniteAverage = writable<boolean>(false);
+
+// Runtime analyzer state (not persisted): frames in the averages, reset requests from the bar
+export const analyzerAverageCount = writable<number>(0);
+export const analyzerResetRequests = writable<number>(0);
+
+/**
+ * Ask the spectrum controller to reset STA/LTA (and restart the infinite average)
+ */
+export function requestAnalyzerReset(): void {
+  analyzerResetRequests.update((n) => n + 1);
+}
+
 // Derived: overlay enabled if at least one series is on
 export const overlayEnabled = derived(
   [showSTA, showLTA, showPeak],
@@ -39,6 +60,9 @@ export const showBandwidthMarkers = writable<boolean>(true);
 export const bandFillOpacity = writable<number>(0.4);
 export const soloWhileEditing = writable<boolean>(false);
 
+// Phase / group-delay overlay on the EQ plot
+export const responseOverlay = writable<ResponseOverlayMode>('off');
+
 // Derived: spectrum visualization needed (analyzer OR heatmap)
 export const spectrumVizEnabled = derived(
   [overlayEnabled, heatmapEnabled],
@@ -56,10 +80,17 @@ export function initializeVizOptions(): void {
   showSTA.set(saved.showSTA);
   showLTA.set(saved.showLTA);
   showPeak.set(saved.showPeak);
+  analyzerTauShort.set(saved.analyzerTauShort);
+  analyzerTauLong.set(saved.analyzerTauLong);
+  analyzerPeakHoldTime.set(saved.analyzerPeakHoldTime);
+  analyzerPeakDecayRate.set(saved.analyzerPeakDecayRate);
+  analyzerAveragingMode.set(saved.analyzerAveragingMode);
+  analyzerInfiniteAverage.set(saved.analyzerInfiniteAverage);
   showPerBandCurves.set(saved.showPerBandCurves);
   showBandwidthMarkers.set(saved.showBandwidthMarkers);
   bandFillOpacity.set(saved.bandFillOpacity);
   soloWhileEditing.set(saved.soloWhileEditing);
+  responseOverlay.set(saved.responseOverlay);
   heatmapEnabled.set(saved.heatmapEnabled);
   heatmapMaskMode.set(saved.heatmapMaskMode);
   heatmapHighPrecision.set(saved.heatmapHighPrecision);
@@ -94,10 +125,17 @@ export function setupVizOptionsPersistence(): () => void {
       showSTA: null as any,
       showLTA: null as any,
       showPeak: null as any,
+      analyzerTauShort: null as any,
+      analyzerTauLong: null as any,
+      analyzerPeakHoldTime: null as any,
+      analyzerPeakDecayRate: null as any,
+      analyzerAveragingMode: null as any,
+      analyzerInfiniteAverage: null as any,
       showPerBandCurves: null as any,
       showBandwidthMarkers: null as any,
       bandFillOpacity: null as any,
       soloWhileEditing: null as any,
+      responseOverlay: null as any,
       heatmapEnabled: null as any,
       heatmapMaskMode: null as any,
       heatmapHighPrecision: null as any,
@@ -119,10 +157,17 @@ export function setupVizOptionsPersistence(): () => void {
     state.showSTA = readValue(showSTA);
     state.showLTA = readValue(showLTA);
     state.showPeak = readValue(showPeak);
+    state.analyzerTauShort = readValue(analyzerTauShort);
+    state.analyzerTauLong = readValue(analyzerTauLong);
+    state.analyzerPeakHoldTime = readValue(analyzerPeakHoldTime);
+    state.analyzerPeakDecayRate = readValue(analyzerPeakDecayRate);
+    state.analyzerAveragingMode = readValue(analyzerAveragingMode);
+    state.analyzerInfiniteAverage = readValue(analyzerInfiniteAverage);
     state.showPerBandCurves = readValue(showPerBandCurves);
     state.showBandwidthMarkers = readValue(showBandwidthMarkers);
     state.bandFillOpacity = readValue(bandFillOpacity);
     state.soloWhileEditing = readValue(soloWhileEditing);
+    state.responseOverlay = readValue(responseOverlay);
     state.heatmapEnabled = readValue(heatmapEnabled);
     state.heatmapMaskMode = readValue(heatmapMaskMode);
     state.heatmapHighPrecision = readValue(heatmapHighPrecision);
@@ -140,10 +185,17 @@ export function setupVizOptionsPersistence(): () => void {
   unsubscribers.push(showSTA.subscribe(saveAll));
   unsubscribers.push(showLTA.subscribe(saveAll));
   unsubscribers.push(showPeak.subscribe(saveAll));
+  unsubscribers.push(analyzerTauShort.subscribe(saveAll));
+  unsubscribers.push(analyzerTauLong.subscribe(saveAll));
+  unsubscribers.push(analyzerPeakHoldTime.subscribe(saveAll));
+  unsubscribers.push(analyzerPeakDecayRate.subscribe(saveAll));
+  unsubscribers.push(analyzerAveragingMode.subscribe(saveAll));
+  unsubscribers.push(analyzerInfiniteAverage.subscribe(saveAll));
   unsubscribers.push(showPerBandCurves.subscribe(saveAll));
   unsubscribers.push(showBandwidthMarkers.subscribe(saveAll));
   unsubscribers.push(bandFillOpacity.subscribe(saveAll));
   unsubscribers.push(soloWhileEditing.subscribe(saveAll));
+  unsubscribers.push(responseOverlay.subscribe(saveAll));
   unsubscribers.push(heatmapEnabled.subscribe(saveAll));
   unsubscribers.push(heatmapMaskMode.subscribe(saveAll));
   unsubscribers.push(heatmapHighPrecision.subscribe(saveAll));
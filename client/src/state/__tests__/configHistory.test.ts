@@ -0,0 +1,234 @@
+/**
+ * Config-level undo/redo history tests
+ *
+ * The DSP layer is mocked (same approach as the solo-session tests); every
+ * undo/redo step must upload the restored config.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+
+// ── Module mocks ─────────────────────────────────────────────────────────────
+
+let mockDspConfig: any = null;
+const mockUploadConfig = vi.fn(async () => true);
+
+const mockDsp = {
+  get config() { return mockDspConfig; },
+  set config(v: any) { mockDspConfig = v; },
+  uploadConfig: mockUploadConfig,
+  downloadConfig: vi.fn(async () => true),
+  validateConfig: vi.fn(() => true),
+};
+
+const mockPutLatestState = vi.fn(async (_cfg: any) => {});
+
+vi.mock('../dspStore', () => ({
+  getDspInstance: () => mockDsp,
+  updateConfig: vi.fn(),
+}));
+
+vi.mock('../../lib/api', () => ({
+  putLatestState: (cfg: any) => mockPutLatestState(cfg),
+}));
+
+import {
+  initializeFromConfig,
+  clearEqState,
+  bands,
+  preampGain,
+  setBandGain,
+  setBandFreq,
+  setPreampGain,
+  toggleBandEnabled,
+} from '../eqStore';
+import { commitPipelineConfigChange, cancelPipelineUpload } from '../pipelineEditor';
+import {
+  canUndo,
+  canRedo,
+  undoConfigChange,
+  redoConfigChange,
+  sealConfigHistoryStep,
+  clearConfigHistory,
+} from '../configHistory';
+import { isFilterDisabled } from '../../lib/disabledFiltersOverlay';
+
+function makeConfig() {
+  return {
+    filters: {
+      Filter01: { type: 'Biquad', parameters: { type: 'Peaking', freq: 100, gain: 3, q: 0.7 } },
+      Filter02: { type: 'Biquad', parameters: { type: 'Peaking', freq: 1000, gain: -3, q: 0.7 } },
+    },
+    pipeline: [
+      { type: 'Filter', channel: 0, names: ['Filter01', 'Filter02'] },
+    ],
+    mixers: {},
+    processors: {},
+  };
+}
+
+function lastUploadedConfig(): any {
+  return mockDspConfig;
+}
+
+describe('configHistory', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    mockDspConfig = makeConfig();
+    mockUploadConfig.mockReset();
+    mockUploadConfig.mockResolvedValue(true);
+    mockPutLatestState.mockReset();
+    clearEqState();
+    cancelPipelineUpload();
+    initializeFromConfig(makeConfig() as any);
+    clearConfigHistory();
+  });
+
+  afterEach(() => {
+    clearEqState();
+    cancelPipelineUpload();
+    vi.useRealTimers();
+  });
+
+  it('starts with nothing to undo or redo', () => {
+    expect(get(canUndo)).toBe(false);
+    expect(get(canRedo)).toBe(false);
+  });
+
+  it('undo uploads the config from before the edit', async () => {
+    setBandGain(0, 6);
+    expect(get(canUndo)).toBe(true);
+
+    const ok = await undoConfigChange();
+
+    expect(ok).toBe(true);
+    expect(mockUploadConfig).toHaveBeenCalledTimes(1);
+    expect(lastUploadedConfig().filters.Filter01.parameters.gain).toBe(3);
+    expect(get(bands)[0].gain).toBe(3);
+    expect(get(canUndo)).toBe(false);
+    expect(get(canRedo)).toBe(true);
+    expect(mockPutLatestState).toHaveBeenCalledTimes(1);
+  });
+
+  it('redo uploads the undone edit again', async () => {
+    setBandGain(0, 6);
+    await undoConfigChange();
+
+    const ok = await redoConfigChange();
+
+    expect(ok).toBe(true);
+    expect(mockUploadConfig).toHaveBeenCalledTimes(2);
+    expect(lastUploadedConfig().filters.Filter01.parameters.gain).toBe(6);
+    expect(get(bands)[0].gain).toBe(6);
+    expect(get(canUndo)).toBe(true);
+    expect(get(canRedo)).toBe(false);
+  });
+
+  it('coalesces a continuous drag of one band into a single step', async () => {
+    setBandGain(0, 4);
+    vi.advanceTimersByTime(50);
+    setBandFreq(0, 120);
+    vi.advanceTimersByTime(50);
+    setBandGain(0, 5);
+    vi.advanceTimersByTime(50);
+    setBandGain(0, 6);
+
+    await undoConfigChange();
+
+    expect(get(bands)[0].gain).toBe(3);
+    expect(get(bands)[0].freq).toBe(100);
+    expect(get(canUndo)).toBe(false);
+  });
+
+  it('starts a new step after the drag is sealed', async () => {
+    setBandGain(0, 4);
+    sealConfigHistoryStep();
+    setBandGain(0, 6);
+
+    await undoConfigChange();
+    expect(get(bands)[0].gain).toBe(4);
+    expect(get(canUndo)).toBe(true);
+  });
+
+  it('starts a new step after a pause longer than the coalesce window', async () => {
+    setBandGain(0, 4);
+    vi.advanceTimersByTime(5000);
+    setBandGain(0, 6);
+
+    await undoConfigChange();
+    expect(get(bands)[0].gain).toBe(4);
+  });
+
+  it('keeps edits of different targets as separate steps', async () => {
+    setBandGain(0, 6);
+    setPreampGain(-4);
+
+    await undoConfigChange();
+    expect(get(preampGain)).toBe(0);
+    expect(get(bands)[0].gain).toBe(6);
+
+    await undoConfigChange();
+    expect(get(bands)[0].gain).toBe(3);
+  });
+
+  it('a new edit after undo clears the redo stack', async () => {
+    setBandGain(0, 6);
+    await undoConfigChange();
+    expect(get(canRedo)).toBe(true);
+
+    setBandGain(1, 2);
+    expect(get(canRedo)).toBe(false);
+  });
+
+  it('keeps the stacks unchanged when the upload fails', async () => {
+    setBandGain(0, 6);
+    mockUploadConfig.mockResolvedValueOnce(false);
+
+    const ok = await undoConfigChange();
+
+    expect(ok).toBe(false);
+    expect(get(canUndo)).toBe(true);
+    expect(get(canRedo)).toBe(false);
+  });
+
+  it('restores the disabled-filters overlay with a band mute', async () => {
+    await toggleBandEnabled(1);
+    expect(isFilterDisabled('Filter02')).toBe(true);
+
+    await undoConfigChange();
+
+    expect(isFilterDisabled('Filter02')).toBe(false);
+    expect(lastUploadedConfig().pipeline[0].names).toEqual(['Filter01', 'Filter02']);
+    expect(get(bands)[1].enabled).toBe(true);
+  });
+
+  it('records pipeline commits in the same history', async () => {
+    const edited = makeConfig();
+    edited.filters.Filter02.parameters.freq = 2000;
+    commitPipelineConfigChange(edited as any, 'filter:Filter02:freq');
+
+    const editedAgain = makeConfig();
+    editedAgain.filters.Filter02.parameters.freq = 3000;
+    commitPipelineConfigChange(editedAgain as any, 'filter:Filter02:freq');
+
+    await undoConfigChange();
+
+    // Pending debounced upload is cancelled; only the undo upload happens
+    vi.advanceTimersByTime(1000);
+    expect(mockUploadConfig).toHaveBeenCalledTimes(1);
+    expect(lastUploadedConfig().filters.Filter02.parameters.freq).toBe(1000);
+    expect(get(canUndo)).toBe(false);
+
+    await redoConfigChange();
+    expect(lastUploadedConfig().filters.Filter02.parameters.freq).toBe(3000);
+  });
+
+  it('clearConfigHistory drops all steps', () => {
+    setBandGain(0, 6);
+    clearConfigHistory();
+
+    expect(get(canUndo)).toBe(false);
+    expect(get(canRedo)).toBe(false);
+  });
+});
@@ -55,6 +55,10 @@ vi.mock('../../lib/camillaDSP', () => {
       return '1.0.0';
     }
 
+    async getCaptureRate() {
+      return 44100;
+    }
+
     async getAvailableCaptureDevices() {
       return [];
     }
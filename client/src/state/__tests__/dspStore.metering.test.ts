@@ -0,0 +1,185 @@
+/**
+ * dspStore signal metering tests
+ * Verifies reference-counted polling, peak/clip tracking and rate persistence
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+
+const getSignalLevels = vi.fn();
+
+vi.mock('../../lib/camillaDSP', () => {
+  class MockCamillaDSP {
+    connected = false;
+    config = {
+      devices: { capture: { channels: 2 }, playback: { channels: 2 } },
+      filters: {},
+      mixers: {},
+      pipeline: [],
+      processors: {},
+    };
+
+    async connect() {
+      this.connected = true;
+      return true;
+    }
+
+    disconnect() {
+      this.connected = false;
+    }
+
+    isControlSocketOpen() {
+      return this.connected;
+    }
+
+    isSpectrumSocketOpen() {
+      return false;
+    }
+
+    getSignalLevels() {
+      return getSignalLevels();
+    }
+
+    async getVolume() {
+      return 0;
+    }
+
+    async getCaptureRate() {
+      return null;
+    }
+
+    async getVersion() {
+      return null;
+    }
+
+    async getAvailableCaptureDevices() {
+      return [];
+    }
+
+    async getAvailablePlaybackDevices() {
+      return [];
+    }
+
+    async getConfigYaml() {
+      return '';
+    }
+
+    async getConfigTitle() {
+      return '';
+    }
+
+    async getConfigDescription() {
+      return '';
+    }
+  }
+
+  return {
+    CamillaDSP: MockCamillaDSP,
+  };
+});
+
+import {
+  connect,
+  disconnect,
+  signalMeters,
+  meterRateHz,
+  setMeterRate,
+  startMetering,
+  resetMeterClips,
+} from '../dspStore';
+
+describe('dspStore signal metering', () => {
+  let storage: Record<string, string>;
+
+  beforeEach(async () => {
+    storage = {};
+    global.localStorage = {
+      getItem: vi.fn((key: string) => storage[key] ?? null),
+      setItem: vi.fn((key: string, value: string) => {
+        storage[key] = value;
+      }),
+      removeItem: vi.fn(),
+      clear: vi.fn(),
+      length: 0,
+      key: vi.fn(() => null),
+    } as any;
+
+    getSignalLevels.mockReset();
+    getSignalLevels.mockResolvedValue({
+      capturePeak: [-6, 0],
+      captureRms: [-12, -3],
+      playbackPeak: [-9, -20],
+      playbackRms: [-15, -26],
+    });
+
+    disconnect();
+    await connect('127.0.0.1', 1234, 1235);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('polls while metering is held and stops when released', async () => {
+    setMeterRate(10);
+    const release = startMetering();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const meters = get(signalMeters);
+    expect(meters?.capture.map((m) => m.peakDb)).toEqual([-6, 0]);
+    expect(meters?.playback[1].rmsDb).toBe(-26);
+    expect(meters?.capture[1].clipped).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(getSignalLevels).toHaveBeenCalledTimes(4);
+
+    release();
+    expect(get(signalMeters)).toBeNull();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getSignalLevels).toHaveBeenCalledTimes(4);
+  });
+
+  it('keeps polling until every holder has released', async () => {
+    const first = startMetering();
+    const second = startMetering();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getSignalLevels).toHaveBeenCalledTimes(1);
+
+    first();
+    first();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(get(signalMeters)).not.toBeNull();
+
+    second();
+    expect(get(signalMeters)).toBeNull();
+  });
+
+  it('resets latched clips', async () => {
+    const release = startMetering();
+    await vi.advanceTimersByTimeAsync(0);
+
+    resetMeterClips();
+    expect(get(signalMeters)?.capture[1].clipped).toBe(false);
+    release();
+  });
+
+  it('backs off when levels are unavailable', async () => {
+    getSignalLevels.mockResolvedValue(null);
+    const release = startMetering();
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(4000);
+
+    expect(getSignalLevels).toHaveBeenCalledTimes(1);
+    release();
+  });
+
+  it('persists supported meter rates only', () => {
+    setMeterRate(5);
+    expect(get(meterRateHz)).toBe(5);
+    expect(storage['camillaEQ.meterRateHz']).toBe('5');
+
+    setMeterRate(7);
+    expect(get(meterRateHz)).toBe(5);
+  });
+});
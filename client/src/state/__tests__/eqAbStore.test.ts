@@ -0,0 +1,141 @@
+/**
+ * A/B comparison slot tests
+ *
+ * The DSP layer is mocked; toggling must upload the selected slot right away.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+
+// ── Module mocks ─────────────────────────────────────────────────────────────
+
+let mockDspConfig: any = null;
+const mockUploadConfig = vi.fn(async () => true);
+
+const mockDsp = {
+  get config() { return mockDspConfig; },
+  set config(v: any) { mockDspConfig = v; },
+  uploadConfig: mockUploadConfig,
+  downloadConfig: vi.fn(async () => true),
+  validateConfig: vi.fn(() => true),
+};
+
+vi.mock('../dspStore', () => ({
+  getDspInstance: () => mockDsp,
+  updateConfig: vi.fn(),
+}));
+
+vi.mock('../../lib/api', () => ({
+  putLatestState: vi.fn(async () => {}),
+}));
+
+import {
+  initializeFromConfig,
+  clearEqState,
+  bands,
+  preampGain,
+  setBandGain,
+} from '../eqStore';
+import {
+  activeAbSlot,
+  abLevelMatch,
+  inactiveAbSlot,
+  inactiveSlotCurvePath,
+  toggleAbSlot,
+  copyActiveToInactiveSlot,
+  resetAbSlots,
+} from '../eqAbStore';
+
+function makeConfig() {
+  return {
+    filters: {
+      Filter01: { type: 'Biquad', parameters: { type: 'Peaking', freq: 100, gain: 3, q: 0.7 } },
+      Filter02: { type: 'Biquad', parameters: { type: 'Peaking', freq: 1000, gain: -3, q: 0.7 } },
+    },
+    pipeline: [
+      { type: 'Filter', channel: 0, names: ['Filter01', 'Filter02'] },
+    ],
+    mixers: {},
+    processors: {},
+  };
+}
+
+describe('eqAbStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockDspConfig = makeConfig();
+    mockUploadConfig.mockReset();
+    mockUploadConfig.mockResolvedValue(true);
+    clearEqState();
+    initializeFromConfig(makeConfig() as any);
+    resetAbSlots();
+    abLevelMatch.set(false);
+  });
+
+  afterEach(() => {
+    clearEqState();
+  });
+
+  it('starts on slot A with no inactive slot', () => {
+    expect(get(activeAbSlot)).toBe('A');
+    expect(get(inactiveAbSlot)).toBeNull();
+    expect(get(inactiveSlotCurvePath)).toBe('');
+  });
+
+  it('first toggle copies A into B and uploads', async () => {
+    const ok = await toggleAbSlot();
+
+    expect(ok).toBe(true);
+    expect(get(activeAbSlot)).toBe('B');
+    expect(get(inactiveAbSlot)?.bands[0].gain).toBe(3);
+    expect(mockUploadConfig).toHaveBeenCalledTimes(1);
+    expect(get(inactiveSlotCurvePath)).not.toBe('');
+  });
+
+  it('toggling swaps the band sets and uploads the selected slot', async () => {
+    await toggleAbSlot();
+    setBandGain(0, 9); // edit slot B
+
+    await toggleAbSlot(); // back to A
+
+    expect(get(activeAbSlot)).toBe('A');
+    expect(get(bands)[0].gain).toBe(3);
+    expect(get(inactiveAbSlot)?.bands[0].gain).toBe(9);
+    expect(mockDspConfig.filters.Filter01.parameters.gain).toBe(3);
+
+    await toggleAbSlot(); // to B again
+
+    expect(get(bands)[0].gain).toBe(9);
+    expect(mockDspConfig.filters.Filter01.parameters.gain).toBe(9);
+  });
+
+  it('level-matches the incoming slot via the preamp', async () => {
+    await toggleAbSlot();
+    setBandGain(0, 12); // B is louder
+    await toggleAbSlot();
+
+    abLevelMatch.set(true);
+    await toggleAbSlot();
+
+    expect(get(activeAbSlot)).toBe('B');
+    expect(get(preampGain)).toBeLessThan(0);
+  });
+
+  it('copyActiveToInactiveSlot overwrites the inactive slot', async () => {
+    setBandGain(1, 5);
+    copyActiveToInactiveSlot();
+
+    expect(get(inactiveAbSlot)?.bands[1].gain).toBe(5);
+  });
+
+  it('hides a slot that no longer matches the loaded filters', async () => {
+    await toggleAbSlot();
+
+    const changed = makeConfig() as any;
+    changed.filters.Filter03 = { type: 'Biquad', parameters: { type: 'Peaking', freq: 5000, gain: 1, q: 0.7 } };
+    changed.pipeline[0].names.push('Filter03');
+    initializeFromConfig(changed);
+
+    expect(get(inactiveSlotCurvePath)).toBe('');
+  });
+});
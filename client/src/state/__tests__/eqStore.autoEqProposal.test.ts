@@ -0,0 +1,91 @@
+/**
+ * eqStore auto-EQ proposal tests
+ * A proposal is review-only until accepted; accepting applies it in one upload
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+
+let mockDspConfig: any = null;
+const mockUploadConfig = vi.fn(async () => true);
+
+const mockDsp = {
+  get config() { return mockDspConfig; },
+  set config(v: any) { mockDspConfig = v; },
+  uploadConfig: mockUploadConfig,
+  downloadConfig: vi.fn(async () => true),
+};
+
+vi.mock('../dspStore', () => ({
+  getDspInstance: () => mockDsp,
+  updateConfig: vi.fn(),
+}));
+
+vi.mock('../../lib/api', () => ({
+  putLatestState: vi.fn(async () => {}),
+}));
+
+import {
+  initializeFromConfig,
+  bands,
+  preampGain,
+  eqProposal,
+  proposalCurvePath,
+  proposeEq,
+  acceptEqProposal,
+  discardEqProposal,
+} from '../eqStore';
+
+function makeConfig(filters = ['Filter01', 'Filter02']) {
+  return {
+    filters: Object.fromEntries(
+      filters.map((name, i) => [name, { type: 'Biquad', parameters: { type: 'Peaking', freq: 100 * (i + 1), gain: 0, q: 1 } }])
+    ),
+    pipeline: [{ type: 'Filter', channel: 0, names: filters }],
+    mixers: {},
+    processors: {},
+  };
+}
+
+const fit = { initialRmsDb: 4, residualRmsDb: 1 };
+
+describe('eqStore auto-EQ proposal', () => {
+  beforeEach(() => {
+    mockDspConfig = makeConfig();
+    mockUploadConfig.mockClear();
+    initializeFromConfig(makeConfig() as any);
+  });
+
+  it('holds a proposal without touching the live bands', () => {
+    const proposed = get(bands).map((band) => ({ ...band, gain: -4 }));
+
+    expect(proposeEq(proposed, -1.5, fit)).toBe(true);
+    expect(get(eqProposal)).toMatchObject({ preampGain: -1.5, filterNames: ['Filter01', 'Filter02'], ...fit });
+    expect(get(proposalCurvePath)).not.toBe('');
+    expect(get(bands).every((band) => band.gain === 0)).toBe(true);
+    expect(mockUploadConfig).not.toHaveBeenCalled();
+
+    discardEqProposal();
+    expect(get(eqProposal)).toBeNull();
+    expect(get(proposalCurvePath)).toBe('');
+  });
+
+  it('applies an accepted proposal', () => {
+    proposeEq(get(bands).map((band) => ({ ...band, gain: 3 })), -3, fit);
+
+    expect(acceptEqProposal()).toBe(true);
+    expect(get(bands).map((band) => band.gain)).toEqual([3, 3]);
+    expect(get(preampGain)).toBe(-3);
+    expect(get(eqProposal)).toBeNull();
+    expect(mockUploadConfig).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects proposals for another band layout', () => {
+    expect(proposeEq([get(bands)[0]], 0, fit)).toBe(false);
+
+    proposeEq(get(bands), 0, fit);
+    initializeFromConfig(makeConfig(['Filter01', 'Filter02', 'Filter03']) as any);
+    expect(get(eqProposal)).toBeNull();
+    expect(acceptEqProposal()).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Measurement store tests
+ * Verifies preset linking by device name, selection and upload
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get, writable } from 'svelte/store';
+
+const api = vi.hoisted(() => ({
+  listMeasurements: vi.fn(),
+  getMeasurement: vi.fn(),
+  uploadMeasurement: vi.fn(),
+  deleteMeasurement: vi.fn(),
+}));
+
+vi.mock('../../lib/api', () => api);
+
+vi.mock('../eqStore', () => ({
+  bands: writable([]),
+  sampleRate: writable(48000),
+}));
+
+import {
+  measurements,
+  selectedMeasurement,
+  linkedPresetDevice,
+  measurementError,
+  measuredCurvePath,
+  presetDeviceName,
+  findDeviceMeasurement,
+  linkPresetMeasurement,
+  importMeasurement,
+  deleteMeasurement,
+} from '../measurementStore';
+
+const info = (device: string) => ({ name: `${device}.csv`, device, size: 100, mtimeMs: 0 });
+
+const measurement = (device: string) => ({
+  name: `${device}.csv`,
+  device,
+  points: [
+    { freq: 20, gainDb: 80 },
+    { freq: 1000, gainDb: 75 },
+    { freq: 20000, gainDb: 70 },
+  ],
+});
+
+describe('measurementStore', () => {
+  beforeEach(() => {
+    Object.values(api).forEach((fn) => fn.mockReset());
+    measurements.set([]);
+    selectedMeasurement.set(null);
+    linkedPresetDevice.set(null);
+    measurementError.set(null);
+  });
+
+  it('builds the device name of a preset', () => {
+    expect(presetDeviceName({ manufacturer: 'Sennheiser', model: 'HD 600' })).toBe('Sennheiser HD 600');
+    expect(presetDeviceName({ manufacturer: 'Moondrop', model: 'Blessing 2', variant: 'Dusk' })).toBe(
+      'Moondrop Blessing 2 Dusk'
+    );
+    expect(presetDeviceName({ model: 'HD 600' })).toBeNull();
+  });
+
+  it('finds measurements case-insensitively', () => {
+    const list = [info('Sennheiser HD 600'), info('Sony WH-1000XM4')];
+    expect(findDeviceMeasurement(list, 'sennheiser hd 600')?.name).toBe('Sennheiser HD 600.csv');
+    expect(findDeviceMeasurement(list, 'Sennheiser HD 650')).toBeNull();
+  });
+
+  it('selects the measurement of a loaded preset, normalized to 0 dB at 1 kHz', async () => {
+    api.listMeasurements.mockResolvedValueOnce([info('Sennheiser HD 600')]);
+    api.getMeasurement.mockResolvedValueOnce(measurement('Sennheiser HD 600'));
+
+    await linkPresetMeasurement({ manufacturer: 'Sennheiser', model: 'HD 600' });
+
+    expect(api.getMeasurement).toHaveBeenCalledWith('Sennheiser HD 600.csv');
+    expect(get(linkedPresetDevice)).toBe('Sennheiser HD 600');
+    expect(get(selectedMeasurement)?.points.map((p) => p.gainDb)).toEqual([5, 0, -5]);
+    expect(get(measuredCurvePath).startsWith('M 0 ')).toBe(true);
+  });
+
+  it('hides the measurement when the preset device has none', async () => {
+    selectedMeasurement.set(measurement('Sennheiser HD 600'));
+    measurements.set([info('Sennheiser HD 600')]);
+
+    await linkPresetMeasurement({ manufacturer: 'Sony', model: 'WH-1000XM4' });
+
+    expect(api.listMeasurements).not.toHaveBeenCalled();
+    expect(get(selectedMeasurement)).toBeNull();
+    expect(get(linkedPresetDevice)).toBe('Sony WH-1000XM4');
+    expect(get(measuredCurvePath)).toBe('');
+  });
+
+  it('adds an upload to the list and shows it', async () => {
+    measurements.set([info('Sony WH-1000XM4')]);
+    api.uploadMeasurement.mockResolvedValueOnce(measurement('Sennheiser HD 600'));
+
+    expect(await importMeasurement('Sennheiser HD 600.csv', 'frequency,raw\n20,80\n1000,75\n')).toBe(true);
+    expect(get(measurements).map((m) => m.device)).toEqual(['Sennheiser HD 600', 'Sony WH-1000XM4']);
+    expect(get(selectedMeasurement)?.device).toBe('Sennheiser HD 600');
+
+    api.uploadMeasurement.mockRejectedValueOnce(new Error('Measurement needs at least two frequency/gain points'));
+    expect(await importMeasurement('Bad.csv', 'x')).toBe(false);
+    expect(get(measurementError)).toBe('Measurement needs at least two frequency/gain points');
+  });
+
+  it('hides a deleted measurement', async () => {
+    measurements.set([info('Sennheiser HD 600')]);
+    selectedMeasurement.set(measurement('Sennheiser HD 600'));
+    api.deleteMeasurement.mockResolvedValueOnce(undefined);
+
+    await deleteMeasurement('Sennheiser HD 600.csv');
+
+    expect(get(measurements)).toEqual([]);
+    expect(get(selectedMeasurement)).toBeNull();
+  });
+});
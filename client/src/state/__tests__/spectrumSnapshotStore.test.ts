@@ -0,0 +1,94 @@
+/**
+ * Spectrum snapshot store tests
+ * Verifies capture, color assignment, visibility and deletion
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+
+const api = vi.hoisted(() => ({
+  listSpectrumSnapshots: vi.fn(),
+  createSpectrumSnapshot: vi.fn(),
+  updateSpectrumSnapshot: vi.fn(),
+  deleteSpectrumSnapshot: vi.fn(),
+}));
+
+vi.mock('../../lib/api', () => api);
+
+import {
+  SNAPSHOT_COLORS,
+  spectrumSnapshots,
+  hiddenSnapshotIds,
+  visibleSpectrumSnapshots,
+  spectrumSnapshotError,
+  loadSpectrumSnapshots,
+  captureSpectrumSnapshot,
+  deleteSnapshot,
+  toggleSnapshotVisibility,
+  nextSnapshotColor,
+} from '../spectrumSnapshotStore';
+
+const snapshot = (id: string, color: string) => ({
+  id,
+  name: id,
+  source: 'lta' as const,
+  color,
+  createdAt: 0,
+  binsDb: [-40, -30],
+});
+
+describe('spectrumSnapshotStore', () => {
+  beforeEach(() => {
+    Object.values(api).forEach((fn) => fn.mockReset());
+    spectrumSnapshots.set([]);
+    hiddenSnapshotIds.set(new Set());
+    spectrumSnapshotError.set(null);
+  });
+
+  it('loads snapshots and reports failures', async () => {
+    api.listSpectrumSnapshots.mockResolvedValueOnce([snapshot('a', '#ffb347')]);
+    await loadSpectrumSnapshots();
+    expect(get(spectrumSnapshots)).toHaveLength(1);
+
+    api.listSpectrumSnapshots.mockRejectedValueOnce(new Error('offline'));
+    await loadSpectrumSnapshots();
+    expect(get(spectrumSnapshotError)).toBe('offline');
+  });
+
+  it('captures a trace with the first unused palette color', async () => {
+    spectrumSnapshots.set([snapshot('a', SNAPSHOT_COLORS[0])]);
+    api.createSpectrumSnapshot.mockImplementation(async (input: any) => ({ ...input, id: 'b', createdAt: 1 }));
+
+    expect(await captureSpectrumSnapshot('Room', 'peak', [-50, -40])).toBe(true);
+    expect(api.createSpectrumSnapshot).toHaveBeenCalledWith({
+      name: 'Room',
+      source: 'peak',
+      color: SNAPSHOT_COLORS[1],
+      binsDb: [-50, -40],
+    });
+    expect(get(spectrumSnapshots).map((s) => s.id)).toEqual(['a', 'b']);
+  });
+
+  it('refuses to capture before the analyzer has a trace', async () => {
+    expect(await captureSpectrumSnapshot('Empty', 'lta', null)).toBe(false);
+    expect(api.createSpectrumSnapshot).not.toHaveBeenCalled();
+    expect(get(spectrumSnapshotError)).toContain('No LTA trace');
+  });
+
+  it('hides, shows and deletes snapshots', async () => {
+    spectrumSnapshots.set([snapshot('a', '#ffb347'), snapshot('b', '#ff6f91')]);
+
+    toggleSnapshotVisibility('a');
+    expect(get(visibleSpectrumSnapshots).map((s) => s.id)).toEqual(['b']);
+
+    api.deleteSpectrumSnapshot.mockResolvedValueOnce(undefined);
+    await deleteSnapshot('a');
+    expect(get(spectrumSnapshots).map((s) => s.id)).toEqual(['b']);
+    expect(get(hiddenSnapshotIds).has('a')).toBe(false);
+  });
+
+  it('cycles colors once the palette is used up', () => {
+    const all = SNAPSHOT_COLORS.map((color, i) => snapshot(String(i), color));
+    expect(nextSnapshotColor(all)).toBe(SNAPSHOT_COLORS[0]);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Config-level undo/redo history
+ * Shared by the EQ page and the pipeline editor: every edit records the
+ * config it replaced, undo/redo re-upload the recorded config to CamillaDSP
+ */
+
+import { writable } from 'svelte/store';
+import type { CamillaDSPConfig } from '../lib/camillaDSP';
+import {
+  loadDisabledFilters,
+  saveDisabledFilters,
+  type DisabledFiltersState,
+} from '../lib/disabledFiltersOverlay';
+import { putLatestState } from '../lib/api';
+import { getDspInstance, updateConfig as updateDspConfig } from './dspStore';
+import {
+  cancelEqUpload,
+  endSoloEditSession,
+  getCurrentEqConfig,
+  initializeFromConfig,
+} from './eqStore';
+import { cancelPipelineUpload, getPendingPipelineConfig } from './pipelineEditor';
+
+// Maximum number of undo steps kept
+const MAX_HISTORY_STEPS = 100;
+
+// Edits with the same coalesce key closer together than this form one step (ms)
+const COALESCE_WINDOW_MS = 1000;
+
+/**
+ * One restorable state: the config plus the disabled-filters overlay that
+ * belongs to it (disabled filters live outside the config)
+ */
+export interface ConfigHistoryEntry {
+  config: CamillaDSPConfig;
+  disabledFilters: DisabledFiltersState;
+}
+
+export const canUndo = writable<boolean>(false);
+export const canRedo = writable<boolean>(false);
+
+// Internal state
+let past: ConfigHistoryEntry[] = [];
+let future: ConfigHistoryEntry[] = [];
+let lastStep: { key: string; at: number } | null = null;
+let applying = false;
+
+// Overlay as of the last completed change. Pipeline edits update the overlay
+// before committing, so the "before" overlay cannot be read at record time.
+let overlayBaseline: DisabledFiltersState | null = null;
+
+function cloneEntry(config: CamillaDSPConfig, disabledFilters: DisabledFiltersState): ConfigHistoryEntry {
+  return {
+    config: JSON.parse(JSON.stringify(config)),
+    disabledFilters: JSON.parse(JSON.stringify(disabledFilters)),
+  };
+}
+
+function updateFlags(): void {
+  canUndo.set(past.length > 0);
+  canRedo.set(future.length > 0);
+}
+
+/**
+ * Record an edit: `before` is the config the edit replaces
+ *
+ * Consecutive edits with the same `coalesceKey` (e.g. one band during a drag)
+ * are merged into a single undo step until the key changes, the edits pause
+ * for longer than the coalesce window, or sealConfigHistoryStep() is called.
+ */
+export function recordConfigChange(before: CamillaDSPConfig, coalesceKey?: string): void {
+  if (applying) return;
+
+  const now = Date.now();
+  future = [];
+
+  if (coalesceKey && lastStep && lastStep.key === coalesceKey && now - lastStep.at <= COALESCE_WINDOW_MS) {
+    lastStep.at = now;
+    updateFlags();
+    return;
+  }
+
+  past.push(cloneEntry(before, overlayBaseline ?? loadDisabledFilters()));
+  if (past.length > MAX_HISTORY_STEPS) {
+    past.shift();
+  }
+  lastStep = coalesceKey ? { key: coalesceKey, at: now } : null;
+  updateFlags();
+}
+
+/**
+ * Capture the disabled-filters overlay as the baseline for the next recorded step
+ * Call after any change that may have touched the overlay
+ */
+export function syncConfigHistoryOverlay(): void {
+  overlayBaseline = loadDisabledFilters();
+}
+
+/**
+ * End the current coalesced step (e.g. on pointer up after a drag)
+ */
+export function sealConfigHistoryStep(): void {
+  lastStep = null;
+}
+
+/**
+ * Drop all history (e.g. when a preset replaces the whole config)
+ */
+export function clearConfigHistory(): void {
+  past = [];
+  future = [];
+  lastStep = null;
+  overlayBaseline = null;
+  updateFlags();
+}
+
+/**
+ * Current state as the user sees it: a pending pipeline edit wins over the
+ * EQ store (which applies pending band edits itself)
+ */
+function captureCurrentEntry(): ConfigHistoryEntry | null {
+  const config = getPendingPipelineConfig() ?? getCurrentEqConfig();
+  if (!config) return null;
+  return cloneEntry(config, loadDisabledFilters());
+}
+
+/**
+ * Upload a history entry to CamillaDSP and sync all stores to the confirmed config
+ */
+async function applyEntry(entry: ConfigHistoryEntry): Promise<boolean> {
+  const dspInstance = getDspInstance();
+  if (!dspInstance) return false;
+
+  saveDisabledFilters(entry.disabledFilters);
+  dspInstance.config = JSON.parse(JSON.stringify(entry.config));
+
+  const success = await dspInstance.uploadConfig();
+  if (!success) return false;
+
+  const confirmedConfig = dspInstance.config! as CamillaDSPConfig;
+  updateDspConfig(confirmedConfig);
+  initializeFromConfig(confirmedConfig);
+
+  // Persist confirmed config to server as latest state (write-through)
+  try {
+    await putLatestState(confirmedConfig);
+  } catch (error) {
+    console.warn('Failed to persist latest state to server:', error);
+    // Non-fatal: continue even if persistence fails
+  }
+
+  return true;
+}
+
+/**
+ * Move one step between the stacks and upload the target state
+ * On upload failure both stacks and the overlay are left as they were
+ */
+async function step(from: ConfigHistoryEntry[], to: ConfigHistoryEntry[]): Promise<boolean> {
+  if (applying || from.length === 0) return false;
+  applying = true;
+
+  try {
+    // Solo patches the pipeline temporarily; restore it before capturing state
+    await endSoloEditSession();
+
+    const current = captureCurrentEntry();
+    if (!current) return false;
+
+    // The target replaces any edit still waiting for its debounced upload
+    cancelEqUpload();
+    cancelPipelineUpload();
+
+    const target = from.pop()!;
+    to.push(current);
+    lastStep = null;
+
+    let success = false;
+    try {
+      success = await applyEntry(target);
+    } catch (error) {
+      console.error('Error applying config history step:', error);
+    }
+
+    if (!success) {
+      to.pop();
+      from.push(target);
+      saveDisabledFilters(current.disabledFilters);
+    }
+
+    overlayBaseline = loadDisabledFilters();
+    return success;
+  } finally {
+    applying = false;
+    updateFlags();
+  }
+}
+
+/**
+ * Undo the last recorded edit (uploads the previous config)
+ */
+export function undoConfigChange(): Promise<boolean> {
+  return step(past, future);
+}
+
+/**
+ * Redo the last undone edit (uploads the config again)
+ */
+export function redoConfigChange(): Promise<boolean> {
+  return step(future, past);
+}
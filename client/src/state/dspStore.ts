@@ -8,7 +8,8 @@ import { CamillaDSP, type CamillaDSPConfig, type DeviceEntry, type DspEventInfo,
 import { debounce } from '../lib/debounce';
 import { getLatestState } from '../lib/api';
 import { parseSpectrumData } from '../dsp/spectrumParser';
-import { initializeFromConfig } from './eqStore';
+import { updateChannelMeters, resetClipIndicators, type ChannelMeter } from '../dsp/levelMeter';
+import { initializeFromConfig, syncSampleRateFromConfig, setCaptureSampleRate } from './eqStore';
 
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'degraded' | 'error';
 
@@ -66,6 +67,21 @@ const debouncedSetVolume = debounce(async (volumeDb: number) => {
   }
 }, VOLUME_DEBOUNCE_MS);
 
+// Signal level metering (polled on the control socket while any meter is shown)
+export const METER_RATES_HZ = [2, 5, 10, 20];
+const DEFAULT_METER_RATE_HZ = 10;
+const METER_RATE_STORAGE_KEY = 'camillaEQ.meterRateHz';
+const METER_RETRY_MS = 5000; // Back off when CamillaDSP does not answer the level commands
+let meterUsers = 0;
+let meterTimer: ReturnType<typeof setTimeout> | null = null;
+let meterPollInFlight = false;
+
+export interface SignalMeterState {
+  capture: ChannelMeter[];
+  playback: ChannelMeter[];
+  updatedAtMs: number;
+}
+
 // Stores
 export const dspState = writable<DspState>({
   connectionState: 'disconnected',
@@ -85,6 +101,10 @@ export const dspDevices = derived(dspState, ($state) => $state.availableDevices)
 export const dspConfigs = derived(dspState, ($state) => $state.currentConfigs);
 export const dspFailures = derived(dspState, ($state) => $state.failures);
 
+// Per-channel capture/playback meters (null while not metering or not connected)
+export const signalMeters = writable<SignalMeterState | null>(null);
+export const meterRateHz = writable<number>(loadMeterRate());
+
 /**
  * Get the singleton DSP instance
  */
@@ -191,6 +211,7 @@ export function disconnect(): void {
     failures: [],
     spectrumSupported: 'unknown',
   });
+  signalMeters.set(null);
 
   console.log('Global DSP connection closed');
 }
@@ -367,6 +388,7 @@ export function updateConfig(config: CamillaDSPConfig): void {
     ...s,
     config,
   }));
+  syncSampleRateFromConfig(config);
 }
 
 /**
@@ -400,6 +422,98 @@ export function setVolumeDb(volumeDb: number): void {
   debouncedSetVolume(clamped);
 }
 
+function loadMeterRate(): number {
+  try {
+    const stored = Number(localStorage.getItem(METER_RATE_STORAGE_KEY));
+    return METER_RATES_HZ.includes(stored) ? stored : DEFAULT_METER_RATE_HZ;
+  } catch {
+    return DEFAULT_METER_RATE_HZ;
+  }
+}
+
+/**
+ * Set the meter polling rate (one of METER_RATES_HZ), persisted in localStorage
+ * Takes effect from the next poll
+ */
+export function setMeterRate(rateHz: number): void {
+  if (!METER_RATES_HZ.includes(rateHz)) return;
+  meterRateHz.set(rateHz);
+  try {
+    localStorage.setItem(METER_RATE_STORAGE_KEY, String(rateHz));
+  } catch (error) {
+    console.warn('Failed to save meter rate:', error);
+  }
+}
+
+/**
+ * Start polling signal levels for a meter display
+ * Polling runs while at least one caller holds it; call the returned function to release
+ */
+export function startMetering(): () => void {
+  meterUsers++;
+  if (meterTimer === null && !meterPollInFlight) {
+    pollSignalLevels();
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    meterUsers--;
+    if (meterUsers === 0) {
+      if (meterTimer !== null) {
+        clearTimeout(meterTimer);
+        meterTimer = null;
+      }
+      signalMeters.set(null);
+    }
+  };
+}
+
+/**
+ * Clear latched clip indicators on all meters
+ */
+export function resetMeterClips(): void {
+  signalMeters.update((meters) =>
+    meters && {
+      ...meters,
+      capture: resetClipIndicators(meters.capture),
+      playback: resetClipIndicators(meters.playback),
+    }
+  );
+}
+
+async function pollSignalLevels(): Promise<void> {
+  meterTimer = null;
+  let delayMs = 1000 / get(meterRateHz);
+
+  if (dspInstance && dspInstance.connected) {
+    meterPollInFlight = true;
+    const levels = await dspInstance.getSignalLevels();
+    meterPollInFlight = false;
+
+    if (!levels) {
+      delayMs = METER_RETRY_MS;
+    } else if (meterUsers > 0) {
+      const nowMs = Date.now();
+      signalMeters.update((prev) => {
+        const dtSec = prev ? (nowMs - prev.updatedAtMs) / 1000 : 0;
+        return {
+          capture: updateChannelMeters(prev?.capture ?? null, levels.capturePeak, levels.captureRms, nowMs, dtSec),
+          playback: updateChannelMeters(prev?.playback ?? null, levels.playbackPeak, levels.playbackRms, nowMs, dtSec),
+          updatedAtMs: nowMs,
+        };
+      });
+    }
+  } else {
+    signalMeters.set(null);
+  }
+
+  if (meterUsers > 0 && meterTimer === null) {
+    meterTimer = setTimeout(pollSignalLevels, delayMs);
+  }
+}
+
 /**
  * Refresh DSP info (version, devices, configs)
  */
@@ -409,6 +523,9 @@ export async function refreshDspInfo(): Promise<void> {
   try {
     // Get version
     const version = await dspInstance.getVersion();
+
+    // Measured capture rate (fallback for response curves when the config has no samplerate)
+    setCaptureSampleRate(await dspInstance.getCaptureRate());
     
     // Determine backend from config
     const backend = dspInstance.config?.devices?.capture?.type || 
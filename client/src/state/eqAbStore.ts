@@ -0,0 +1,96 @@
+/**
+ * A/B comparison state for the EQ page
+ * The active slot is the live EQ (eqStore); the inactive slot holds a
+ * snapshot that is swapped in (and uploaded) on toggle
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import { generateCurvePath } from '../ui/rendering/EqSvgRenderer';
+import {
+  captureEqSlot,
+  isSlotCompatible,
+  levelMatchedPreamp,
+  otherSlotId,
+  type EqSlot,
+  type EqSlotId,
+} from '../lib/eqAbCompare';
+import {
+  bands,
+  preampGain,
+  filterNames,
+  sampleRate,
+  applyEqSnapshot,
+  endSoloEditSession,
+} from './eqStore';
+
+export const activeAbSlot = writable<EqSlotId>('A');
+export const abLevelMatch = writable<boolean>(false); // Match levels via preamp on toggle
+
+// Snapshot of the inactive slot (null until the first toggle or copy)
+export const inactiveAbSlot = writable<EqSlot | null>(null);
+
+/**
+ * Sum curve of the inactive slot (same geometry as eqStore's sumCurvePath)
+ * Empty when there is no slot or it no longer fits the loaded filters
+ */
+export const inactiveSlotCurvePath = derived(
+  [inactiveAbSlot, filterNames, sampleRate],
+  ([$slot, $filterNames, $sampleRate]) => {
+    if (!$slot || !isSlotCompatible($slot, $filterNames)) return '';
+    return generateCurvePath($slot.bands, {
+      width: 1000,
+      height: 400,
+      numPoints: 256,
+      sampleRate: $sampleRate,
+    });
+  }
+);
+
+function captureLiveSlot(): EqSlot {
+  return captureEqSlot(get(bands), get(preampGain), get(filterNames));
+}
+
+/**
+ * Switch to the other slot: the live EQ is stored in the current slot and
+ * the other slot is applied and uploaded.  An empty or stale (band layout
+ * changed) slot starts as a copy of the current one.
+ */
+export async function toggleAbSlot(): Promise<boolean> {
+  // Solo patches the pipeline temporarily; restore it before swapping bands
+  await endSoloEditSession();
+
+  const current = captureLiveSlot();
+  if (current.bands.length === 0) return false;
+
+  const stored = get(inactiveAbSlot);
+  let next = stored && isSlotCompatible(stored, current.filterNames) ? stored : current;
+
+  if (get(abLevelMatch)) {
+    next = { ...next, preampGain: levelMatchedPreamp(current, next, get(sampleRate)) };
+  }
+
+  if (!applyEqSnapshot(next.bands, next.preampGain)) {
+    return false;
+  }
+
+  inactiveAbSlot.set(current);
+  activeAbSlot.update(otherSlotId);
+  return true;
+}
+
+/**
+ * Overwrite the inactive slot with the live EQ
+ */
+export function copyActiveToInactiveSlot(): void {
+  const current = captureLiveSlot();
+  if (current.bands.length === 0) return;
+  inactiveAbSlot.set(current);
+}
+
+/**
+ * Forget both slots (e.g. when a preset replaces the config)
+ */
+export function resetAbSlots(): void {
+  inactiveAbSlot.set(null);
+  activeAbSlot.set('A');
+}
@@ -6,8 +6,16 @@ import {
   setBandFreq,
   setBandGain,
   setBandQ,
+  setBandType,
   toggleBandEnabled,
   selectBand,
+  sampleRate,
+  sumCurvePath,
+  syncSampleRateFromConfig,
+  setCaptureSampleRate,
+  graphicEqBandIndex,
+  setGraphicEqFaderGain,
+  setGraphicEqBandCount,
 } from './eqStore';
 
 describe('eqStore', () => {
@@ -95,6 +103,78 @@ describe('eqStore', () => {
     });
   });
 
+  describe('setBandType', () => {
+    it('drops gain for types without it', () => {
+      setBandType(1, 'HighPassFO');
+      expect(get(bands)[1]).toEqual({ enabled: true, type: 'HighPassFO', freq: 5000, gain: 0, q: 2.0 });
+    });
+  });
+
+  describe('display-only bands', () => {
+    it('ignores edits to Free biquads', () => {
+      const free = {
+        enabled: true,
+        type: 'Free' as const,
+        freq: 200,
+        gain: -6,
+        q: 1,
+        coefficients: { a1: 0, a2: 0, b0: 0.5, b1: 0, b2: 0 },
+      };
+      bands.set([free]);
+
+      setBandFreq(0, 1000);
+      setBandGain(0, 3);
+      setBandQ(0, 4);
+      setBandType(0, 'Peaking');
+
+      expect(get(bands)[0]).toEqual(free);
+    });
+  });
+
+  describe('graphic EQ', () => {
+    const geq = {
+      enabled: true,
+      type: 'GraphicEqualizer' as const,
+      freq: 1000,
+      gain: 0,
+      q: 1,
+      comboParameters: { type: 'GraphicEqualizer', freq_min: 22.1, freq_max: 22627.42, gains: new Array(10).fill(0) },
+    };
+
+    it('finds the first GraphicEqualizer band', () => {
+      expect(get(graphicEqBandIndex)).toBeNull();
+      bands.set([get(bands)[0], geq]);
+      expect(get(graphicEqBandIndex)).toBe(1);
+    });
+
+    it('sets a fader gain and moves the token to the boost', () => {
+      bands.set([get(bands)[0], geq]);
+
+      setGraphicEqFaderGain(5, 6.04);
+
+      const band = get(bands)[1];
+      expect(band.comboParameters!.gains[5]).toBe(6);
+      expect(band.freq).toBeGreaterThan(700);
+      expect(band.freq).toBeLessThan(1400);
+      expect(band.gain).toBeGreaterThan(5);
+    });
+
+    it('ignores fader edits while the graphic EQ is muted', () => {
+      bands.set([{ ...geq, enabled: false }]);
+      setGraphicEqFaderGain(0, 3);
+      expect(get(bands)[0].comboParameters!.gains[0]).toBe(0);
+    });
+
+    it('resizes an existing graphic EQ to another ISO layout', async () => {
+      bands.set([geq]);
+      await setGraphicEqBandCount(31);
+
+      const params = get(bands)[0].comboParameters!;
+      expect(params.gains).toHaveLength(31);
+      expect(params.freq_min).toBeCloseTo(17.5, 0);
+    });
+  });
+
   describe('toggleBandEnabled', () => {
     // NOTE: toggleBandEnabled now manipulates pipeline membership (MVP-21)
     // These tests require a full DSP config setup with initializeFromConfig()
@@ -140,4 +220,31 @@ describe('eqStore', () => {
       expect(updatedBand).not.toBe(originalBand);
     });
   });
+
+  describe('sampleRate', () => {
+    it('prefers the config rate, then the capture rate, then 48 kHz', () => {
+      syncSampleRateFromConfig(null);
+      setCaptureSampleRate(null);
+      expect(get(sampleRate)).toBe(48000);
+
+      setCaptureSampleRate(44100);
+      expect(get(sampleRate)).toBe(44100);
+
+      syncSampleRateFromConfig({ devices: { samplerate: 96000 } } as any);
+      expect(get(sampleRate)).toBe(96000);
+
+      syncSampleRateFromConfig(null);
+      setCaptureSampleRate(null);
+    });
+
+    it('re-renders the sum curve when the rate changes', () => {
+      setBandFreq(1, 16000);
+      const path48 = get(sumCurvePath);
+
+      syncSampleRateFromConfig({ devices: { samplerate: 44100 } } as any);
+      expect(get(sumCurvePath)).not.toBe(path48);
+
+      syncSampleRateFromConfig(null);
+    });
+  });
 });
@@ -5,19 +5,36 @@
  */
 
 import { writable, derived, get } from 'svelte/store';
-import type { EqBand } from '../dsp/filterResponse';
+import {
+  DEFAULT_SAMPLE_RATE,
+  bandHasFreq,
+  bandHasGain,
+  isComboBand,
+  isDisplayOnlyBand,
+  type EqBand,
+} from '../dsp/filterResponse';
 import { generateCurvePath, generateBandCurvePath } from '../ui/rendering/EqSvgRenderer';
 import type { CamillaDSP, CamillaDSPConfig } from '../lib/camillaDSP';
 import {
   extractEqBandsFromConfig,
   applyEqBandsToConfig,
+  placeAtLargestDeviation,
   type ExtractedEqData,
 } from '../lib/camillaEqMapping';
+import {
+  addGraphicEqFilter,
+  readGraphicEqParameters,
+  resizeGraphicEq,
+  setGraphicEqGain,
+  type GraphicEqBandCount,
+  type GraphicEqParameters,
+} from '../lib/graphicEq';
 import { debounceCancelable } from '../lib/debounce';
 import { getDspInstance, updateConfig as updateDspConfig } from './dspStore';
 import { putLatestState } from '../lib/api';
 import { clampFreqHz, clampGainDb, clampQ } from '../lib/eqParamClamp';
 import { disableFilterEverywhere, enableFilterEverywhere } from '../lib/filterEnablement';
+import { recordConfigChange, syncConfigHistoryOverlay } from './configHistory';
 
 // Upload debounce time (ms)
 const UPLOAD_DEBOUNCE_MS = 200;
@@ -38,6 +55,35 @@ export const selectedBandIndex = writable<number | null>(null);
 export const uploadStatus = writable<UploadStatus>({ state: 'idle' });
 export const preampGain = writable<number>(0); // Master-band gain (±24 dB)
 
+// Editing mode of the EQ page: parametric bands or a graphic EQ fader bank
+export type EqEditMode = 'parametric' | 'graphic';
+export const eqEditMode = writable<EqEditMode>('parametric');
+
+// Band edited by the graphic EQ mode (first GraphicEqualizer in the pipeline), null when none
+export const graphicEqBandIndex = derived(bands, ($bands) => {
+  const index = $bands.findIndex((band) => band.type === 'GraphicEqualizer');
+  return index >= 0 ? index : null;
+});
+
+// Auto-EQ proposal: fitted bands shown for review, applied only on accept
+export interface EqProposal {
+  bands: EqBand[];
+  preampGain: number;
+  filterNames: string[]; // Band layout the proposal was fitted for
+  initialRmsDb: number; // Deviation from the target before / after the fit
+  residualRmsDb: number;
+}
+export const eqProposal = writable<EqProposal | null>(null);
+
+// Sample rates for response curves: devices.samplerate from the loaded config,
+// falling back to the measured capture rate (GetCaptureRate) when unset
+const configSampleRate = writable<number | null>(null);
+const captureSampleRate = writable<number | null>(null);
+export const sampleRate = derived(
+  [configSampleRate, captureSampleRate],
+  ([$configRate, $captureRate]) => $configRate ?? $captureRate ?? DEFAULT_SAMPLE_RATE
+);
+
 // Internal state (not exported as stores)
 let lastConfig: CamillaDSPConfig | null = null;
 let extractedData: ExtractedEqData | null = null;
@@ -156,6 +202,7 @@ export function initializeFromConfig(config: CamillaDSPConfig): boolean {
   }
 
   lastConfig = config;
+  syncSampleRateFromConfig(config);
 
   try {
     // Extract bands and preamp from config
@@ -167,6 +214,10 @@ export function initializeFromConfig(config: CamillaDSPConfig): boolean {
     filterNames.set(extracted.filterNames);
     bandOrderNumbers.set(extracted.orderNumbers);
     preampGain.set(extracted.preampGain);
+    eqProposal.set(null); // Fitted for the previous config
+
+    // Config and disabled-filters overlay are consistent again
+    syncConfigHistoryOverlay();
 
     console.log(`Loaded ${extracted.bands.length} EQ bands, preamp ${extracted.preampGain.toFixed(1)} dB from config`);
     return true;
@@ -176,6 +227,21 @@ export function initializeFromConfig(config: CamillaDSPConfig): boolean {
   }
 }
 
+/**
+ * Take the processing sample rate from a config (curves re-render when it changes)
+ */
+export function syncSampleRateFromConfig(config: CamillaDSPConfig | null | undefined): void {
+  const rate = config?.devices?.samplerate;
+  configSampleRate.set(typeof rate === 'number' && rate > 0 ? rate : null);
+}
+
+/**
+ * Record the capture rate reported by CamillaDSP (null when unavailable)
+ */
+export function setCaptureSampleRate(rate: number | null): void {
+  captureSampleRate.set(typeof rate === 'number' && rate > 0 ? rate : null);
+}
+
 /**
  * Clear EQ state
  */
@@ -187,6 +253,7 @@ export function clearEqState(): void {
   filterNames.set([]);
   bandOrderNumbers.set([]);
   preampGain.set(0);
+  eqProposal.set(null);
   uploadStatus.set({ state: 'idle' });
   // Reset solo session (don't restore — config is gone)
   soloSessionActive = false;
@@ -202,9 +269,63 @@ export function commitUpload(): void {
   debouncedUpload.flush();
 }
 
+/**
+ * Drop any pending (debounced) upload
+ */
+export function cancelEqUpload(): void {
+  debouncedUpload.cancel();
+}
+
+/**
+ * Config as currently edited: pending band/preamp edits applied and any
+ * solo-session pipeline patch undone.  Null when no config has been loaded.
+ */
+export function getCurrentEqConfig(): CamillaDSPConfig | null {
+  if (!lastConfig || !extractedData) return null;
+
+  const config = applyEqBandsToConfig(lastConfig, {
+    ...extractedData,
+    bands: get(bands),
+    preampGain: get(preampGain),
+  });
+
+  if (soloSessionActive && soloSnapshot) {
+    const pipeline = (config.pipeline as any[] | undefined) ?? [];
+    for (const snap of soloSnapshot) {
+      if (pipeline[snap.stepIndex]) {
+        pipeline[snap.stepIndex].names = [...snap.names];
+      }
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Record the current config as an undo step before an edit
+ * Continuous edits of the same target share a coalesce key
+ */
+function recordHistoryStep(coalesceKey?: string): void {
+  const before = getCurrentEqConfig();
+  if (before) {
+    recordConfigChange(before, coalesceKey);
+  }
+}
+
+/**
+ * Display-only bands (Free biquads, FivePointPeq/GraphicEqualizer combos) have no
+ * parameters to edit; edits to them are ignored
+ */
+function isBandEditable(index: number): boolean {
+  const band = get(bands)[index];
+  return !!band && !isDisplayOnlyBand(band.type);
+}
+
 // Actions (mutations with proper clamping/rounding + debounced upload)
 
 export function setBandFreq(index: number, freq: number) {
+  if (!isBandEditable(index) || !bandHasFreq(get(bands)[index].type)) return;
+  recordHistoryStep(`band:${index}`);
   bands.update((b) => {
     const updated = [...b];
     updated[index] = { ...updated[index], freq: clampFreqHz(freq) };
@@ -214,6 +335,8 @@ export function setBandFreq(index: number, freq: number) {
 }
 
 export function setBandGain(index: number, gain: number) {
+  if (!isBandEditable(index)) return;
+  recordHistoryStep(`band:${index}`);
   bands.update((b) => {
     const updated = [...b];
     updated[index] = { ...updated[index], gain: clampGainDb(gain) };
@@ -223,6 +346,8 @@ export function setBandGain(index: number, gain: number) {
 }
 
 export function setBandQ(index: number, q: number) {
+  if (!isBandEditable(index)) return;
+  recordHistoryStep(`band:${index}`);
   bands.update((b) => {
     const updated = [...b];
     updated[index] = { ...updated[index], q: clampQ(q) };
@@ -232,17 +357,22 @@ export function setBandQ(index: number, q: number) {
 }
 
 export function setBandType(index: number, type: EqBand['type']) {
+  const currentType = get(bands)[index]?.type;
+  // Combos live in BiquadCombo filters and cannot be converted to or from plain biquads
+  if (!isBandEditable(index) || currentType === type || isComboBand(currentType) || isComboBand(type)) return;
+  recordHistoryStep();
   bands.update((b) => {
     const updated = [...b];
-    const currentBand = updated[index];
+    const { enabled, freq, gain, q } = updated[index];
     
     // Preserve freq and q, but handle gain based on type
-    const supportsGain = type === 'Peaking' || type === 'LowShelf' || type === 'HighShelf';
-    
+    // (type-specific extras such as a GeneralNotch pole frequency are dropped)
     updated[index] = {
-      ...currentBand,
+      enabled,
       type,
-      gain: supportsGain ? currentBand.gain : 0,
+      freq,
+      gain: bandHasGain(type) ? gain : 0,
+      q,
     };
     
     return updated;
@@ -276,6 +406,8 @@ export async function toggleBandEnabled(index: number): Promise<void> {
     // lastConfig and extractedData are now the restored (pre-solo) state.
   }
 
+  recordHistoryStep();
+
   try {
     // Toggle by disabling/enabling everywhere in pipeline
     let updatedConfig: CamillaDSPConfig;
@@ -298,6 +430,7 @@ export async function toggleBandEnabled(index: number): Promise<void> {
     bands.set(extracted.bands);
     filterNames.set(extracted.filterNames);
     bandOrderNumbers.set(extracted.orderNumbers);
+    syncConfigHistoryOverlay();
 
     // Trigger upload
     debouncedUpload.call();
@@ -488,25 +621,184 @@ export function selectBand(index: number | null) {
 }
 
 export function setPreampGain(gain: number) {
+  recordHistoryStep('preamp');
   preampGain.set(clampGainDb(gain));
   debouncedUpload.call();
 }
 
-// Derived stores for curves (reactive to bands changes)
-export const sumCurvePath = derived(bands, ($bands) => {
+/**
+ * Replace all band parameters and the preamp at once (A/B slot switch)
+ * Enabled state stays as is (it lives in the pipeline, not in band params).
+ * Uploads immediately; returns false when the band count does not match.
+ */
+export function applyEqSnapshot(nextBands: EqBand[], nextPreampGain: number): boolean {
+  const currentBands = get(bands);
+  if (!lastConfig || nextBands.length !== currentBands.length) {
+    return false;
+  }
+
+  recordHistoryStep();
+  bands.set(nextBands.map((band, i) => ({ ...band, enabled: currentBands[i].enabled })));
+  preampGain.set(clampGainDb(nextPreampGain));
+  debouncedUpload.call();
+  debouncedUpload.flush();
+  return true;
+}
+
+// ─── Auto-EQ proposal ──────────────────────────────────────────────────────
+
+/**
+ * Hold fitted bands as a proposal (drawn on the plot, nothing is uploaded)
+ * Returns false when the band count does not match the loaded EQ
+ */
+export function proposeEq(
+  nextBands: EqBand[],
+  nextPreampGain: number,
+  fit: { initialRmsDb: number; residualRmsDb: number }
+): boolean {
+  if (!lastConfig || nextBands.length !== get(bands).length) {
+    return false;
+  }
+
+  eqProposal.set({
+    bands: nextBands,
+    preampGain: clampGainDb(nextPreampGain),
+    filterNames: get(filterNames),
+    ...fit,
+  });
+  return true;
+}
+
+/**
+ * Apply the proposal (one undo step, immediate upload)
+ * A proposal fitted for a different band layout is dropped instead
+ */
+export function acceptEqProposal(): boolean {
+  const proposal = get(eqProposal);
+  eqProposal.set(null);
+  if (!proposal) return false;
+
+  const names = get(filterNames);
+  const sameLayout =
+    proposal.filterNames.length === names.length && proposal.filterNames.every((name, i) => name === names[i]);
+  return sameLayout && applyEqSnapshot(proposal.bands, proposal.preampGain);
+}
+
+export function discardEqProposal(): void {
+  eqProposal.set(null);
+}
+
+// ─── Graphic EQ mode ───────────────────────────────────────────────────────
+
+/**
+ * Replace the graphic EQ band's parameters and move its token to the new peak
+ */
+function updateGraphicEqBand(index: number, update: (params: GraphicEqParameters) => GraphicEqParameters): void {
+  const rate = get(sampleRate);
+  bands.update((b) => {
+    const updated = [...b];
+    const params = update(readGraphicEqParameters(updated[index].comboParameters));
+    updated[index] = placeAtLargestDeviation(
+      { ...updated[index], comboParameters: { ...updated[index].comboParameters, ...params } },
+      rate
+    );
+    return updated;
+  });
+}
+
+/**
+ * Set one graphic EQ fader
+ * GraphicEqualizer bands are display-only for parametric edits; this is their editing path
+ */
+export function setGraphicEqFaderGain(faderIndex: number, gain: number): void {
+  const index = get(graphicEqBandIndex);
+  if (index === null || !get(bands)[index].enabled) return;
+  recordHistoryStep(`graphicEq:${faderIndex}`);
+  updateGraphicEqBand(index, (params) => setGraphicEqGain(params, faderIndex, gain));
+  debouncedUpload.call();
+}
+
+/**
+ * Switch the graphic EQ to a 10/15/31-band ISO layout, adding a GraphicEqualizer
+ * to the Filter steps when the pipeline has none
+ */
+export async function setGraphicEqBandCount(count: GraphicEqBandCount): Promise<void> {
+  const index = get(graphicEqBandIndex);
+
+  if (index !== null) {
+    const params = readGraphicEqParameters(get(bands)[index].comboParameters);
+    if (params.gains.length === count) return;
+    recordHistoryStep();
+    updateGraphicEqBand(index, (current) => resizeGraphicEq(current, count));
+    debouncedUpload.call();
+    debouncedUpload.flush();
+    return;
+  }
+
+  const dspInstance = getDspInstance();
+  if (!dspInstance || !lastConfig || !extractedData) {
+    console.error('Cannot add graphic EQ: no DSP instance or config');
+    return;
+  }
+
+  // The new filter goes into every Filter step; end a solo session so its patch is not kept
+  if (soloSessionActive) {
+    await endSoloEditSession();
+  }
+
+  try {
+    // Start from the edited config so pending band edits are kept
+    const { config: updatedConfig } = addGraphicEqFilter(getCurrentEqConfig()!, count);
+    recordHistoryStep();
+
+    dspInstance.config = updatedConfig as any;
+    lastConfig = updatedConfig;
+
+    const extracted = extractEqBandsFromConfig(updatedConfig);
+    extractedData = extracted;
+    bands.set(extracted.bands);
+    filterNames.set(extracted.filterNames);
+    bandOrderNumbers.set(extracted.orderNumbers);
+    preampGain.set(extracted.preampGain);
+
+    debouncedUpload.call();
+    debouncedUpload.flush();
+  } catch (error) {
+    console.error('Error adding graphic EQ:', error);
+    uploadStatus.set({
+      state: 'error',
+      message: error instanceof Error ? error.message : 'Failed to add graphic EQ',
+    });
+  }
+}
+
+// Derived stores for curves (reactive to bands and sample rate changes)
+export const sumCurvePath = derived([bands, sampleRate], ([$bands, $sampleRate]) => {
   return generateCurvePath($bands, {
     width: 1000,
     height: 400,
     numPoints: 256,
+    sampleRate: $sampleRate,
+  });
+});
+
+export const proposalCurvePath = derived([eqProposal, sampleRate], ([$proposal, $sampleRate]) => {
+  if (!$proposal) return '';
+  return generateCurvePath($proposal.bands, {
+    width: 1000,
+    height: 400,
+    numPoints: 256,
+    sampleRate: $sampleRate,
   });
 });
 
-export const perBandCurvePaths = derived(bands, ($bands) => {
+export const perBandCurvePaths = derived([bands, sampleRate], ([$bands, $sampleRate]) => {
   return $bands.map((band) =>
     generateBandCurvePath(band, {
       width: 1000,
       height: 400,
       numPoints: 128,
+      sampleRate: $sampleRate,
     })
   );
 });
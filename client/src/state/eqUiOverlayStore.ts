@@ -36,6 +36,9 @@ export interface HeatmapSettingsState {
   buttonCenterY: number;
 }
 
+// Analyzer settings popover state (anchored like the heatmap popover)
+export type AnalyzerSettingsState = HeatmapSettingsState;
+
 // Store for fader tooltip
 export const faderTooltipState = writable<FaderTooltipState>({
   bandIndex: null,
@@ -64,6 +67,14 @@ export const heatmapSettingsState = writable<HeatmapSettingsState>({
   buttonCenterY: 0,
 });
 
+// Store for analyzer settings
+export const analyzerSettingsState = writable<AnalyzerSettingsState>({
+  open: false,
+  buttonLeft: 0,
+  buttonRight: 0,
+  buttonCenterY: 0,
+});
+
 let tooltipFadeTimer: number | null = null;
 
 /**
@@ -198,3 +209,28 @@ export function toggleHeatmapSettings(buttonElement: HTMLElement): void {
     }
   });
 }
+
+/**
+ * Close analyzer settings popover
+ */
+export function closeAnalyzerSettings(): void {
+  analyzerSettingsState.update(state => ({ ...state, open: false }));
+}
+
+/**
+ * Toggle analyzer settings popover
+ */
+export function toggleAnalyzerSettings(buttonElement: HTMLElement): void {
+  analyzerSettingsState.update(state => {
+    if (state.open) {
+      return { ...state, open: false };
+    }
+    const rect = buttonElement.getBoundingClientRect();
+    return {
+      open: true,
+      buttonLeft: rect.left,
+      buttonRight: rect.right,
+      buttonCenterY: rect.top + rect.height / 2,
+    };
+  });
+}
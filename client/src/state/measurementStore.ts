@@ -0,0 +1,168 @@
+/**
+ * Frequency-response measurements (headphones/IEMs/speakers) stored on the
+ * server.  Loading a preset selects the measurement of its device; the EQ
+ * plot then shows the measurement and the measurement with the current EQ
+ * applied.  The selection is per session.
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import {
+  listMeasurements,
+  getMeasurement,
+  uploadMeasurement,
+  deleteMeasurement as deleteMeasurementRequest,
+  type ConfigMetadata,
+  type Measurement,
+  type MeasurementInfo,
+} from '../lib/api';
+import {
+  generateTargetCurvePath,
+  generateMeasuredWithEqPath,
+  normalizeTargetPoints,
+} from '../ui/rendering/targetCurveOverlay';
+import { bands, sampleRate } from './eqStore';
+
+export const measurements = writable<MeasurementInfo[]>([]);
+// Selected measurement, normalized to 0 dB at 1 kHz (null when none is shown)
+export const selectedMeasurement = writable<Measurement | null>(null);
+// Device name of the last loaded preset (null for presets without a device)
+export const linkedPresetDevice = writable<string | null>(null);
+export const measurementError = writable<string | null>(null);
+
+// Ignores responses for a measurement that is no longer the latest selection
+let selectRequestId = 0;
+
+const CURVE_OPTIONS = { width: 1000, height: 400, numPoints: 256 };
+
+export const measuredCurvePath = derived([selectedMeasurement, sampleRate], ([$measurement, $sampleRate]) => {
+  if (!$measurement) return '';
+  return generateTargetCurvePath($measurement.points, { ...CURVE_OPTIONS, sampleRate: $sampleRate });
+});
+
+export const measuredWithEqCurvePath = derived(
+  [selectedMeasurement, bands, sampleRate],
+  ([$measurement, $bands, $sampleRate]) => {
+    if (!$measurement) return '';
+    return generateMeasuredWithEqPath($bands, $measurement.points, { ...CURVE_OPTIONS, sampleRate: $sampleRate });
+  }
+);
+
+/**
+ * Device name of a preset as used for measurement file names
+ * (`<manufacturer> <model>[ <variant>]`, as written by import-autoeq)
+ */
+export function presetDeviceName(config: Pick<ConfigMetadata, 'manufacturer' | 'model' | 'variant'>): string | null {
+  if (!config.manufacturer || !config.model) return null;
+  return [config.manufacturer, config.model, config.variant].filter(Boolean).join(' ');
+}
+
+/**
+ * Stored measurement of a device (device names compare case-insensitively)
+ */
+export function findDeviceMeasurement(list: MeasurementInfo[], device: string): MeasurementInfo | null {
+  const key = device.toLowerCase();
+  return list.find((measurement) => measurement.device.toLowerCase() === key) ?? null;
+}
+
+function reportError(action: string, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  console.warn(`Failed to ${action} measurement:`, error);
+  measurementError.set(message);
+}
+
+function normalized(measurement: Measurement): Measurement {
+  return { ...measurement, points: normalizeTargetPoints(measurement.points) };
+}
+
+/**
+ * Load the list of stored measurements from the server
+ */
+export async function loadMeasurements(): Promise<void> {
+  try {
+    measurements.set(await listMeasurements());
+    measurementError.set(null);
+  } catch (error) {
+    reportError('list', error);
+  }
+}
+
+/**
+ * Show a stored measurement on the plot (null hides it)
+ */
+export async function selectMeasurement(name: string | null): Promise<void> {
+  const requestId = ++selectRequestId;
+
+  if (name === null) {
+    selectedMeasurement.set(null);
+    measurementError.set(null);
+    return;
+  }
+
+  try {
+    const measurement = await getMeasurement(name);
+    if (requestId !== selectRequestId) return;
+    selectedMeasurement.set(normalized(measurement));
+    measurementError.set(null);
+  } catch (error) {
+    if (requestId !== selectRequestId) return;
+    reportError('load', error);
+  }
+}
+
+/**
+ * Link a freshly loaded preset: show its device's measurement, or nothing
+ */
+export async function linkPresetMeasurement(
+  config: Pick<ConfigMetadata, 'manufacturer' | 'model' | 'variant'>
+): Promise<void> {
+  const device = presetDeviceName(config);
+  linkedPresetDevice.set(device);
+
+  if (!device) {
+    await selectMeasurement(null);
+    return;
+  }
+
+  if (get(measurements).length === 0) {
+    await loadMeasurements();
+  }
+  await selectMeasurement(findDeviceMeasurement(get(measurements), device)?.name ?? null);
+}
+
+/**
+ * Upload a measurement file and show it
+ * @returns false when the server refused the file
+ */
+export async function importMeasurement(name: string, text: string): Promise<boolean> {
+  try {
+    const measurement = await uploadMeasurement(name, text);
+    const info = { name: measurement.name, device: measurement.device, size: text.length, mtimeMs: Date.now() };
+    measurements.update((list) =>
+      [...list.filter((m) => m.name !== measurement.name), info].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    ++selectRequestId;
+    selectedMeasurement.set(normalized(measurement));
+    measurementError.set(null);
+    return true;
+  } catch (error) {
+    reportError('upload', error);
+    return false;
+  }
+}
+
+/**
+ * Delete a stored measurement (hides it when it is the one shown)
+ */
+export async function deleteMeasurement(name: string): Promise<void> {
+  try {
+    await deleteMeasurementRequest(name);
+    measurements.update((list) => list.filter((m) => m.name !== name));
+    if (get(selectedMeasurement)?.name === name) {
+      ++selectRequestId;
+      selectedMeasurement.set(null);
+    }
+    measurementError.set(null);
+  } catch (error) {
+    reportError('delete', error);
+  }
+}
@@ -1,12 +1,14 @@
 /**
  * Pipeline editor upload helper
  * Handles validation, upload, and persistence for pipeline reorders
- * Uses EQ-style debounced upload pattern
+ * Uses EQ-style debounced upload pattern; every commit is an undo step
  */
 
 import type { CamillaDSPConfig } from '../lib/camillaDSP';
+import type { ConfigPathError } from '../lib/camillaConfigValidation';
 import { getDspInstance, updateConfig as updateDspConfig } from './dspStore';
-import { initializeFromConfig } from './eqStore';
+import { getCurrentEqConfig, initializeFromConfig } from './eqStore';
+import { recordConfigChange, syncConfigHistoryOverlay } from './configHistory';
 import { putLatestState } from '../lib/api';
 import { debounceCancelable } from '../lib/debounce';
 
@@ -18,8 +20,13 @@ export type PipelineUploadState = 'idle' | 'pending' | 'success' | 'error';
 export interface PipelineUploadStatus {
   state: PipelineUploadState;
   message?: string;
+  errors?: ConfigPathError[]; // Path-addressed validation errors (state 'error')
+  config?: CamillaDSPConfig; // The config the errors refer to
 }
 
+// Latest committed config that has not been confirmed by an upload yet
+let pendingConfig: CamillaDSPConfig | null = null;
+
 // Status callback (for UI to subscribe)
 let statusCallback: ((status: PipelineUploadStatus) => void) | null = null;
 
@@ -47,6 +54,7 @@ function notifyStatus(status: PipelineUploadStatus): void {
 const debouncedUpload = debounceCancelable(async (config: CamillaDSPConfig) => {
   const dspInstance = getDspInstance();
   if (!dspInstance) {
+    pendingConfig = null;
     notifyStatus({ state: 'error', message: 'DSP not connected' });
     return;
   }
@@ -59,7 +67,12 @@ const debouncedUpload = debounceCancelable(async (config: CamillaDSPConfig) => {
 
     // Validate
     if (!dspInstance.validateConfig()) {
-      notifyStatus({ state: 'error', message: 'Invalid configuration' });
+      notifyStatus({
+        state: 'error',
+        message: 'Invalid configuration',
+        errors: dspInstance.validationErrors,
+        config,
+      });
       return;
     }
 
@@ -103,21 +116,44 @@ const debouncedUpload = debounceCancelable(async (config: CamillaDSPConfig) => {
       state: 'error',
       message: error instanceof Error ? error.message : 'Upload failed',
     });
+  } finally {
+    // A newer commit during the upload replaces the pending config
+    if (pendingConfig === config) {
+      pendingConfig = null;
+    }
   }
 }, UPLOAD_DEBOUNCE_MS);
 
 /**
  * Commit pipeline config change (triggers debounced upload)
+ * Records an undo step; continuous edits (e.g. slider drags) pass a
+ * coalesce key so they undo as one step
  */
-export function commitPipelineConfigChange(config: CamillaDSPConfig): void {
+export function commitPipelineConfigChange(config: CamillaDSPConfig, coalesceKey?: string): void {
+  const before = pendingConfig ?? getCurrentEqConfig();
+  if (before) {
+    recordConfigChange(before, coalesceKey);
+  }
+  // Pipeline edits update the disabled-filters overlay before committing
+  syncConfigHistoryOverlay();
+
+  pendingConfig = config;
   debouncedUpload.call(config);
 }
 
+/**
+ * Config committed but not yet confirmed by CamillaDSP (null when idle)
+ */
+export function getPendingPipelineConfig(): CamillaDSPConfig | null {
+  return pendingConfig;
+}
+
 /**
  * Cancel any pending upload
  */
 export function cancelPipelineUpload(): void {
   debouncedUpload.cancel();
+  pendingConfig = null;
 }
 
 /**
@@ -0,0 +1,140 @@
+/**
+ * Spectrum snapshots: frozen LTA/peak traces stored on the server and
+ * overlaid on the EQ plot.  Visibility is per session (all saved snapshots
+ * start visible).
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import {
+  listSpectrumSnapshots,
+  createSpectrumSnapshot,
+  updateSpectrumSnapshot,
+  deleteSpectrumSnapshot as deleteSnapshotRequest,
+  type SpectrumSnapshot,
+} from '../lib/api';
+
+// Overlay palette; new snapshots take the first color not already in use
+export const SNAPSHOT_COLORS = [
+  '#ffb347',
+  '#ff6f91',
+  '#c792ea',
+  '#7fdbff',
+  '#b8e986',
+  '#f8e71c',
+  '#ff8a65',
+  '#4dd0e1',
+];
+
+export const spectrumSnapshots = writable<SpectrumSnapshot[]>([]);
+export const hiddenSnapshotIds = writable<Set<string>>(new Set());
+export const spectrumSnapshotError = writable<string | null>(null);
+
+export const visibleSpectrumSnapshots = derived(
+  [spectrumSnapshots, hiddenSnapshotIds],
+  ([$snapshots, $hidden]) => $snapshots.filter((snapshot) => !$hidden.has(snapshot.id))
+);
+
+/**
+ * First palette color not used by a saved snapshot (cycles when all are taken)
+ */
+export function nextSnapshotColor(snapshots: SpectrumSnapshot[]): string {
+  const used = new Set(snapshots.map((snapshot) => snapshot.color.toLowerCase()));
+  return SNAPSHOT_COLORS.find((color) => !used.has(color)) ?? SNAPSHOT_COLORS[snapshots.length % SNAPSHOT_COLORS.length];
+}
+
+function reportError(action: string, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  console.warn(`Failed to ${action} spectrum snapshot:`, error);
+  spectrumSnapshotError.set(message);
+}
+
+/**
+ * Load saved snapshots from the server
+ */
+export async function loadSpectrumSnapshots(): Promise<void> {
+  try {
+    spectrumSnapshots.set(await listSpectrumSnapshots());
+    spectrumSnapshotError.set(null);
+  } catch (error) {
+    reportError('load', error);
+  }
+}
+
+/**
+ * Freeze a trace as a named snapshot
+ * @returns false when the trace is empty or the server refused it
+ */
+export async function captureSpectrumSnapshot(
+  name: string,
+  source: SpectrumSnapshot['source'],
+  binsDb: number[] | null
+): Promise<boolean> {
+  if (!binsDb || binsDb.length === 0) {
+    spectrumSnapshotError.set(`No ${source === 'lta' ? 'LTA' : 'peak'} trace yet - start the analyzer first`);
+    return false;
+  }
+
+  try {
+    const snapshot = await createSpectrumSnapshot({
+      name,
+      source,
+      color: nextSnapshotColor(get(spectrumSnapshots)),
+      binsDb,
+    });
+    spectrumSnapshots.update((snapshots) => [...snapshots, snapshot]);
+    spectrumSnapshotError.set(null);
+    return true;
+  } catch (error) {
+    reportError('save', error);
+    return false;
+  }
+}
+
+/**
+ * Rename or recolor a snapshot
+ */
+export async function updateSnapshot(
+  id: string,
+  update: Partial<Pick<SpectrumSnapshot, 'name' | 'color'>>
+): Promise<void> {
+  try {
+    const updated = await updateSpectrumSnapshot(id, update);
+    spectrumSnapshots.update((snapshots) => snapshots.map((s) => (s.id === id ? updated : s)));
+    spectrumSnapshotError.set(null);
+  } catch (error) {
+    reportError('update', error);
+  }
+}
+
+/**
+ * Delete a snapshot
+ */
+export async function deleteSnapshot(id: string): Promise<void> {
+  try {
+    await deleteSnapshotRequest(id);
+    spectrumSnapshots.update((snapshots) => snapshots.filter((s) => s.id !== id));
+    hiddenSnapshotIds.update((hidden) => {
+      const next = new Set(hidden);
+      next.delete(id);
+      return next;
+    });
+    spectrumSnapshotError.set(null);
+  } catch (error) {
+    reportError('delete', error);
+  }
+}
+
+/**
+ * Show or hide a snapshot overlay
+ */
+export function toggleSnapshotVisibility(id: string): void {
+  hiddenSnapshotIds.update((hidden) => {
+    const next = new Set(hidden);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    return next;
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Target curves: frequency/dB files stored on the server (AutoEQ CSV or
+ * squig.link text).  The selected target is drawn on the EQ plot together
+ * with the deviation of the sum curve (or of the shown measurement with the
+ * EQ applied) from it.  The selection is per session.
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import {
+  listTargetCurves,
+  getTargetCurve,
+  uploadTargetCurve,
+  deleteTargetCurve as deleteTargetRequest,
+  type TargetCurve,
+  type TargetCurveInfo,
+} from '../lib/api';
+import {
+  generateTargetCurvePath,
+  computeTargetDeviation,
+  normalizeTargetPoints,
+} from '../ui/rendering/targetCurveOverlay';
+import { bands, sampleRate } from './eqStore';
+import { selectedMeasurement } from './measurementStore';
+
+export const targetCurves = writable<TargetCurveInfo[]>([]);
+// Selected target, normalized to 0 dB at 1 kHz (null when none is shown)
+export const selectedTargetCurve = writable<TargetCurve | null>(null);
+export const targetCurveError = writable<string | null>(null);
+
+// Ignores responses for a target that is no longer the latest selection
+let selectRequestId = 0;
+
+export const targetCurvePath = derived([selectedTargetCurve, sampleRate], ([$target, $sampleRate]) => {
+  if (!$target) return '';
+  return generateTargetCurvePath($target.points, {
+    width: 1000,
+    height: 400,
+    numPoints: 256,
+    sampleRate: $sampleRate,
+  });
+});
+
+/**
+ * Region between the sum curve and the target, with its RMS / max deviation
+ * With a measurement shown, the measurement with the EQ applied is compared instead
+ */
+export const targetDeviation = derived(
+  [selectedTargetCurve, selectedMeasurement, bands, sampleRate],
+  ([$target, $measurement, $bands, $sampleRate]) => {
+    if (!$target) return null;
+    return computeTargetDeviation(
+      $bands,
+      $target.points,
+      {
+        width: 1000,
+        height: 400,
+        numPoints: 256,
+        sampleRate: $sampleRate,
+      },
+      $measurement?.points ?? null
+    );
+  }
+);
+
+function reportError(action: string, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  console.warn(`Failed to ${action} target curve:`, error);
+  targetCurveError.set(message);
+}
+
+/**
+ * Load the list of stored targets from the server
+ */
+export async function loadTargetCurves(): Promise<void> {
+  try {
+    targetCurves.set(await listTargetCurves());
+    targetCurveError.set(null);
+  } catch (error) {
+    reportError('list', error);
+  }
+}
+
+/**
+ * Show a stored target on the plot (null hides it)
+ */
+export async function selectTargetCurve(name: string | null): Promise<void> {
+  const requestId = ++selectRequestId;
+
+  if (name === null) {
+    selectedTargetCurve.set(null);
+    targetCurveError.set(null);
+    return;
+  }
+
+  try {
+    const target = await getTargetCurve(name);
+    if (requestId !== selectRequestId) return;
+    selectedTargetCurve.set({ name: target.name, points: normalizeTargetPoints(target.points) });
+    targetCurveError.set(null);
+  } catch (error) {
+    if (requestId !== selectRequestId) return;
+    reportError('load', error);
+  }
+}
+
+/**
+ * Upload a target file and show it
+ * @returns false when the server refused the file
+ */
+export async function importTargetCurve(name: string, text: string): Promise<boolean> {
+  try {
+    const target = await uploadTargetCurve(name, text);
+    const info = { name: target.name, size: text.length, mtimeMs: Date.now() };
+    targetCurves.update((targets) =>
+      [...targets.filter((t) => t.name !== target.name), info].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    ++selectRequestId;
+    selectedTargetCurve.set({ name: target.name, points: normalizeTargetPoints(target.points) });
+    targetCurveError.set(null);
+    return true;
+  } catch (error) {
+    reportError('upload', error);
+    return false;
+  }
+}
+
+/**
+ * Delete a stored target (hides it when it is the one shown)
+ */
+export async function deleteTarget(name: string): Promise<void> {
+  try {
+    await deleteTargetRequest(name);
+    targetCurves.update((targets) => targets.filter((t) => t.name !== name));
+    if (get(selectedTargetCurve)?.name === name) {
+      ++selectRequestId;
+      selectedTargetCurve.set(null);
+    }
+    targetCurveError.set(null);
+  } catch (error) {
+    reportError('delete', error);
+  }
+}
@@ -146,5 +146,29 @@ describe('EqSvgRenderer', () => {
         });
       }
     });
+
+    it('uses the given sample rate for the response', () => {
+      const bands: EqBand[] = [
+        { enabled: true, type: 'Peaking', freq: 16000, gain: 6, q: 1 },
+      ];
+      const options = { width: 1000, height: 400, numPoints: 64 };
+
+      const path44 = generateCurvePath(bands, { ...options, sampleRate: 44100 });
+      const path96 = generateCurvePath(bands, { ...options, sampleRate: 96000 });
+
+      expect(path44).not.toBe(path96);
+      expect(generateCurvePath(bands, options)).toBe(generateCurvePath(bands, { ...options, sampleRate: 48000 }));
+    });
+
+    it('stops the curve below Nyquist', () => {
+      const bands: EqBand[] = [
+        { enabled: true, type: 'Peaking', freq: 1000, gain: 6, q: 1 },
+      ];
+
+      const path = generateCurvePath(bands, { width: 1000, height: 400, numPoints: 64, sampleRate: 32000 });
+      const xValues = path.match(/[ML] (\S+)/g)!.map((m) => Number(m.slice(2)));
+
+      expect(Math.max(...xValues)).toBeLessThan(freqToX(16000, 1000));
+    });
   });
 });
@@ -4,7 +4,7 @@
  */
 
 import type { EqBand } from '../../dsp/filterResponse';
-import { sumResponseDb, generateLogFrequencies } from '../../dsp/filterResponse';
+import { sumResponseDb, generateLogFrequencies, DEFAULT_SAMPLE_RATE } from '../../dsp/filterResponse';
 
 export interface CurveOptions {
   width: number;       // SVG viewBox width
@@ -14,6 +14,7 @@ export interface CurveOptions {
   freqMax?: number;    // Max frequency Hz (default: 20000)
   gainMin?: number;    // Min gain dB (default: -24)
   gainMax?: number;    // Max gain dB (default: 24)
+  sampleRate?: number; // DSP sample rate Hz (default: 48000)
 }
 
 /**
@@ -57,15 +58,18 @@ export function generateCurvePath(bands: EqBand[], options: CurveOptions): strin
     freqMax = 20000,
     gainMin = -24,
     gainMax = 24,
+    sampleRate = DEFAULT_SAMPLE_RATE,
   } = options;
 
-  // Generate log-spaced frequency samples
-  const frequencies = generateLogFrequencies(freqMin, freqMax, numPoints);
+  // Generate log-spaced frequency samples (the response ends at Nyquist)
+  const frequencies = generateLogFrequencies(freqMin, freqMax, numPoints).filter(
+    (freq) => freq < sampleRate / 2
+  );
 
   // Calculate response at each frequency
   const points: Array<{ x: number; y: number }> = [];
   for (const freq of frequencies) {
-    const gainDb = sumResponseDb(freq, bands);
+    const gainDb = sumResponseDb(freq, bands, sampleRate);
 
     // Clamp gain to viewport range
     const clampedGain = Math.max(gainMin, Math.min(gainMax, gainDb));
@@ -94,6 +94,23 @@ export class SpectrumCanvasRenderer {
     }
   }
 
+  /**
+   * Render a subset of layers without live bins (e.g. snapshots while polling is stopped)
+   */
+  renderStatic(layers: CanvasVisualizationLayer[], options: SpectrumRenderOptions): void {
+    this.ctx.clearRect(0, 0, this.widthCss, this.heightCss);
+
+    for (const layer of layers) {
+      layer.render({
+        ctx: this.ctx,
+        width: this.widthCss,
+        height: this.heightCss,
+        binsNormalized: [],
+        mode: options.mode,
+      });
+    }
+  }
+
   /**
    * Clear the canvas
    */
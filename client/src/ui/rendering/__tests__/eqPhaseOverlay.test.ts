@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { computeOverlayScale, generateOverlayPath, overlayValueToY } from '../eqPhaseOverlay';
+import type { EqBand } from '../../../dsp/filterResponse';
+
+const defaultOptions = {
+  width: 1000,
+  height: 400,
+  numPoints: 128,
+};
+
+const allpass: EqBand = { enabled: true, type: 'AllPass', freq: 1000, gain: 0, q: 0.707 };
+
+describe('computeOverlayScale', () => {
+  it('uses a fixed ±180° scale for phase', () => {
+    const scale = computeOverlayScale([allpass], 'phase', defaultOptions);
+    expect(scale).toEqual({ min: -180, max: 180, ticks: [-180, -90, 0, 90, 180], unit: '°' });
+  });
+
+  it('sizes the group-delay scale to the curve', () => {
+    // A 1 kHz allpass peaks around 0.54 ms; at 50 Hz around 10.9 ms
+    const scale = computeOverlayScale([allpass], 'groupDelay', defaultOptions);
+    expect(scale.max).toBe(1);
+    expect(scale.min).toBe(-1);
+    expect(scale.unit).toBe('ms');
+
+    const lowAllpass = { ...allpass, freq: 50 };
+    expect(computeOverlayScale([lowAllpass], 'groupDelay', defaultOptions).max).toBe(20);
+  });
+});
+
+describe('generateOverlayPath', () => {
+  it('returns empty string for no bands', () => {
+    const scale = computeOverlayScale([], 'phase', defaultOptions);
+    expect(generateOverlayPath([], 'phase', scale, defaultOptions)).toBe('');
+  });
+
+  it('breaks the phase curve where it wraps', () => {
+    const scale = computeOverlayScale([allpass], 'phase', defaultOptions);
+    const path = generateOverlayPath([allpass], 'phase', scale, defaultOptions);
+
+    // One initial move plus one break at the ±180° wrap
+    expect(path.match(/M /g)).toHaveLength(2);
+  });
+
+  it('draws a continuous group-delay curve within the scale', () => {
+    const scale = computeOverlayScale([allpass], 'groupDelay', defaultOptions);
+    const path = generateOverlayPath([allpass], 'groupDelay', scale, defaultOptions);
+
+    expect(path.match(/M /g)).toHaveLength(1);
+    const yValues = path.match(/[ML] \S+ (\S+)/g)!.map((m) => Number(m.split(' ')[2]));
+    yValues.forEach((y) => {
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(y).toBeLessThanOrEqual(overlayValueToY(0, 400, scale));
+    });
+  });
+});
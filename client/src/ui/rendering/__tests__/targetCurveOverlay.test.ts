@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sampleTargetDb,
+  normalizeTargetPoints,
+  generateTargetCurvePath,
+  generateMeasuredWithEqPath,
+  computeTargetDeviation,
+} from '../targetCurveOverlay';
+import type { EqBand } from '../../../dsp/filterResponse';
+
+const defaultOptions = {
+  width: 1000,
+  height: 400,
+  numPoints: 64,
+};
+
+const tilt = [
+  { freq: 100, gainDb: 6 },
+  { freq: 1000, gainDb: 0 },
+  { freq: 10000, gainDb: -6 },
+];
+
+describe('sampleTargetDb', () => {
+  it('interpolates on log frequency and holds the end values', () => {
+    const values = sampleTargetDb(tilt, [20, 100, 316.2278, 1000, 3162.278, 20000]);
+    expect(values[0]).toBe(6);
+    expect(values[1]).toBe(6);
+    expect(values[2]).toBeCloseTo(3, 3);
+    expect(values[3]).toBe(0);
+    expect(values[4]).toBeCloseTo(-3, 3);
+    expect(values[5]).toBe(-6);
+  });
+});
+
+describe('normalizeTargetPoints', () => {
+  it('shifts the target to 0 dB at 1 kHz', () => {
+    const shifted = normalizeTargetPoints(tilt.map((p) => ({ ...p, gainDb: p.gainDb + 80 })));
+    expect(shifted.map((p) => p.gainDb)).toEqual([6, 0, -6]);
+  });
+});
+
+describe('generateTargetCurvePath', () => {
+  it('returns empty string for fewer than two points', () => {
+    expect(generateTargetCurvePath([{ freq: 1000, gainDb: 0 }], defaultOptions)).toBe('');
+  });
+
+  it('starts at the left edge at the target level', () => {
+    const path = generateTargetCurvePath(tilt, defaultOptions);
+    // +6 dB on a ±24 dB, 400-unit axis
+    expect(path.startsWith('M 0 150')).toBe(true);
+    expect(path.match(/L /g)).toHaveLength(defaultOptions.numPoints - 1);
+  });
+});
+
+describe('generateMeasuredWithEqPath', () => {
+  it('matches the measurement without EQ bands', () => {
+    expect(generateMeasuredWithEqPath([], tilt, defaultOptions)).toBe(generateTargetCurvePath(tilt, defaultOptions));
+  });
+
+  it('adds the EQ response to the measurement', () => {
+    const cut: EqBand = { enabled: true, type: 'LowShelf', freq: 1000, gain: -6, q: 0.707 };
+    const path = generateMeasuredWithEqPath([cut], tilt, defaultOptions);
+    // 20 Hz: +6 dB measured, about -6 dB shelf
+    const [, y] = path.match(/^M 0 ([\d.]+)/)!;
+    expect(Number(y)).toBeCloseTo(200, 0);
+  });
+});
+
+describe('computeTargetDeviation', () => {
+  it('is zero when the EQ matches a flat target', () => {
+    const flat = [
+      { freq: 20, gainDb: 0 },
+      { freq: 20000, gainDb: 0 },
+    ];
+    const deviation = computeTargetDeviation([], flat, defaultOptions);
+    expect(deviation?.rmsDb).toBe(0);
+    expect(deviation?.maxAbsDb).toBe(0);
+    expect(deviation?.areaPath.endsWith(' Z')).toBe(true);
+  });
+
+  it('measures how far the sum curve is from the target', () => {
+    const boost: EqBand = { enabled: true, type: 'Peaking', freq: 1000, gain: 6, q: 1 };
+    const flat = [
+      { freq: 20, gainDb: 0 },
+      { freq: 20000, gainDb: 0 },
+    ];
+    const deviation = computeTargetDeviation([boost], flat, defaultOptions)!;
+    expect(deviation.maxAbsDb).toBeCloseTo(6, 0);
+    expect(deviation.rmsDb).toBeGreaterThan(0.5);
+    expect(deviation.rmsDb).toBeLessThan(6);
+  });
+
+  it('compares the measurement with the EQ applied when given', () => {
+    const flat = [
+      { freq: 20, gainDb: 0 },
+      { freq: 20000, gainDb: 0 },
+    ];
+    expect(computeTargetDeviation([], tilt, defaultOptions, tilt)?.maxAbsDb).toBe(0);
+    expect(computeTargetDeviation([], flat, defaultOptions, tilt)?.maxAbsDb).toBeCloseTo(6, 1);
+  });
+
+  it('returns null without a target', () => {
+    expect(computeTargetDeviation([], [], defaultOptions)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Spectrum Snapshot Layer
+ * Renders frozen LTA/peak traces, each in its own color
+ */
+
+import type { CanvasVisualizationLayer } from './CanvasVisualizationLayer';
+
+export interface SnapshotOverlay {
+  id: string;
+  color: string;
+  source: 'lta' | 'peak';
+  binsNorm: number[]; // Normalized [0..1], same spacing as the live analyzer bins
+}
+
+export class SpectrumSnapshotLayer implements CanvasVisualizationLayer {
+  public readonly id = 'spectrum-snapshots';
+  private overlays: SnapshotOverlay[] = [];
+
+  /**
+   * Replace the rendered snapshots
+   */
+  setOverlays(overlays: SnapshotOverlay[]): void {
+    this.overlays = overlays;
+  }
+
+  render(args: {
+    ctx: CanvasRenderingContext2D;
+    width: number;
+    height: number;
+    binsNormalized: number[];
+    mode: 'pre' | 'post';
+  }): void {
+    const { ctx, width, height } = args;
+
+    ctx.save();
+    ctx.globalAlpha *= 0.85;
+    ctx.lineWidth = 1.5;
+
+    for (const overlay of this.overlays) {
+      const bins = overlay.binsNorm;
+      if (bins.length < 2) continue;
+
+      ctx.strokeStyle = overlay.color;
+      // Peak snapshots keep the dotted style of the live peak trace
+      ctx.setLineDash(overlay.source === 'peak' ? [4, 4] : []);
+
+      ctx.beginPath();
+      for (let i = 0; i < bins.length; i++) {
+        const magnitude = Math.max(0, Math.min(1, bins[i]));
+        const x = (i / (bins.length - 1)) * width;
+        const y = height - magnitude * height;
+
+        if (i === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      }
+      ctx.stroke();
+    }
+
+    ctx.restore();
+  }
+}
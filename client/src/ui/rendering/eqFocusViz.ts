@@ -4,7 +4,7 @@
  */
 
 import type { EqBand } from '../../dsp/filterResponse';
-import { bandResponseDb, generateLogFrequencies } from '../../dsp/filterResponse';
+import { bandResponseDb, generateLogFrequencies, DEFAULT_SAMPLE_RATE } from '../../dsp/filterResponse';
 
 export interface AreaOptions {
   width: number;       // SVG viewBox width
@@ -13,6 +13,7 @@ export interface AreaOptions {
   freqMax?: number;    // Max frequency Hz (default: 20000)
   gainMin?: number;    // Min gain dB (default: -24)
   gainMax?: number;    // Max gain dB (default: 24)
+  sampleRate?: number; // DSP sample rate Hz (default: 48000)
 }
 
 /**
@@ -45,6 +46,7 @@ export function generatePeakingFillPath(band: EqBand, options: AreaOptions): str
     freqMax = 20000,
     gainMin = -24,
     gainMax = 24,
+    sampleRate = DEFAULT_SAMPLE_RATE,
   } = options;
 
   // Sample frequencies around the peak (focus on affected region)
@@ -61,7 +63,7 @@ export function generatePeakingFillPath(band: EqBand, options: AreaOptions): str
   // Generate curve points
   const points: Array<{ x: number; y: number }> = [];
   for (const freq of frequencies) {
-    const gainDb = bandResponseDb(freq, band);
+    const gainDb = bandResponseDb(freq, band, sampleRate);
     const clampedGain = Math.max(gainMin, Math.min(gainMax, gainDb));
     
     const x = freqToX(freq, width, freqMin, freqMax);
@@ -109,7 +111,7 @@ export function generateShelfTintRect(band: EqBand, options: AreaOptions): {
   const f0 = band.freq;
   const x0 = freqToX(f0, width, freqMin, freqMax);
   
-  if (band.type === 'LowShelf') {
+  if (band.type === 'LowShelf' || band.type === 'LowShelfFO') {
     // Tint left side (below knee)
     return {
       x: 0,
@@ -117,7 +119,7 @@ export function generateShelfTintRect(band: EqBand, options: AreaOptions): {
       width: x0,
       height,
     };
-  } else if (band.type === 'HighShelf') {
+  } else if (band.type === 'HighShelf' || band.type === 'HighShelfFO') {
     // Tint right side (above knee)
     return {
       x: x0,
@@ -187,6 +189,7 @@ export function generateBandPassTintRect(band: EqBand, options: AreaOptions): {
     freqMax = 20000,
     gainMin = -24,
     gainMax = 24,
+    sampleRate = DEFAULT_SAMPLE_RATE,
   } = options;
   
   if (band.type !== 'BandPass') {
@@ -197,7 +200,7 @@ export function generateBandPassTintRect(band: EqBand, options: AreaOptions): {
   const Q = band.q;
   
   // Find peak response at center frequency
-  const peakDb = bandResponseDb(f0, band);
+  const peakDb = bandResponseDb(f0, band, sampleRate);
   const targetDb = peakDb - 3; // -3 dB points
   
   // Initial octave-symmetric search window (same as pass filter tint)
@@ -206,10 +209,10 @@ export function generateBandPassTintRect(band: EqBand, options: AreaOptions): {
   let fRightGuess = f0 * Math.pow(2, octSpan / 2);
   
   // Find left -3 dB crossing (below f0)
-  const fLeft = findBandPassCrossing(band, targetDb, fLeftGuess, f0, freqMin, freqMax);
+  const fLeft = findBandPassCrossing(band, targetDb, fLeftGuess, f0, freqMin, freqMax, sampleRate);
   
   // Find right -3 dB crossing (above f0)
-  const fRight = findBandPassCrossing(band, targetDb, f0, fRightGuess, freqMin, freqMax);
+  const fRight = findBandPassCrossing(band, targetDb, f0, fRightGuess, freqMin, freqMax, sampleRate);
   
   // If crossings not found, fallback to octave-symmetric window
   const finalFLeft = fLeft || Math.max(freqMin, fLeftGuess);
@@ -236,7 +239,8 @@ function findBandPassCrossing(
   fStart: number,
   fEnd: number,
   freqMin: number,
-  freqMax: number
+  freqMax: number,
+  sampleRate: number
 ): number | null {
   const MAX_ITERATIONS = 30;
   const TOLERANCE = 0.1; // Hz
@@ -246,8 +250,8 @@ function findBandPassCrossing(
   const end = Math.max(freqMin, Math.min(freqMax, fEnd));
   
   // Sample at boundaries
-  const responseStart = bandResponseDb(start, band);
-  const responseEnd = bandResponseDb(end, band);
+  const responseStart = bandResponseDb(start, band, sampleRate);
+  const responseEnd = bandResponseDb(end, band, sampleRate);
   
   // Check if crossing exists (response should straddle target)
   const crossingExists =
@@ -264,7 +268,7 @@ function findBandPassCrossing(
   
   for (let i = 0; i < MAX_ITERATIONS; i++) {
     const mid = (left + right) / 2;
-    const responseMid = bandResponseDb(mid, band);
+    const responseMid = bandResponseDb(mid, band, sampleRate);
     
     if (Math.abs(responseMid - targetDb) < 0.01) {
       return mid;
@@ -275,7 +279,7 @@ function findBandPassCrossing(
     }
     
     // Decide which half contains the crossing
-    const responseLeft = bandResponseDb(left, band);
+    const responseLeft = bandResponseDb(left, band, sampleRate);
     if ((responseLeft > targetDb) === (responseMid > targetDb)) {
       left = mid;
     } else {
@@ -298,6 +302,7 @@ export function generateNotchHaloPath(band: EqBand, options: AreaOptions): strin
     freqMax = 20000,
     gainMin = -24,
     gainMax = 24,
+    sampleRate = DEFAULT_SAMPLE_RATE,
   } = options;
   
   const f0 = band.freq;
@@ -308,7 +313,7 @@ export function generateNotchHaloPath(band: EqBand, options: AreaOptions): strin
   
   const points: Array<{ x: number; y: number }> = [];
   for (const freq of frequencies) {
-    const gainDb = bandResponseDb(freq, band);
+    const gainDb = bandResponseDb(freq, band, sampleRate);
     const clampedGain = Math.max(gainMin, Math.min(gainMax, gainDb));
     
     const x = freqToX(freq, width, freqMin, freqMax);
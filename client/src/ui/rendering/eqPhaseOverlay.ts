@@ -0,0 +1,113 @@
+/**
+ * Phase / group-delay overlay for the EQ plot
+ * Pure helpers for the overlay curve and its right-hand axis
+ */
+
+import type { EqBand } from '../../dsp/filterResponse';
+import {
+  sumPhaseDeg,
+  sumGroupDelayMs,
+  generateLogFrequencies,
+  DEFAULT_SAMPLE_RATE,
+} from '../../dsp/filterResponse';
+import { freqToX, type CurveOptions } from './EqSvgRenderer';
+
+export type ResponseOverlayMode = 'off' | 'phase' | 'groupDelay';
+
+export interface OverlayScale {
+  min: number;
+  max: number;
+  ticks: number[];
+  unit: '°' | 'ms';
+}
+
+// Group-delay axis ranges (ms); the smallest one covering the curve is used
+const GROUP_DELAY_RANGES = [0.5, 1, 2, 5, 10, 20, 50, 100, 200, 500];
+
+/**
+ * Sample the overlay quantity across the plot range
+ */
+function sampleOverlay(
+  bands: EqBand[],
+  mode: Exclude<ResponseOverlayMode, 'off'>,
+  options: CurveOptions
+): Array<{ freq: number; value: number }> {
+  const { numPoints = 256, freqMin = 20, freqMax = 20000, sampleRate = DEFAULT_SAMPLE_RATE } = options;
+
+  return generateLogFrequencies(freqMin, freqMax, numPoints)
+    .filter((freq) => freq < sampleRate / 2)
+    .map((freq) => ({
+      freq,
+      value: mode === 'phase' ? sumPhaseDeg(freq, bands, sampleRate) : sumGroupDelayMs(freq, bands, sampleRate),
+    }));
+}
+
+/**
+ * Axis scale for the overlay
+ * Phase is always ±180°; group delay is symmetric around 0 and sized to the curve
+ */
+export function computeOverlayScale(
+  bands: EqBand[],
+  mode: Exclude<ResponseOverlayMode, 'off'>,
+  options: CurveOptions
+): OverlayScale {
+  if (mode === 'phase') {
+    return { min: -180, max: 180, ticks: [-180, -90, 0, 90, 180], unit: '°' };
+  }
+
+  let maxAbs = 0;
+  for (const { value } of sampleOverlay(bands, mode, options)) {
+    if (Number.isFinite(value)) {
+      maxAbs = Math.max(maxAbs, Math.abs(value));
+    }
+  }
+
+  const range =
+    GROUP_DELAY_RANGES.find((r) => r >= maxAbs) ?? GROUP_DELAY_RANGES[GROUP_DELAY_RANGES.length - 1];
+  return { min: -range, max: range, ticks: [-range, -range / 2, 0, range / 2, range], unit: 'ms' };
+}
+
+/**
+ * Map an overlay value to Y (max at top)
+ */
+export function overlayValueToY(value: number, height: number, scale: OverlayScale): number {
+  return ((scale.max - value) / (scale.max - scale.min)) * height;
+}
+
+/**
+ * Generate SVG path for the phase or group-delay curve
+ * Phase wraps are drawn as breaks instead of vertical jumps
+ */
+export function generateOverlayPath(
+  bands: EqBand[],
+  mode: Exclude<ResponseOverlayMode, 'off'>,
+  scale: OverlayScale,
+  options: CurveOptions
+): string {
+  if (bands.length === 0) {
+    return '';
+  }
+
+  const { width, height, freqMin = 20, freqMax = 20000 } = options;
+
+  let path = '';
+  let previous: number | null = null;
+
+  for (const { freq, value } of sampleOverlay(bands, mode, options)) {
+    if (!Number.isFinite(value)) {
+      previous = null;
+      continue;
+    }
+
+    const clamped = Math.max(scale.min, Math.min(scale.max, value));
+    const x = freqToX(freq, width, freqMin, freqMax);
+    const y = overlayValueToY(clamped, height, scale);
+
+    const wrapped = mode === 'phase' && previous !== null && Math.abs(value - previous) > 180;
+    const command = previous === null || wrapped ? 'M' : 'L';
+    path += `${path ? ' ' : ''}${command} ${x} ${y}`;
+    previous = value;
+  }
+
+  return path;
+}
@@ -0,0 +1,142 @@
+/**
+ * Target curve and measurement overlays for the EQ plot
+ * Pure helpers for the target, measured and measured + EQ curves, and the deviation from the target
+ */
+
+import type { EqBand } from '../../dsp/filterResponse';
+import { sumResponseDb, generateLogFrequencies, DEFAULT_SAMPLE_RATE } from '../../dsp/filterResponse';
+import type { TargetPoint } from '../../lib/autoEq';
+import { freqToX, gainToY, type CurveOptions } from './EqSvgRenderer';
+
+// Targets are drawn relative to their level at 1 kHz (AutoEQ's normalization point)
+export const TARGET_REFERENCE_FREQ = 1000;
+
+export interface TargetDeviation {
+  areaPath: string; // Closed region between the sum (or measured + EQ) curve and the target
+  rmsDb: number;
+  maxAbsDb: number;
+}
+
+/**
+ * Target gain at each frequency (both sorted ascending)
+ * Log-frequency interpolation, flat beyond the first/last point
+ */
+export function sampleTargetDb(points: TargetPoint[], freqs: number[]): number[] {
+  if (points.length === 0) return freqs.map(() => 0);
+
+  const values: number[] = [];
+  let right = 0;
+  for (const freq of freqs) {
+    while (right < points.length && points[right].freq < freq) right++;
+
+    if (right === 0) {
+      values.push(points[0].gainDb);
+    } else if (right === points.length) {
+      values.push(points[points.length - 1].gainDb);
+    } else {
+      const a = points[right - 1];
+      const b = points[right];
+      const t = Math.log(freq / a.freq) / Math.log(b.freq / a.freq);
+      values.push(a.gainDb + t * (b.gainDb - a.gainDb));
+    }
+  }
+  return values;
+}
+
+/**
+ * Shift a target so it reads 0 dB at the reference frequency
+ */
+export function normalizeTargetPoints(points: TargetPoint[], refFreq = TARGET_REFERENCE_FREQ): TargetPoint[] {
+  const [offset] = sampleTargetDb(points, [refFreq]);
+  return points.map((point) => ({ freq: point.freq, gainDb: point.gainDb - offset }));
+}
+
+/**
+ * Plot frequencies, ending at Nyquist like the sum curve
+ */
+function plotFrequencies(options: CurveOptions): number[] {
+  const { numPoints = 256, freqMin = 20, freqMax = 20000, sampleRate = DEFAULT_SAMPLE_RATE } = options;
+  return generateLogFrequencies(freqMin, freqMax, numPoints).filter((freq) => freq < sampleRate / 2);
+}
+
+function toPoints(freqs: number[], gains: number[], options: CurveOptions): Array<{ x: number; y: number }> {
+  const { width, height, freqMin = 20, freqMax = 20000, gainMin = -24, gainMax = 24 } = options;
+  return freqs.map((freq, i) => ({
+    x: freqToX(freq, width, freqMin, freqMax),
+    y: gainToY(Math.max(gainMin, Math.min(gainMax, gains[i])), height, gainMin, gainMax),
+  }));
+}
+
+/**
+ * Gain at each frequency of the EQ sum response, plus the measurement when given
+ */
+function responseDb(bands: EqBand[], measuredPoints: TargetPoint[] | null, freqs: number[], sampleRate: number): number[] {
+  const measuredDb = measuredPoints ? sampleTargetDb(measuredPoints, freqs) : null;
+  return freqs.map((freq, i) => sumResponseDb(freq, bands, sampleRate) + (measuredDb ? measuredDb[i] : 0));
+}
+
+function toPath(coords: Array<{ x: number; y: number }>): string {
+  return coords.map(({ x, y }, i) => `${i === 0 ? 'M' : 'L'} ${x} ${y}`).join(' ');
+}
+
+/**
+ * Generate SVG path for the target curve (or a measurement)
+ */
+export function generateTargetCurvePath(points: TargetPoint[], options: CurveOptions): string {
+  if (points.length < 2) {
+    return '';
+  }
+
+  const freqs = plotFrequencies(options);
+  return toPath(toPoints(freqs, sampleTargetDb(points, freqs), options));
+}
+
+/**
+ * Generate SVG path for a measurement with the EQ applied (measured + sum response)
+ */
+export function generateMeasuredWithEqPath(bands: EqBand[], measuredPoints: TargetPoint[], options: CurveOptions): string {
+  if (measuredPoints.length < 2) {
+    return '';
+  }
+
+  const { sampleRate = DEFAULT_SAMPLE_RATE } = options;
+  const freqs = plotFrequencies(options);
+  return toPath(toPoints(freqs, responseDb(bands, measuredPoints, freqs, sampleRate), options));
+}
+
+/**
+ * Deviation of the EQ sum response (or the measurement with the EQ applied) from the target
+ * The area runs along the response and back along the target; stats use unclamped values
+ */
+export function computeTargetDeviation(
+  bands: EqBand[],
+  points: TargetPoint[],
+  options: CurveOptions,
+  measuredPoints: TargetPoint[] | null = null
+): TargetDeviation | null {
+  if (points.length < 2) {
+    return null;
+  }
+
+  const { sampleRate = DEFAULT_SAMPLE_RATE } = options;
+  const freqs = plotFrequencies(options);
+  if (freqs.length === 0) {
+    return null;
+  }
+
+  const targetDb = sampleTargetDb(points, freqs);
+  const actualDb = responseDb(bands, measuredPoints, freqs, sampleRate);
+
+  let sumSquares = 0;
+  let maxAbsDb = 0;
+  for (let i = 0; i < freqs.length; i++) {
+    const deviation = actualDb[i] - targetDb[i];
+    sumSquares += deviation * deviation;
+    maxAbsDb = Math.max(maxAbsDb, Math.abs(deviation));
+  }
+
+  const outline = [...toPoints(freqs, actualDb, options), ...toPoints(freqs, targetDb, options).reverse()];
+  const areaPath = toPath(outline) + ' Z';
+
+  return { areaPath, rmsDb: Math.sqrt(sumSquares / freqs.length), maxAbsDb };
+}
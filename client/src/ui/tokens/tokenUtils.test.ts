@@ -4,6 +4,7 @@ import {
   formatTokenQ,
   qToSweepDeg,
   describeEllipseArcPath,
+  formatTokenDetail,
   shouldPlaceLabelsAbove,
   labelShiftFactor,
 } from './tokenUtils';
@@ -43,6 +44,17 @@ describe('formatTokenQ', () => {
   });
 });
 
+describe('formatTokenDetail', () => {
+  it('shows Q for types that have one and a short name otherwise', () => {
+    expect(formatTokenDetail({ enabled: true, type: 'Peaking', freq: 1000, gain: 0, q: 1.41 })).toBe('Q 1.4');
+    expect(
+      formatTokenDetail({ enabled: true, type: 'LinkwitzRileyHighPass', freq: 80, gain: 0, q: 1, order: 4 })
+    ).toBe('LR4');
+    expect(formatTokenDetail({ enabled: true, type: 'Tilt', freq: 620, gain: 3, q: 1 })).toBe('Tilt');
+    expect(formatTokenDetail({ enabled: true, type: 'LowPassFO', freq: 1000, gain: 0, q: 1 })).toBe('');
+  });
+});
+
 describe('qToSweepDeg', () => {
   it('maps minimum Q to minimum sweep', () => {
     expect(qToSweepDeg(0.1)).toBe(30);
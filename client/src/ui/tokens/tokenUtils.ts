@@ -2,6 +2,8 @@
  * Token label formatting and arc utilities for MVP-12
  */
 
+import { bandHasQ, type EqBand } from '../../dsp/filterResponse';
+
 /**
  * Format frequency for token label
  * 20-999 Hz → "150 Hz"
@@ -23,6 +25,35 @@ export function formatTokenQ(q: number): string {
   return `Q ${q.toFixed(1)}`;
 }
 
+/**
+ * Second token label line: the Q, or a short name for types without one
+ * "LR4", "BW3", "Tilt", "5-PEQ", "GEQ", "Free"; empty for first-order filters
+ */
+export function formatTokenDetail(band: EqBand): string {
+  if (bandHasQ(band.type)) {
+    return formatTokenQ(band.q);
+  }
+
+  switch (band.type) {
+    case 'LinkwitzRileyHighPass':
+    case 'LinkwitzRileyLowPass':
+      return `LR${band.order ?? ''}`;
+    case 'ButterworthHighPass':
+    case 'ButterworthLowPass':
+      return `BW${band.order ?? ''}`;
+    case 'Tilt':
+      return 'Tilt';
+    case 'FivePointPeq':
+      return '5-PEQ';
+    case 'GraphicEqualizer':
+      return 'GEQ';
+    case 'Free':
+      return 'Free';
+    default:
+      return '';
+  }
+}
+
 /**
  * Map Q value to arc sweep angle (degrees)
  * Low Q → small arc (30°)
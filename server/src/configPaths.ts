@@ -11,3 +11,19 @@ export function getConfigDir(): string {
 export function getConfigsDir(): string {
   return process.env.CONFIGS_DIR || join(getConfigDir(), 'configs');
 }
+
+export function getPresetHistoryDir(): string {
+  return process.env.PRESET_HISTORY_DIR || join(getConfigDir(), 'preset-history');
+}
+
+export function getCoefficientsDir(): string {
+  return process.env.COEFFICIENTS_DIR || join(getConfigDir(), 'coefficients');
+}
+
+export function getTargetsDir(): string {
+  return process.env.TARGETS_DIR || join(getConfigDir(), 'targets');
+}
+
+export function getMeasurementsDir(): string {
+  return process.env.MEASUREMENTS_DIR || join(getConfigDir(), 'measurements');
+}
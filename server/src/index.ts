@@ -14,6 +14,9 @@ import { registerVersionRoutes } from './routes/version.js';
 import { registerConfigRoutes } from './routes/config.js';
 import { registerStateRoutes } from './routes/state.js';
 import { registerConfigsRoutes } from './routes/configs.js';
+import { registerCoefficientsRoutes } from './routes/coefficients.js';
+import { registerTargetsRoutes } from './routes/targets.js';
+import { registerMeasurementsRoutes } from './routes/measurements.js';
 import { registerSettingsRoutes } from './routes/settings.js';
 
 // Load .env files in development only
@@ -50,6 +53,9 @@ const start = async () => {
     registerConfigRoutes(app);
     registerStateRoutes(app);
     registerConfigsRoutes(app);
+    registerCoefficientsRoutes(app);
+    registerTargetsRoutes(app);
+    registerMeasurementsRoutes(app);
     
     // Catch-all for unmatched /api/* routes to prevent static file shadowing
     // This ensures /api/* always returns JSON, never static files
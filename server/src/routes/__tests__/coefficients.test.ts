@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { promises as fs } from 'fs';
+import Fastify, { FastifyInstance } from 'fastify';
+import { registerCoefficientsRoutes } from '../coefficients.js';
+import { AppError } from '../../types/errors.js';
+
+const TEST_COEFFICIENTS_DIR = './test-coefficients-routes';
+
+describe('Coefficients endpoints', () => {
+  let app: FastifyInstance;
+  const originalEnv = process.env;
+
+  beforeAll(async () => {
+    process.env = { ...originalEnv, COEFFICIENTS_DIR: TEST_COEFFICIENTS_DIR };
+    app = Fastify({ logger: false });
+    app.setErrorHandler((error, request, reply) => {
+      if (error instanceof AppError) {
+        return reply.status(error.statusCode).send(error.toJSON());
+      }
+      return reply.status(error.statusCode || 500).send({ error: { message: error.message } });
+    });
+    registerCoefficientsRoutes(app);
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    process.env = originalEnv;
+    await fs.rm(TEST_COEFFICIENTS_DIR, { recursive: true, force: true });
+  });
+
+  it('should upload raw bytes, list and download the file', async () => {
+    const content = Buffer.from('1.0\n0.5\n0.25\n');
+
+    const upload = await app.inject({
+      method: 'PUT',
+      url: '/api/coefficients/sub.txt',
+      headers: { 'content-type': 'application/octet-stream' },
+      payload: content,
+    });
+    expect(upload.statusCode).toBe(200);
+    expect(JSON.parse(upload.body)).toMatchObject({ name: 'sub.txt', kind: 'text', size: content.length });
+
+    const list = await app.inject({ method: 'GET', url: '/api/coefficients' });
+    expect(JSON.parse(list.body).map((f: { name: string }) => f.name)).toEqual(['sub.txt']);
+
+    const download = await app.inject({ method: 'GET', url: '/api/coefficients/sub.txt' });
+    expect(download.statusCode).toBe(200);
+    expect(download.headers['content-type']).toBe('application/octet-stream');
+    expect(download.rawPayload).toEqual(content);
+
+    const removed = await app.inject({ method: 'DELETE', url: '/api/coefficients/sub.txt' });
+    expect(JSON.parse(removed.body)).toEqual({ success: true });
+  });
+
+  it('should reject invalid WAV uploads', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/api/coefficients/ir.wav',
+      headers: { 'content-type': 'application/octet-stream' },
+      payload: Buffer.from('nope'),
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error.code).toBe('ERR_COEFFICIENT_INVALID');
+  });
+
+  it('should return 404 for missing files', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/coefficients/missing.wav' });
+    expect(response.statusCode).toBe(404);
+  });
+});
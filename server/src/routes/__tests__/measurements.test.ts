@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { promises as fs } from 'fs';
+import Fastify, { FastifyInstance } from 'fastify';
+import { registerMeasurementsRoutes } from '../measurements.js';
+import { registerTargetsRoutes } from '../targets.js';
+import { AppError } from '../../types/errors.js';
+
+const TEST_MEASUREMENTS_DIR = './test-measurements-routes';
+
+describe('Measurements endpoints', () => {
+  let app: FastifyInstance;
+  const originalEnv = process.env;
+
+  beforeAll(async () => {
+    process.env = { ...originalEnv, MEASUREMENTS_DIR: TEST_MEASUREMENTS_DIR };
+    app = Fastify({ logger: false });
+    app.setErrorHandler((error, request, reply) => {
+      if (error instanceof AppError) {
+        return reply.status(error.statusCode).send(error.toJSON());
+      }
+      return reply.status(error.statusCode || 500).send({ error: { message: error.message } });
+    });
+    // Both register the text/csv parser
+    registerTargetsRoutes(app);
+    registerMeasurementsRoutes(app);
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    process.env = originalEnv;
+    await fs.rm(TEST_MEASUREMENTS_DIR, { recursive: true, force: true });
+  });
+
+  it('should upload CSV text, list and return the parsed points', async () => {
+    const upload = await app.inject({
+      method: 'PUT',
+      url: `/api/measurements/${encodeURIComponent('Sennheiser HD 600.csv')}`,
+      headers: { 'content-type': 'text/csv' },
+      payload: 'frequency,raw\n20,-3\n1000,0\n',
+    });
+    expect(upload.statusCode).toBe(200);
+    expect(JSON.parse(upload.body)).toMatchObject({ device: 'Sennheiser HD 600' });
+
+    const list = await app.inject({ method: 'GET', url: '/api/measurements' });
+    expect(JSON.parse(list.body).map((m: { device: string }) => m.device)).toEqual(['Sennheiser HD 600']);
+
+    const measurement = await app.inject({ method: 'GET', url: '/api/measurements/Sennheiser%20HD%20600.csv' });
+    expect(JSON.parse(measurement.body).points).toEqual([
+      { freq: 20, gainDb: -3 },
+      { freq: 1000, gainDb: 0 },
+    ]);
+
+    const removed = await app.inject({ method: 'DELETE', url: '/api/measurements/Sennheiser%20HD%20600.csv' });
+    expect(JSON.parse(removed.body)).toEqual({ success: true });
+  });
+
+  it('should return 404 for missing measurements', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/measurements/missing.csv' });
+    expect(response.statusCode).toBe(404);
+    expect(JSON.parse(response.body).error.code).toBe('ERR_MEASUREMENT_NOT_FOUND');
+  });
+});
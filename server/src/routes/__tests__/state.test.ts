@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { promises as fs } from 'fs';
+import Fastify, { FastifyInstance } from 'fastify';
+import { registerStateRoutes } from '../state.js';
+import { AppError } from '../../types/errors.js';
+
+const TEST_CONFIG_DIR = './test-state-routes';
+
+describe('State endpoints', () => {
+  let app: FastifyInstance;
+  const originalEnv = process.env;
+
+  beforeAll(async () => {
+    process.env = { ...originalEnv, CONFIG_DIR: TEST_CONFIG_DIR };
+    app = Fastify({ logger: false });
+    app.setErrorHandler((error, request, reply) => {
+      if (error instanceof AppError) {
+        return reply.status(error.statusCode).send(error.toJSON());
+      }
+      return reply.status(error.statusCode || 500).send({ error: { message: error.message } });
+    });
+    registerStateRoutes(app);
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    process.env = originalEnv;
+    await fs.rm(TEST_CONFIG_DIR, { recursive: true, force: true });
+  });
+
+  it('should create, list, rename and delete spectrum snapshots', async () => {
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/state/snapshots',
+      payload: { name: 'Flat', source: 'peak', color: '#ffcc00', binsDb: [-40, -30, -20] },
+    });
+    expect(created.statusCode).toBe(201);
+    const { id } = JSON.parse(created.body);
+
+    const renamed = await app.inject({
+      method: 'PUT',
+      url: `/api/state/snapshots/${id}`,
+      payload: { name: 'Flat (old)' },
+    });
+    expect(JSON.parse(renamed.body).name).toBe('Flat (old)');
+
+    const list = await app.inject({ method: 'GET', url: '/api/state/snapshots' });
+    expect(JSON.parse(list.body)).toEqual([
+      expect.objectContaining({ id, name: 'Flat (old)', source: 'peak', binsDb: [-40, -30, -20] }),
+    ]);
+
+    const removed = await app.inject({ method: 'DELETE', url: `/api/state/snapshots/${id}` });
+    expect(JSON.parse(removed.body)).toEqual({ success: true });
+
+    const missing = await app.inject({ method: 'DELETE', url: `/api/state/snapshots/${id}` });
+    expect(missing.statusCode).toBe(404);
+    expect(JSON.parse(missing.body).error.code).toBe('ERR_SNAPSHOT_NOT_FOUND');
+  });
+
+  it('should reject snapshots with an unknown source', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/state/snapshots',
+      payload: { name: 'x', source: 'sta', color: '#ffcc00', binsDb: [0, 0] },
+    });
+    expect(response.statusCode).toBe(400);
+  });
+});
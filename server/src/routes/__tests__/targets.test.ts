@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { promises as fs } from 'fs';
+import Fastify, { FastifyInstance } from 'fastify';
+import { registerTargetsRoutes } from '../targets.js';
+import { AppError } from '../../types/errors.js';
+
+const TEST_TARGETS_DIR = './test-targets-routes';
+
+describe('Targets endpoints', () => {
+  let app: FastifyInstance;
+  const originalEnv = process.env;
+
+  beforeAll(async () => {
+    process.env = { ...originalEnv, TARGETS_DIR: TEST_TARGETS_DIR };
+    app = Fastify({ logger: false });
+    app.setErrorHandler((error, request, reply) => {
+      if (error instanceof AppError) {
+        return reply.status(error.statusCode).send(error.toJSON());
+      }
+      return reply.status(error.statusCode || 500).send({ error: { message: error.message } });
+    });
+    registerTargetsRoutes(app);
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    process.env = originalEnv;
+    await fs.rm(TEST_TARGETS_DIR, { recursive: true, force: true });
+  });
+
+  it('should upload CSV text, list and return the parsed points', async () => {
+    const upload = await app.inject({
+      method: 'PUT',
+      url: '/api/targets/flat.csv',
+      headers: { 'content-type': 'text/csv' },
+      payload: 'frequency,raw\n20,0\n20000,0\n',
+    });
+    expect(upload.statusCode).toBe(200);
+    expect(JSON.parse(upload.body).points).toHaveLength(2);
+
+    const list = await app.inject({ method: 'GET', url: '/api/targets' });
+    expect(JSON.parse(list.body).map((t: { name: string }) => t.name)).toEqual(['flat.csv']);
+
+    const target = await app.inject({ method: 'GET', url: '/api/targets/flat.csv' });
+    expect(JSON.parse(target.body)).toEqual({
+      name: 'flat.csv',
+      points: [
+        { freq: 20, gainDb: 0 },
+        { freq: 20000, gainDb: 0 },
+      ],
+    });
+
+    const removed = await app.inject({ method: 'DELETE', url: '/api/targets/flat.csv' });
+    expect(JSON.parse(removed.body)).toEqual({ success: true });
+  });
+
+  it('should reject text that is not a curve', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/api/targets/notes.txt',
+      headers: { 'content-type': 'text/plain' },
+      payload: 'hello world',
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error.code).toBe('ERR_TARGET_INVALID');
+  });
+});
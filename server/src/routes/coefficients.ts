@@ -0,0 +1,39 @@
+import { FastifyInstance } from 'fastify';
+import { CoefficientsLibrary, MAX_COEFFICIENT_FILE_SIZE } from '../services/coefficientsLibrary.js';
+
+export function registerCoefficientsRoutes(app: FastifyInstance): void {
+  const coefficientsLibrary = new CoefficientsLibrary();
+
+  // Uploads are sent as the raw file bytes
+  app.addContentTypeParser('application/octet-stream', { parseAs: 'buffer' }, (request, body, done) => {
+    done(null, body);
+  });
+
+  // List impulse-response files
+  app.get('/api/coefficients', async (request, reply) => {
+    return await coefficientsLibrary.listFiles();
+  });
+
+  // Download a file (the client computes the IR's frequency response)
+  app.get('/api/coefficients/:name', async (request, reply) => {
+    const { name } = request.params as { name: string };
+    const data = await coefficientsLibrary.readFile(name);
+    return reply.type('application/octet-stream').send(data);
+  });
+
+  // Upload (or replace) a file
+  app.put('/api/coefficients/:name', {
+    bodyLimit: MAX_COEFFICIENT_FILE_SIZE,
+  }, async (request, reply) => {
+    const { name } = request.params as { name: string };
+    const body = Buffer.isBuffer(request.body) ? request.body : Buffer.alloc(0);
+    return await coefficientsLibrary.saveFile(name, body);
+  });
+
+  // Delete a file
+  app.delete('/api/coefficients/:name', async (request, reply) => {
+    const { name } = request.params as { name: string };
+    await coefficientsLibrary.deleteFile(name);
+    return { success: true };
+  });
+}
@@ -1,5 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import { ConfigStore } from '../services/configStore.js';
+import { stringifyCamillaYaml } from '../services/camillaYaml.js';
+import { assertValidCamillaConfig } from '../services/camillaConfigValidation.js';
 
 export function registerConfigRoutes(app: FastifyInstance): void {
   const configStore = new ConfigStore();
@@ -26,7 +28,30 @@ export function registerConfigRoutes(app: FastifyInstance): void {
       },
     },
   }, async (request, reply) => {
+    assertValidCamillaConfig(request.body);
     await configStore.writeConfig(request.body);
     return { success: true };
   });
+
+  // Convert a CamillaDSP config (e.g. the running one) to a camilladsp .yml download
+  app.post('/api/config/yaml', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['devices'],
+        properties: {
+          devices: { type: 'object' },
+          filters: { type: 'object' },
+          mixers: { type: 'object' },
+          pipeline: { type: 'array' },
+          processors: { type: 'object' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    return reply
+      .type('application/yaml; charset=utf-8')
+      .header('Content-Disposition', 'attachment; filename="camilladsp.yml"')
+      .send(stringifyCamillaYaml(request.body as Record<string, unknown>));
+  });
 }
@@ -43,4 +43,110 @@ export function registerConfigsRoutes(app: FastifyInstance): void {
     await configsLibrary.saveConfig(id, request.body as PipelineConfig);
     return { success: true };
   });
+
+  // Import an EQ preset (converted client-side, e.g. from Equalizer APO) as a new user preset
+  app.post('/api/configs/import/eq', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['presetType', 'name', 'preampDb', 'bands'],
+        properties: {
+          presetType: { type: 'string', enum: ['eq'] },
+          schemaVersion: { type: 'number' },
+          name: { type: 'string' },
+          device: { type: 'object' },
+          preampDb: { type: 'number' },
+          bands: { type: 'array', items: { type: 'object' } },
+          source: { type: 'string' },
+          readOnly: { type: 'boolean' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const id = await configsLibrary.importEqPreset(request.body);
+    return { success: true, id };
+  });
+
+  // Import a camilladsp YAML config as a new pipeline preset
+  app.post('/api/configs/import/yaml', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['name', 'yaml'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          yaml: { type: 'string' },
+        },
+        additionalProperties: false,
+      },
+    },
+  }, async (request, reply) => {
+    const { name, yaml } = request.body as { name: string; yaml: string };
+    const id = await configsLibrary.importCamillaYaml(name, yaml);
+    return { success: true, id };
+  });
+
+  // Delete config by ID (read-only presets are refused)
+  app.delete('/api/configs/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    await configsLibrary.deleteConfig(id);
+    return { success: true };
+  });
+
+  // Rename config (moves it to the ID derived from the new name)
+  app.post('/api/configs/:id/rename', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['newName'],
+        properties: {
+          newName: { type: 'string', minLength: 1 },
+        },
+        additionalProperties: false,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { newName } = request.body as { newName: string };
+    const newId = await configsLibrary.renameConfig(id, newName);
+    return { success: true, id: newId };
+  });
+
+  // Duplicate config under a new name (works for read-only presets too)
+  app.post('/api/configs/:id/duplicate', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['newName'],
+        properties: {
+          newName: { type: 'string', minLength: 1 },
+        },
+        additionalProperties: false,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { newName } = request.body as { newName: string };
+    const newId = await configsLibrary.duplicateConfig(id, newName);
+    return { success: true, id: newId };
+  });
+
+  // List saved revisions of a config (newest first)
+  app.get('/api/configs/:id/revisions', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    return await configsLibrary.listRevisions(id);
+  });
+
+  // Get a specific revision (metadata + config in pipeline-config format)
+  app.get('/api/configs/:id/revisions/:revisionId', async (request, reply) => {
+    const { id, revisionId } = request.params as { id: string; revisionId: string };
+    return await configsLibrary.getRevision(id, revisionId);
+  });
+
+  // Restore a revision (current content is archived first)
+  app.post('/api/configs/:id/revisions/:revisionId/restore', async (request, reply) => {
+    const { id, revisionId } = request.params as { id: string; revisionId: string };
+    await configsLibrary.restoreRevision(id, revisionId);
+    return { success: true };
+  });
 }
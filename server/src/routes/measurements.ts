@@ -0,0 +1,40 @@
+import { FastifyInstance } from 'fastify';
+import { MeasurementsLibrary, MAX_MEASUREMENT_FILE_SIZE } from '../services/measurementsLibrary.js';
+
+export function registerMeasurementsRoutes(app: FastifyInstance): void {
+  const measurementsLibrary = new MeasurementsLibrary();
+
+  // Uploads are sent as the file text (the targets routes share the text/csv parser)
+  if (!app.hasContentTypeParser('text/csv')) {
+    app.addContentTypeParser('text/csv', { parseAs: 'string' }, (request, body, done) => {
+      done(null, body);
+    });
+  }
+
+  // List measurements (each with the device name presets link to)
+  app.get('/api/measurements', async (request, reply) => {
+    return await measurementsLibrary.listMeasurements();
+  });
+
+  // Parsed measurement points
+  app.get('/api/measurements/:name', async (request, reply) => {
+    const { name } = request.params as { name: string };
+    return await measurementsLibrary.readMeasurement(name);
+  });
+
+  // Upload (or replace) a measurement
+  app.put('/api/measurements/:name', {
+    bodyLimit: MAX_MEASUREMENT_FILE_SIZE,
+  }, async (request, reply) => {
+    const { name } = request.params as { name: string };
+    const body = typeof request.body === 'string' ? request.body : '';
+    return await measurementsLibrary.saveMeasurement(name, body);
+  });
+
+  // Delete a measurement
+  app.delete('/api/measurements/:name', async (request, reply) => {
+    const { name } = request.params as { name: string };
+    await measurementsLibrary.deleteMeasurement(name);
+    return { success: true };
+  });
+}
@@ -1,5 +1,10 @@
 import { FastifyInstance } from 'fastify';
 import { ConfigStore } from '../services/configStore.js';
+import {
+  SpectrumSnapshotStore,
+  CreateSpectrumSnapshotInput,
+  UpdateSpectrumSnapshotInput,
+} from '../services/spectrumSnapshots.js';
 import { getConfigDir } from '../configPaths.js';
 
 export function registerStateRoutes(app: FastifyInstance): void {
@@ -7,6 +12,7 @@ export function registerStateRoutes(app: FastifyInstance): void {
     configDir: getConfigDir(),
     configFileName: 'latest_dsp_state.json',
   });
+  const snapshotStore = new SpectrumSnapshotStore({ configDir: getConfigDir() });
 
   // Get latest DSP state
   app.get('/api/state/latest', async (request, reply) => {
@@ -33,4 +39,51 @@ export function registerStateRoutes(app: FastifyInstance): void {
     await latestStateStore.writeConfig(request.body);
     return { success: true };
   });
+
+  // List frozen analyzer traces
+  app.get('/api/state/snapshots', async (request, reply) => {
+    return await snapshotStore.listSnapshots();
+  });
+
+  // Freeze an analyzer trace as a named snapshot
+  app.post('/api/state/snapshots', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['name', 'source', 'color', 'binsDb'],
+        properties: {
+          name: { type: 'string' },
+          source: { type: 'string', enum: ['lta', 'peak'] },
+          color: { type: 'string' },
+          binsDb: { type: 'array', items: { type: 'number' } },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const snapshot = await snapshotStore.createSnapshot(request.body as CreateSpectrumSnapshotInput);
+    return reply.status(201).send(snapshot);
+  });
+
+  // Rename or recolor a snapshot
+  app.put('/api/state/snapshots/:id', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          color: { type: 'string' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    return await snapshotStore.updateSnapshot(id, request.body as UpdateSpectrumSnapshotInput);
+  });
+
+  // Delete a snapshot
+  app.delete('/api/state/snapshots/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    await snapshotStore.deleteSnapshot(id);
+    return { success: true };
+  });
 }
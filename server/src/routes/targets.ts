@@ -0,0 +1,41 @@
+import { FastifyInstance } from 'fastify';
+import { TargetCurvesLibrary, MAX_TARGET_FILE_SIZE } from '../services/targetCurvesLibrary.js';
+
+export function registerTargetsRoutes(app: FastifyInstance): void {
+  const targetCurvesLibrary = new TargetCurvesLibrary();
+
+  // Uploads are sent as the file text (text/plain is parsed by Fastify itself;
+  // the measurements routes share the text/csv parser)
+  if (!app.hasContentTypeParser('text/csv')) {
+    app.addContentTypeParser('text/csv', { parseAs: 'string' }, (request, body, done) => {
+      done(null, body);
+    });
+  }
+
+  // List target curve files
+  app.get('/api/targets', async (request, reply) => {
+    return await targetCurvesLibrary.listTargets();
+  });
+
+  // Parsed curve points
+  app.get('/api/targets/:name', async (request, reply) => {
+    const { name } = request.params as { name: string };
+    return await targetCurvesLibrary.readTarget(name);
+  });
+
+  // Upload (or replace) a target curve
+  app.put('/api/targets/:name', {
+    bodyLimit: MAX_TARGET_FILE_SIZE,
+  }, async (request, reply) => {
+    const { name } = request.params as { name: string };
+    const body = typeof request.body === 'string' ? request.body : '';
+    return await targetCurvesLibrary.saveTarget(name, body);
+  });
+
+  // Delete a target curve
+  app.delete('/api/targets/:name', async (request, reply) => {
+    const { name } = request.params as { name: string };
+    await targetCurvesLibrary.deleteTarget(name);
+    return { success: true };
+  });
+}
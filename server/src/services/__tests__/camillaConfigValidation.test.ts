@@ -0,0 +1,149 @@
+import { describe, it, expect } from '@jest/globals';
+import { validateCamillaConfig, assertValidCamillaConfig } from '../camillaConfigValidation';
+import { AppError, ErrorCode } from '../../types/errors';
+
+function makeConfig(): any {
+  return {
+    devices: {
+      samplerate: 48000,
+      chunksize: 1024,
+      capture: { type: 'Stdin', channels: 2, format: 'S32LE' },
+      playback: { type: 'Stdout', channels: 1, format: 'S32LE' },
+    },
+    filters: {
+      eq1: { type: 'Biquad', parameters: { type: 'Peaking', freq: 100, gain: 3, q: 1 } },
+    },
+    mixers: {
+      mono: {
+        channels: { in: 2, out: 1 },
+        mapping: [{ dest: 0, sources: [{ channel: 0, gain: -6 }, { channel: 1, gain: -6 }] }],
+      },
+    },
+    processors: {},
+    pipeline: [
+      { type: 'Filter', channels: [0, 1], names: ['eq1'] },
+      { type: 'Mixer', name: 'mono' },
+    ],
+  };
+}
+
+describe('camillaConfigValidation', () => {
+  it('accepts a valid config', () => {
+    expect(validateCamillaConfig(makeConfig())).toEqual([]);
+  });
+
+  it('accepts the legacy single channel Filter step and missing optional sections', () => {
+    const config = makeConfig();
+    config.pipeline = [{ type: 'Filter', channel: 0, names: ['eq1'] }];
+    config.devices.playback.channels = 2;
+    delete config.mixers;
+    delete config.processors;
+
+    expect(validateCamillaConfig(config)).toEqual([]);
+  });
+
+  it('reports undefined pipeline references by path', () => {
+    const config = makeConfig();
+    config.pipeline.push(
+      { type: 'Filter', channels: [0], names: ['eq1', 'missing'] },
+      { type: 'Processor', name: 'comp' },
+      { type: 'Mixer', name: 'toString' }
+    );
+
+    expect(validateCamillaConfig(config)).toEqual([
+      { path: 'pipeline[2].names[1]', message: 'Undefined filter "missing"' },
+      { path: 'pipeline[3].name', message: 'Undefined processor "comp"' },
+      { path: 'pipeline[4].name', message: 'Undefined mixer "toString"' },
+    ]);
+  });
+
+  it('reports device, filter and mixer shape errors', () => {
+    const config = makeConfig();
+    config.devices.samplerate = '48k';
+    delete config.devices.playback;
+    config.filters.bad = { parameters: [] };
+    config.mixers.mono.channels.out = 0;
+    config.mixers.mono.mapping[0].sources[1].channel = -1;
+
+    expect(validateCamillaConfig(config).map((e) => e.path)).toEqual([
+      'devices.samplerate',
+      'devices.playback',
+      'filters.bad.type',
+      'filters.bad.parameters',
+      'mixers.mono.channels.out',
+      'mixers.mono.mapping[0].sources[1].channel',
+    ]);
+  });
+
+  it('checks filter and processor parameters against their type', () => {
+    const config = makeConfig();
+    config.filters.eq1.parameters = { type: 'Peaking', freq: 30000, gain: '3.5', q: 1, bandwidth: 1 };
+    config.filters.shelf = { type: 'Biquad', parameters: { type: 'Lowshelf', freq: 100, gain: 3, slope: 20 } };
+    config.filters.delay = { type: 'Delay', parameters: { delay: -1, unit: 'seconds' } };
+    config.filters.odd = { type: 'Biquad', parameters: { type: 'Wobble' } };
+    config.processors.comp = {
+      type: 'Compressor',
+      parameters: { channels: 2, attack: 0, release: 1, threshold: -20, factor: 4, process_channels: [2] },
+    };
+
+    expect(validateCamillaConfig(config)).toEqual([
+      { path: 'filters.eq1.parameters.freq', message: 'Must be below 24000 Hz (half the sample rate)' },
+      { path: 'filters.eq1.parameters.bandwidth', message: 'Exactly one of q, bandwidth must be set' },
+      { path: 'filters.shelf.parameters.slope', message: 'Must be at most 12' },
+      { path: 'filters.delay.parameters.delay', message: 'Must be at least 0' },
+      { path: 'filters.delay.parameters.unit', message: 'Must be one of: ms, mm, samples' },
+      { path: 'filters.odd.parameters.type', message: 'Unknown Biquad type "Wobble"' },
+      { path: 'processors.comp.parameters.attack', message: 'Must be greater than 0' },
+      {
+        path: 'processors.comp.parameters.process_channels[0]',
+        message: 'Channel 2 does not exist (processor has 2 channels)',
+      },
+    ]);
+  });
+
+  it('brackets definition names that contain path characters', () => {
+    const config = makeConfig();
+    config.filters['eq.low'] = { type: 'Biquad', parameters: { type: 'Peaking', freq: 0, gain: 3, q: 1 } };
+    config.pipeline[0].names.push('eq.low');
+
+    expect(validateCamillaConfig(config)).toEqual([
+      { path: 'filters["eq.low"].parameters.freq', message: 'Must be greater than 0' },
+    ]);
+  });
+
+  it('follows the channel count through mixers to playback', () => {
+    const config = makeConfig();
+    config.pipeline.push({ type: 'Filter', channels: [1], names: ['eq1'] }, { type: 'Mixer', name: 'mono' });
+    config.devices.playback.channels = 2;
+
+    expect(validateCamillaConfig(config)).toEqual([
+      { path: 'pipeline[2].channels[0]', message: 'Channel 1 does not exist (1 channels at this point)' },
+      { path: 'pipeline[3].name', message: 'Mixer "mono" expects 2 input channels but receives 1' },
+      { path: 'devices.playback.channels', message: 'Pipeline outputs 1 channels but playback expects 2' },
+    ]);
+  });
+
+  it('skips bypassed steps in the channel flow', () => {
+    const config = makeConfig();
+    config.pipeline[1].bypassed = true;
+    config.devices.playback.channels = 2;
+
+    expect(validateCamillaConfig(config)).toEqual([]);
+  });
+
+  it('throws ERR_CONFIG_VALIDATION with all errors in details', () => {
+    const config = makeConfig();
+    config.pipeline[0].names = ['nope'];
+
+    try {
+      assertValidCamillaConfig(config);
+      throw new Error('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AppError);
+      expect((error as AppError).code).toBe(ErrorCode.ERR_CONFIG_VALIDATION);
+      expect((error as AppError).details).toEqual({
+        errors: [{ path: 'pipeline[0].names[0]', message: 'Undefined filter "nope"' }],
+      });
+    }
+  });
+});
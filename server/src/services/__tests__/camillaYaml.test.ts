@@ -0,0 +1,162 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCamillaYaml, stringifyCamillaYaml, YamlParseError } from '../camillaYaml';
+import { ErrorCode } from '../../types/errors';
+
+const sampleConfig = {
+  devices: {
+    samplerate: 48000,
+    chunksize: 1024,
+    queuelimit: 4,
+    enable_rate_adjust: false,
+    capture: { type: 'Alsa', channels: 2, device: 'hw:Loopback,1', format: 'S32LE' },
+    playback: { type: 'Alsa', channels: 2, device: 'hw:0', format: 'S32LE' },
+  },
+  filters: {
+    Filter01: { type: 'Biquad', parameters: { type: 'Peaking', freq: 100, gain: -3.5, q: 0.7 } },
+    'bass boost': { type: 'Biquad', description: null, parameters: { type: 'Lowshelf', freq: 105, gain: 6, slope: 12 } },
+  },
+  mixers: {
+    preamp: {
+      channels: { in: 2, out: 2 },
+      mapping: [
+        { dest: 0, sources: [{ channel: 0, gain: -3, inverted: false }] },
+        { dest: 1, sources: [{ channel: 1, gain: -3, inverted: false }] },
+      ],
+    },
+  },
+  processors: {},
+  pipeline: [
+    { type: 'Mixer', name: 'preamp' },
+    { type: 'Filter', channels: [0, 1], names: ['Filter01', 'bass boost'], bypassed: false },
+  ],
+  title: 'Living room',
+};
+
+describe('camillaYaml', () => {
+  describe('stringifyCamillaYaml', () => {
+    it('writes camilladsp section order with block style', () => {
+      const yaml = stringifyCamillaYaml(sampleConfig);
+      const lines = yaml.split('\n');
+
+      expect(lines[0]).toBe('---');
+      expect(lines[1]).toBe('title: Living room');
+      expect(lines[2]).toBe('devices:');
+      expect(yaml).toContain('  samplerate: 48000\n');
+      expect(yaml).toContain('    device: "hw:Loopback,1"\n');
+      expect(yaml).toContain('  bass boost:\n');
+      expect(yaml).toContain('processors: {}\n');
+      expect(yaml).toContain('pipeline:\n  - type: Mixer\n    name: preamp\n');
+      expect(yaml).toContain('    channels: [0, 1]\n');
+    });
+
+    it('quotes strings that would otherwise read as other types', () => {
+      const yaml = stringifyCamillaYaml({ devices: {}, a: 'true', b: '48000', c: '', d: '-x' });
+
+      expect(yaml).toContain('a: "true"');
+      expect(yaml).toContain('b: "48000"');
+      expect(yaml).toContain('c: ""');
+      expect(yaml).toContain('d: "-x"');
+    });
+
+    it('round-trips strings that look like special scalars', () => {
+      const strings = ['.inf', '-.inf', '.NaN', 'null', 'Null', '~', '1e3', '.5', '0x1F', '+12', 'off', 'Yes'];
+      const config = { devices: {}, ...Object.fromEntries(strings.map((text, i) => [`s${i}`, text])) };
+
+      expect(parseCamillaYaml(stringifyCamillaYaml(config))).toEqual(config);
+      expect(parseCamillaYaml(stringifyCamillaYaml({ '.inf': 1, '1.0': 2 }))).toEqual({ '.inf': 1, '1.0': 2 });
+    });
+
+    it('round-trips through parseCamillaYaml', () => {
+      expect(parseCamillaYaml(stringifyCamillaYaml(sampleConfig))).toEqual(sampleConfig);
+    });
+  });
+
+  describe('parseCamillaYaml', () => {
+    it('parses a hand-written camilladsp config', () => {
+      const yaml = [
+        '---',
+        '# Example config',
+        'devices:',
+        '  samplerate: 44100',
+        '  chunksize: 512',
+        '  capture:',
+        '    type: Stdin',
+        '    channels: 2',
+        "    format: 'S16LE'",
+        '  playback: {type: Stdout, channels: 2, format: S16LE}  # inline',
+        'filters:',
+        '  lowpass:',
+        '    type: Biquad',
+        '    parameters:',
+        '      type: Lowpass',
+        '      freq: 1e3',
+        '      q: .707',
+        'pipeline:',
+        '- type: Filter',
+        '  channels:',
+        '    - 0',
+        '    - 1',
+        '  names: [',
+        '    lowpass,',
+        '  ]',
+        '  description: ~',
+      ].join('\n');
+
+      expect(parseCamillaYaml(yaml)).toEqual({
+        devices: {
+          samplerate: 44100,
+          chunksize: 512,
+          capture: { type: 'Stdin', channels: 2, format: 'S16LE' },
+          playback: { type: 'Stdout', channels: 2, format: 'S16LE' },
+        },
+        filters: {
+          lowpass: { type: 'Biquad', parameters: { type: 'Lowpass', freq: 1000, q: 0.707 } },
+        },
+        pipeline: [{ type: 'Filter', channels: [0, 1], names: ['lowpass'], description: null }],
+      });
+    });
+
+    it('supports block scalars and quoted keys', () => {
+      const yaml = [
+        'description: |',
+        '  Line one',
+        '',
+        '  # not a comment',
+        'notes: >-',
+        '  folded',
+        '  text',
+        '"odd key": \'it\'\'s\'',
+      ].join('\n');
+
+      expect(parseCamillaYaml(yaml)).toEqual({
+        description: 'Line one\n\n# not a comment\n',
+        notes: 'folded text',
+        'odd key': "it's",
+      });
+    });
+
+    it('reports the line of a syntax error', () => {
+      expect(() => parseCamillaYaml('devices:\n  samplerate: 48000\n   chunksize: 1024')).toThrow(YamlParseError);
+
+      try {
+        parseCamillaYaml('filters:\n  a: [1, 2\n');
+      } catch (error) {
+        expect((error as YamlParseError).line).toBe(2);
+      }
+    });
+
+    it('rejects anchors, duplicate keys and tab indentation', () => {
+      expect(() => parseCamillaYaml('a: &x 1\nb: *x')).toThrow(/Anchors/);
+      expect(() => parseCamillaYaml('a: 1\na: 2')).toThrow(/Duplicate key "a" \(line 2\)/);
+      expect(() => parseCamillaYaml('a:\n\tb: 1')).toThrow(/Tabs/);
+    });
+
+    it('converts to an AppError with the line in details', () => {
+      const appError = new YamlParseError('Unexpected content', 7).toAppError();
+
+      expect(appError.code).toBe(ErrorCode.ERR_CONFIG_INVALID_YAML);
+      expect(appError.statusCode).toBe(400);
+      expect(appError.details).toEqual({ line: 7 });
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { CoefficientsLibrary, parseWavInfo } from '../coefficientsLibrary';
+import { ErrorCode } from '../../types/errors';
+
+const TEST_COEFFICIENTS_DIR = './test-coefficients';
+
+/**
+ * Minimal WAV file: fmt chunk (optionally preceded by a LIST chunk) + data chunk
+ */
+function makeWav(samples: number[], { channels = 1, sampleRate = 48000, float = true, list = false } = {}): Buffer {
+  const bits = float ? 32 : 16;
+  const data = Buffer.alloc(samples.length * (bits / 8));
+  samples.forEach((sample, i) => {
+    if (float) data.writeFloatLE(sample, i * 4);
+    else data.writeInt16LE(Math.round(sample * 32767), i * 2);
+  });
+
+  const fmt = Buffer.alloc(16);
+  fmt.writeUInt16LE(float ? 3 : 1, 0);
+  fmt.writeUInt16LE(channels, 2);
+  fmt.writeUInt32LE(sampleRate, 4);
+  fmt.writeUInt32LE(sampleRate * channels * (bits / 8), 8);
+  fmt.writeUInt16LE(channels * (bits / 8), 12);
+  fmt.writeUInt16LE(bits, 14);
+
+  const chunk = (id: string, body: Buffer) => {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, 'ascii');
+    header.writeUInt32LE(body.length, 4);
+    return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+  };
+
+  const chunks = Buffer.concat([
+    ...(list ? [chunk('LIST', Buffer.from('INFOabc'))] : []),
+    chunk('fmt ', fmt),
+    chunk('data', data),
+  ]);
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'ascii');
+  riff.writeUInt32LE(4 + chunks.length, 4);
+  riff.write('WAVE', 8, 'ascii');
+  return Buffer.concat([riff, chunks]);
+}
+
+describe('parseWavInfo', () => {
+  it('should read format and frame count', () => {
+    expect(parseWavInfo(makeWav([1, 0, 0, 0], { channels: 2 }))).toEqual({
+      channels: 2,
+      sampleRate: 48000,
+      bitsPerSample: 32,
+      sampleFormat: 'float',
+      frames: 2,
+    });
+  });
+
+  it('should skip unknown chunks (odd sizes are padded)', () => {
+    const info = parseWavInfo(makeWav([0.5, 0.25, 0], { float: false, sampleRate: 44100, list: true }));
+    expect(info).toMatchObject({ sampleFormat: 'int', bitsPerSample: 16, sampleRate: 44100, frames: 3 });
+  });
+
+  it('should reject non-WAV data', () => {
+    expect(() => parseWavInfo(Buffer.from('0.5\n0.25\n'))).toThrow('Invalid WAV file: missing RIFF/WAVE header');
+  });
+});
+
+describe('CoefficientsLibrary', () => {
+  let library: CoefficientsLibrary;
+
+  beforeEach(() => {
+    library = new CoefficientsLibrary({ coefficientsDir: TEST_COEFFICIENTS_DIR });
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_COEFFICIENTS_DIR, { recursive: true, force: true });
+  });
+
+  it('should return empty list when the directory does not exist', async () => {
+    expect(await library.listFiles()).toEqual([]);
+  });
+
+  it('should save, list, read and delete files', async () => {
+    const wav = makeWav([1, 0.5, 0.25]);
+    const saved = await library.saveFile('room.wav', wav);
+    await library.saveFile('sub.txt', Buffer.from('1.0\n0.5\n'));
+
+    expect(saved).toMatchObject({
+      name: 'room.wav',
+      path: join(resolve(TEST_COEFFICIENTS_DIR), 'room.wav'),
+      size: wav.length,
+      kind: 'wav',
+      wav: { channels: 1, frames: 3 },
+    });
+
+    const files = await library.listFiles();
+    expect(files.map((f) => [f.name, f.kind])).toEqual([
+      ['room.wav', 'wav'],
+      ['sub.txt', 'text'],
+    ]);
+    expect(files[0].wav?.frames).toBe(3);
+
+    expect(await library.readFile('sub.txt')).toEqual(Buffer.from('1.0\n0.5\n'));
+
+    await library.deleteFile('sub.txt');
+    expect((await library.listFiles()).map((f) => f.name)).toEqual(['room.wav']);
+  });
+
+  it('should reject path traversal and unknown extensions', async () => {
+    for (const name of ['../evil.wav', 'a/b.wav', '..wav', 'notes.md', '.hidden.wav']) {
+      await expect(library.saveFile(name, Buffer.from('1'))).rejects.toMatchObject({
+        code: ErrorCode.ERR_BAD_REQUEST,
+        statusCode: 400,
+      });
+    }
+  });
+
+  it('should reject empty files and broken WAV files', async () => {
+    await expect(library.saveFile('empty.raw', Buffer.alloc(0))).rejects.toMatchObject({
+      code: ErrorCode.ERR_COEFFICIENT_INVALID,
+    });
+    await expect(library.saveFile('broken.wav', Buffer.from('not a wav'))).rejects.toMatchObject({
+      code: ErrorCode.ERR_COEFFICIENT_INVALID,
+      statusCode: 400,
+    });
+  });
+
+  it('should throw NOT_FOUND for missing files', async () => {
+    await expect(library.readFile('missing.wav')).rejects.toMatchObject({
+      code: ErrorCode.ERR_COEFFICIENT_NOT_FOUND,
+      statusCode: 404,
+    });
+    await expect(library.deleteFile('missing.wav')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -5,6 +5,19 @@ import { ConfigsLibrary, type PipelineConfig } from '../configsLibrary';
 import { AppError, ErrorCode } from '../../types/errors';
 
 const TEST_CONFIGS_DIR = './test-configs-lib';
+const TEST_HISTORY_DIR = './test-configs-lib-history';
+
+function makeEqPreset(name: string, provenance: { source: 'autoeq' | 'user'; readOnly: boolean }) {
+  return {
+    presetType: 'eq',
+    schemaVersion: 1,
+    name,
+    device: { category: 'headphones', manufacturer: 'Test', model: name },
+    preampDb: -3,
+    bands: [{ type: 'Peaking', freqHz: 1000, gainDb: 2, q: 1, enabled: true }],
+    ...provenance,
+  };
+}
 
 describe('ConfigsLibrary', () => {
   let configsLibrary: ConfigsLibrary;
@@ -12,13 +25,14 @@ describe('ConfigsLibrary', () => {
   beforeEach(async () => {
     // Create test directory
     await fs.mkdir(TEST_CONFIGS_DIR, { recursive: true });
-    configsLibrary = new ConfigsLibrary({ configsDir: TEST_CONFIGS_DIR });
+    configsLibrary = new ConfigsLibrary({ configsDir: TEST_CONFIGS_DIR, historyDir: TEST_HISTORY_DIR });
   });
 
   afterEach(async () => {
     // Clean up test directory recursively
     try {
       await fs.rm(TEST_CONFIGS_DIR, { recursive: true, force: true });
+      await fs.rm(TEST_HISTORY_DIR, { recursive: true, force: true });
     } catch {
       // Ignore cleanup errors
     }
@@ -358,6 +372,351 @@ describe('ConfigsLibrary', () => {
         statusCode: 404,
       });
     });
+
+    it('should refuse to delete read-only presets', async () => {
+      await fs.mkdir(join(TEST_CONFIGS_DIR, 'autoeq'), { recursive: true });
+      await fs.writeFile(
+        join(TEST_CONFIGS_DIR, 'autoeq', 'Locked.json'),
+        JSON.stringify(makeEqPreset('Locked', { source: 'autoeq', readOnly: true }))
+      );
+
+      await expect(configsLibrary.deleteConfig('autoeq--locked')).rejects.toMatchObject({
+        code: ErrorCode.ERR_BAD_REQUEST,
+        statusCode: 403,
+      });
+
+      const files = await fs.readdir(join(TEST_CONFIGS_DIR, 'autoeq'));
+      expect(files).toContain('Locked.json');
+    });
+  });
+
+  describe('renameConfig', () => {
+    it('should move config to the ID derived from the new name', async () => {
+      await fs.writeFile(
+        join(TEST_CONFIGS_DIR, 'Old Name.json'),
+        JSON.stringify({ configName: 'Old Name', filterArray: [] })
+      );
+
+      const newId = await configsLibrary.renameConfig('old-name', 'New Name');
+
+      expect(newId).toBe('new-name');
+      const files = await fs.readdir(TEST_CONFIGS_DIR);
+      expect(files).not.toContain('Old Name.json');
+      expect(files).toContain('new name.json');
+
+      const renamed = await configsLibrary.getConfig('new-name');
+      expect(renamed.configName).toBe('New Name');
+    });
+
+    it('should rewrite in place when only the display name changes', async () => {
+      await fs.writeFile(
+        join(TEST_CONFIGS_DIR, 'My Preset.json'),
+        JSON.stringify({ configName: 'My Preset', filterArray: [] })
+      );
+
+      const newId = await configsLibrary.renameConfig('my-preset', 'MY PRESET');
+
+      expect(newId).toBe('my-preset');
+      const files = await fs.readdir(TEST_CONFIGS_DIR);
+      expect(files).toEqual(['My Preset.json']);
+      const renamed = await configsLibrary.getConfig('my-preset');
+      expect(renamed.configName).toBe('MY PRESET');
+    });
+
+    it('should update the name field of user EQ presets', async () => {
+      await fs.writeFile(
+        join(TEST_CONFIGS_DIR, 'User EQ.json'),
+        JSON.stringify(makeEqPreset('User EQ', { source: 'user', readOnly: false }))
+      );
+
+      await configsLibrary.renameConfig('user-eq', 'Renamed EQ');
+
+      const content = await fs.readFile(join(TEST_CONFIGS_DIR, 'renamed eq.json'), 'utf-8');
+      const saved = JSON.parse(content);
+      expect(saved.presetType).toBe('eq');
+      expect(saved.name).toBe('Renamed EQ');
+    });
+
+    it('should throw ALREADY_EXISTS when target ID is taken', async () => {
+      await fs.writeFile(join(TEST_CONFIGS_DIR, 'A.json'), JSON.stringify({ configName: 'A', filterArray: [] }));
+      await fs.writeFile(join(TEST_CONFIGS_DIR, 'B.json'), JSON.stringify({ configName: 'B', filterArray: [] }));
+
+      await expect(configsLibrary.renameConfig('a', 'B')).rejects.toMatchObject({
+        code: ErrorCode.ERR_CONFIG_ALREADY_EXISTS,
+        statusCode: 409,
+      });
+    });
+
+    it('should refuse to rename read-only presets', async () => {
+      await fs.writeFile(
+        join(TEST_CONFIGS_DIR, 'Locked.json'),
+        JSON.stringify(makeEqPreset('Locked', { source: 'autoeq', readOnly: true }))
+      );
+
+      await expect(configsLibrary.renameConfig('locked', 'Unlocked')).rejects.toMatchObject({
+        statusCode: 403,
+      });
+    });
+
+    it('should reject names containing path separators', async () => {
+      await fs.writeFile(join(TEST_CONFIGS_DIR, 'A.json'), JSON.stringify({ configName: 'A', filterArray: [] }));
+
+      await expect(configsLibrary.renameConfig('a', '../escape')).rejects.toMatchObject({
+        code: ErrorCode.ERR_BAD_REQUEST,
+        statusCode: 400,
+      });
+    });
+
+    it('should throw NOT_FOUND for non-existent config', async () => {
+      await expect(configsLibrary.renameConfig('missing', 'Other')).rejects.toMatchObject({
+        code: ErrorCode.ERR_CONFIG_NOT_FOUND,
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('duplicateConfig', () => {
+    it('should copy a pipeline config under the new name', async () => {
+      const config: PipelineConfig = {
+        configName: 'Original',
+        filterArray: [{ Filter01: { type: 'Peaking', freq: 1000, gain: 3, q: 1 } }],
+      };
+      await fs.writeFile(join(TEST_CONFIGS_DIR, 'Original.json'), JSON.stringify(config));
+
+      const newId = await configsLibrary.duplicateConfig('original', 'Original Copy');
+
+      expect(newId).toBe('original-copy');
+      const original = await configsLibrary.getConfig('original');
+      const copy = await configsLibrary.getConfig('original-copy');
+      expect(original.configName).toBe('Original');
+      expect(copy.configName).toBe('Original Copy');
+      expect(copy.filterArray).toEqual(config.filterArray);
+    });
+
+    it('should turn a read-only AutoEQ preset into a writable user preset', async () => {
+      await fs.mkdir(join(TEST_CONFIGS_DIR, 'autoeq'), { recursive: true });
+      await fs.writeFile(
+        join(TEST_CONFIGS_DIR, 'autoeq', 'Locked.json'),
+        JSON.stringify(makeEqPreset('Locked', { source: 'autoeq', readOnly: true }))
+      );
+
+      const newId = await configsLibrary.duplicateConfig('autoeq--locked', 'My Locked');
+
+      const configs = await configsLibrary.listConfigs();
+      const copy = configs.find((c) => c.id === newId);
+      expect(copy).toMatchObject({
+        configName: 'My Locked',
+        presetType: 'eq',
+        source: 'user',
+        readOnly: false,
+      });
+
+      // Original untouched
+      const original = configs.find((c) => c.id === 'autoeq--locked');
+      expect(original?.readOnly).toBe(true);
+    });
+
+    it('should throw ALREADY_EXISTS when target ID is taken', async () => {
+      await fs.writeFile(join(TEST_CONFIGS_DIR, 'A.json'), JSON.stringify({ configName: 'A', filterArray: [] }));
+
+      await expect(configsLibrary.duplicateConfig('a', 'a')).rejects.toMatchObject({
+        code: ErrorCode.ERR_CONFIG_ALREADY_EXISTS,
+        statusCode: 409,
+      });
+    });
+  });
+
+  describe('importCamillaYaml', () => {
+    const yaml = [
+      'title: Desk',
+      'devices:',
+      '  samplerate: 48000',
+      '  chunksize: 1024',
+      '  capture: {type: Stdin, channels: 2, format: S32LE}',
+      '  playback: {type: Stdout, channels: 2, format: S32LE}',
+      'filters:',
+      '  eq1:',
+      '    type: Biquad',
+      '    parameters: {type: Peaking, freq: 100, gain: 3, q: 1}',
+      'pipeline:',
+      '  - type: Filter',
+      '    channels: [0, 1]',
+      '    names: [eq1]',
+    ].join('\n');
+
+    it('should store the config as a pipeline preset without devices', async () => {
+      const id = await configsLibrary.importCamillaYaml('Desk Setup', yaml);
+
+      expect(id).toBe('desk-setup');
+      const config = await configsLibrary.getConfig(id);
+      expect(config).toEqual({
+        configName: 'Desk Setup',
+        filterArray: [],
+        title: 'Desk',
+        filters: { eq1: { type: 'Biquad', parameters: { type: 'Peaking', freq: 100, gain: 3, q: 1 } } },
+        mixers: {},
+        processors: {},
+        pipeline: [{ type: 'Filter', channels: [0, 1], names: ['eq1'] }],
+      });
+    });
+
+    it('should report YAML syntax errors with the line number', async () => {
+      await expect(configsLibrary.importCamillaYaml('Broken', 'devices:\n  a: [1, 2')).rejects.toMatchObject({
+        code: ErrorCode.ERR_CONFIG_INVALID_YAML,
+        statusCode: 400,
+        details: { line: 2 },
+      });
+    });
+
+    it('should report schema errors per path', async () => {
+      const invalid = yaml.replace('names: [eq1]', 'names: [eq2]');
+
+      await expect(configsLibrary.importCamillaYaml('Invalid', invalid)).rejects.toMatchObject({
+        code: ErrorCode.ERR_CONFIG_VALIDATION,
+        details: { errors: [{ path: 'pipeline[0].names[0]', message: 'Undefined filter "eq2"' }] },
+      });
+    });
+
+    it('should refuse to overwrite an existing preset', async () => {
+      await configsLibrary.importCamillaYaml('Desk', yaml);
+
+      await expect(configsLibrary.importCamillaYaml('Desk', yaml)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('importEqPreset', () => {
+    it('should store the preset as a writable user preset', async () => {
+      const preset = {
+        ...makeEqPreset('Imported APO', { source: 'autoeq', readOnly: true }),
+        bands: [
+          { type: 'Peaking', freqHz: 1000, gainDb: 2, q: 1, enabled: true },
+          { type: 'HighPass', freqHz: 30, gainDb: 0, q: 0.7, enabled: true },
+        ],
+      };
+
+      const id = await configsLibrary.importEqPreset(preset);
+
+      expect(id).toBe('imported-apo');
+      const configs = await configsLibrary.listConfigs();
+      expect(configs.find((c) => c.id === id)).toMatchObject({
+        configName: 'Imported APO',
+        presetType: 'eq',
+        source: 'user',
+        readOnly: false,
+      });
+    });
+
+    it('should convert non-shelf band types to CamillaDSP biquad types', async () => {
+      const id = await configsLibrary.importEqPreset({
+        ...makeEqPreset('Filters', { source: 'user', readOnly: false }),
+        bands: [
+          { type: 'HighPass', freqHz: 30, gainDb: 0, q: 0.7, enabled: true },
+          { type: 'Notch', freqHz: 50, gainDb: 0, q: 10, enabled: true },
+          { type: 'AllPass', freqHz: 500, gainDb: 0, q: 0.7, enabled: true },
+        ],
+      });
+
+      const config = await configsLibrary.getConfig(id);
+      expect(config.filterArray.slice(0, 3)).toEqual([
+        { Filter01: { type: 'Highpass', freq: 30, q: 0.7 } },
+        { Filter02: { type: 'Notch', freq: 50, q: 10 } },
+        { Filter03: { type: 'Allpass', freq: 500, q: 0.7 } },
+      ]);
+    });
+
+    it('should throw ALREADY_EXISTS instead of overwriting', async () => {
+      await configsLibrary.importEqPreset(makeEqPreset('Taken', { source: 'user', readOnly: false }));
+
+      await expect(
+        configsLibrary.importEqPreset(makeEqPreset('Taken', { source: 'user', readOnly: false }))
+      ).rejects.toMatchObject({
+        code: ErrorCode.ERR_CONFIG_ALREADY_EXISTS,
+        statusCode: 409,
+      });
+    });
+
+    it('should reject unknown band types with the offending path', async () => {
+      await expect(
+        configsLibrary.importEqPreset({
+          ...makeEqPreset('Bad', { source: 'user', readOnly: false }),
+          bands: [{ type: 'Comb', freqHz: 100, gainDb: 0, q: 1, enabled: true }],
+        })
+      ).rejects.toMatchObject({
+        code: ErrorCode.ERR_BAD_REQUEST,
+        statusCode: 400,
+        details: { path: 'bands[0].type' },
+      });
+    });
+
+    it('should reject non-numeric band parameters', async () => {
+      await expect(
+        configsLibrary.importEqPreset({
+          ...makeEqPreset('Bad', { source: 'user', readOnly: false }),
+          bands: [{ type: 'Peaking', freqHz: 'loud', gainDb: 0, q: 1, enabled: true }],
+        })
+      ).rejects.toMatchObject({
+        details: { path: 'bands[0].freqHz' },
+      });
+    });
+  });
+
+  describe('revision history', () => {
+    const version = (gain: number): PipelineConfig => ({
+      configName: 'Versioned',
+      filterArray: [{ Filter01: { type: 'Peaking', freq: 1000, gain, q: 1 } }],
+    });
+
+    it('should not record a revision for the first save', async () => {
+      await configsLibrary.saveConfig('versioned', version(1));
+
+      expect(await configsLibrary.listRevisions('versioned')).toEqual([]);
+    });
+
+    it('should archive previous content on overwrite', async () => {
+      await configsLibrary.saveConfig('versioned', version(1));
+      await configsLibrary.saveConfig('versioned', version(2));
+
+      const revisions = await configsLibrary.listRevisions('versioned');
+      expect(revisions).toHaveLength(1);
+      expect(revisions[0].summary).toBe('1 filter changed (Filter01)');
+
+      const { config } = await configsLibrary.getRevision('versioned', revisions[0].revisionId);
+      expect(config).toEqual(version(1));
+    });
+
+    it('should restore a revision and archive the replaced content', async () => {
+      await configsLibrary.saveConfig('versioned', version(1));
+      await configsLibrary.saveConfig('versioned', version(2));
+      const [revision] = await configsLibrary.listRevisions('versioned');
+
+      await configsLibrary.restoreRevision('versioned', revision.revisionId);
+
+      const current = await configsLibrary.getConfig('versioned');
+      expect(current).toEqual(version(1));
+      const revisions = await configsLibrary.listRevisions('versioned');
+      expect(revisions).toHaveLength(2);
+      const { config: archived } = await configsLibrary.getRevision('versioned', revisions[0].revisionId);
+      expect(archived).toEqual(version(2));
+    });
+
+    it('should move history on rename and drop it on delete', async () => {
+      await configsLibrary.saveConfig('versioned', version(1));
+      await configsLibrary.saveConfig('versioned', version(2));
+
+      const newId = await configsLibrary.renameConfig('versioned', 'Renamed');
+      expect(await configsLibrary.listRevisions(newId)).toHaveLength(1);
+
+      await configsLibrary.deleteConfig(newId);
+      await configsLibrary.saveConfig(newId, { ...version(3), configName: 'Renamed' });
+      expect(await configsLibrary.listRevisions(newId)).toEqual([]);
+    });
+
+    it('should throw NOT_FOUND when listing revisions of unknown config', async () => {
+      await expect(configsLibrary.listRevisions('missing')).rejects.toMatchObject({
+        code: ErrorCode.ERR_CONFIG_NOT_FOUND,
+        statusCode: 404,
+      });
+    });
   });
 
   describe('getConfigsDir', () => {
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { MeasurementsLibrary, parseMeasurementCsv } from '../measurementsLibrary';
+import { ErrorCode } from '../../types/errors';
+
+const TEST_MEASUREMENTS_DIR = './test-measurements';
+
+describe('parseMeasurementCsv', () => {
+  it('should read the raw column of an AutoEQ result CSV', () => {
+    const text = 'frequency,raw,error,smoothed,target\n20,3.5,1,3,2.5\n1000,0,0,0,0\n';
+    expect(parseMeasurementCsv(text)).toEqual([
+      { freq: 20, gainDb: 3.5 },
+      { freq: 1000, gainDb: 0 },
+    ]);
+  });
+
+  it('should report parse errors with the measurement code', () => {
+    expect(() => parseMeasurementCsv('frequency,raw\n')).toThrow('Measurement needs at least two');
+    let caught: unknown;
+    try {
+      parseMeasurementCsv('');
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toMatchObject({ code: ErrorCode.ERR_MEASUREMENT_INVALID, statusCode: 400 });
+  });
+});
+
+describe('MeasurementsLibrary', () => {
+  let library: MeasurementsLibrary;
+
+  beforeEach(() => {
+    library = new MeasurementsLibrary({ measurementsDir: TEST_MEASUREMENTS_DIR });
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_MEASUREMENTS_DIR, { recursive: true, force: true });
+  });
+
+  it('should return empty list when the directory does not exist', async () => {
+    expect(await library.listMeasurements()).toEqual([]);
+  });
+
+  it('should keep AutoEQ device names and derive the device from the file name', async () => {
+    const text = 'frequency,raw\n20,4\n20000,-10\n';
+    const saved = await library.saveMeasurement('Moondrop Blessing 2: Dusk.csv', text);
+    expect(saved.device).toBe('Moondrop Blessing 2: Dusk');
+
+    expect(await library.listMeasurements()).toEqual([
+      { name: 'Moondrop Blessing 2: Dusk.csv', device: 'Moondrop Blessing 2: Dusk', size: text.length, mtimeMs: expect.any(Number) },
+    ]);
+    expect((await library.readMeasurement('Moondrop Blessing 2: Dusk.csv')).points).toHaveLength(2);
+
+    await library.deleteMeasurement('Moondrop Blessing 2: Dusk.csv');
+    expect(await library.listMeasurements()).toEqual([]);
+  });
+
+  it('should reject path traversal, unknown extensions and missing files', async () => {
+    for (const name of ['../evil.csv', 'a/b.csv', '.hidden.csv', 'notes.md']) {
+      await expect(library.saveMeasurement(name, '20,1\n100,2\n')).rejects.toMatchObject({
+        code: ErrorCode.ERR_BAD_REQUEST,
+      });
+    }
+    await expect(library.readMeasurement('missing.csv')).rejects.toMatchObject({
+      code: ErrorCode.ERR_MEASUREMENT_NOT_FOUND,
+      statusCode: 404,
+    });
+  });
+});
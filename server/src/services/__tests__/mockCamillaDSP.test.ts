@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { WebSocket } from 'ws';
+import { MockCamillaDSP } from '../mockCamillaDSP';
+
+const CONTROL_PORT = 23146;
+const SPECTRUM_PORT = 26413;
+
+/**
+ * Send one command on a fresh control connection and return its value
+ */
+async function request(command: unknown): Promise<any> {
+  const ws = new WebSocket(`ws://localhost:${CONTROL_PORT}`);
+  await new Promise((resolve, reject) => {
+    ws.once('open', resolve);
+    ws.once('error', reject);
+  });
+  const reply = new Promise<any>((resolve) => {
+    ws.once('message', (data) => resolve(JSON.parse(data.toString())));
+  });
+  ws.send(JSON.stringify(command));
+  const message = await reply;
+  ws.close();
+  return Object.values(message)[0];
+}
+
+function makeConfig(processor: any): any {
+  return {
+    devices: { capture: { channels: 2 }, playback: { channels: 2 } },
+    filters: {},
+    mixers: {},
+    processors: { dyn: processor },
+    pipeline: [{ type: 'Processor', name: 'dyn' }],
+  };
+}
+
+describe('MockCamillaDSP signal levels', () => {
+  let mock: MockCamillaDSP;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mock = new MockCamillaDSP({ controlPort: CONTROL_PORT, spectrumPort: SPECTRUM_PORT });
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  it('reports per-channel capture and playback levels', async () => {
+    const peak = await request('GetCaptureSignalPeak');
+    const rms = await request('GetCaptureSignalRms');
+
+    expect(peak.result).toBe('Ok');
+    expect(peak.value).toHaveLength(2);
+    expect(rms.value).toHaveLength(2);
+    expect(peak.value[0]).toBeGreaterThan(rms.value[0]);
+  });
+
+  it('applies compressor gain reduction to the playback levels', async () => {
+    const config = makeConfig({
+      type: 'Compressor',
+      parameters: { channels: 2, threshold: -60, factor: 10, attack: 0.01, release: 0.1, process_channels: [1] },
+    });
+    await request({ SetConfigJson: JSON.stringify(config) });
+
+    const capture = (await request('GetCaptureSignalRms')).value;
+    const playback = (await request('GetPlaybackSignalRms')).value;
+
+    expect(playback[0]).toBeCloseTo(capture[0], 0);
+    expect(playback[1]).toBeLessThan(capture[1] - 20);
+  });
+
+  it('treats a null clip_limit as unset', async () => {
+    const config = makeConfig({
+      type: 'Compressor',
+      parameters: { channels: 2, threshold: 0, factor: 4, attack: 0.01, release: 0.1, makeup_gain: 40, clip_limit: null },
+    });
+    await request({ SetConfigJson: JSON.stringify(config) });
+
+    const capture = (await request('GetCaptureSignalPeak')).value;
+    const playback = (await request('GetPlaybackSignalPeak')).value;
+
+    expect(playback[0]).toBeGreaterThan(0);
+    expect(playback[0]).toBeCloseTo(capture[0] + 40, 0);
+  });
+
+  it('applies noise gate attenuation below threshold', async () => {
+    const config = makeConfig({
+      type: 'NoiseGate',
+      parameters: { channels: 2, threshold: 0, attenuation: -40, attack: 0.01, release: 0.1 },
+    });
+    await request({ SetConfigJson: JSON.stringify(config) });
+
+    const capture = (await request('GetCaptureSignalPeak')).value;
+    const playback = (await request('GetPlaybackSignalPeak')).value;
+
+    expect(playback[0]).toBeCloseTo(capture[0] - 40, 0);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { PresetHistory, summarizeConfigDiff } from '../presetHistory';
+import { AppError, ErrorCode } from '../../types/errors';
+
+const TEST_HISTORY_DIR = './test-preset-history';
+
+function legacyConfig(gain: number, preamp = 0) {
+  return {
+    configName: 'Test',
+    filterArray: [
+      { Filter01: { type: 'Peaking', freq: 1000, gain, q: 1 } },
+      { Filter02: { type: 'Lowshelf', freq: 100, gain: 3, q: 0.7 } },
+      ...(preamp !== 0 ? [{ Preamp: { gain: preamp } }] : []),
+      { Volume: { type: 'Volume', parameters: {} } },
+    ],
+  };
+}
+
+describe('PresetHistory', () => {
+  let history: PresetHistory;
+
+  beforeEach(async () => {
+    history = new PresetHistory({ historyDir: TEST_HISTORY_DIR, maxRevisions: 3 });
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(TEST_HISTORY_DIR, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('recordRevision', () => {
+    it('should store previous content with metadata', async () => {
+      const revision = await history.recordRevision('my-eq', legacyConfig(1), legacyConfig(2), 1234);
+
+      expect(revision.timestamp).toBe(1234);
+      expect(revision.replacedAt).toBeGreaterThan(0);
+      expect(revision.summary).toBe('1 filter changed (Filter01)');
+
+      const stored = await history.getRevision('my-eq', revision.revisionId);
+      expect(stored.config).toEqual(legacyConfig(1));
+      expect(stored.revision).toEqual(revision);
+    });
+
+    it('should keep at most maxRevisions (oldest pruned)', async () => {
+      for (let gain = 1; gain <= 5; gain++) {
+        await history.recordRevision('my-eq', legacyConfig(gain), legacyConfig(gain + 1), gain);
+      }
+
+      const revisions = await history.listRevisions('my-eq');
+      expect(revisions).toHaveLength(3);
+      // Newest first
+      expect(revisions.map((r) => r.timestamp)).toEqual([5, 4, 3]);
+    });
+
+    it('should allocate unique IDs for saves in the same millisecond', async () => {
+      const a = await history.recordRevision('my-eq', legacyConfig(1), legacyConfig(2), 1);
+      const b = await history.recordRevision('my-eq', legacyConfig(2), legacyConfig(3), 2);
+
+      expect(a.revisionId).not.toBe(b.revisionId);
+    });
+  });
+
+  describe('listRevisions', () => {
+    it('should return empty array for presets without history', async () => {
+      expect(await history.listRevisions('unknown')).toEqual([]);
+    });
+  });
+
+  describe('getRevision', () => {
+    it('should throw REVISION_NOT_FOUND for missing revision', async () => {
+      await expect(history.getRevision('my-eq', '123')).rejects.toMatchObject({
+        code: ErrorCode.ERR_REVISION_NOT_FOUND,
+        statusCode: 404,
+      });
+    });
+
+    it('should reject revision IDs that are not timestamps', async () => {
+      await expect(history.getRevision('my-eq', '../../etc/passwd')).rejects.toThrow(AppError);
+      await expect(history.getRevision('my-eq', '../../etc/passwd')).rejects.toMatchObject({
+        code: ErrorCode.ERR_BAD_REQUEST,
+        statusCode: 400,
+      });
+    });
+  });
+
+  describe('moveHistory / deleteHistory', () => {
+    it('should move revisions to the new ID', async () => {
+      await history.recordRevision('old-id', legacyConfig(1), legacyConfig(2), 1);
+
+      await history.moveHistory('old-id', 'new-id');
+
+      expect(await history.listRevisions('old-id')).toEqual([]);
+      expect(await history.listRevisions('new-id')).toHaveLength(1);
+    });
+
+    it('should ignore moving a preset without history', async () => {
+      await expect(history.moveHistory('none', 'other')).resolves.toBeUndefined();
+    });
+
+    it('should delete all revisions of a preset', async () => {
+      await history.recordRevision('my-eq', legacyConfig(1), legacyConfig(2), 1);
+
+      await history.deleteHistory('my-eq');
+
+      expect(await history.listRevisions('my-eq')).toEqual([]);
+      const entries = await fs.readdir(TEST_HISTORY_DIR);
+      expect(entries).not.toContain('my-eq');
+    });
+  });
+});
+
+describe('summarizeConfigDiff', () => {
+  it('should report preamp changes', () => {
+    expect(summarizeConfigDiff(legacyConfig(1, -3), legacyConfig(1, -4.5))).toBe('preamp -3 → -4.5 dB');
+  });
+
+  it('should report added and removed filters', () => {
+    const previous = { configName: 'A', filterArray: [{ Filter01: { type: 'Peaking', freq: 100, gain: 1, q: 1 } }] };
+    const next = { configName: 'A', filterArray: [{ Filter02: { type: 'Peaking', freq: 100, gain: 1, q: 1 } }] };
+
+    expect(summarizeConfigDiff(previous, next)).toBe('1 added (Filter02); 1 removed (Filter01)');
+  });
+
+  it('should compare EQ preset bands', () => {
+    const preset = (gainDb: number) => ({
+      presetType: 'eq',
+      preampDb: -2,
+      bands: [{ type: 'Peaking', freqHz: 1000, gainDb, q: 1, enabled: true }],
+    });
+
+    expect(summarizeConfigDiff(preset(1), preset(2))).toBe('1 filter changed (Filter01)');
+  });
+
+  it('should report routing changes in extended configs', () => {
+    const previous = { configName: 'A', filterArray: [], filters: {}, pipeline: [{ type: 'Filter', channels: [0], names: [] }] };
+    const next = { configName: 'A', filterArray: [], filters: {}, pipeline: [] };
+
+    expect(summarizeConfigDiff(previous, next)).toBe('pipeline routing changed');
+  });
+
+  it('should truncate long name lists', () => {
+    const filters = (gain: number) =>
+      Object.fromEntries(['A', 'B', 'C', 'D'].map((n) => [n, { type: 'Biquad', parameters: { gain } }]));
+
+    expect(summarizeConfigDiff({ filters: filters(1) }, { filters: filters(2) })).toBe(
+      '4 filters changed (A, B, C, …)'
+    );
+  });
+
+  it('should report identical configs', () => {
+    expect(summarizeConfigDiff(legacyConfig(1), legacyConfig(1))).toBe('No changes');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { SpectrumSnapshotStore, SNAPSHOTS_FILE_NAME } from '../spectrumSnapshots.js';
+import { ErrorCode } from '../../types/errors.js';
+
+describe('SpectrumSnapshotStore', () => {
+  const testDir = join(process.cwd(), 'test-snapshots');
+  let store: SpectrumSnapshotStore;
+
+  const input = (name: string) => ({
+    name,
+    source: 'lta' as const,
+    color: '#FF8800',
+    binsDb: [-60.123, -48, -36.5],
+  });
+
+  beforeEach(() => {
+    store = new SpectrumSnapshotStore({ configDir: testDir, maxSnapshots: 2 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should list no snapshots before any are saved', async () => {
+    expect(await store.listSnapshots()).toEqual([]);
+  });
+
+  it('should create, update and delete snapshots', async () => {
+    const created = await store.createSnapshot(input('  Before EQ  '));
+    expect(created).toMatchObject({
+      name: 'Before EQ',
+      source: 'lta',
+      color: '#ff8800',
+      binsDb: [-60.12, -48, -36.5],
+    });
+
+    const onDisk = JSON.parse(await fs.readFile(join(testDir, SNAPSHOTS_FILE_NAME), 'utf-8'));
+    expect(onDisk.snapshots).toHaveLength(1);
+
+    const updated = await store.updateSnapshot(created.id, { name: 'Room', color: '#00aaff' });
+    expect(updated).toMatchObject({ id: created.id, name: 'Room', color: '#00aaff' });
+
+    await store.deleteSnapshot(created.id);
+    expect(await store.listSnapshots()).toEqual([]);
+  });
+
+  it('should reject invalid snapshots', async () => {
+    await expect(store.createSnapshot({ ...input(''), name: ' ' })).rejects.toMatchObject({
+      code: ErrorCode.ERR_SNAPSHOT_INVALID,
+    });
+    await expect(store.createSnapshot({ ...input('x'), color: 'red' })).rejects.toMatchObject({
+      code: ErrorCode.ERR_SNAPSHOT_INVALID,
+    });
+    await expect(store.createSnapshot({ ...input('x'), binsDb: [0, NaN] })).rejects.toMatchObject({
+      code: ErrorCode.ERR_SNAPSHOT_INVALID,
+    });
+  });
+
+  it('should enforce the snapshot limit', async () => {
+    await store.createSnapshot(input('a'));
+    await store.createSnapshot(input('b'));
+
+    await expect(store.createSnapshot(input('c'))).rejects.toMatchObject({
+      code: ErrorCode.ERR_SNAPSHOT_LIMIT,
+      statusCode: 409,
+    });
+  });
+
+  it('should return 404 for unknown snapshots', async () => {
+    await expect(store.deleteSnapshot('missing')).rejects.toMatchObject({
+      code: ErrorCode.ERR_SNAPSHOT_NOT_FOUND,
+      statusCode: 404,
+    });
+  });
+});
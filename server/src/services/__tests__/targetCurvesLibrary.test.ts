@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { TargetCurvesLibrary, parseTargetCurveCsv } from '../targetCurvesLibrary';
+import { ErrorCode } from '../../types/errors';
+
+const TEST_TARGETS_DIR = './test-targets';
+
+describe('parseTargetCurveCsv', () => {
+  it('should read an AutoEQ frequency,raw CSV', () => {
+    expect(parseTargetCurveCsv('frequency,raw\n20.0,6.5\n1000.0,0.0\n20000.0,-8.25\n')).toEqual([
+      { freq: 20, gainDb: 6.5 },
+      { freq: 1000, gainDb: 0 },
+      { freq: 20000, gainDb: -8.25 },
+    ]);
+  });
+
+  it('should prefer the target column of an AutoEQ result CSV', () => {
+    const text = 'frequency,raw,error,target\n20,1,2,5\n100,3,4,6\n';
+    expect(parseTargetCurveCsv(text).map((p) => p.gainDb)).toEqual([5, 6]);
+  });
+
+  it('should read squig.link text with comments, sorting by frequency', () => {
+    const text = '* Harman 2018\n* freq dB\r\n1000\t0\r\n\r\n20  4.5\r\n0 9\r\n';
+    expect(parseTargetCurveCsv(text)).toEqual([
+      { freq: 20, gainDb: 4.5 },
+      { freq: 1000, gainDb: 0 },
+    ]);
+  });
+
+  it('should reject text without a curve', () => {
+    expect(() => parseTargetCurveCsv('frequency,raw\n20,1\n')).toThrow('at least two');
+    expect(() => parseTargetCurveCsv('20,1\n100,2\nnot,numbers\n')).toThrow('Line 3 is not numeric');
+  });
+});
+
+describe('TargetCurvesLibrary', () => {
+  let library: TargetCurvesLibrary;
+
+  beforeEach(() => {
+    library = new TargetCurvesLibrary({ targetsDir: TEST_TARGETS_DIR });
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_TARGETS_DIR, { recursive: true, force: true });
+  });
+
+  it('should return empty list when the directory does not exist', async () => {
+    expect(await library.listTargets()).toEqual([]);
+  });
+
+  it('should save, list, read and delete targets', async () => {
+    const text = 'frequency,raw\n20,6\n20000,-6\n';
+    const saved = await library.saveTarget('Harman over-ear 2018.csv', text);
+    expect(saved.points).toHaveLength(2);
+
+    const targets = await library.listTargets();
+    expect(targets).toEqual([{ name: 'Harman over-ear 2018.csv', size: text.length, mtimeMs: expect.any(Number) }]);
+
+    expect(await library.readTarget('Harman over-ear 2018.csv')).toEqual({
+      name: 'Harman over-ear 2018.csv',
+      points: [
+        { freq: 20, gainDb: 6 },
+        { freq: 20000, gainDb: -6 },
+      ],
+    });
+
+    await library.deleteTarget('Harman over-ear 2018.csv');
+    expect(await library.listTargets()).toEqual([]);
+  });
+
+  it('should reject unparseable uploads, bad names and missing files', async () => {
+    await expect(library.saveTarget('empty.csv', '')).rejects.toMatchObject({
+      code: ErrorCode.ERR_TARGET_INVALID,
+      statusCode: 400,
+    });
+    for (const name of ['../evil.csv', 'target.wav']) {
+      await expect(library.saveTarget(name, '20,1\n100,2\n')).rejects.toMatchObject({
+        code: ErrorCode.ERR_BAD_REQUEST,
+      });
+    }
+    await expect(library.readTarget('missing.csv')).rejects.toMatchObject({
+      code: ErrorCode.ERR_TARGET_NOT_FOUND,
+      statusCode: 404,
+    });
+  });
+});
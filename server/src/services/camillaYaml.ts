@@ -0,0 +1,613 @@
+import { AppError, ErrorCode } from '../types/errors.js';
+
+/**
+ * YAML serializer/parser for CamillaDSP config files
+ *
+ * Covers the YAML subset CamillaDSP configs are written in:
+ * - block mappings and sequences (including `- key: value` items)
+ * - flow sequences/mappings (`[0, 1]`, `{ in: 2, out: 2 }`), also across lines
+ * - plain, single- and double-quoted scalars, `|` / `>` block scalars
+ * - comments, `---` / `...` document markers
+ *
+ * Anchors, aliases, tags and multiple documents are rejected with a line number.
+ */
+
+// Top-level key order used by camilladsp example configs
+const TOP_LEVEL_ORDER = ['title', 'description', 'devices', 'filters', 'mixers', 'processors', 'pipeline'];
+
+const INDENT = '  ';
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const PLAIN_STRING_PATTERN = /^[A-Za-z_/.$][\w/.\- ()$]*$/;
+const RESERVED_WORDS = new Set(['true', 'false', 'null', 'yes', 'no', 'on', 'off', '~']);
+
+/**
+ * YAML syntax error (line is 1-based, 0 if unknown)
+ */
+export class YamlParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(line > 0 ? `${message} (line ${line})` : message);
+    this.name = 'YamlParseError';
+  }
+
+  toAppError(): AppError {
+    return new AppError(
+      ErrorCode.ERR_CONFIG_INVALID_YAML,
+      `Invalid YAML: ${this.message}`,
+      400,
+      { line: this.line }
+    );
+  }
+}
+
+// ============================================================================
+// Serializer
+// ============================================================================
+
+/**
+ * Serialize a CamillaDSP config (JSON form) to YAML
+ * Top-level sections are written in camilladsp order; undefined values are dropped
+ */
+export function stringifyCamillaYaml(config: Record<string, unknown>): string {
+  const ordered: Record<string, unknown> = {};
+  for (const key of TOP_LEVEL_ORDER) {
+    if (config[key] !== undefined) ordered[key] = config[key];
+  }
+  for (const [key, value] of Object.entries(config)) {
+    if (!(key in ordered) && value !== undefined) ordered[key] = value;
+  }
+
+  return '---\n' + stringifyMapping(ordered, 0).join('\n') + '\n';
+}
+
+function stringifyMapping(value: Record<string, unknown>, depth: number): string[] {
+  const pad = INDENT.repeat(depth);
+  const lines: string[] = [];
+
+  for (const [key, child] of Object.entries(value)) {
+    if (child === undefined) continue;
+    const keyText = stringifyScalar(key);
+
+    if (isInline(child)) {
+      lines.push(`${pad}${keyText}: ${stringifyInline(child)}`);
+    } else if (Array.isArray(child)) {
+      lines.push(`${pad}${keyText}:`);
+      lines.push(...stringifySequence(child, depth + 1));
+    } else {
+      lines.push(`${pad}${keyText}:`);
+      lines.push(...stringifyMapping(child as Record<string, unknown>, depth + 1));
+    }
+  }
+
+  return lines;
+}
+
+function stringifySequence(value: unknown[], depth: number): string[] {
+  const pad = INDENT.repeat(depth);
+  const lines: string[] = [];
+
+  for (const item of value) {
+    if (isInline(item)) {
+      lines.push(`${pad}- ${stringifyInline(item)}`);
+    } else if (Array.isArray(item)) {
+      lines.push(`${pad}-`);
+      lines.push(...stringifySequence(item, depth + 1));
+    } else {
+      // First key shares the dash line: "- type: Filter"
+      const nested = stringifyMapping(item as Record<string, unknown>, depth + 1);
+      nested[0] = `${pad}- ${nested[0].slice(pad.length + INDENT.length)}`;
+      lines.push(...nested);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Scalars, empty collections and arrays of scalars are written on one line
+ */
+function isInline(value: unknown): boolean {
+  if (value === null || typeof value !== 'object') return true;
+  if (Array.isArray(value)) {
+    return value.every((item) => item === null || typeof item !== 'object');
+  }
+  return Object.values(value).every((child) => child === undefined);
+}
+
+function stringifyInline(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stringifyScalar).join(', ')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return '{}';
+  }
+  return stringifyScalar(value);
+}
+
+function stringifyScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return '.nan';
+    if (!Number.isFinite(value)) return value > 0 ? '.inf' : '-.inf';
+    return String(value);
+  }
+
+  const text = String(value);
+  // Plain text must read back as the same string (not .inf, .nan, ~, 0x10, numbers, ...)
+  const needsQuotes =
+    !PLAIN_STRING_PATTERN.test(text) ||
+    text.endsWith(' ') ||
+    RESERVED_WORDS.has(text.toLowerCase()) ||
+    resolvePlainScalar(text) !== text;
+
+  // JSON string syntax is valid YAML double-quoted syntax
+  return needsQuotes ? JSON.stringify(text) : text;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+interface Line {
+  number: number; // 1-based
+  indent: number;
+  text: string; // Content after indentation, comments stripped
+}
+
+/**
+ * Parse CamillaDSP YAML into plain JSON values
+ * @throws YamlParseError with the offending line number
+ */
+export function parseCamillaYaml(content: string): unknown {
+  const rawLines = content.split(/\r?\n/);
+  const lines = tokenizeLines(rawLines);
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const parser = new BlockParser(lines, rawLines);
+  const value = parser.parseBlock(lines[0].indent);
+  parser.expectEnd();
+  return value;
+}
+
+function tokenizeLines(rawLines: string[]): Line[] {
+  const lines: Line[] = [];
+  let started = false;
+
+  for (let i = 0; i < rawLines.length; i++) {
+    const raw = rawLines[i];
+    const number = i + 1;
+    const indentMatch = raw.match(/^[ \t]*/)![0];
+
+    if (indentMatch.includes('\t') && raw.trim() !== '') {
+      throw new YamlParseError('Tabs are not allowed for indentation', number);
+    }
+
+    const text = stripComment(raw.slice(indentMatch.length)).trimEnd();
+    if (text === '') continue;
+
+    if (text === '---' || text.startsWith('--- ')) {
+      if (started) {
+        throw new YamlParseError('Multiple YAML documents are not supported', number);
+      }
+      started = true;
+      const rest = text.slice(3).trim();
+      if (rest !== '') {
+        lines.push({ number, indent: 0, text: rest });
+      }
+      continue;
+    }
+    if (text === '...') break;
+    if (/^%/.test(text) && indentMatch.length === 0) continue; // %YAML directive
+
+    started = true;
+    lines.push({ number, indent: indentMatch.length, text });
+  }
+
+  return lines;
+}
+
+/**
+ * Remove a trailing "# comment" that is outside quotes
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') {
+        i++;
+      } else if (ch === quote) {
+        quote = null;
+      }
+    } else if (ch === '"' || ch === "'") {
+      if (i === 0 || /[\s:[{,\-]/.test(text[i - 1])) quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+
+  return text;
+}
+
+class BlockParser {
+  private pos = 0;
+
+  constructor(private lines: Line[], private rawLines: string[]) {}
+
+  expectEnd(): void {
+    if (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      throw new YamlParseError(`Unexpected content "${line.text}"`, line.number);
+    }
+  }
+
+  parseBlock(indent: number): unknown {
+    const line = this.lines[this.pos];
+    if (isSequenceItem(line.text)) {
+      return this.parseSequence(indent);
+    }
+    if (findMappingColon(line.text) >= 0) {
+      return this.parseMapping(indent);
+    }
+
+    // Single scalar / flow value document
+    this.pos++;
+    return this.parseInlineValue(line.text, line);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.indent < indent) break;
+      if (line.indent > indent) {
+        throw new YamlParseError('Bad indentation of a sequence entry', line.number);
+      }
+      if (!isSequenceItem(line.text)) break;
+
+      const content = line.text.slice(1).trimStart();
+      const contentIndent = line.indent + (line.text.length - content.length);
+
+      if (content === '') {
+        this.pos++;
+        result.push(this.parseNestedOrNull(indent));
+      } else if (isSequenceItem(content) || findMappingColon(content) >= 0) {
+        // "- key: value" or "- - item": continue parsing the item as a block at the content column
+        this.lines[this.pos] = { ...line, indent: contentIndent, text: content };
+        result.push(this.parseBlock(contentIndent));
+      } else {
+        this.pos++;
+        result.push(this.parseInlineValue(content, line));
+      }
+    }
+
+    return result;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.indent < indent) break;
+      if (line.indent > indent) {
+        throw new YamlParseError('Bad indentation of a mapping entry', line.number);
+      }
+      if (isSequenceItem(line.text)) break;
+
+      const colon = findMappingColon(line.text);
+      if (colon < 0) {
+        throw new YamlParseError(`Expected "key: value", got "${line.text}"`, line.number);
+      }
+
+      const key = parseKey(line.text.slice(0, colon).trim(), line);
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw new YamlParseError(`Duplicate key "${key}"`, line.number);
+      }
+
+      const rest = line.text.slice(colon + 1).trim();
+      this.pos++;
+
+      if (rest === '') {
+        // Block sequences may sit at the same indent as their key
+        const next = this.lines[this.pos];
+        if (next && next.indent === indent && isSequenceItem(next.text)) {
+          result[key] = this.parseSequence(indent);
+        } else {
+          result[key] = this.parseNestedOrNull(indent);
+        }
+      } else if (/^[|>][-+]?$/.test(rest)) {
+        result[key] = this.parseBlockScalar(rest, indent, line);
+      } else {
+        result[key] = this.parseInlineValue(rest, line);
+      }
+    }
+
+    return result;
+  }
+
+  private parseNestedOrNull(parentIndent: number): unknown {
+    const next = this.lines[this.pos];
+    if (next && next.indent > parentIndent) {
+      return this.parseBlock(next.indent);
+    }
+    return null;
+  }
+
+  /**
+   * Literal (|) and folded (>) block scalars; read from the raw lines so '#' and blank lines are kept
+   */
+  private parseBlockScalar(indicator: string, parentIndent: number, header: Line): string {
+    const parts: string[] = [];
+    let blockIndent = -1;
+    let index = header.number; // Raw index of the line after the header
+
+    for (; index < this.rawLines.length; index++) {
+      const raw = this.rawLines[index];
+      if (raw.trim() === '') {
+        parts.push('');
+        continue;
+      }
+      const indent = raw.match(/^ */)![0].length;
+      if (indent <= parentIndent) break;
+      if (blockIndent < 0) blockIndent = indent;
+      if (indent < blockIndent) {
+        throw new YamlParseError('Bad indentation in block scalar', index + 1);
+      }
+      parts.push(raw.slice(blockIndent).trimEnd());
+    }
+
+    while (parts.length > 0 && parts[parts.length - 1] === '') parts.pop();
+    if (parts.length === 0) {
+      throw new YamlParseError('Empty block scalar', header.number);
+    }
+
+    // Skip the tokenized lines consumed above
+    while (this.pos < this.lines.length && this.lines[this.pos].number <= index) this.pos++;
+
+    const text = indicator.startsWith('|') ? parts.join('\n') : parts.join(' ').replace(/ ?\n? ?$/, '');
+    return indicator.endsWith('-') ? text : text + '\n';
+  }
+
+  /**
+   * Parse a scalar or flow collection; flow collections may continue on following lines
+   */
+  private parseInlineValue(text: string, line: Line): unknown {
+    let source = text;
+
+    if (source.startsWith('[') || source.startsWith('{')) {
+      while (!isFlowBalanced(source)) {
+        const next = this.lines[this.pos];
+        if (!next) {
+          throw new YamlParseError('Unterminated flow collection', line.number);
+        }
+        source += ' ' + next.text.trim();
+        this.pos++;
+      }
+    }
+
+    const flow = new FlowParser(source, line.number);
+    const value = flow.parseValue();
+    flow.expectEnd();
+    return value;
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * Index of the ": " (or trailing ":") that ends a mapping key, outside quotes/brackets
+ */
+function findMappingColon(text: string): number {
+  if (text.startsWith('[') || text.startsWith('{')) return -1;
+
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if ((ch === '"' || ch === "'") && i === 0) {
+      quote = ch;
+    } else if (ch === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseKey(text: string, line: Line): string {
+  const flow = new FlowParser(text, line.number);
+  const key = flow.parseValue(true);
+  flow.expectEnd();
+  if (key !== null && typeof key === 'object') {
+    throw new YamlParseError('Complex mapping keys are not supported', line.number);
+  }
+  return String(key);
+}
+
+function isFlowBalanced(text: string): boolean {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+    }
+  }
+  return depth <= 0;
+}
+
+/**
+ * Recursive-descent parser for one-line values: scalars, [..] and {..}
+ */
+class FlowParser {
+  private i = 0;
+
+  constructor(private text: string, private line: number) {}
+
+  expectEnd(): void {
+    this.skipSpaces();
+    if (this.i < this.text.length) {
+      throw new YamlParseError(`Unexpected "${this.text.slice(this.i)}"`, this.line);
+    }
+  }
+
+  parseValue(asKey = false, inFlow = false): unknown {
+    this.skipSpaces();
+    const ch = this.text[this.i];
+
+    if (ch === '&' || ch === '*' || ch === '!') {
+      throw new YamlParseError('Anchors, aliases and tags are not supported', this.line);
+    }
+    if (ch === '[' && !asKey) return this.parseFlowSequence();
+    if (ch === '{' && !asKey) return this.parseFlowMapping();
+    if (ch === '"') return this.parseDoubleQuoted();
+    if (ch === "'") return this.parseSingleQuoted();
+
+    return this.parsePlain(inFlow, asKey);
+  }
+
+  private parseFlowSequence(): unknown[] {
+    const result: unknown[] = [];
+    this.i++; // [
+
+    this.skipSpaces();
+    if (this.text[this.i] === ']') {
+      this.i++;
+      return result;
+    }
+
+    for (;;) {
+      result.push(this.parseValue(false, true));
+      this.skipSpaces();
+      const ch = this.text[this.i++];
+      if (ch === ']') return result;
+      if (ch !== ',') {
+        throw new YamlParseError('Expected "," or "]" in flow sequence', this.line);
+      }
+      this.skipSpaces();
+      if (this.text[this.i] === ']') {
+        this.i++;
+        return result; // Trailing comma
+      }
+    }
+  }
+
+  private parseFlowMapping(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.i++; // {
+
+    this.skipSpaces();
+    if (this.text[this.i] === '}') {
+      this.i++;
+      return result;
+    }
+
+    for (;;) {
+      const key = String(this.parseValue(true, true));
+      this.skipSpaces();
+      if (this.text[this.i] !== ':') {
+        throw new YamlParseError('Expected ":" in flow mapping', this.line);
+      }
+      this.i++;
+      result[key] = this.parseValue(false, true);
+      this.skipSpaces();
+      const ch = this.text[this.i++];
+      if (ch === '}') return result;
+      if (ch !== ',') {
+        throw new YamlParseError('Expected "," or "}" in flow mapping', this.line);
+      }
+      this.skipSpaces();
+      if (this.text[this.i] === '}') {
+        this.i++;
+        return result;
+      }
+    }
+  }
+
+  private parseDoubleQuoted(): string {
+    const start = this.i;
+    this.i++;
+    while (this.i < this.text.length && this.text[this.i] !== '"') {
+      if (this.text[this.i] === '\\') this.i++;
+      this.i++;
+    }
+    if (this.i >= this.text.length) {
+      throw new YamlParseError('Unterminated double-quoted string', this.line);
+    }
+    this.i++;
+
+    try {
+      return JSON.parse(this.text.slice(start, this.i));
+    } catch {
+      throw new YamlParseError('Invalid escape sequence in double-quoted string', this.line);
+    }
+  }
+
+  private parseSingleQuoted(): string {
+    let result = '';
+    this.i++;
+    for (;;) {
+      if (this.i >= this.text.length) {
+        throw new YamlParseError('Unterminated single-quoted string', this.line);
+      }
+      const ch = this.text[this.i++];
+      if (ch === "'") {
+        if (this.text[this.i] === "'") {
+          result += "'";
+          this.i++;
+        } else {
+          return result;
+        }
+      } else {
+        result += ch;
+      }
+    }
+  }
+
+  private parsePlain(inFlow: boolean, asKey: boolean): unknown {
+    const start = this.i;
+    while (this.i < this.text.length) {
+      const ch = this.text[this.i];
+      if (inFlow && (ch === ',' || ch === ']' || ch === '}')) break;
+      if ((inFlow || asKey) && ch === ':' && /[\s,\]}]|^$/.test(this.text[this.i + 1] ?? '')) break;
+      this.i++;
+    }
+
+    const token = this.text.slice(start, this.i).trim();
+    return asKey ? token : resolvePlainScalar(token);
+  }
+
+  private skipSpaces(): void {
+    while (this.text[this.i] === ' ') this.i++;
+  }
+}
+
+/**
+ * YAML 1.2 core schema resolution for plain scalars
+ */
+function resolvePlainScalar(token: string): unknown {
+  if (token === '' || token === '~' || /^(null|Null|NULL)$/.test(token)) return null;
+  if (/^(true|True|TRUE)$/.test(token)) return true;
+  if (/^(false|False|FALSE)$/.test(token)) return false;
+  if (NUMBER_PATTERN.test(token)) return Number(token);
+  if (/^0x[0-9a-fA-F]+$/.test(token)) return parseInt(token, 16);
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(token)) return token.startsWith('-') ? -Infinity : Infinity;
+  if (/^\.(nan|NaN|NAN)$/.test(token)) return NaN;
+  return token;
+}
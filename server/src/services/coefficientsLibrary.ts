@@ -0,0 +1,315 @@
+import { promises as fs } from 'fs';
+import { extname, join, resolve } from 'path';
+import { AppError, ErrorCode } from '../types/errors.js';
+import { getCoefficientsDir } from '../configPaths.js';
+
+/**
+ * Configuration for the coefficients library
+ */
+export interface CoefficientsLibraryConfig {
+  /** Directory holding uploaded impulse responses */
+  coefficientsDir?: string;
+}
+
+/**
+ * WAV header details (for Conv filters of type Wav)
+ */
+export interface WavInfo {
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  sampleFormat: 'int' | 'float';
+  frames: number;
+}
+
+/**
+ * Metadata of a stored coefficient file
+ */
+export interface CoefficientFileInfo {
+  name: string;
+  /** Absolute path, used as the Conv filter's `filename` */
+  path: string;
+  size: number;
+  mtimeMs: number;
+  /** 'wav' files are read with type Wav, the others with type Raw */
+  kind: 'wav' | 'text' | 'raw';
+  wav?: WavInfo;
+}
+
+/** Maximum upload size (a few seconds of multichannel 64-bit IR) */
+export const MAX_COEFFICIENT_FILE_SIZE = 16 * 1024 * 1024;
+
+const FILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 ._()-]{0,127}$/;
+const TEXT_EXTENSIONS = new Set(['.txt', '.csv']);
+const RAW_EXTENSIONS = new Set(['.raw', '.pcm', '.bin', '.dbl', '.f32', '.f64']);
+
+const WAV_FORMAT_PCM = 1;
+const WAV_FORMAT_FLOAT = 3;
+const WAV_FORMAT_EXTENSIBLE = 0xfffe;
+// Bytes read when listing files (headers precede the sample data)
+const WAV_HEADER_READ_SIZE = 64 * 1024;
+
+/**
+ * Parse the RIFF/WAVE header of an impulse response
+ * `data` may be just the start of the file when `fileSize` is given
+ * @throws AppError (400) if the data is not a WAV file CamillaDSP can read
+ */
+export function parseWavInfo(data: Buffer, fileSize: number = data.length): WavInfo {
+  const invalid = (message: string) =>
+    new AppError(ErrorCode.ERR_COEFFICIENT_INVALID, `Invalid WAV file: ${message}`, 400);
+
+  if (data.length < 12 || data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WAVE') {
+    throw invalid('missing RIFF/WAVE header');
+  }
+
+  let format: Omit<WavInfo, 'frames'> | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= data.length) {
+    const chunkId = data.toString('ascii', offset, offset + 4);
+    const chunkSize = data.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      if (chunkSize < 16 || body + 16 > data.length) {
+        throw invalid('truncated fmt chunk');
+      }
+
+      let formatTag = data.readUInt16LE(body);
+      if (formatTag === WAV_FORMAT_EXTENSIBLE && chunkSize >= 40 && body + 26 <= data.length) {
+        // Sub-format GUID starts with the actual format tag
+        formatTag = data.readUInt16LE(body + 24);
+      }
+      if (formatTag !== WAV_FORMAT_PCM && formatTag !== WAV_FORMAT_FLOAT) {
+        throw invalid(`unsupported sample format ${formatTag}`);
+      }
+
+      format = {
+        channels: data.readUInt16LE(body + 2),
+        sampleRate: data.readUInt32LE(body + 4),
+        bitsPerSample: data.readUInt16LE(body + 14),
+        sampleFormat: formatTag === WAV_FORMAT_FLOAT ? 'float' : 'int',
+      };
+      if (format.channels < 1 || ![16, 24, 32, 64].includes(format.bitsPerSample)) {
+        throw invalid(`unsupported layout (${format.channels} channels, ${format.bitsPerSample} bits)`);
+      }
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw invalid('data chunk before fmt chunk');
+      }
+      const dataSize = Math.min(chunkSize, fileSize - body);
+      const frameSize = format.channels * (format.bitsPerSample / 8);
+      return { ...format, frames: Math.floor(dataSize / frameSize) };
+    }
+
+    // Chunks are padded to an even size
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw invalid('no data chunk');
+}
+
+/**
+ * Managed directory of convolution coefficient files (impulse responses)
+ *
+ * Lives next to the configs dir; Conv filters reference files here by absolute path.
+ */
+export class CoefficientsLibrary {
+  private coefficientsDir: string;
+
+  constructor(config: CoefficientsLibraryConfig = {}) {
+    this.coefficientsDir = resolve(config.coefficientsDir || getCoefficientsDir());
+  }
+
+  /**
+   * Get the coefficients directory path
+   */
+  getCoefficientsDir(): string {
+    return this.coefficientsDir;
+  }
+
+  /**
+   * List stored coefficient files (sorted by name)
+   * Files with unsupported names or broken WAV headers are skipped
+   */
+  async listFiles(): Promise<CoefficientFileInfo[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.coefficientsDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new AppError(
+        ErrorCode.ERR_INTERNAL_SERVER,
+        `Failed to list coefficient files: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    const files: CoefficientFileInfo[] = [];
+    for (const name of entries.sort((a, b) => a.localeCompare(b))) {
+      if (!isValidFileName(name)) {
+        continue;
+      }
+
+      try {
+        const filePath = join(this.coefficientsDir, name);
+        const stat = await fs.stat(filePath);
+        if (!stat.isFile()) {
+          continue;
+        }
+
+        const kind = fileKind(name)!;
+        const info: CoefficientFileInfo = { name, path: filePath, size: stat.size, mtimeMs: stat.mtimeMs, kind };
+        if (kind === 'wav') {
+          info.wav = parseWavInfo(await readFileStart(filePath, WAV_HEADER_READ_SIZE), stat.size);
+        }
+        files.push(info);
+      } catch {
+        console.warn(`Skipping unreadable coefficient file: ${name}`);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Read a stored coefficient file
+   * @throws AppError (404) if it does not exist
+   */
+  async readFile(name: string): Promise<Buffer> {
+    const filePath = this.getFilePath(name);
+    try {
+      return await fs.readFile(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new AppError(ErrorCode.ERR_COEFFICIENT_NOT_FOUND, `Coefficient file not found: ${name}`, 404);
+      }
+      throw new AppError(
+        ErrorCode.ERR_INTERNAL_SERVER,
+        `Failed to read coefficient file: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+  }
+
+  /**
+   * Store an uploaded coefficient file (replaces a file of the same name)
+   * WAV files must have a readable header; text and raw files are stored as is
+   */
+  async saveFile(name: string, data: Buffer): Promise<CoefficientFileInfo> {
+    const filePath = this.getFilePath(name);
+
+    if (data.length === 0) {
+      throw new AppError(ErrorCode.ERR_COEFFICIENT_INVALID, 'Coefficient file is empty', 400);
+    }
+    if (data.length > MAX_COEFFICIENT_FILE_SIZE) {
+      throw new AppError(
+        ErrorCode.ERR_COEFFICIENT_TOO_LARGE,
+        `Coefficient file size (${data.length} bytes) exceeds maximum allowed size (${MAX_COEFFICIENT_FILE_SIZE} bytes)`,
+        413
+      );
+    }
+
+    const kind = fileKind(name)!;
+    const wav = kind === 'wav' ? parseWavInfo(data) : undefined;
+
+    try {
+      await fs.mkdir(this.coefficientsDir, { recursive: true });
+    } catch (error) {
+      throw new AppError(
+        ErrorCode.ERR_COEFFICIENT_WRITE_FAILED,
+        `Failed to create coefficients directory: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    const tempPath = `${filePath}.tmp`;
+    try {
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      try {
+        await fs.unlink(tempPath);
+      } catch {
+        // Ignore cleanup errors
+      }
+
+      throw new AppError(
+        ErrorCode.ERR_COEFFICIENT_WRITE_FAILED,
+        `Failed to write coefficient file: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    const stat = await fs.stat(filePath);
+    return { name, path: filePath, size: stat.size, mtimeMs: stat.mtimeMs, kind, ...(wav ? { wav } : {}) };
+  }
+
+  /**
+   * Delete a stored coefficient file
+   * @throws AppError (404) if it does not exist
+   */
+  async deleteFile(name: string): Promise<void> {
+    const filePath = this.getFilePath(name);
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new AppError(ErrorCode.ERR_COEFFICIENT_NOT_FOUND, `Coefficient file not found: ${name}`, 404);
+      }
+      throw new AppError(
+        ErrorCode.ERR_COEFFICIENT_WRITE_FAILED,
+        `Failed to delete coefficient file: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+  }
+
+  /**
+   * Resolve a file name inside the coefficients dir
+   * Names are plain file names with a known extension (no path separators)
+   */
+  private getFilePath(name: string): string {
+    if (!isValidFileName(name)) {
+      throw new AppError(
+        ErrorCode.ERR_BAD_REQUEST,
+        'File name must be a plain name (letters, digits, space, . _ ( ) -) ending in .wav, .txt, .csv, .raw, .pcm, .bin, .dbl, .f32 or .f64',
+        400
+      );
+    }
+    return join(this.coefficientsDir, name);
+  }
+}
+
+function isValidFileName(name: string): boolean {
+  return FILE_NAME_PATTERN.test(name) && !name.includes('..') && fileKind(name) !== null;
+}
+
+/**
+ * How CamillaDSP reads a file, from its extension (null for unsupported extensions)
+ */
+function fileKind(name: string): CoefficientFileInfo['kind'] | null {
+  const extension = extname(name).toLowerCase();
+  if (extension === '.wav') return 'wav';
+  if (TEXT_EXTENSIONS.has(extension)) return 'text';
+  if (RAW_EXTENSIONS.has(extension)) return 'raw';
+  return null;
+}
+
+async function readFileStart(filePath: string, length: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
@@ -1,7 +1,34 @@
 import { promises as fs } from 'fs';
-import { join, relative } from 'path';
+import { dirname, join, relative } from 'path';
 import { AppError, ErrorCode } from '../types/errors.js';
 import { getConfigsDir } from '../configPaths.js';
+import { PresetHistory, type RevisionMetadata } from './presetHistory.js';
+import { parseCamillaYaml, YamlParseError } from './camillaYaml.js';
+import { assertValidCamillaConfig } from './camillaConfigValidation.js';
+
+type EqPresetBandType =
+  | 'Peaking'
+  | 'LowShelf'
+  | 'HighShelf'
+  | 'LowPass'
+  | 'HighPass'
+  | 'BandPass'
+  | 'Notch'
+  | 'AllPass';
+
+/**
+ * CamillaDSP biquad subtype for each EQ preset band type
+ */
+const CAMILLA_BIQUAD_TYPES: Record<EqPresetBandType, string> = {
+  Peaking: 'Peaking',
+  LowShelf: 'Lowshelf',
+  HighShelf: 'Highshelf',
+  LowPass: 'Lowpass',
+  HighPass: 'Highpass',
+  BandPass: 'Bandpass',
+  Notch: 'Notch',
+  AllPass: 'Allpass',
+};
 
 /**
  * EQ Preset format (subset needed for server runtime)
@@ -19,7 +46,7 @@ interface EqPresetV1 {
   };
   preampDb: number;
   bands: Array<{
-    type: 'Peaking' | 'LowShelf' | 'HighShelf';
+    type: EqPresetBandType;
     freqHz: number;
     gainDb: number;
     q: number;
@@ -46,12 +73,66 @@ function isEqPreset(config: unknown): config is EqPresetV1 {
   );
 }
 
+function requireFiniteNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new AppError(
+      ErrorCode.ERR_BAD_REQUEST,
+      `${path} must be a finite number`,
+      400,
+      { path }
+    );
+  }
+  return value;
+}
+
+/**
+ * Validate EQ preset bands (type and numeric fields)
+ */
+function validateEqPresetBands(bands: unknown): EqPresetV1['bands'] {
+  if (!Array.isArray(bands)) {
+    throw new AppError(ErrorCode.ERR_BAD_REQUEST, 'bands must be an array', 400, { path: 'bands' });
+  }
+
+  return bands.map((band, index) => {
+    const path = `bands[${index}]`;
+    if (typeof band !== 'object' || band === null) {
+      throw new AppError(ErrorCode.ERR_BAD_REQUEST, `${path} must be an object`, 400, { path });
+    }
+    if (!Object.prototype.hasOwnProperty.call(CAMILLA_BIQUAD_TYPES, band.type)) {
+      throw new AppError(
+        ErrorCode.ERR_BAD_REQUEST,
+        `${path}.type must be one of: ${Object.keys(CAMILLA_BIQUAD_TYPES).join(', ')}`,
+        400,
+        { path: `${path}.type` }
+      );
+    }
+
+    return {
+      type: band.type as EqPresetBandType,
+      freqHz: requireFiniteNumber(band.freqHz, `${path}.freqHz`),
+      gainDb: requireFiniteNumber(band.gainDb, `${path}.gainDb`),
+      q: requireFiniteNumber(band.q, `${path}.q`),
+      enabled: band.enabled !== false,
+    };
+  });
+}
+
+/**
+ * Derive a config ID from a human-readable name
+ * Mirrors the client-side ID generation used when saving presets
+ */
+export function configIdFromName(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, '-');
+}
+
 /**
  * Configuration for configs library
  */
 export interface ConfigsLibraryConfig {
   /** Directory where config library is stored */
   configsDir?: string;
+  /** Directory where preset revisions are stored */
+  historyDir?: string;
 }
 
 /**
@@ -109,9 +190,11 @@ export type ConfigFormat = PipelineConfig | EqPresetV1;
  */
 export class ConfigsLibrary {
   private configsDir: string;
+  private history: PresetHistory;
 
   constructor(config: ConfigsLibraryConfig = {}) {
     this.configsDir = config.configsDir || getConfigsDir();
+    this.history = new PresetHistory({ historyDir: config.historyDir });
   }
 
   /**
@@ -368,16 +451,7 @@ export class ConfigsLibrary {
    */
   async getConfig(id: string): Promise<PipelineConfig> {
     // Find matching file
-    const configs = await this.listConfigs();
-    const config = configs.find((c) => c.id === id);
-
-    if (!config) {
-      throw new AppError(
-        ErrorCode.ERR_CONFIG_NOT_FOUND,
-        `Config not found: ${id}`,
-        404
-      );
-    }
+    const config = await this.findConfig(id);
 
     // Read file
     const filePath = join(this.configsDir, config.file);
@@ -423,6 +497,13 @@ export class ConfigsLibrary {
     }
   }
 
+  /**
+   * Convert a raw on-disk config to PipelineConfig (EqPresetV1 is converted)
+   */
+  private toPipelineConfig(data: unknown): PipelineConfig {
+    return isEqPreset(data) ? this.convertEqPresetToPipelineConfig(data) : (data as PipelineConfig);
+  }
+
   /**
    * Convert EqPresetV1 to PipelineConfig format (runtime conversion)
    */
@@ -435,16 +516,9 @@ export class ConfigsLibrary {
       const filterName = `Filter${filterNum}`;
 
       // Normalize filter type casing for CamillaDSP compatibility
-      // CamillaDSP expects: Lowshelf, Highshelf, Peaking (not LowShelf, HighShelf)
-      let normalizedType: string = band.type;
-      if (band.type === 'LowShelf') {
-        normalizedType = 'Lowshelf';
-      } else if (band.type === 'HighShelf') {
-        normalizedType = 'Highshelf';
-      }
-
+      // CamillaDSP expects: Lowshelf, Highshelf, Lowpass, ... (not LowShelf, HighShelf)
       const filterDef: any = {
-        type: normalizedType,
+        type: CAMILLA_BIQUAD_TYPES[band.type] ?? band.type,
         freq: band.freqHz,
         q: band.q,
       };
@@ -485,18 +559,15 @@ export class ConfigsLibrary {
   /**
    * Save a config with the given ID
    * Enforces read-only protection for imported presets
+   * Overwrites archive the previous content in the preset history
    */
   async saveConfig(id: string, config: PipelineConfig): Promise<void> {
     // Check if ID matches a read-only preset
     const configs = await this.listConfigs();
     const existing = configs.find((c) => c.id === id);
     
-    if (existing && existing.readOnly) {
-      throw new AppError(
-        ErrorCode.ERR_BAD_REQUEST,
-        `Cannot overwrite read-only preset: ${existing.configName}. Please choose a different name or duplicate the preset.`,
-        403
-      );
+    if (existing) {
+      this.assertWritable(existing);
     }
 
     // Validate input (strict type checks)
@@ -516,6 +587,320 @@ export class ConfigsLibrary {
       );
     }
 
+    if (existing) {
+      await this.archiveCurrent(existing, config);
+    }
+
+    await this.writeConfigFile(this.getFilePathForId(id), config);
+  }
+
+  /**
+   * List saved revisions of a config (newest first)
+   */
+  async listRevisions(id: string): Promise<RevisionMetadata[]> {
+    await this.findConfig(id);
+    return this.history.listRevisions(id);
+  }
+
+  /**
+   * Get a revision of a config in PipelineConfig format (converts EqPresetV1 if needed)
+   */
+  async getRevision(
+    id: string,
+    revisionId: string
+  ): Promise<{ revision: RevisionMetadata; config: PipelineConfig }> {
+    await this.findConfig(id);
+    const { revision, config } = await this.history.getRevision(id, revisionId);
+    return { revision, config: this.toPipelineConfig(config) };
+  }
+
+  /**
+   * Restore a revision of a config
+   * The content being replaced is archived first, so a restore can itself be rolled back
+   */
+  async restoreRevision(id: string, revisionId: string): Promise<void> {
+    const config = await this.findConfig(id);
+    this.assertWritable(config);
+
+    const { config: restored } = await this.history.getRevision(id, revisionId);
+    await this.archiveCurrent(config, restored);
+    await this.writeConfigFile(join(this.configsDir, config.file), restored);
+  }
+
+  /**
+   * Archive the current on-disk content of a config before it is replaced
+   * History is best-effort: a failure is logged but never blocks the save
+   */
+  private async archiveCurrent(config: ConfigMetadata, next: unknown): Promise<void> {
+    try {
+      const previous = await this.readRawConfig(config);
+      await this.history.recordRevision(config.id, previous, next, config.mtimeMs);
+    } catch (error) {
+      console.warn(`Failed to record revision for ${config.id}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Delete a config by ID
+   * Enforces read-only protection for imported presets
+   */
+  async deleteConfig(id: string): Promise<void> {
+    const config = await this.findConfig(id);
+    this.assertWritable(config);
+
+    const filePath = join(this.configsDir, config.file);
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    await this.history.deleteHistory(id);
+  }
+
+  /**
+   * Rename a config (moves it to the ID derived from the new name)
+   * Enforces read-only protection for imported presets
+   * @returns The new config ID
+   */
+  async renameConfig(id: string, newName: string): Promise<string> {
+    const config = await this.findConfig(id);
+    this.assertWritable(config);
+
+    const name = this.requireName(newName);
+    const newId = configIdFromName(name);
+    if (newId !== id) {
+      await this.assertIdAvailable(newId);
+    }
+
+    const data = await this.readRawConfig(config);
+    const renamed = isEqPreset(data)
+      ? { ...data, name }
+      : { ...data, configName: name };
+
+    if (newId === id) {
+      // Same ID: only the display name changes, rewrite in place
+      await this.writeConfigFile(join(this.configsDir, config.file), renamed);
+      return id;
+    }
+
+    // Write the new file first so a failed write never loses the preset
+    await this.writeConfigFile(this.getFilePathForId(newId), renamed);
+    try {
+      await fs.unlink(join(this.configsDir, config.file));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new AppError(
+          ErrorCode.ERR_CONFIG_WRITE_FAILED,
+          `Failed to remove old config file: ${(error as Error).message}`,
+          500,
+          { originalError: (error as Error).message }
+        );
+      }
+    }
+
+    await this.history.moveHistory(id, newId);
+
+    return newId;
+  }
+
+  /**
+   * Duplicate a config under a new name
+   * Read-only presets can be duplicated; the copy is always a writable user preset
+   * @returns The ID of the copy
+   */
+  async duplicateConfig(id: string, newName: string): Promise<string> {
+    const config = await this.findConfig(id);
+
+    const name = this.requireName(newName);
+    const newId = configIdFromName(name);
+    await this.assertIdAvailable(newId);
+
+    const data = await this.readRawConfig(config);
+    const copy = isEqPreset(data)
+      ? { ...data, name, source: 'user' as const, readOnly: false }
+      : { ...data, configName: name };
+
+    await this.writeConfigFile(this.getFilePathForId(newId), copy);
+
+    return newId;
+  }
+
+  /**
+   * Store an imported EQ preset (e.g. converted from Equalizer APO) as a new user preset
+   * The ID is derived from the preset name; existing presets are never overwritten
+   * @returns The ID of the new preset
+   */
+  async importEqPreset(preset: unknown): Promise<string> {
+    const data = (typeof preset === 'object' && preset !== null ? preset : {}) as Record<string, any>;
+
+    const name = this.requireName(data.name);
+    const id = configIdFromName(name);
+    await this.assertIdAvailable(id);
+
+    const imported: EqPresetV1 = {
+      presetType: 'eq',
+      schemaVersion: 1,
+      name,
+      device: {
+        category: data.device?.category ?? 'unknown',
+        manufacturer: data.device?.manufacturer ?? '',
+        model: data.device?.model ?? name,
+        ...(data.device?.variant ? { variant: data.device.variant } : {}),
+      },
+      preampDb: requireFiniteNumber(data.preampDb, 'preampDb'),
+      bands: validateEqPresetBands(data.bands),
+      source: 'user',
+      readOnly: false,
+    };
+
+    await this.writeConfigFile(this.getFilePathForId(id), imported);
+
+    return id;
+  }
+
+  /**
+   * Import a camilladsp YAML config file as a new pipeline preset
+   * Devices are dropped (presets never store them); title/description are kept
+   * @throws AppError ERR_CONFIG_INVALID_YAML (with line) or ERR_CONFIG_VALIDATION (with path errors)
+   * @returns The ID of the new preset
+   */
+  async importCamillaYaml(name: string, content: string): Promise<string> {
+    const configName = this.requireName(name);
+    const id = configIdFromName(configName);
+    await this.assertIdAvailable(id);
+
+    let parsed: unknown;
+    try {
+      parsed = parseCamillaYaml(content);
+    } catch (error) {
+      if (error instanceof YamlParseError) {
+        throw error.toAppError();
+      }
+      throw error;
+    }
+
+    assertValidCamillaConfig(parsed);
+    const config = parsed as Record<string, any>;
+
+    const imported: PipelineConfig = {
+      configName,
+      filterArray: [],
+      ...(typeof config.title === 'string' ? { title: config.title } : {}),
+      ...(typeof config.description === 'string' ? { description: config.description } : {}),
+      filters: config.filters ?? {},
+      mixers: config.mixers ?? {},
+      processors: config.processors ?? {},
+      pipeline: config.pipeline ?? [],
+    };
+
+    await this.writeConfigFile(this.getFilePathForId(id), imported);
+
+    return id;
+  }
+
+  /**
+   * Find config metadata by ID
+   * @throws AppError (404) if no config matches
+   */
+  private async findConfig(id: string): Promise<ConfigMetadata> {
+    const configs = await this.listConfigs();
+    const config = configs.find((c) => c.id === id);
+
+    if (!config) {
+      throw new AppError(
+        ErrorCode.ERR_CONFIG_NOT_FOUND,
+        `Config not found: ${id}`,
+        404
+      );
+    }
+
+    return config;
+  }
+
+  /**
+   * Reject modifications of read-only presets (e.g. AutoEQ library)
+   */
+  private assertWritable(config: ConfigMetadata): void {
+    if (config.readOnly) {
+      throw new AppError(
+        ErrorCode.ERR_BAD_REQUEST,
+        `Cannot overwrite read-only preset: ${config.configName}. Please choose a different name or duplicate the preset.`,
+        403
+      );
+    }
+  }
+
+  /**
+   * Reject target IDs that are already taken
+   */
+  private async assertIdAvailable(id: string): Promise<void> {
+    const configs = await this.listConfigs();
+    const existing = configs.find((c) => c.id === id);
+
+    if (existing) {
+      throw new AppError(
+        ErrorCode.ERR_CONFIG_ALREADY_EXISTS,
+        `A preset named "${existing.configName}" already exists`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Validate a user-provided preset name
+   * Path separators are rejected since the name becomes the file name
+   */
+  private requireName(name: unknown): string {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      throw new AppError(
+        ErrorCode.ERR_BAD_REQUEST,
+        'Name must be a non-empty string',
+        400
+      );
+    }
+    if (/[\/\\]/.test(name)) {
+      throw new AppError(
+        ErrorCode.ERR_BAD_REQUEST,
+        'Name must not contain path separators',
+        400
+      );
+    }
+    return name.trim();
+  }
+
+  /**
+   * Read a config file as stored on disk (no EqPresetV1 conversion)
+   */
+  private async readRawConfig(config: ConfigMetadata): Promise<Record<string, any>> {
+    const filePath = join(this.configsDir, config.file);
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      return JSON.parse(content);
+    } catch (error) {
+      throw new AppError(
+        ErrorCode.ERR_CONFIG_INVALID_JSON,
+        `Failed to parse config: ${(error as Error).message}`,
+        400,
+        { originalError: (error as Error).message }
+      );
+    }
+  }
+
+  /**
+   * Determine file path from ID (top-level of the configs dir)
+   */
+  private getFilePathForId(id: string): string {
+    // Original casing cannot be recovered from the ID; use ID with proper spacing
+    return join(this.configsDir, `${id.replace(/-/g, ' ')}.json`);
+  }
+
+  /**
+   * Serialize and atomically write a config file (temp file + rename)
+   */
+  private async writeConfigFile(filePath: string, config: unknown): Promise<void> {
     // Serialize to JSON
     let configJson: string;
     try {
@@ -542,7 +927,7 @@ export class ConfigsLibrary {
 
     // Ensure directory exists
     try {
-      await fs.mkdir(this.configsDir, { recursive: true });
+      await fs.mkdir(dirname(filePath), { recursive: true });
     } catch (error) {
       throw new AppError(
         ErrorCode.ERR_CONFIG_WRITE_FAILED,
@@ -552,10 +937,6 @@ export class ConfigsLibrary {
       );
     }
 
-    // Determine filename from ID (convert back to original case if possible)
-    // For now, use ID with proper spacing
-    const filename = `${id.replace(/-/g, ' ')}.json`;
-    const filePath = join(this.configsDir, filename);
     const tempPath = `${filePath}.tmp`;
 
     try {
@@ -580,29 +961,4 @@ export class ConfigsLibrary {
       );
     }
   }
-
-  /**
-   * Delete a config (for testing)
-   */
-  async deleteConfig(id: string): Promise<void> {
-    const configs = await this.listConfigs();
-    const config = configs.find((c) => c.id === id);
-
-    if (!config) {
-      throw new AppError(
-        ErrorCode.ERR_CONFIG_NOT_FOUND,
-        `Config not found: ${id}`,
-        404
-      );
-    }
-
-    const filePath = join(this.configsDir, config.file);
-    try {
-      await fs.unlink(filePath);
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-        throw error;
-      }
-    }
-  }
 }
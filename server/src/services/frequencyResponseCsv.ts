@@ -0,0 +1,91 @@
+import { AppError, ErrorCode } from '../types/errors.js';
+
+/**
+ * One point of a frequency response (target curve or measurement)
+ */
+export interface FrequencyResponsePoint {
+  freq: number;
+  gainDb: number;
+}
+
+export interface FrequencyResponseCsvOptions {
+  /** Header names of the gain column, most preferred first */
+  gainColumns: string[];
+  /** What the file holds, for error messages (e.g. 'Target curve') */
+  label: string;
+  /** Error code of a file that does not parse (400) */
+  errorCode: ErrorCode;
+}
+
+export const MAX_RESPONSE_POINTS = 20000;
+
+// Comment prefixes used by squig.link / REW exports
+const COMMENT_PREFIXES = ['*', '#', ';', '//'];
+const FREQ_COLUMNS = ['frequency', 'freq', 'hz'];
+
+/**
+ * Parse frequency/dB text
+ *
+ * Accepts AutoEQ CSVs (`frequency,raw` header, or a result CSV with many
+ * columns) and squig.link/REW text exports (whitespace-separated `freq dB`
+ * lines with `*` comments). A header row picks the columns by name; without
+ * one the first two columns are frequency and gain.
+ * @throws AppError (400) if the text holds no usable curve
+ */
+export function parseFrequencyResponseCsv(
+  text: string,
+  options: FrequencyResponseCsvOptions
+): FrequencyResponsePoint[] {
+  const invalid = (message: string) => new AppError(options.errorCode, message, 400);
+
+  let freqColumn = 0;
+  let gainColumn = 1;
+  let sawData = false;
+  const byFreq = new Map<number, number>();
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || COMMENT_PREFIXES.some((prefix) => line.startsWith(prefix))) {
+      continue;
+    }
+
+    const fields = line.split(/[\s,;]+/).filter((field) => field !== '');
+    const values = fields.map(Number);
+
+    if (!values.every(Number.isFinite)) {
+      if (sawData) {
+        throw invalid(`Line ${i + 1} is not numeric: ${line.slice(0, 40)}`);
+      }
+      // Header row: pick the columns by name
+      const names = fields.map((field) => field.toLowerCase().replace(/^"|"$/g, ''));
+      const freqIndex = names.findIndex((name) => FREQ_COLUMNS.includes(name));
+      const gainName = options.gainColumns.find((name) => names.includes(name));
+      freqColumn = freqIndex >= 0 ? freqIndex : 0;
+      gainColumn = gainName ? names.indexOf(gainName) : freqColumn === 0 ? 1 : 0;
+      sawData = true;
+      continue;
+    }
+
+    sawData = true;
+    const freq = values[freqColumn];
+    const gainDb = values[gainColumn];
+    if (freq === undefined || gainDb === undefined) {
+      throw invalid(`Line ${i + 1} has no column ${Math.max(freqColumn, gainColumn) + 1}`);
+    }
+    if (freq > 0) {
+      byFreq.set(freq, gainDb);
+    }
+  }
+
+  if (byFreq.size < 2) {
+    throw invalid(`${options.label} needs at least two frequency/gain points`);
+  }
+  if (byFreq.size > MAX_RESPONSE_POINTS) {
+    throw invalid(`${options.label} has more than ${MAX_RESPONSE_POINTS} points`);
+  }
+
+  return [...byFreq.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([freq, gainDb]) => ({ freq, gainDb }));
+}
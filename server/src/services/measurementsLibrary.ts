@@ -0,0 +1,237 @@
+import { promises as fs } from 'fs';
+import { extname, join, resolve } from 'path';
+import { AppError, ErrorCode } from '../types/errors.js';
+import { getMeasurementsDir } from '../configPaths.js';
+import { parseFrequencyResponseCsv, type FrequencyResponsePoint } from './frequencyResponseCsv.js';
+
+/**
+ * Configuration for the measurements library
+ */
+export interface MeasurementsLibraryConfig {
+  /** Directory holding frequency-response measurements */
+  measurementsDir?: string;
+}
+
+/**
+ * Metadata of a stored measurement
+ * `device` is the file name without extension; presets link to it through
+ * their device name (`<manufacturer> <model>[ <variant>]`)
+ */
+export interface MeasurementInfo {
+  name: string;
+  device: string;
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * A parsed measurement (points sorted by frequency)
+ */
+export interface Measurement {
+  name: string;
+  device: string;
+  points: FrequencyResponsePoint[];
+}
+
+/** Maximum upload size (an AutoEQ result CSV with all columns stays well below this) */
+export const MAX_MEASUREMENT_FILE_SIZE = 1024 * 1024;
+
+// Device names come from AutoEQ as is (e.g. "Moondrop Blessing 2: Dusk", "Tin HiFi T2+"),
+// so anything but path separators and control characters is allowed
+const FILE_NAME_PATTERN = /^[^/\\\x00-\x1f.][^/\\\x00-\x1f]{0,159}$/;
+const MEASUREMENT_EXTENSIONS = new Set(['.csv', '.txt']);
+// AutoEQ result CSVs carry the measurement as `raw` (the other columns are derived from it)
+const MEASUREMENT_GAIN_COLUMNS = ['raw'];
+
+/**
+ * Parse a measurement file (AutoEQ CSV or squig.link/REW text)
+ * @throws AppError (400) if the text holds no usable curve
+ */
+export function parseMeasurementCsv(text: string): FrequencyResponsePoint[] {
+  return parseFrequencyResponseCsv(text, {
+    gainColumns: MEASUREMENT_GAIN_COLUMNS,
+    label: 'Measurement',
+    errorCode: ErrorCode.ERR_MEASUREMENT_INVALID,
+  });
+}
+
+/**
+ * Managed directory of headphone/speaker frequency-response measurements
+ *
+ * Lives next to the configs dir. `npm run import:autoeq -- --measurements` fills
+ * it from the AutoEQ repo; files can also be uploaded. Stored as is, parsed on read.
+ */
+export class MeasurementsLibrary {
+  private measurementsDir: string;
+
+  constructor(config: MeasurementsLibraryConfig = {}) {
+    this.measurementsDir = resolve(config.measurementsDir || getMeasurementsDir());
+  }
+
+  /**
+   * Get the measurements directory path
+   */
+  getMeasurementsDir(): string {
+    return this.measurementsDir;
+  }
+
+  /**
+   * List stored measurements (sorted by name)
+   */
+  async listMeasurements(): Promise<MeasurementInfo[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.measurementsDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new AppError(
+        ErrorCode.ERR_INTERNAL_SERVER,
+        `Failed to list measurements: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    const measurements: MeasurementInfo[] = [];
+    for (const name of entries.sort((a, b) => a.localeCompare(b))) {
+      if (!isValidFileName(name)) {
+        continue;
+      }
+
+      try {
+        const stat = await fs.stat(join(this.measurementsDir, name));
+        if (stat.isFile()) {
+          measurements.push({ name, device: deviceName(name), size: stat.size, mtimeMs: stat.mtimeMs });
+        }
+      } catch {
+        console.warn(`Skipping unreadable measurement: ${name}`);
+      }
+    }
+
+    return measurements;
+  }
+
+  /**
+   * Read and parse a stored measurement
+   * @throws AppError (404) if it does not exist, (400) if it no longer parses
+   */
+  async readMeasurement(name: string): Promise<Measurement> {
+    const filePath = this.getFilePath(name);
+    let text: string;
+    try {
+      text = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new AppError(ErrorCode.ERR_MEASUREMENT_NOT_FOUND, `Measurement not found: ${name}`, 404);
+      }
+      throw new AppError(
+        ErrorCode.ERR_INTERNAL_SERVER,
+        `Failed to read measurement: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    return { name, device: deviceName(name), points: parseMeasurementCsv(text) };
+  }
+
+  /**
+   * Store an uploaded measurement (replaces a file of the same name)
+   * The text must parse as a curve; it is stored as is
+   */
+  async saveMeasurement(name: string, text: string): Promise<Measurement> {
+    const filePath = this.getFilePath(name);
+
+    const size = Buffer.byteLength(text, 'utf-8');
+    if (size > MAX_MEASUREMENT_FILE_SIZE) {
+      throw new AppError(
+        ErrorCode.ERR_MEASUREMENT_TOO_LARGE,
+        `Measurement size (${size} bytes) exceeds maximum allowed size (${MAX_MEASUREMENT_FILE_SIZE} bytes)`,
+        413
+      );
+    }
+
+    const points = parseMeasurementCsv(text);
+
+    try {
+      await fs.mkdir(this.measurementsDir, { recursive: true });
+    } catch (error) {
+      throw new AppError(
+        ErrorCode.ERR_MEASUREMENT_WRITE_FAILED,
+        `Failed to create measurements directory: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    const tempPath = `${filePath}.tmp`;
+    try {
+      await fs.writeFile(tempPath, text, 'utf-8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      try {
+        await fs.unlink(tempPath);
+      } catch {
+        // Ignore cleanup errors
+      }
+
+      throw new AppError(
+        ErrorCode.ERR_MEASUREMENT_WRITE_FAILED,
+        `Failed to write measurement: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    return { name, device: deviceName(name), points };
+  }
+
+  /**
+   * Delete a stored measurement
+   * @throws AppError (404) if it does not exist
+   */
+  async deleteMeasurement(name: string): Promise<void> {
+    const filePath = this.getFilePath(name);
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new AppError(ErrorCode.ERR_MEASUREMENT_NOT_FOUND, `Measurement not found: ${name}`, 404);
+      }
+      throw new AppError(
+        ErrorCode.ERR_MEASUREMENT_WRITE_FAILED,
+        `Failed to delete measurement: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+  }
+
+  /**
+   * Resolve a file name inside the measurements dir
+   */
+  private getFilePath(name: string): string {
+    if (!isValidFileName(name)) {
+      throw new AppError(
+        ErrorCode.ERR_BAD_REQUEST,
+        'File name must be a plain name (no path separators, not starting with a dot) ending in .csv or .txt',
+        400
+      );
+    }
+    return join(this.measurementsDir, name);
+  }
+}
+
+function isValidFileName(name: string): boolean {
+  return (
+    FILE_NAME_PATTERN.test(name) &&
+    !name.includes('..') &&
+    MEASUREMENT_EXTENSIONS.has(extname(name).toLowerCase())
+  );
+}
+
+function deviceName(fileName: string): string {
+  return fileName.slice(0, -extname(fileName).length);
+}
@@ -164,6 +164,13 @@ export class MockCamillaDSP {
           this.sendResponse(ws, 'GetCaptureRate', { result: 'Ok', value: 44100 });
           break;
 
+        case 'GetCaptureSignalPeak':
+        case 'GetCaptureSignalRms':
+        case 'GetPlaybackSignalPeak':
+        case 'GetPlaybackSignalRms':
+          this.sendResponse(ws, command, { result: 'Ok', value: this.getSignalLevels()[command] });
+          break;
+
         case 'GetProcessingLoad':
           this.sendResponse(ws, 'GetProcessingLoad', { result: 'Ok', value: 5.2 });
           break;
@@ -280,6 +287,80 @@ export class MockCamillaDSP {
     return bins;
   }
 
+  /**
+   * Generate mock per-channel signal levels (dBFS) for the control socket's level commands
+   * Capture levels drift slowly around -24 dB RMS; playback levels are the capture levels
+   * passed through the config's Compressor/NoiseGate steps (static curves), so the GUI's
+   * gain-reduction meters move when those processors are edited
+   */
+  private getSignalLevels(): Record<string, number[]> {
+    const config = this.getDefaultConfig();
+    const time = Date.now() / 1000;
+    const captureChannels = Number(config.devices?.capture?.channels) || 2;
+    const playbackChannels = Number(config.devices?.playback?.channels) || captureChannels;
+
+    const captureRms = Array.from({ length: captureChannels }, (_, ch) => -24 + 8 * Math.sin(time * 0.7 + ch));
+    // Typical music crest factor
+    const capturePeak = captureRms.map((rms) => rms + 9);
+
+    // Mixers are not modelled: playback channel i carries capture channel i
+    const playbackRms = Array.from({ length: playbackChannels }, (_, ch) => captureRms[ch % captureChannels]);
+    const playbackPeak = Array.from({ length: playbackChannels }, (_, ch) => capturePeak[ch % captureChannels]);
+
+    for (const step of config.pipeline ?? []) {
+      if (step.type !== 'Processor' || step.bypassed) continue;
+      const processor = config.processors?.[step.name];
+      if (processor) {
+        this.applyMockProcessor(processor, playbackRms, playbackPeak);
+      }
+    }
+
+    return {
+      GetCaptureSignalPeak: capturePeak,
+      GetCaptureSignalRms: captureRms,
+      GetPlaybackSignalPeak: playbackPeak,
+      GetPlaybackSignalRms: playbackRms,
+    };
+  }
+
+  /**
+   * Apply a Compressor/NoiseGate's static gain to the process channels (in place)
+   */
+  private applyMockProcessor(processor: any, rms: number[], peak: number[]): void {
+    const params = processor.parameters ?? {};
+    const allChannels = rms.map((_, ch) => ch);
+    const monitor: number[] = (params.monitor_channels ?? allChannels).filter((ch: number) => ch < rms.length);
+    const process: number[] = (params.process_channels ?? allChannels).filter((ch: number) => ch < rms.length);
+    if (monitor.length === 0) return;
+
+    const level = Math.max(...monitor.map((ch) => rms[ch]));
+    const threshold = Number(params.threshold ?? 0);
+    let gain = 0;
+
+    if (processor.type === 'Compressor') {
+      const factor = Math.max(1, Number(params.factor ?? 1));
+      if (level > threshold) {
+        gain = threshold + (level - threshold) / factor - level;
+      }
+      gain += Number(params.makeup_gain ?? 0);
+    } else if (processor.type === 'NoiseGate') {
+      if (level < threshold) {
+        gain = -Math.abs(Number(params.attenuation ?? 0));
+      }
+    } else {
+      return;
+    }
+
+    for (const ch of process) {
+      rms[ch] += gain;
+      peak[ch] += gain;
+      if (processor.type === 'Compressor' && params.clip_limit != null) {
+        peak[ch] = Math.min(peak[ch], Number(params.clip_limit));
+        rms[ch] = Math.min(rms[ch], peak[ch]);
+      }
+    }
+  }
+
   /**
    * Get default config YAML
    */
@@ -0,0 +1,358 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { AppError, ErrorCode } from '../types/errors.js';
+import { getPresetHistoryDir } from '../configPaths.js';
+
+/**
+ * Configuration for preset history
+ */
+export interface PresetHistoryConfig {
+  /** Directory where revisions are stored (one subdirectory per preset ID) */
+  historyDir?: string;
+  /** Maximum number of revisions kept per preset (oldest are pruned) */
+  maxRevisions?: number;
+}
+
+/**
+ * Metadata for a stored revision
+ */
+export interface RevisionMetadata {
+  revisionId: string;
+  timestamp: number; // when the revision content was originally saved (file mtime)
+  replacedAt: number; // when a later save replaced it
+  summary: string; // short description of what the replacing save changed
+}
+
+/**
+ * On-disk revision file structure
+ */
+interface RevisionFile {
+  revision: RevisionMetadata;
+  config: unknown;
+}
+
+const DEFAULT_MAX_REVISIONS = 20;
+const REVISION_ID_PATTERN = /^\d+(-\d+)?$/;
+const MAX_LISTED_NAMES = 3;
+
+/**
+ * Preset revision history (bounded, per preset ID)
+ *
+ * Every overwrite of a saved preset archives the previous file content here,
+ * so a bad save can be rolled back.
+ */
+export class PresetHistory {
+  private historyDir: string;
+  private maxRevisions: number;
+
+  constructor(config: PresetHistoryConfig = {}) {
+    this.historyDir = config.historyDir || getPresetHistoryDir();
+    this.maxRevisions = config.maxRevisions || DEFAULT_MAX_REVISIONS;
+  }
+
+  /**
+   * Get the history directory path
+   */
+  getHistoryDir(): string {
+    return this.historyDir;
+  }
+
+  /**
+   * Archive the previous content of a preset before it gets overwritten
+   * Prunes the oldest revisions beyond the configured limit
+   */
+  async recordRevision(
+    id: string,
+    previous: unknown,
+    next: unknown,
+    previousSavedAt: number
+  ): Promise<RevisionMetadata> {
+    const presetDir = this.getPresetDir(id);
+
+    try {
+      await fs.mkdir(presetDir, { recursive: true });
+    } catch (error) {
+      throw new AppError(
+        ErrorCode.ERR_CONFIG_WRITE_FAILED,
+        `Failed to create history directory: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    const now = Date.now();
+    const revisionId = await this.allocateRevisionId(presetDir, now);
+    const revision: RevisionMetadata = {
+      revisionId,
+      timestamp: Math.round(previousSavedAt),
+      replacedAt: now,
+      summary: summarizeConfigDiff(previous, next),
+    };
+
+    const file: RevisionFile = { revision, config: previous };
+    const filePath = join(presetDir, `${revisionId}.json`);
+    const tempPath = `${filePath}.tmp`;
+
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(file, null, 2), 'utf-8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      try {
+        await fs.unlink(tempPath);
+      } catch {
+        // Ignore cleanup errors
+      }
+
+      throw new AppError(
+        ErrorCode.ERR_CONFIG_WRITE_FAILED,
+        `Failed to write revision: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    await this.prune(id);
+
+    return revision;
+  }
+
+  /**
+   * List revisions for a preset (newest first)
+   */
+  async listRevisions(id: string): Promise<RevisionMetadata[]> {
+    const revisions: RevisionMetadata[] = [];
+
+    for (const revisionId of await this.listRevisionIds(id)) {
+      try {
+        const file = await this.readRevisionFile(id, revisionId);
+        revisions.push(file.revision);
+      } catch {
+        // Skip malformed revision files
+        console.warn(`Skipping malformed revision: ${id}/${revisionId}`);
+      }
+    }
+
+    return revisions.sort(
+      (a, b) =>
+        b.replacedAt - a.replacedAt ||
+        b.revisionId.localeCompare(a.revisionId, undefined, { numeric: true })
+    );
+  }
+
+  /**
+   * Get a single revision (metadata + archived config content)
+   */
+  async getRevision(id: string, revisionId: string): Promise<RevisionFile> {
+    if (!REVISION_ID_PATTERN.test(revisionId)) {
+      throw new AppError(
+        ErrorCode.ERR_BAD_REQUEST,
+        `Invalid revision ID: ${revisionId}`,
+        400
+      );
+    }
+
+    try {
+      return await this.readRevisionFile(id, revisionId);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new AppError(
+          ErrorCode.ERR_REVISION_NOT_FOUND,
+          `Revision not found: ${id}/${revisionId}`,
+          404
+        );
+      }
+
+      throw new AppError(
+        ErrorCode.ERR_CONFIG_INVALID_JSON,
+        `Failed to parse revision: ${(error as Error).message}`,
+        400,
+        { originalError: (error as Error).message }
+      );
+    }
+  }
+
+  /**
+   * Move history along with a renamed preset
+   */
+  async moveHistory(oldId: string, newId: string): Promise<void> {
+    try {
+      await fs.rm(this.getPresetDir(newId), { recursive: true, force: true });
+      await fs.rename(this.getPresetDir(oldId), this.getPresetDir(newId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Remove all revisions of a preset
+   */
+  async deleteHistory(id: string): Promise<void> {
+    await fs.rm(this.getPresetDir(id), { recursive: true, force: true });
+  }
+
+  /**
+   * Per-preset history directory
+   * IDs may contain characters that are awkward in paths, so they are URI-encoded
+   */
+  private getPresetDir(id: string): string {
+    return join(this.historyDir, encodeURIComponent(id));
+  }
+
+  private async readRevisionFile(id: string, revisionId: string): Promise<RevisionFile> {
+    const content = await fs.readFile(join(this.getPresetDir(id), `${revisionId}.json`), 'utf-8');
+    return JSON.parse(content) as RevisionFile;
+  }
+
+  /**
+   * Revision IDs present on disk for a preset (unsorted)
+   */
+  private async listRevisionIds(id: string): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.getPresetDir(id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return entries
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => name.slice(0, -'.json'.length))
+      .filter((revisionId) => REVISION_ID_PATTERN.test(revisionId));
+  }
+
+  /**
+   * Timestamp-based revision ID, suffixed when two saves land in the same millisecond
+   */
+  private async allocateRevisionId(presetDir: string, now: number): Promise<string> {
+    const existing = new Set(await fs.readdir(presetDir));
+    let revisionId = String(now);
+    let suffix = 1;
+    while (existing.has(`${revisionId}.json`)) {
+      revisionId = `${now}-${suffix++}`;
+    }
+    return revisionId;
+  }
+
+  /**
+   * Drop the oldest revisions beyond maxRevisions
+   */
+  private async prune(id: string): Promise<void> {
+    const revisions = await this.listRevisions(id);
+    for (const stale of revisions.slice(this.maxRevisions)) {
+      try {
+        await fs.unlink(join(this.getPresetDir(id), `${stale.revisionId}.json`));
+      } catch {
+        // Ignore: a missing file is already pruned
+      }
+    }
+  }
+}
+
+/**
+ * Flattened, comparable view of a stored preset
+ */
+interface ConfigDigest {
+  filters: Map<string, string>; // filter name -> serialized definition
+  preampDb: number;
+  routing: string; // serialized mixers (except preamp), processors, pipeline
+}
+
+/**
+ * Reduce any supported on-disk format (EqPresetV1, legacy filterArray,
+ * extended pipeline) to a digest that can be diffed
+ */
+function digestConfig(config: unknown): ConfigDigest {
+  const data = (typeof config === 'object' && config !== null ? config : {}) as Record<string, any>;
+  const filters = new Map<string, string>();
+  let preampDb = 0;
+
+  if (data.presetType === 'eq' && Array.isArray(data.bands)) {
+    data.bands.forEach((band: unknown, index: number) => {
+      filters.set(`Filter${String(index + 1).padStart(2, '0')}`, JSON.stringify(band));
+    });
+    preampDb = Number(data.preampDb) || 0;
+    return { filters, preampDb, routing: '' };
+  }
+
+  if (Array.isArray(data.filterArray)) {
+    for (const item of data.filterArray) {
+      const [name, value] = Object.entries(item ?? {})[0] ?? [];
+      if (!name || name === 'Volume') continue;
+      if (name === 'Preamp') {
+        preampDb = Number((value as any)?.gain) || 0;
+        continue;
+      }
+      filters.set(name, JSON.stringify(value));
+    }
+  }
+
+  if (data.filters && typeof data.filters === 'object') {
+    for (const [name, value] of Object.entries(data.filters)) {
+      filters.set(name, JSON.stringify(value));
+    }
+  }
+
+  const preampGain = data.mixers?.preamp?.mapping?.[0]?.sources?.[0]?.gain;
+  if (typeof preampGain === 'number') {
+    preampDb = preampGain;
+  }
+
+  // Preamp mixer is reported separately, keep it out of the routing comparison
+  const { preamp: _preamp, ...otherMixers } = data.mixers ?? {};
+  const routing = JSON.stringify({
+    mixers: otherMixers,
+    processors: data.processors ?? null,
+    pipeline: data.pipeline ?? null,
+  });
+
+  return { filters, preampDb, routing };
+}
+
+function formatNameList(names: string[]): string {
+  const shown = names.slice(0, MAX_LISTED_NAMES).join(', ');
+  return names.length > MAX_LISTED_NAMES ? `${shown}, …` : shown;
+}
+
+/**
+ * Short human-readable summary of what changed between two saved presets
+ * e.g. "2 filters changed (Filter01, Filter03); preamp -3 → -4.5 dB"
+ */
+export function summarizeConfigDiff(previous: unknown, next: unknown): string {
+  const before = digestConfig(previous);
+  const after = digestConfig(next);
+  const parts: string[] = [];
+
+  const changed: string[] = [];
+  const removed: string[] = [];
+  for (const [name, def] of before.filters) {
+    if (!after.filters.has(name)) {
+      removed.push(name);
+    } else if (after.filters.get(name) !== def) {
+      changed.push(name);
+    }
+  }
+  const added = [...after.filters.keys()].filter((name) => !before.filters.has(name));
+
+  if (changed.length > 0) {
+    parts.push(`${changed.length} filter${changed.length === 1 ? '' : 's'} changed (${formatNameList(changed)})`);
+  }
+  if (added.length > 0) {
+    parts.push(`${added.length} added (${formatNameList(added)})`);
+  }
+  if (removed.length > 0) {
+    parts.push(`${removed.length} removed (${formatNameList(removed)})`);
+  }
+  if (before.preampDb !== after.preampDb) {
+    parts.push(`preamp ${before.preampDb} → ${after.preampDb} dB`);
+  }
+  if (before.routing !== after.routing) {
+    parts.push('pipeline routing changed');
+  }
+
+  return parts.length > 0 ? parts.join('; ') : 'No changes';
+}
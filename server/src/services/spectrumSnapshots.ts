@@ -0,0 +1,200 @@
+import { randomUUID } from 'crypto';
+import { AppError, ErrorCode } from '../types/errors.js';
+import { ConfigStore } from './configStore.js';
+import { getConfigDir } from '../configPaths.js';
+
+/**
+ * Configuration for spectrum snapshot storage
+ */
+export interface SpectrumSnapshotStoreConfig {
+  /** Directory where the snapshots file is stored */
+  configDir?: string;
+  /** Maximum number of stored snapshots */
+  maxSnapshots?: number;
+}
+
+export type SpectrumSnapshotSource = 'lta' | 'peak';
+
+/**
+ * A frozen analyzer trace
+ * binsDb holds one dB value per display bin (log-spaced across the plot's frequency range)
+ */
+export interface SpectrumSnapshot {
+  id: string;
+  name: string;
+  source: SpectrumSnapshotSource;
+  color: string;
+  createdAt: number;
+  binsDb: number[];
+}
+
+export interface CreateSpectrumSnapshotInput {
+  name: string;
+  source: SpectrumSnapshotSource;
+  color: string;
+  binsDb: number[];
+}
+
+export type UpdateSpectrumSnapshotInput = Partial<Pick<SpectrumSnapshot, 'name' | 'color'>>;
+
+/**
+ * On-disk file structure
+ */
+interface SnapshotsFile {
+  snapshots: SpectrumSnapshot[];
+}
+
+export const SNAPSHOTS_FILE_NAME = 'spectrum_snapshots.json';
+export const MAX_SNAPSHOT_BINS = 4096;
+export const MAX_SNAPSHOT_NAME_LENGTH = 64;
+const DEFAULT_MAX_SNAPSHOTS = 50;
+const MAX_SNAPSHOTS_FILE_SIZE = 8 * 1024 * 1024; // 8MB (50 × 4096 bins as JSON)
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Named analyzer trace snapshots (single JSON file beside the latest DSP state)
+ */
+export class SpectrumSnapshotStore {
+  private store: ConfigStore;
+  private maxSnapshots: number;
+
+  constructor(config: SpectrumSnapshotStoreConfig = {}) {
+    this.store = new ConfigStore({
+      configDir: config.configDir || getConfigDir(),
+      configFileName: SNAPSHOTS_FILE_NAME,
+      maxConfigSize: MAX_SNAPSHOTS_FILE_SIZE,
+    });
+    this.maxSnapshots = config.maxSnapshots || DEFAULT_MAX_SNAPSHOTS;
+  }
+
+  /**
+   * List all snapshots (oldest first)
+   */
+  async listSnapshots(): Promise<SpectrumSnapshot[]> {
+    return (await this.readFile()).snapshots;
+  }
+
+  /**
+   * Store a new snapshot
+   */
+  async createSnapshot(input: CreateSpectrumSnapshotInput): Promise<SpectrumSnapshot> {
+    const name = validateName(input.name);
+    const color = validateColor(input.color);
+
+    if (input.source !== 'lta' && input.source !== 'peak') {
+      throw invalid(`Invalid snapshot source: ${String(input.source)}`);
+    }
+
+    const binsDb = input.binsDb;
+    if (
+      !Array.isArray(binsDb) ||
+      binsDb.length < 2 ||
+      binsDb.length > MAX_SNAPSHOT_BINS ||
+      !binsDb.every((value) => typeof value === 'number' && Number.isFinite(value))
+    ) {
+      throw invalid(`Snapshot bins must be 2-${MAX_SNAPSHOT_BINS} finite numbers`);
+    }
+
+    const file = await this.readFile();
+    if (file.snapshots.length >= this.maxSnapshots) {
+      throw new AppError(
+        ErrorCode.ERR_SNAPSHOT_LIMIT,
+        `Snapshot limit reached (${this.maxSnapshots}); delete a snapshot first`,
+        409
+      );
+    }
+
+    const snapshot: SpectrumSnapshot = {
+      id: randomUUID(),
+      name,
+      source: input.source,
+      color,
+      createdAt: Date.now(),
+      binsDb: binsDb.map((value) => Math.round(value * 100) / 100),
+    };
+
+    file.snapshots.push(snapshot);
+    await this.store.writeConfig(file);
+
+    return snapshot;
+  }
+
+  /**
+   * Rename or recolor a snapshot
+   */
+  async updateSnapshot(id: string, update: UpdateSpectrumSnapshotInput): Promise<SpectrumSnapshot> {
+    const file = await this.readFile();
+    const snapshot = findSnapshot(file, id);
+
+    if (update.name !== undefined) {
+      snapshot.name = validateName(update.name);
+    }
+    if (update.color !== undefined) {
+      snapshot.color = validateColor(update.color);
+    }
+
+    await this.store.writeConfig(file);
+
+    return snapshot;
+  }
+
+  /**
+   * Delete a snapshot
+   */
+  async deleteSnapshot(id: string): Promise<void> {
+    const file = await this.readFile();
+    const snapshot = findSnapshot(file, id);
+
+    file.snapshots = file.snapshots.filter((s) => s !== snapshot);
+    await this.store.writeConfig(file);
+  }
+
+  /**
+   * Read the snapshots file (a missing file is an empty list)
+   */
+  private async readFile(): Promise<SnapshotsFile> {
+    let data: unknown;
+    try {
+      data = await this.store.readConfig();
+    } catch (error) {
+      if (error instanceof AppError && error.code === ErrorCode.ERR_CONFIG_NOT_FOUND) {
+        return { snapshots: [] };
+      }
+      throw error;
+    }
+
+    const snapshots = (data as Partial<SnapshotsFile> | null)?.snapshots;
+    return { snapshots: Array.isArray(snapshots) ? snapshots : [] };
+  }
+}
+
+function findSnapshot(file: SnapshotsFile, id: string): SpectrumSnapshot {
+  const snapshot = file.snapshots.find((s) => s.id === id);
+  if (!snapshot) {
+    throw new AppError(
+      ErrorCode.ERR_SNAPSHOT_NOT_FOUND,
+      `Snapshot not found: ${id}`,
+      404
+    );
+  }
+  return snapshot;
+}
+
+function validateName(name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed || trimmed.length > MAX_SNAPSHOT_NAME_LENGTH) {
+    throw invalid(`Snapshot name must be 1-${MAX_SNAPSHOT_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+function validateColor(color: unknown): string {
+  if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) {
+    throw invalid(`Invalid snapshot color: ${String(color)} (expected #rrggbb)`);
+  }
+  return color.toLowerCase();
+}
+
+function invalid(message: string): AppError {
+  return new AppError(ErrorCode.ERR_SNAPSHOT_INVALID, message, 400);
+}
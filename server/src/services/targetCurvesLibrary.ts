@@ -0,0 +1,226 @@
+import { promises as fs } from 'fs';
+import { extname, join, resolve } from 'path';
+import { AppError, ErrorCode } from '../types/errors.js';
+import { getTargetsDir } from '../configPaths.js';
+import { parseFrequencyResponseCsv, type FrequencyResponsePoint } from './frequencyResponseCsv.js';
+
+/**
+ * Configuration for the target curves library
+ */
+export interface TargetCurvesLibraryConfig {
+  /** Directory holding uploaded target curves */
+  targetsDir?: string;
+}
+
+export type TargetCurvePoint = FrequencyResponsePoint;
+
+/**
+ * Metadata of a stored target curve file
+ */
+export interface TargetCurveInfo {
+  name: string;
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * A parsed target curve (points sorted by frequency)
+ */
+export interface TargetCurve {
+  name: string;
+  points: TargetCurvePoint[];
+}
+
+/** Maximum upload size (AutoEQ result CSVs with all columns stay well below this) */
+export const MAX_TARGET_FILE_SIZE = 1024 * 1024;
+
+const FILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 ._()-]{0,127}$/;
+const TARGET_EXTENSIONS = new Set(['.csv', '.txt']);
+// AutoEQ result CSVs carry both; the target column wins
+const TARGET_GAIN_COLUMNS = ['target', 'raw'];
+
+/**
+ * Parse a target curve file (AutoEQ CSV or squig.link text)
+ * @throws AppError (400) if the text holds no usable curve
+ */
+export function parseTargetCurveCsv(text: string): TargetCurvePoint[] {
+  return parseFrequencyResponseCsv(text, {
+    gainColumns: TARGET_GAIN_COLUMNS,
+    label: 'Target curve',
+    errorCode: ErrorCode.ERR_TARGET_INVALID,
+  });
+}
+
+/**
+ * Managed directory of target curve files (frequency/dB text)
+ *
+ * Lives next to the configs dir; files are stored as uploaded and parsed on read.
+ */
+export class TargetCurvesLibrary {
+  private targetsDir: string;
+
+  constructor(config: TargetCurvesLibraryConfig = {}) {
+    this.targetsDir = resolve(config.targetsDir || getTargetsDir());
+  }
+
+  /**
+   * Get the targets directory path
+   */
+  getTargetsDir(): string {
+    return this.targetsDir;
+  }
+
+  /**
+   * List stored target curves (sorted by name)
+   */
+  async listTargets(): Promise<TargetCurveInfo[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.targetsDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new AppError(
+        ErrorCode.ERR_INTERNAL_SERVER,
+        `Failed to list target curves: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    const targets: TargetCurveInfo[] = [];
+    for (const name of entries.sort((a, b) => a.localeCompare(b))) {
+      if (!isValidFileName(name)) {
+        continue;
+      }
+
+      try {
+        const stat = await fs.stat(join(this.targetsDir, name));
+        if (stat.isFile()) {
+          targets.push({ name, size: stat.size, mtimeMs: stat.mtimeMs });
+        }
+      } catch {
+        console.warn(`Skipping unreadable target curve: ${name}`);
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Read and parse a stored target curve
+   * @throws AppError (404) if it does not exist, (400) if it no longer parses
+   */
+  async readTarget(name: string): Promise<TargetCurve> {
+    const filePath = this.getFilePath(name);
+    let text: string;
+    try {
+      text = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new AppError(ErrorCode.ERR_TARGET_NOT_FOUND, `Target curve not found: ${name}`, 404);
+      }
+      throw new AppError(
+        ErrorCode.ERR_INTERNAL_SERVER,
+        `Failed to read target curve: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    return { name, points: parseTargetCurveCsv(text) };
+  }
+
+  /**
+   * Store an uploaded target curve (replaces a file of the same name)
+   * The text must parse as a curve; it is stored as is
+   */
+  async saveTarget(name: string, text: string): Promise<TargetCurve> {
+    const filePath = this.getFilePath(name);
+
+    const size = Buffer.byteLength(text, 'utf-8');
+    if (size > MAX_TARGET_FILE_SIZE) {
+      throw new AppError(
+        ErrorCode.ERR_TARGET_TOO_LARGE,
+        `Target curve size (${size} bytes) exceeds maximum allowed size (${MAX_TARGET_FILE_SIZE} bytes)`,
+        413
+      );
+    }
+
+    const points = parseTargetCurveCsv(text);
+
+    try {
+      await fs.mkdir(this.targetsDir, { recursive: true });
+    } catch (error) {
+      throw new AppError(
+        ErrorCode.ERR_TARGET_WRITE_FAILED,
+        `Failed to create targets directory: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    const tempPath = `${filePath}.tmp`;
+    try {
+      await fs.writeFile(tempPath, text, 'utf-8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      try {
+        await fs.unlink(tempPath);
+      } catch {
+        // Ignore cleanup errors
+      }
+
+      throw new AppError(
+        ErrorCode.ERR_TARGET_WRITE_FAILED,
+        `Failed to write target curve: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+
+    return { name, points };
+  }
+
+  /**
+   * Delete a stored target curve
+   * @throws AppError (404) if it does not exist
+   */
+  async deleteTarget(name: string): Promise<void> {
+    const filePath = this.getFilePath(name);
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new AppError(ErrorCode.ERR_TARGET_NOT_FOUND, `Target curve not found: ${name}`, 404);
+      }
+      throw new AppError(
+        ErrorCode.ERR_TARGET_WRITE_FAILED,
+        `Failed to delete target curve: ${(error as Error).message}`,
+        500,
+        { originalError: (error as Error).message }
+      );
+    }
+  }
+
+  /**
+   * Resolve a file name inside the targets dir
+   */
+  private getFilePath(name: string): string {
+    if (!isValidFileName(name)) {
+      throw new AppError(
+        ErrorCode.ERR_BAD_REQUEST,
+        'File name must be a plain name (letters, digits, space, . _ ( ) -) ending in .csv or .txt',
+        400
+      );
+    }
+    return join(this.targetsDir, name);
+  }
+}
+
+function isValidFileName(name: string): boolean {
+  return (
+    FILE_NAME_PATTERN.test(name) && !name.includes('..') && TARGET_EXTENSIONS.has(extname(name).toLowerCase())
+  );
+}
@@ -5,8 +5,35 @@ export enum ErrorCode {
   // Config errors
   ERR_CONFIG_NOT_FOUND = 'ERR_CONFIG_NOT_FOUND',
   ERR_CONFIG_INVALID_JSON = 'ERR_CONFIG_INVALID_JSON',
+  ERR_CONFIG_INVALID_YAML = 'ERR_CONFIG_INVALID_YAML',
+  ERR_CONFIG_VALIDATION = 'ERR_CONFIG_VALIDATION',
   ERR_CONFIG_TOO_LARGE = 'ERR_CONFIG_TOO_LARGE',
   ERR_CONFIG_WRITE_FAILED = 'ERR_CONFIG_WRITE_FAILED',
+  ERR_CONFIG_ALREADY_EXISTS = 'ERR_CONFIG_ALREADY_EXISTS',
+  ERR_REVISION_NOT_FOUND = 'ERR_REVISION_NOT_FOUND',
+  
+  // Coefficient (impulse response) file errors
+  ERR_COEFFICIENT_NOT_FOUND = 'ERR_COEFFICIENT_NOT_FOUND',
+  ERR_COEFFICIENT_INVALID = 'ERR_COEFFICIENT_INVALID',
+  ERR_COEFFICIENT_TOO_LARGE = 'ERR_COEFFICIENT_TOO_LARGE',
+  ERR_COEFFICIENT_WRITE_FAILED = 'ERR_COEFFICIENT_WRITE_FAILED',
+  
+  // Spectrum snapshot errors
+  ERR_SNAPSHOT_NOT_FOUND = 'ERR_SNAPSHOT_NOT_FOUND',
+  ERR_SNAPSHOT_INVALID = 'ERR_SNAPSHOT_INVALID',
+  ERR_SNAPSHOT_LIMIT = 'ERR_SNAPSHOT_LIMIT',
+  
+  // Target curve errors
+  ERR_TARGET_NOT_FOUND = 'ERR_TARGET_NOT_FOUND',
+  ERR_TARGET_INVALID = 'ERR_TARGET_INVALID',
+  ERR_TARGET_TOO_LARGE = 'ERR_TARGET_TOO_LARGE',
+  ERR_TARGET_WRITE_FAILED = 'ERR_TARGET_WRITE_FAILED',
+  
+  // Frequency-response measurement errors
+  ERR_MEASUREMENT_NOT_FOUND = 'ERR_MEASUREMENT_NOT_FOUND',
+  ERR_MEASUREMENT_INVALID = 'ERR_MEASUREMENT_INVALID',
+  ERR_MEASUREMENT_TOO_LARGE = 'ERR_MEASUREMENT_TOO_LARGE',
+  ERR_MEASUREMENT_WRITE_FAILED = 'ERR_MEASUREMENT_WRITE_FAILED',
   
   // Shell/System errors
   ERR_SHELL_TIMEOUT = 'ERR_SHELL_TIMEOUT',
@@ -8,6 +8,20 @@
  * abstraction that gets converted to CamillaDSP at load time.
  */
 
+/**
+ * Band types (AutoEQ only produces Peaking/LowShelf/HighShelf; the rest come
+ * from Equalizer APO imports)
+ */
+export type EqPresetBandType =
+  | 'Peaking'
+  | 'LowShelf'
+  | 'HighShelf'
+  | 'LowPass'
+  | 'HighPass'
+  | 'BandPass'
+  | 'Notch'
+  | 'AllPass';
+
 export interface EqPresetV1 {
   presetType: 'eq';
   schemaVersion: 1;
@@ -27,7 +41,7 @@ export interface EqPresetV1 {
 
   // EQ bands (ordered by filter index)
   bands: Array<{
-    type: 'Peaking' | 'LowShelf' | 'HighShelf';
+    type: EqPresetBandType;
     freqHz: number;  // Rounded to nearest Hz
     gainDb: number;  // Rounded to 0.1 dB
     q: number;       // Rounded to 0.1, clamped [0.1, 10]
@@ -121,7 +135,7 @@ export function validateAndNormalizeBand(
   }
 
   const normalized: EqPresetV1['bands'][0] = {
-    type: band.type as 'Peaking' | 'LowShelf' | 'HighShelf',
+    type: band.type as EqPresetBandType,
     freqHz: freqNormalized,
     gainDb: gainNormalized,
     q: qNormalized,
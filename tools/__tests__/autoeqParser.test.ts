@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parseParametricEQ, ParseError } from '../autoeqParser.js';
+import { parseParametricEQ, extractRawMeasurement, ParseError } from '../autoeqParser.js';
 
 describe('AutoEQ Parser', () => {
   describe('parseParametricEQ', () => {
@@ -235,4 +235,20 @@ Filter 1: ON PK Fc 100 Hz Gain 1.0 dB Q 1.0
       expect(result.preset.bands).toHaveLength(0);
     });
   });
+
+  describe('extractRawMeasurement', () => {
+    it('should keep only the frequency and raw columns', () => {
+      const content = `frequency,raw,error,smoothed,target
+20.0,5.12,1.0,5.0,4.12
+1000.0,0.0,0.0,0.0,0.0
+`;
+
+      expect(extractRawMeasurement(content)).toBe('frequency,raw\n20,5.12\n1000,0\n');
+    });
+
+    it('should throw ParseError without a raw column or on malformed rows', () => {
+      expect(() => extractRawMeasurement('frequency,target\n20,1\n30,2\n')).toThrow(ParseError);
+      expect(() => extractRawMeasurement('frequency,raw\n20,abc\n30,2\n')).toThrow(/line 2/);
+    });
+  });
 });
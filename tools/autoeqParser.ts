@@ -167,3 +167,40 @@ function parseFilterParams(
 
   return { type, freqHz: freq, gainDb: gain, q };
 }
+
+/**
+ * Extract the raw measurement from an AutoEQ result CSV
+ *
+ * Result CSVs have a header row (`frequency,raw,error,smoothed,...,target`);
+ * only the frequency and raw columns are kept, as a `frequency,raw` CSV.
+ */
+export function extractRawMeasurement(content: string): string {
+  const lines = content.split('\n').map((l) => l.trim()).filter(Boolean);
+  if (lines.length === 0) {
+    throw new ParseError('Empty measurement CSV', 0, '');
+  }
+
+  const header = lines[0].toLowerCase().split(',');
+  const freqIndex = header.indexOf('frequency');
+  const rawIndex = header.indexOf('raw');
+  if (freqIndex < 0 || rawIndex < 0) {
+    throw new ParseError('Measurement CSV needs frequency and raw columns', 1, lines[0]);
+  }
+
+  const rows = ['frequency,raw'];
+  for (let i = 1; i < lines.length; i++) {
+    const fields = lines[i].split(',');
+    const freq = parseFloat(fields[freqIndex]);
+    const raw = parseFloat(fields[rawIndex]);
+    if (isNaN(freq) || isNaN(raw)) {
+      throw new ParseError('Invalid numeric values in measurement row', i + 1, lines[i]);
+    }
+    rows.push(`${freq},${raw}`);
+  }
+
+  if (rows.length < 3) {
+    throw new ParseError('Measurement CSV has fewer than two rows', lines.length, lines[lines.length - 1]);
+  }
+
+  return rows.join('\n') + '\n';
+}
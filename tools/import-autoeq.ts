@@ -2,24 +2,28 @@
 /**
  * AutoEQ Preset Import Script (Build-Time Only)
  * 
- * Usage: npm run import:autoeq
+ * Usage: npm run import:autoeq [-- --measurements]
  * 
  * This script:
  * 1. Clones AutoEQ repo into temp vendor/ directory (gitignored)
  * 2. Parses results/README.md to find devices to import
  * 3. Converts ParametricEQ.txt files to EqPresetV1 JSON
  * 4. Writes deterministic output to server/data/configs/autoeq/
+ *    (with --measurements, also each device's raw measurement to server/data/measurements/)
  * 5. Cleans up vendor directory
  */
 
 import { execSync } from 'child_process';
 import { promises as fs } from 'fs';
 import { join, dirname } from 'path';
-import { parseParametricEQ, ParseError } from './autoeqParser.js';
+import { parseParametricEQ, extractRawMeasurement, ParseError } from './autoeqParser.js';
 
 const AUTOEQ_REPO = 'https://github.com/jaakkopasanen/AutoEq.git';
 const VENDOR_DIR = './vendor/autoeq';
 const OUTPUT_DIR = './server/data/configs/autoeq';
+const MEASUREMENTS_OUTPUT_DIR = './server/data/measurements';
+// Raw measurements add a few MB; opt in with --measurements
+const IMPORT_MEASUREMENTS = process.argv.includes('--measurements');
 
 interface DeviceReference {
   category: 'headphones' | 'iems' | 'speakers' | 'unknown';
@@ -243,6 +247,10 @@ async function processDevice(device: DeviceReference): Promise<any> {
 
   console.log(`✅ ${device.deviceName} (${preset.bands.length} bands)`);
 
+  if (IMPORT_MEASUREMENTS) {
+    await writeMeasurementCsv(deviceFolderPath, preset);
+  }
+
   // Build metadata entry for manifest (using same ID algorithm as ConfigsLibrary)
   const id = relativePath
     .replace('.json', '')
@@ -322,11 +330,7 @@ async function writePresetJson(
   await fs.mkdir(categoryDir, { recursive: true });
 
   // Build filename: <Manufacturer> <Model>[-<Variant>].json
-  let filename = `${preset.device.manufacturer} ${preset.device.model}`;
-  if (preset.device.variant) {
-    filename += ` ${preset.device.variant}`;
-  }
-  filename += '.json';
+  const filename = `${deviceFileBaseName(preset)}.json`;
 
   const outputPath = join(categoryDir, filename);
 
@@ -349,6 +353,42 @@ async function writePresetJson(
   };
 }
 
+/**
+ * Device name used for output files: <Manufacturer> <Model>[ <Variant>]
+ * Measurements are linked to presets through this name
+ */
+function deviceFileBaseName(preset: any): string {
+  let name = `${preset.device.manufacturer} ${preset.device.model}`;
+  if (preset.device.variant) {
+    name += ` ${preset.device.variant}`;
+  }
+  return name;
+}
+
+/**
+ * Write the device's raw measurement (frequency,raw) next to the configs dir
+ * File path: server/data/measurements/<Manufacturer> <Model>[ <Variant>].csv
+ * A missing or malformed result CSV is logged and does not fail the preset
+ */
+async function writeMeasurementCsv(deviceFolderPath: string, preset: any): Promise<void> {
+  try {
+    const entries = await fs.readdir(deviceFolderPath);
+    const csvFiles = entries.filter(f => f.endsWith('.csv'));
+    if (csvFiles.length !== 1) {
+      console.log(`⚠️  ${preset.name}: expected one result CSV, found ${csvFiles.length} - measurement skipped`);
+      return;
+    }
+
+    const content = await fs.readFile(join(deviceFolderPath, csvFiles[0]), 'utf-8');
+    const measurement = extractRawMeasurement(content);
+
+    await fs.mkdir(MEASUREMENTS_OUTPUT_DIR, { recursive: true });
+    await fs.writeFile(join(MEASUREMENTS_OUTPUT_DIR, `${deviceFileBaseName(preset)}.csv`), measurement, 'utf-8');
+  } catch (error) {
+    console.log(`⚠️  ${preset.name}: measurement skipped - ${(error as Error).message}`);
+  }
+}
+
 /**
  * Write manifest file with all AutoEQ preset metadata
  * This allows ConfigsLibrary to load AutoEQ presets without scanning files